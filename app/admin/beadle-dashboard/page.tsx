@@ -5,12 +5,21 @@ import dynamic from "next/dynamic";
 import { ToastContainer } from '@/components/Toast';
 import { useToast } from '@/hooks/useToast';
 import Image from 'next/image';
+import { getSchoolForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
+import { ConfirmationModal } from '@/components/ConfirmationModal';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { getSlipConflicts, mergeConflictingSlips, discardSlip } from "@/lib/slip-conflict-actions";
+import type { SlipConflictGroup, SlipSummary } from "@/lib/slip-conflicts";
+import { getCurrentJamaicanDate } from "@/lib/timeUtils";
+import { SlipHistory } from "@/components/SlipHistory";
 
 type BeadleSlip = {
   id: number;
   beadle_email: string;
   grade_level: string;
   class_name: string;
+  form_id: number | null;
   class_start_time: string;
   class_end_time: string;
   date: string;
@@ -30,11 +39,22 @@ type BeadleSlip = {
 type SortField = 'date' | 'teacher' | 'subject' | 'class_name' | 'students_present' | 'created_at';
 type SortDirection = 'asc' | 'desc';
 
+// How far back the conflicts view looks for overlapping slips.
+const CONFLICT_WINDOW_DAYS = 90;
+
+const overlaps = (a: SlipSummary, b: SlipSummary) =>
+  a.class_start_time < b.class_end_time && b.class_start_time < a.class_end_time;
+
 function BeadleDashboardContent() {
   const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
   const [slips, setSlips] = useState<BeadleSlip[]>([]);
+  const [view, setView] = useState<'slips' | 'conflicts'>('slips');
+  const [canResolve, setCanResolve] = useState(false);
+  const [conflictGroups, setConflictGroups] = useState<SlipConflictGroup[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [forms, setForms] = useState<FormRecord[]>([]);
   const [filterGrade, setFilterGrade] = useState("");
   const [filterDate, setFilterDate] = useState("");
   const [filterTeacher, setFilterTeacher] = useState("");
@@ -49,8 +69,66 @@ function BeadleDashboardContent() {
 
   useEffect(() => {
     loadSlips();
+    loadForms();
+    loadConflicts();
   }, []);
 
+  // Only people who can resolve conflicts get the conflicts tab.
+  const loadConflicts = async () => {
+    const to = getCurrentJamaicanDate();
+    const from = new Date(`${to}T12:00:00Z`);
+    from.setUTCDate(from.getUTCDate() - CONFLICT_WINDOW_DAYS);
+    const result = await getSlipConflicts(from.toISOString().slice(0, 10), to);
+    setCanResolve(result.success);
+    setConflictGroups(result.groups || []);
+  };
+
+  const describeSlip = (slip: SlipSummary) =>
+    `${slip.class_name}, ${formatDate(slip.date)}, ${formatTime(slip.class_start_time)} - ${formatTime(slip.class_end_time)}\n${slip.subject} with ${slip.teacher}\nBeadle: ${slip.beadle_email.split('@')[0]}`;
+
+  const handleKeepSlip = async (keep: SlipSummary, group: SlipConflictGroup) => {
+    const others = group.slips.filter(slip => slip.id !== keep.id && overlaps(slip, keep));
+    const confirmed = await confirm({
+      title: "Keep This Slip",
+      message: `Keep this slip and merge ${others.length === 1 ? "the overlapping slip" : `the ${others.length} overlapping slips`} into it?\n\n${describeSlip(keep)}\n\nAbsent and late students missing from it are copied across; the other slips are set aside.`,
+      confirmText: "Merge",
+      cancelText: "Cancel"
+    });
+    if (!confirmed) return;
+
+    const result = await mergeConflictingSlips(keep.id, others.map(slip => slip.id));
+    if (result.success) {
+      success(`Slips merged${result.copied ? `, ${result.copied} student${result.copied === 1 ? "" : "s"} copied across` : ""}.`);
+      await Promise.all([loadSlips(), loadConflicts()]);
+    } else {
+      error(`Failed to merge slips: ${result.error}`);
+    }
+  };
+
+  const handleDiscardSlip = async (slip: SlipSummary) => {
+    const confirmed = await confirm({
+      title: "Discard Slip",
+      message: `Discard this slip? Nothing on it will be kept in reports.\n\n${describeSlip(slip)}`,
+      confirmText: "Discard",
+      cancelText: "Cancel",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    const result = await discardSlip(slip.id);
+    if (result.success) {
+      success("Slip discarded.");
+      await Promise.all([loadSlips(), loadConflicts()]);
+    } else {
+      error(`Failed to discard slip: ${result.error}`);
+    }
+  };
+
+  const loadForms = async () => {
+    const result = await getSchoolForms();
+    setForms(result.forms || []);
+  };
+
   const loadSlips = async () => {
     try {
       const data = await getBeadleSlips();
@@ -70,7 +148,7 @@ function BeadleDashboardContent() {
       slip.beadle_email.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesDate = filterDate === "" || slip.date === filterDate;
-    const matchesGrade = filterGrade === "" || slip.grade_level === filterGrade;
+    const matchesGrade = filterGrade === "" || String(slip.form_id) === filterGrade;
     const matchesTeacher = filterTeacher === "" || slip.teacher.toLowerCase().includes(filterTeacher.toLowerCase());
     const matchesSubject = filterSubject === "" || slip.subject.toLowerCase().includes(filterSubject.toLowerCase());
     
@@ -141,6 +219,103 @@ function BeadleDashboardContent() {
             <p style={{color: '#B91C47'}}>Monitor and manage beadle attendance reports across all forms</p>
           </div>
 
+          {canResolve && (
+            <div className="flex gap-2 mb-6 border-b border-gray-200">
+              {([['slips', 'All Slips'], ['conflicts', `Conflicts (${conflictGroups.length})`]] as const).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setView(id)}
+                  className={`px-4 py-2 -mb-px border-b-2 font-medium transition-colors ${view === id ? '' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  style={view === id ? {color: '#B91C47', borderColor: '#B91C47'} : undefined}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {view === 'conflicts' ? (
+            conflictGroups.length === 0 ? (
+              <div className="text-center py-12 text-gray-500 text-lg">
+                No overlapping slips in the last {CONFLICT_WINDOW_DAYS} days.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <p className="text-sm text-gray-600">
+                  These slips cover the same class at overlapping times. Keep the right one to merge the others into it, or discard a slip filed by mistake.
+                </p>
+                {conflictGroups.map(group => (
+                  <div key={group.slips[0].id} className="bg-gray-50 p-6 rounded-lg border border-orange-200">
+                    <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-xl font-semibold" style={{color: '#B91C47'}}>{group.class_name} · {formatDate(group.date)}</h3>
+                      <span className="bg-orange-100 text-orange-800 px-2 py-1 rounded text-sm">{group.slips.length} overlapping slips</span>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full border-collapse border border-gray-300">
+                        <thead>
+                          <tr className="bg-white">
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Time</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Subject</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Teacher</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Absent</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Late</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Present</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Beadle</th>
+                            <th className="border border-gray-300 px-3 py-2 text-left text-sm">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {group.slips.map(slip => {
+                            const fullSlip = slips.find(s => s.id === slip.id);
+                            return (
+                              <tr key={slip.id} className="hover:bg-white align-top">
+                                <td className="border border-gray-300 px-3 py-2 text-sm whitespace-nowrap">
+                                  {slip.period ? `P${slip.period} · ` : ""}{formatTime(slip.class_start_time)} - {formatTime(slip.class_end_time)}
+                                </td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.subject}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.teacher}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.absent_students.join(", ") || "—"}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.late_students.join(", ") || "—"}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.students_present}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">{slip.beadle_email.split('@')[0]}</td>
+                                <td className="border border-gray-300 px-3 py-2 text-sm">
+                                  <div className="flex flex-col gap-1">
+                                    {fullSlip && (
+                                      <button
+                                        onClick={() => setSelectedSlip(fullSlip)}
+                                        className="px-2 py-1 text-xs rounded border transition-colors hover:bg-red-50"
+                                        style={{color: '#B91C47', borderColor: '#B91C47'}}
+                                      >
+                                        Details
+                                      </button>
+                                    )}
+                                    <button
+                                      onClick={() => handleKeepSlip(slip, group)}
+                                      className="px-2 py-1 text-white text-xs rounded transition-colors"
+                                      style={{backgroundColor: '#B91C47'}}
+                                    >
+                                      Keep &amp; merge
+                                    </button>
+                                    <button
+                                      onClick={() => handleDiscardSlip(slip)}
+                                      className="px-2 py-1 bg-gray-500 hover:bg-gray-600 text-white text-xs rounded transition-colors"
+                                    >
+                                      Discard
+                                    </button>
+                                  </div>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : (
+          <>
           <div className="mb-6 space-y-4">
             <div className="flex flex-col lg:flex-row gap-4">
               <div className="flex-1">
@@ -159,13 +334,9 @@ function BeadleDashboardContent() {
                   className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2" style={{'--tw-ring-color': '#B91C47'} as any}
                 >
                   <option value="">All Forms</option>
-                  <option value="1st Form">1st Form</option>
-                  <option value="2nd Form">2nd Form</option>
-                  <option value="3rd Form">3rd Form</option>
-                  <option value="4th Form">4th Form</option>
-                  <option value="5th Form">5th Form</option>
-                  <option value="6B">6B (Lower 6th)</option>
-                  <option value="6A">6A (Upper 6th)</option>
+                  {forms.map(form => (
+                    <option key={form.id} value={form.id}>{form.display_name}</option>
+                  ))}
                 </select>
                 <input
                   type="date"
@@ -322,6 +493,8 @@ function BeadleDashboardContent() {
               </div>
             </>
           )}
+          </>
+          )}
         </div>
       </div>
 
@@ -548,6 +721,8 @@ function BeadleDashboardContent() {
                 </div>
               </div>
 
+              <SlipHistory slipId={selectedSlip.id} />
+
               <div className="flex justify-between items-center">
                 <div className="flex space-x-3">
                   <button
@@ -603,6 +778,16 @@ function BeadleDashboardContent() {
       )}
       
       <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
     </main>
   );
 }
@@ -0,0 +1,463 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaBell, FaPlus, FaSave, FaTrash, FaStar, FaTimes } from "react-icons/fa";
+import {
+  getBellScheduleSettings,
+  saveSchedule,
+  makeDefaultSchedule,
+  removeSchedule,
+  assignSchedule
+} from "@/lib/bell-schedule-actions";
+import type { BellSchedule, ScheduleAssignment } from "@/lib/bell-schedules";
+import { formatJamaicanDate, getCurrentJamaicanTime } from "@/lib/timeUtils";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+
+// Period is blank for breaks.
+type SlotDraft = {
+  period: string;
+  label: string;
+  start_time: string;
+  end_time: string;
+};
+
+type ScheduleDraft = {
+  id: number | null;
+  name: string;
+  slots: SlotDraft[];
+};
+
+const UPCOMING_DAYS = 120;
+
+function isoDate(date: Date) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function toDraft(schedule: BellSchedule): ScheduleDraft {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    slots: schedule.slots.map(slot => ({
+      period: slot.period !== null ? String(slot.period) : "",
+      label: slot.label,
+      start_time: slot.start_time,
+      end_time: slot.end_time
+    }))
+  };
+}
+
+export default function BellSchedulesPage() {
+  const [schedules, setSchedules] = useState<BellSchedule[]>([]);
+  const [assignments, setAssignments] = useState<ScheduleAssignment[]>([]);
+  const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+  const [assignment, setAssignment] = useState({ scheduleId: "", from: "", to: "", note: "" });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  const today = getCurrentJamaicanTime();
+  const from = isoDate(today);
+  const until = new Date(today);
+  until.setDate(until.getDate() + UPCOMING_DAYS);
+  const to = isoDate(until);
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async (selectId?: number) => {
+    try {
+      const result = await getBellScheduleSettings(from, to);
+      if (result.success) {
+        const loaded = result.schedules || [];
+        setSchedules(loaded);
+        setAssignments(result.assignments || []);
+        const selected = loaded.find(schedule => schedule.id === (selectId ?? draft?.id)) ?? loaded[0];
+        setDraft(selected ? toDraft(selected) : null);
+      } else {
+        error(result.error || "Failed to load bell schedules");
+      }
+    } catch (err) {
+      console.error("Error loading bell schedules:", err);
+      error("Failed to load bell schedules");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSlot = (index: number, changes: Partial<SlotDraft>) => {
+    if (!draft) return;
+    setDraft({ ...draft, slots: draft.slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot) });
+  };
+
+  const addSlot = (isBreak: boolean) => {
+    if (!draft) return;
+    const last = draft.slots[draft.slots.length - 1];
+    const nextPeriod = Math.max(0, ...draft.slots.map(slot => Number(slot.period) || 0)) + 1;
+    setDraft({
+      ...draft,
+      slots: [...draft.slots, {
+        period: isBreak ? "" : String(nextPeriod),
+        label: isBreak ? "Break" : `Period ${nextPeriod}`,
+        start_time: last?.end_time ?? "",
+        end_time: ""
+      }]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setSaving(true);
+    try {
+      const result = await saveSchedule(draft.id, draft.name, draft.slots.map(slot => ({
+        period: slot.period.trim() ? Number(slot.period) : null,
+        label: slot.label,
+        start_time: slot.start_time,
+        end_time: slot.end_time
+      })));
+      if (result.success) {
+        success(`${draft.name.trim()} saved`);
+        await loadSchedules(result.id);
+      } else {
+        error(result.error || "Failed to save the schedule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (schedule: BellSchedule) => {
+    setSaving(true);
+    try {
+      const result = await makeDefaultSchedule(schedule.id);
+      if (result.success) {
+        success(`${schedule.name} is now the default schedule`);
+        await loadSchedules(schedule.id);
+      } else {
+        error(result.error || "Failed to change the default schedule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: BellSchedule) => {
+    const confirmed = await confirm({
+      title: "Delete Schedule",
+      message: `Delete the ${schedule.name} schedule? Days assigned to it go back to the default.`,
+      confirmText: "Delete",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    setSaving(true);
+    try {
+      const result = await removeSchedule(schedule.id);
+      if (result.success) {
+        success(`${schedule.name} deleted`);
+        setDraft(null);
+        await loadSchedules(schedules.find(s => s.is_default)?.id);
+      } else {
+        error(result.error || "Failed to delete the schedule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAssign = async (scheduleId: number | null, fromDate: string, toDate: string, note: string) => {
+    setSaving(true);
+    try {
+      const result = await assignSchedule(scheduleId, fromDate, toDate, note);
+      if (result.success) {
+        success(scheduleId === null ? `${result.days} day(s) back on the default schedule` : `Schedule set for ${result.days} school day(s)`);
+        setAssignment({ scheduleId: "", from: "", to: "", note: "" });
+        await loadSchedules();
+      } else {
+        error(result.error || "Failed to assign the schedule");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selected = schedules.find(schedule => schedule.id === draft?.id);
+  const defaultSchedule = schedules.find(schedule => schedule.is_default);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaBell className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Bell Schedules
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Period times for each kind of school day. Beadle slips and the timetable use the default schedule
+            unless a different one is set for the date below.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Loading bell schedules...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                {schedules.map(schedule => (
+                  <button
+                    key={schedule.id}
+                    onClick={() => setDraft(toDraft(schedule))}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors ${
+                      draft?.id === schedule.id ? "border-[#8B1538] bg-red-50 text-[#8B1538]" : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                    }`}
+                  >
+                    {schedule.is_default ? <FaStar className="text-yellow-500" title="Default schedule" /> : null}
+                    {schedule.name}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setDraft({ id: null, name: "", slots: draft?.slots ?? [] })}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  <FaPlus /> New Schedule
+                </button>
+              </div>
+
+              {draft && (
+                <>
+                  <div className="flex flex-wrap items-end gap-4 mb-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-600">Name</label>
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="e.g. Sports Day"
+                        className="mt-1 w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                    </div>
+                    {draft.id === null && (
+                      <span className="text-sm text-gray-500">New schedules start as a copy of the one you were looking at.</span>
+                    )}
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                          {["Period", "Label", "Starts", "Ends", ""].map(heading => (
+                            <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              {heading}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {draft.slots.map((slot, index) => (
+                          <tr key={index} className={slot.period ? "" : "bg-gray-50"}>
+                            <td className="px-3 py-2">
+                              <input
+                                type="number"
+                                min="1"
+                                value={slot.period}
+                                onChange={(e) => updateSlot(index, { period: e.target.value })}
+                                placeholder="Break"
+                                title="Leave blank for breaks, devotion and lunch"
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input
+                                type="text"
+                                value={slot.label}
+                                onChange={(e) => updateSlot(index, { label: e.target.value })}
+                                className="w-48 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input
+                                type="time"
+                                value={slot.start_time}
+                                onChange={(e) => updateSlot(index, { start_time: e.target.value })}
+                                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              <input
+                                type="time"
+                                value={slot.end_time}
+                                onChange={(e) => updateSlot(index, { end_time: e.target.value })}
+                                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              <button
+                                onClick={() => setDraft({ ...draft, slots: draft.slots.filter((_, i) => i !== index) })}
+                                title="Remove"
+                                className="text-gray-400 hover:text-red-600"
+                              >
+                                <FaTimes />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    <button
+                      onClick={() => addSlot(false)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      <FaPlus /> Add Period
+                    </button>
+                    <button
+                      onClick={() => addSlot(true)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      <FaPlus /> Add Break
+                    </button>
+                    <div className="flex-1" />
+                    {selected && !selected.is_default && (
+                      <>
+                        <button
+                          onClick={() => handleMakeDefault(selected)}
+                          disabled={saving}
+                          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                        >
+                          <FaStar /> Make Default
+                        </button>
+                        <button
+                          onClick={() => handleDelete(selected)}
+                          disabled={saving}
+                          className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          <FaTrash /> Delete
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={handleSave}
+                      disabled={saving || !draft.name.trim()}
+                      className="flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                      style={{backgroundColor: '#8B1538'}}
+                    >
+                      <FaSave /> Save Schedule
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">School Calendar</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Put a run of school days on a different schedule, e.g. exam week. Weekends are skipped.
+              </p>
+
+              <div className="flex flex-wrap items-end gap-4 mb-6">
+                <div>
+                  <label className="text-sm font-medium text-gray-600">From</label>
+                  <input
+                    type="date"
+                    value={assignment.from}
+                    onChange={(e) => setAssignment({ ...assignment, from: e.target.value, to: assignment.to || e.target.value })}
+                    className="mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">To</label>
+                  <input
+                    type="date"
+                    value={assignment.to}
+                    onChange={(e) => setAssignment({ ...assignment, to: e.target.value })}
+                    className="mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Schedule</label>
+                  <select
+                    value={assignment.scheduleId}
+                    onChange={(e) => setAssignment({ ...assignment, scheduleId: e.target.value })}
+                    className="mt-1 w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  >
+                    <option value="">Default ({defaultSchedule?.name ?? "none"})</option>
+                    {schedules.filter(schedule => !schedule.is_default).map(schedule => (
+                      <option key={schedule.id} value={schedule.id}>{schedule.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Note</label>
+                  <input
+                    type="text"
+                    value={assignment.note}
+                    onChange={(e) => setAssignment({ ...assignment, note: e.target.value })}
+                    placeholder="e.g. Christmas exams"
+                    className="mt-1 w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={() => handleAssign(assignment.scheduleId ? Number(assignment.scheduleId) : null, assignment.from, assignment.to, assignment.note)}
+                  disabled={saving || !assignment.from || !assignment.to}
+                  className="flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                  style={{backgroundColor: '#8B1538'}}
+                >
+                  <FaSave /> Set Schedule
+                </button>
+              </div>
+
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                Days off the default in the next {UPCOMING_DAYS} days
+              </h3>
+              {assignments.length === 0 ? (
+                <p className="text-sm text-gray-500">Every school day is on the default schedule.</p>
+              ) : (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {assignments.map(day => (
+                    <div key={day.date} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <span className="text-gray-800">{formatJamaicanDate(day.date)}</span>
+                      <span className="font-medium text-gray-700">{day.schedule_name}</span>
+                      <span className="text-gray-500 flex-1 px-4">{day.note}</span>
+                      <button
+                        onClick={() => handleAssign(null, day.date, day.date, "")}
+                        disabled={saving}
+                        title="Back to the default schedule"
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      >
+                        <FaTimes />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 "use client";
 import { useState, useEffect } from "react";
 import Image from "next/image";
+import { getSlipEditWindow, updateSlipEditWindow } from "@/lib/slip-edit-actions";
 
 export default function EmailReportsPage() {
   const [selectedDate, setSelectedDate] = useState('2024-01-01'); 
   const [generatedReports, setGeneratedReports] = useState<{ [formLevel: string]: any }>({}); 
   const [loading, setLoading] = useState(false); 
   const [showReports, setShowReports] = useState(false); 
+  const [editCutoff, setEditCutoff] = useState('');
+  const [savingCutoff, setSavingCutoff] = useState(false);
   
 
   useEffect(() => {
@@ -15,8 +18,26 @@ export default function EmailReportsPage() {
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
     setSelectedDate(`${year}-${month}-${day}`);
+
+    getSlipEditWindow().then(result => {
+      if (result.success && result.cutoff) {
+        setEditCutoff(result.cutoff);
+      }
+    });
   }, []);
 
+  const handleSaveEditCutoff = async () => {
+    setSavingCutoff(true);
+    try {
+      const result = await updateSlipEditWindow(editCutoff);
+      if (!result.success) {
+        alert(result.error || 'Error saving the slip edit window. Please try again.');
+      }
+    } finally {
+      setSavingCutoff(false);
+    }
+  };
+
   const handleGenerateReports = async () => {
     setLoading(true);
     try {
@@ -203,6 +224,31 @@ export default function EmailReportsPage() {
               <span>Automatically scheduled for 4:00 PM daily</span>
             </div>
           </div>
+
+          {editCutoff && (
+            <div className="mt-6 pt-6 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-center gap-3">
+              <label htmlFor="editCutoff" className="text-sm font-semibold" style={{color: '#B91C47'}}>
+                Beadles can edit slips until
+              </label>
+              <input
+                type="time"
+                id="editCutoff"
+                value={editCutoff}
+                onChange={(e) => setEditCutoff(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:border-transparent shadow-sm"
+                style={{'--tw-ring-color': '#B91C47'} as any}
+              />
+              <span className="text-sm text-gray-500">on the day of the slip</span>
+              <button
+                onClick={handleSaveEditCutoff}
+                disabled={savingCutoff}
+                className="px-4 py-2 text-white text-sm font-semibold rounded-lg transition-colors"
+                style={{backgroundColor: savingCutoff ? '#9CA3AF' : '#B91C47'}}
+              >
+                {savingCutoff ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          )}
         </div>
 
         {showReports && (
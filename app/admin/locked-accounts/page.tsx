@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaLock, FaSearch, FaUnlock } from "react-icons/fa";
+import { getLockedLogins, clearLoginLock, LoginLock } from "@/lib/lockout-actions";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+export default function LockedAccountsPage() {
+  const [locks, setLocks] = useState<LoginLock[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadLocks();
+  }, []);
+
+  const loadLocks = async () => {
+    try {
+      const result = await getLockedLogins();
+      if (result.success) {
+        setLocks(result.locks || []);
+      } else {
+        error(result.error || "Failed to load locked accounts");
+      }
+    } catch (err) {
+      console.error("Error loading locked accounts:", err);
+      error("Failed to load locked accounts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClearLock = async (lock: LoginLock) => {
+    const label = lock.scope === "account" ? lock.full_name || lock.identifier : `IP address ${lock.identifier}`;
+    const confirmed = await confirm({
+      title: "Clear Lock",
+      message: `Clear the lock on ${label}? Their failed attempt count will be reset.`,
+      confirmText: "Clear Lock",
+      confirmVariant: "primary"
+    });
+    if (!confirmed) return;
+
+    const result = await clearLoginLock(lock.scope, lock.identifier);
+    if (result.success) {
+      success(result.message || "Lock cleared");
+      await loadLocks();
+    } else {
+      error(result.error || "Failed to clear lock");
+    }
+  };
+
+  const filteredLocks = locks.filter(lock =>
+    lock.identifier.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (lock.full_name || "").toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaLock className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Locked Accounts
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Accounts and IP addresses temporarily locked after repeated failed logins
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="relative">
+            <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by name, email or IP..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading locked accounts...
+            </div>
+          ) : filteredLocks.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              No locked accounts
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Account / IP
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Failed Attempts
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Failure
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Locked Until
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredLocks.map((lock) => (
+                    <tr key={`${lock.scope}:${lock.identifier}`} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        {lock.scope === "account" ? (
+                          <>
+                            <div className="font-medium text-gray-900">{lock.full_name || "Unregistered email"}</div>
+                            <div className="text-sm text-gray-500">{lock.identifier}</div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="font-medium text-gray-900">{lock.identifier}</div>
+                            <div className="text-sm text-gray-500">IP address</div>
+                          </>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {lock.failures}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {formatDbTimestamp(lock.last_failure_at)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {formatDbTimestamp(lock.locked_until)}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => handleClearLock(lock)}
+                          className="inline-flex items-center gap-2 px-3 py-2 text-sm text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                          title="Clear Lock"
+                        >
+                          <FaUnlock /> Clear Lock
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useState } from "react";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
-import { FaCog, FaEnvelope, FaBars, FaTimes } from "react-icons/fa";
+import { FaCog, FaEnvelope, FaBars, FaTimes, FaDesktop, FaUserPlus, FaLock, FaShieldAlt, FaUserCheck, FaGraduationCap, FaCalendarAlt, FaChalkboardTeacher, FaBell } from "react-icons/fa";
 import ProtectedRoute from "@/components/ProtectedRoute";
 
 export default function AdminPortal() {
@@ -25,10 +25,73 @@ export default function AdminPortal() {
       description: "Generate and send reports",
       link: "/admin/email-reports"
     },
+    {
+      id: "sessions",
+      name: "Active Sessions",
+      icon: <FaDesktop className="text-xl" />,
+      description: "View and end member sessions",
+      link: "/admin/sessions"
+    },
+    {
+      id: "lockouts",
+      name: "Locked Accounts",
+      icon: <FaLock className="text-xl" />,
+      description: "Clear failed-login lockouts",
+      link: "/admin/locked-accounts"
+    },
+    {
+      id: "signup",
+      name: "Signup Settings",
+      icon: <FaUserPlus className="text-xl" />,
+      description: "Allowed domains and invite codes",
+      link: "/admin/signup-settings"
+    },
+    {
+      id: "security",
+      name: "Security Settings",
+      icon: <FaShieldAlt className="text-xl" />,
+      description: "Two-factor authentication policy",
+      link: "/admin/security"
+    },
+    {
+      id: "role-requests",
+      name: "Role Requests",
+      icon: <FaUserCheck className="text-xl" />,
+      description: "Approve sensitive role grants",
+      link: "/admin/role-requests"
+    },
+    {
+      id: "rollover",
+      name: "Year Rollover",
+      icon: <FaGraduationCap className="text-xl" />,
+      description: "Promote students to the next form",
+      link: "/admin/year-rollover"
+    },
+    {
+      id: "timetable",
+      name: "Timetable",
+      icon: <FaCalendarAlt className="text-xl" />,
+      description: "Class lessons by day and period",
+      link: "/admin/timetable"
+    },
+    {
+      id: "bell-schedules",
+      name: "Bell Schedules",
+      icon: <FaBell className="text-xl" />,
+      description: "Period times and exam-week days",
+      link: "/admin/bell-schedules"
+    },
+    {
+      id: "teachers",
+      name: "Teachers & Subjects",
+      icon: <FaChalkboardTeacher className="text-xl" />,
+      description: "Teacher directory and subject list",
+      link: "/admin/teachers"
+    },
   ];
 
   return (
-    <ProtectedRoute requiredRoles={["admin"]} requireAnyRole={true}>
+    <ProtectedRoute requiredPermission="portal.admin">
       <div className="flex flex-col min-h-screen bg-gradient-to-b from-white to-gray-50">
         <Navbar />
         
@@ -142,6 +205,105 @@ export default function AdminPortal() {
                 />
               </div>
             )}
+
+            {activeSection === "sessions" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/sessions"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Active Sessions"
+                />
+              </div>
+            )}
+
+            {activeSection === "lockouts" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/locked-accounts"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Locked Accounts"
+                />
+              </div>
+            )}
+
+            {activeSection === "signup" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/signup-settings"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Signup Settings"
+                />
+              </div>
+            )}
+
+            {activeSection === "security" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/security"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Security Settings"
+                />
+              </div>
+            )}
+
+            {activeSection === "role-requests" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/role-requests"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Role Requests"
+                />
+              </div>
+            )}
+
+            {activeSection === "rollover" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/year-rollover"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Year Rollover"
+                />
+              </div>
+            )}
+
+            {activeSection === "timetable" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/timetable"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Timetable"
+                />
+              </div>
+            )}
+
+            {activeSection === "bell-schedules" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/bell-schedules"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Bell Schedules"
+                />
+              </div>
+            )}
+
+            {activeSection === "teachers" && (
+              <div className="h-full">
+                <iframe
+                  src="/admin/teachers"
+                  className="w-full h-full border-0"
+                  style={{minHeight: 'calc(100vh - 73px)'}}
+                  title="Teachers & Subjects"
+                />
+              </div>
+            )}
           </main>
         </div>
 
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaUserCheck, FaCheck, FaTimes } from "react-icons/fa";
+import { getRoleRequests } from "@/lib/role-request-actions";
+import { approveRoleRequest, rejectRoleRequest } from "@/lib/role-db-helpers";
+import type { RoleRequestRecord, RoleRequestStatus } from "@/lib/role-requests";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+const statusTabs: { id: RoleRequestStatus; label: string }[] = [
+  { id: "pending", label: "Waiting" },
+  { id: "approved", label: "Approved" },
+  { id: "rejected", label: "Rejected" }
+];
+
+export default function RoleRequestsPage() {
+  const [status, setStatus] = useState<RoleRequestStatus>("pending");
+  const [requests, setRequests] = useState<RoleRequestRecord[]>([]);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadRequests();
+  }, [status]);
+
+  const loadRequests = async () => {
+    setLoading(true);
+    try {
+      const result = await getRoleRequests(status);
+      if (result.success) {
+        setRequests(result.requests || []);
+      } else {
+        error(result.error || "Failed to load role requests");
+      }
+    } catch (err) {
+      console.error("Error loading role requests:", err);
+      error("Failed to load role requests");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecision = async (request: RoleRequestRecord, approve: boolean) => {
+    const confirmed = await confirm({
+      title: approve ? "Approve Request" : "Reject Request",
+      message: approve
+        ? `Give ${request.member_name} the ${request.role_display_name} role?`
+        : `Reject the request to give ${request.member_name} the ${request.role_display_name} role?`,
+      confirmText: approve ? "Approve" : "Reject",
+      confirmVariant: approve ? "primary" : "danger"
+    });
+    if (!confirmed) return;
+
+    const note = notes[request.id];
+    const result = approve
+      ? await approveRoleRequest(request.id, note)
+      : await rejectRoleRequest(request.id, note);
+
+    if (result.success) {
+      success(result.message || "Request updated");
+      await loadRequests();
+    } else {
+      error(result.error || "Failed to update request");
+    }
+  };
+
+  const formatTerm = (request: RoleRequestRecord) => {
+    if (!request.starts_at && !request.expires_at) return "Permanent";
+    return `${request.starts_at ? `From ${request.starts_at}` : "From approval"}${request.expires_at ? ` until ${request.expires_at}` : ""}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaUserCheck className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Role Requests
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Sensitive roles only take effect once someone other than the requester approves them
+          </p>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          {statusTabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setStatus(tab.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                status === tab.id ? 'text-white' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+              }`}
+              style={status === tab.id ? {backgroundColor: '#8B1538'} : {}}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading role requests...
+            </div>
+          ) : requests.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              {status === "pending" ? "Nothing waiting for approval" : "No requests found"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Member
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Requested
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {status === "pending" ? "Note" : "Decision"}
+                    </th>
+                    {status === "pending" && (
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {requests.map((request) => (
+                    <tr key={request.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">{request.member_name || `Member #${request.member_id}`}</div>
+                        <div className="text-sm text-gray-500">
+                          {request.member_email}{request.form_class && ` · ${request.form_class}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{request.role_display_name}</div>
+                        <div className="text-xs text-gray-500">Level {request.permission_level} · {formatTerm(request)}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        <div>{request.requester_name || "Former member"}</div>
+                        <div className="text-xs text-gray-500">{formatDbTimestamp(request.created_at)}</div>
+                        {request.reason && (
+                          <div className="text-sm text-gray-600 mt-1">{request.reason}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {status === "pending" ? (
+                          <input
+                            type="text"
+                            value={notes[request.id] || ""}
+                            onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                            placeholder="Optional note to the requester"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                          />
+                        ) : (
+                          <>
+                            <div>{request.decider_name || "Former member"}</div>
+                            {request.decided_at && (
+                              <div className="text-xs text-gray-500">{formatDbTimestamp(request.decided_at)}</div>
+                            )}
+                            {request.decision_note && (
+                              <div className="text-sm text-gray-600 mt-1">{request.decision_note}</div>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      {status === "pending" && (
+                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleDecision(request, true)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                            title="Approve"
+                          >
+                            <FaCheck />
+                          </button>
+                          <button
+                            onClick={() => handleDecision(request, false)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Reject"
+                          >
+                            <FaTimes />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
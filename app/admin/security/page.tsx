@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaShieldAlt, FaSave } from "react-icons/fa";
+import { getTwoFactorPolicy, updateTwoFactorPolicy } from "@/lib/two-factor-actions";
+import { getRoleApprovalPolicy, updateRoleApprovalPolicy } from "@/lib/role-request-actions";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+
+interface PermissionLevel {
+  level: number;
+  roles: string;
+}
+
+export default function SecuritySettingsPage() {
+  const [levels, setLevels] = useState<PermissionLevel[]>([]);
+  const [requiredLevel, setRequiredLevel] = useState("");
+  const [approvalLevel, setApprovalLevel] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toasts, success, error, removeToast } = useToast();
+
+  useEffect(() => {
+    loadPolicy();
+  }, []);
+
+  const loadPolicy = async () => {
+    try {
+      const [result, approval] = await Promise.all([getTwoFactorPolicy(), getRoleApprovalPolicy()]);
+      if (result.success && approval.success) {
+        setLevels(result.levels || []);
+        setRequiredLevel(result.requiredLevel != null ? String(result.requiredLevel) : "");
+        setApprovalLevel(String(approval.approvalLevel));
+      } else {
+        error(result.error || approval.error || "Failed to load security settings");
+      }
+    } catch (err) {
+      console.error("Error loading security settings:", err);
+      error("Failed to load security settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const result = await updateTwoFactorPolicy(requiredLevel ? parseInt(requiredLevel) : null);
+    if (result.success) {
+      success(result.message || "Security settings updated");
+    } else {
+      error(result.error || "Failed to update security settings");
+    }
+  };
+
+  const handleSaveApproval = async () => {
+    const result = await updateRoleApprovalPolicy(parseInt(approvalLevel));
+    if (result.success) {
+      success(result.message || "Security settings updated");
+    } else {
+      error(result.error || "Failed to update security settings");
+    }
+  };
+
+  const affectedRoles = levels
+    .filter(level => requiredLevel && level.level >= parseInt(requiredLevel))
+    .map(level => level.roles)
+    .join(", ");
+
+  const approvalRoles = levels
+    .filter(level => approvalLevel && level.level >= parseInt(approvalLevel))
+    .map(level => level.roles)
+    .join(", ");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaShieldAlt className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Security Settings
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Decide which roles must use two-factor authentication and which need approval to grant
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {loading ? (
+            <div className="p-6 text-center text-gray-500">
+              Loading settings...
+            </div>
+          ) : (
+            <>
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Mandatory Two-Factor Authentication</h2>
+
+              <label className="text-sm font-medium text-gray-600">Require 2FA from permission level</label>
+              <select
+                value={requiredLevel}
+                onChange={(e) => setRequiredLevel(e.target.value)}
+                className="mt-1 w-full md:w-96 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                <option value="">Optional for everyone</option>
+                {levels.map(level => (
+                  <option key={level.level} value={level.level}>
+                    Level {level.level} and above ({level.roles})
+                  </option>
+                ))}
+              </select>
+
+              <p className="text-sm text-gray-500 mt-3">
+                {affectedRoles
+                  ? `Members with any of these roles will have to set up 2FA before they can continue: ${affectedRoles}.`
+                  : "Members can turn 2FA on from their dashboard, but nobody is forced to."}
+              </p>
+
+              <button
+                onClick={handleSave}
+                className="mt-6 flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <FaSave /> Save Settings
+              </button>
+            </>
+          )}
+        </div>
+
+        {!loading && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">Role Grant Approval</h2>
+
+            <label className="text-sm font-medium text-gray-600">Require a second approver from permission level</label>
+            <select
+              value={approvalLevel}
+              onChange={(e) => setApprovalLevel(e.target.value)}
+              className="mt-1 w-full md:w-96 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              {levels.filter(level => level.level > 1).map(level => (
+                <option key={level.level} value={level.level}>
+                  Level {level.level} and above ({level.roles})
+                </option>
+              ))}
+            </select>
+
+            <p className="text-sm text-gray-500 mt-3">
+              Granting any of these roles creates a request in Role Requests instead of taking effect straight away: {approvalRoles || "none"}.
+            </p>
+
+            <button
+              onClick={handleSaveApproval}
+              className="mt-6 flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <FaSave /> Save Settings
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
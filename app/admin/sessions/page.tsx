@@ -0,0 +1,171 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaDesktop, FaSearch, FaSignOutAlt } from "react-icons/fa";
+import { getMembersWithActiveSessions, forceLogoutMember } from "@/lib/session-actions";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+interface MemberSessions {
+  id: number;
+  full_name: string;
+  email: string;
+  form_class: string | null;
+  session_count: number;
+  last_seen_at: string;
+}
+
+export default function AdminSessionsPage() {
+  const [members, setMembers] = useState<MemberSessions[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [loading, setLoading] = useState(true);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  const loadMembers = async () => {
+    try {
+      const result = await getMembersWithActiveSessions();
+      if (result.success) {
+        setMembers((result.members || []) as MemberSessions[]);
+      } else {
+        error(result.error || "Failed to load sessions");
+      }
+    } catch (err) {
+      console.error("Error loading member sessions:", err);
+      error("Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForceLogout = async (member: MemberSessions) => {
+    const confirmed = await confirm({
+      title: "Force Logout",
+      message: `Sign ${member.full_name} out of all ${member.session_count} session(s)? They will need to log in again.`,
+      confirmText: "Force Logout",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    const result = await forceLogoutMember(member.id);
+    if (result.success) {
+      success(result.message || "Member signed out");
+      await loadMembers();
+    } else {
+      error(result.error || "Failed to force logout");
+    }
+  };
+
+  const filteredMembers = members.filter(member =>
+    member.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    member.email.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaDesktop className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Active Sessions
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Members currently signed in, with the option to end all of their sessions
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="relative">
+            <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading sessions...
+            </div>
+          ) : filteredMembers.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              No active sessions
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Member
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Sessions
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Active
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredMembers.map((member) => (
+                    <tr key={member.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">{member.full_name}</div>
+                        <div className="text-sm text-gray-500">{member.email}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {member.session_count}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {formatDbTimestamp(member.last_seen_at)}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => handleForceLogout(member)}
+                          className="inline-flex items-center gap-2 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Force Logout"
+                        >
+                          <FaSignOutAlt /> Force Logout
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
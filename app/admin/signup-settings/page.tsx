@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaUserPlus, FaSave, FaPlus, FaBan, FaCopy } from "react-icons/fa";
+import {
+  getSignupPolicy,
+  updateSignupPolicy,
+  getInviteCodes,
+  createInviteCode,
+  revokeInviteCode
+} from "@/lib/signup-policy";
+import { getAllRoles } from "@/lib/role-db-helpers";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+interface InviteCode {
+  id: number;
+  code: string;
+  role_name: string | null;
+  role_display_name: string | null;
+  description: string | null;
+  max_uses: number | null;
+  uses: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export default function SignupSettingsPage() {
+  const [domainsText, setDomainsText] = useState("");
+  const [requireInviteCode, setRequireInviteCode] = useState(false);
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
+  const [roles, setRoles] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newRole, setNewRole] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [newMaxUses, setNewMaxUses] = useState("");
+  const [newExpiresAt, setNewExpiresAt] = useState("");
+
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [policy, codes, allRoles] = await Promise.all([
+        getSignupPolicy(),
+        getInviteCodes(),
+        getAllRoles()
+      ]);
+
+      if (policy.success) {
+        setDomainsText((policy.allowedDomains || []).join(", "));
+        setRequireInviteCode(!!policy.requireInviteCode);
+      } else {
+        error(policy.error || "Failed to load signup policy");
+      }
+
+      if (codes.success) {
+        setInviteCodes((codes.inviteCodes || []) as InviteCode[]);
+      }
+
+      setRoles(allRoles as any[]);
+    } catch (err) {
+      console.error("Error loading signup settings:", err);
+      error("Failed to load signup settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    const domains = domainsText.split(/[,\s]+/);
+    const result = await updateSignupPolicy(domains, requireInviteCode);
+
+    if (result.success) {
+      success(result.message || "Signup policy updated");
+      await loadSettings();
+    } else {
+      error(result.error || "Failed to update signup policy");
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    const result = await createInviteCode({
+      roleName: newRole || undefined,
+      description: newDescription,
+      maxUses: newMaxUses ? parseInt(newMaxUses) : null,
+      expiresAt: newExpiresAt || null
+    });
+
+    if (result.success) {
+      success(`Invite code ${result.code} created`);
+      setNewRole("");
+      setNewDescription("");
+      setNewMaxUses("");
+      setNewExpiresAt("");
+      await loadSettings();
+    } else {
+      error(result.error || "Failed to create invite code");
+    }
+  };
+
+  const handleRevokeInvite = async (invite: InviteCode) => {
+    const confirmed = await confirm({
+      title: "Revoke Invite Code",
+      message: `Revoke ${invite.code}? Nobody will be able to sign up with it afterwards.`,
+      confirmText: "Revoke",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    const result = await revokeInviteCode(invite.id);
+    if (result.success) {
+      success(result.message || "Invite code revoked");
+      await loadSettings();
+    } else {
+      error(result.error || "Failed to revoke invite code");
+    }
+  };
+
+  const copyCode = (code: string) => {
+    navigator.clipboard.writeText(code);
+    success("Invite code copied to clipboard");
+  };
+
+  const getInviteStatus = (invite: InviteCode) => {
+    if (invite.revoked_at) return { label: "Revoked", color: "bg-gray-100 text-gray-600" };
+    if (invite.expires_at && new Date(invite.expires_at.replace(" ", "T") + "Z") < new Date()) {
+      return { label: "Expired", color: "bg-gray-100 text-gray-600" };
+    }
+    if (invite.max_uses !== null && invite.uses >= invite.max_uses) {
+      return { label: "Used up", color: "bg-gray-100 text-gray-600" };
+    }
+    return { label: "Active", color: "bg-green-100 text-green-800" };
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaUserPlus className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Signup Settings
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Control who can create an account and hand out invite codes that grant a role
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="p-12 text-center text-gray-500">
+            Loading settings...
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Signup Policy</h2>
+
+              <label className="text-sm font-medium text-gray-600">Allowed email domains</label>
+              <input
+                type="text"
+                value={domainsText}
+                onChange={(e) => setDomainsText(e.target.value)}
+                placeholder="campioncollege.com"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Separate domains with commas. Leave blank to allow any email address.
+              </p>
+
+              <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={requireInviteCode}
+                  onChange={(e) => setRequireInviteCode(e.target.checked)}
+                  className="rounded"
+                />
+                Require an invite code to sign up
+              </label>
+
+              <button
+                onClick={handleSavePolicy}
+                className="mt-6 flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <FaSave /> Save Policy
+              </button>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">New Invite Code</h2>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Grants role</label>
+                  <select
+                    value={newRole}
+                    onChange={(e) => setNewRole(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  >
+                    <option value="">Student (default)</option>
+                    {roles.map(role => (
+                      <option key={role.id} value={role.role_name}>{role.display_name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Description</label>
+                  <input
+                    type="text"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    placeholder="e.g., New staff 2025"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Max uses</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={newMaxUses}
+                    onChange={(e) => setNewMaxUses(e.target.value)}
+                    placeholder="Unlimited"
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Expires</label>
+                  <input
+                    type="date"
+                    value={newExpiresAt}
+                    onChange={(e) => setNewExpiresAt(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <button
+                onClick={handleCreateInvite}
+                className="mt-6 flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors"
+                style={{backgroundColor: '#8B1538'}}
+              >
+                <FaPlus /> Create Invite Code
+              </button>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {inviteCodes.length === 0 ? (
+                <div className="p-12 text-center text-gray-500">
+                  No invite codes yet
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uses</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {inviteCodes.map((invite) => {
+                        const status = getInviteStatus(invite);
+                        return (
+                          <tr key={invite.id} className="hover:bg-gray-50 transition-colors">
+                            <td className="px-6 py-4">
+                              <div className="font-mono font-medium text-gray-900">{invite.code}</div>
+                              {invite.description && (
+                                <div className="text-sm text-gray-500">{invite.description}</div>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {invite.role_display_name || "Student"}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {invite.uses}{invite.max_uses !== null ? ` / ${invite.max_uses}` : ""}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-700">
+                              {invite.expires_at ? formatDbTimestamp(invite.expires_at) : "Never"}
+                            </td>
+                            <td className="px-6 py-4">
+                              <span className={`px-3 py-1 rounded-full text-xs font-medium ${status.color}`}>
+                                {status.label}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4 text-right">
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => copyCode(invite.code)}
+                                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                  title="Copy Code"
+                                >
+                                  <FaCopy />
+                                </button>
+                                {!invite.revoked_at && (
+                                  <button
+                                    onClick={() => handleRevokeInvite(invite)}
+                                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Revoke"
+                                  >
+                                    <FaBan />
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
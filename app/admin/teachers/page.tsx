@@ -0,0 +1,325 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaChalkboardTeacher, FaPlus, FaSave } from "react-icons/fa";
+import { getTeachingDirectory, getLinkableTeachers, updateTeacher, updateSubject } from "@/lib/directory-actions";
+import type { TeacherRecord, SubjectRecord, TeacherMember } from "@/lib/directory";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+
+type TeacherDraft = {
+  display_name: string;
+  member_id: string;
+  active: boolean;
+};
+
+type SubjectDraft = {
+  name: string;
+  active: boolean;
+};
+
+const emptyTeacher: TeacherDraft = { display_name: "", member_id: "", active: true };
+
+export default function TeachersAndSubjectsPage() {
+  const [teachers, setTeachers] = useState<TeacherRecord[]>([]);
+  const [subjects, setSubjects] = useState<SubjectRecord[]>([]);
+  const [members, setMembers] = useState<TeacherMember[]>([]);
+  const [teacherDrafts, setTeacherDrafts] = useState<Record<number, TeacherDraft>>({});
+  const [subjectDrafts, setSubjectDrafts] = useState<Record<number, SubjectDraft>>({});
+  const [newTeacher, setNewTeacher] = useState<TeacherDraft>(emptyTeacher);
+  const [newSubject, setNewSubject] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+
+  useEffect(() => {
+    loadDirectory();
+    loadMembers();
+  }, []);
+
+  const loadDirectory = async () => {
+    try {
+      const result = await getTeachingDirectory();
+      if (result.success) {
+        const loadedTeachers = result.teachers || [];
+        const loadedSubjects = result.subjects || [];
+        setTeachers(loadedTeachers);
+        setSubjects(loadedSubjects);
+        setTeacherDrafts(Object.fromEntries(loadedTeachers.map(teacher => [teacher.id, {
+          display_name: teacher.display_name,
+          member_id: teacher.member_id ? String(teacher.member_id) : "",
+          active: !!teacher.active
+        }])));
+        setSubjectDrafts(Object.fromEntries(loadedSubjects.map(subject => [subject.id, {
+          name: subject.name,
+          active: !!subject.active
+        }])));
+      } else {
+        error(result.error || "Failed to load teachers and subjects");
+      }
+    } catch (err) {
+      console.error("Error loading teachers and subjects:", err);
+      error("Failed to load teachers and subjects");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMembers = async () => {
+    try {
+      const result = await getLinkableTeachers();
+      if (result.success) {
+        setMembers(result.members || []);
+      }
+    } catch (err) {
+      console.error("Error loading teacher members:", err);
+    }
+  };
+
+  const handleSaveTeacher = async (id: number | null) => {
+    const draft = id === null ? newTeacher : teacherDrafts[id];
+    setSaving(true);
+    try {
+      const result = await updateTeacher(id, {
+        display_name: draft.display_name,
+        member_id: draft.member_id ? Number(draft.member_id) : null,
+        active: draft.active
+      });
+      if (result.success) {
+        success(`${draft.display_name.trim()} saved`);
+        if (id === null) {
+          setNewTeacher(emptyTeacher);
+        }
+        await loadDirectory();
+      } else {
+        error(result.error || "Failed to save teacher");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSubject = async (id: number | null) => {
+    const draft = id === null ? { name: newSubject, active: true } : subjectDrafts[id];
+    setSaving(true);
+    try {
+      const result = await updateSubject(id, draft);
+      if (result.success) {
+        success(`${draft.name.trim()} saved`);
+        if (id === null) {
+          setNewSubject("");
+        }
+        await loadDirectory();
+      } else {
+        error(result.error || "Failed to save subject");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Picking a member for a new teacher fills in their name as a starting point.
+  const linkNewTeacher = (memberId: string) => {
+    const member = members.find(m => String(m.id) === memberId);
+    setNewTeacher(prev => ({
+      ...prev,
+      member_id: memberId,
+      display_name: prev.display_name || member?.full_name || ""
+    }));
+  };
+
+  const memberOptions = (
+    <>
+      <option value="">Not linked</option>
+      {members.map(member => (
+        <option key={member.id} value={member.id}>{member.full_name} ({member.email})</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaChalkboardTeacher className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Teachers & Subjects
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            The teachers and subjects beadles pick from on the slip and that the timetable is built from.
+            Untick Active to retire one without losing it from past slips.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Loading teachers and subjects...
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Teachers ({teachers.length})</h2>
+
+              <div className="flex flex-wrap items-end gap-3 mb-6 p-4 bg-gray-50 rounded-lg">
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Name as beadles see it</label>
+                  <input
+                    type="text"
+                    value={newTeacher.display_name}
+                    onChange={(e) => setNewTeacher({ ...newTeacher, display_name: e.target.value })}
+                    placeholder="Ms. Johnson"
+                    className="mt-1 w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Member account</label>
+                  <select
+                    value={newTeacher.member_id}
+                    onChange={(e) => linkNewTeacher(e.target.value)}
+                    className="mt-1 w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  >
+                    {memberOptions}
+                  </select>
+                </div>
+                <button
+                  onClick={() => handleSaveTeacher(null)}
+                  disabled={saving || !newTeacher.display_name.trim()}
+                  className="flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                  style={{backgroundColor: '#8B1538'}}
+                >
+                  <FaPlus /> Add Teacher
+                </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      {["Name", "Member account", "Active", ""].map(heading => (
+                        <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {teachers.map(teacher => {
+                      const draft = teacherDrafts[teacher.id];
+                      if (!draft) return null;
+
+                      return (
+                        <tr key={teacher.id} className={teacher.active ? "" : "bg-gray-50 text-gray-500"}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="text"
+                              value={draft.display_name}
+                              onChange={(e) => setTeacherDrafts(prev => ({ ...prev, [teacher.id]: { ...draft, display_name: e.target.value } }))}
+                              className="w-48 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <select
+                              value={draft.member_id}
+                              onChange={(e) => setTeacherDrafts(prev => ({ ...prev, [teacher.id]: { ...draft, member_id: e.target.value } }))}
+                              className="w-64 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                            >
+                              {memberOptions}
+                              {teacher.member_id && !members.some(m => m.id === teacher.member_id) && (
+                                <option value={teacher.member_id}>{teacher.member_name} (no longer a teacher)</option>
+                              )}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={draft.active}
+                              onChange={(e) => setTeacherDrafts(prev => ({ ...prev, [teacher.id]: { ...draft, active: e.target.checked } }))}
+                              className="accent-[#8B1538]"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <button
+                              onClick={() => handleSaveTeacher(teacher.id)}
+                              disabled={saving}
+                              title={`Save ${teacher.display_name}`}
+                              className="flex items-center gap-1 px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                            >
+                              <FaSave /> Save
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {teachers.length === 0 && (
+                  <p className="text-center text-gray-500 py-6">No teachers yet. Add the first one above.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Subjects ({subjects.length})</h2>
+
+              <div className="flex gap-2 mb-6">
+                <input
+                  type="text"
+                  value={newSubject}
+                  onChange={(e) => setNewSubject(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && newSubject.trim() && handleSaveSubject(null)}
+                  placeholder="New subject"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => handleSaveSubject(null)}
+                  disabled={saving || !newSubject.trim()}
+                  className="flex items-center gap-1 px-3 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                  style={{backgroundColor: '#8B1538'}}
+                >
+                  <FaPlus /> Add
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {subjects.map(subject => {
+                  const draft = subjectDrafts[subject.id];
+                  if (!draft) return null;
+
+                  return (
+                    <div key={subject.id} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setSubjectDrafts(prev => ({ ...prev, [subject.id]: { ...draft, name: e.target.value } }))}
+                        className={`flex-1 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent ${subject.active ? "" : "text-gray-400"}`}
+                      />
+                      <input
+                        type="checkbox"
+                        checked={draft.active}
+                        onChange={(e) => setSubjectDrafts(prev => ({ ...prev, [subject.id]: { ...draft, active: e.target.checked } }))}
+                        title="Active"
+                        className="accent-[#8B1538]"
+                      />
+                      <button
+                        onClick={() => handleSaveSubject(subject.id)}
+                        disabled={saving || (draft.name === subject.name && draft.active === !!subject.active)}
+                        title={`Save ${subject.name}`}
+                        className="p-2 text-gray-500 hover:text-[#8B1538] disabled:opacity-30"
+                      >
+                        <FaSave />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,478 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaCalendarAlt, FaDownload, FaUpload, FaCheck, FaSave, FaTimes } from "react-icons/fa";
+import { getSchoolForms } from "@/lib/form-actions";
+import { getTeachingDirectory } from "@/lib/directory-actions";
+import {
+  getTimetableForClass,
+  saveTimetableSlot,
+  previewTimetableImport,
+  runTimetableImport
+} from "@/lib/timetable-actions";
+import type { FormWithClasses } from "@/lib/forms";
+import type { TeacherRecord, SubjectRecord } from "@/lib/directory";
+import type { TimetableEntry, TimetableImportRow } from "@/lib/timetable";
+import type { SchoolPeriod } from "@/lib/bell-schedules";
+import { toCsv } from "@/lib/csv";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+
+const templateRows = [
+  ["class", "day", "period", "subject", "teacher", "room"],
+  ["4-2", "Monday", "1", "Mathematics", "Mr. Smith", "B12"],
+  ["4-2", "Monday", "2-3", "Chemistry", "Dr. Brown", "Lab 2"],
+  ["4-2", "Tuesday", "1", "English Language", "Ms. Johnson", "B12"]
+];
+
+type SlotDraft = {
+  day: number;
+  period: number;
+  subject_id: string;
+  teacher_id: string;
+  room: string;
+};
+
+export default function TimetablePage() {
+  const [forms, setForms] = useState<FormWithClasses[]>([]);
+  const [classId, setClassId] = useState("");
+  const [periods, setPeriods] = useState<SchoolPeriod[]>([]);
+  const [entries, setEntries] = useState<TimetableEntry[]>([]);
+  const [teachers, setTeachers] = useState<TeacherRecord[]>([]);
+  const [subjects, setSubjects] = useState<SubjectRecord[]>([]);
+  const [draft, setDraft] = useState<SlotDraft | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [importRows, setImportRows] = useState<TimetableImportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadForms();
+    loadDirectory();
+  }, []);
+
+  useEffect(() => {
+    setDraft(null);
+    if (classId) {
+      loadTimetable(Number(classId));
+    } else {
+      setEntries([]);
+    }
+  }, [classId]);
+
+  const loadForms = async () => {
+    try {
+      const result = await getSchoolForms();
+      if (result.success) {
+        const loaded = result.forms || [];
+        setForms(loaded);
+        const firstClass = loaded.flatMap(form => form.classes)[0];
+        if (firstClass) {
+          setClassId(prev => prev || String(firstClass.id));
+        }
+      } else {
+        error(result.error || "Failed to load classes");
+      }
+    } catch (err) {
+      console.error("Error loading classes:", err);
+      error("Failed to load classes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDirectory = async () => {
+    try {
+      const result = await getTeachingDirectory();
+      if (result.success) {
+        setTeachers((result.teachers || []).filter(teacher => teacher.active));
+        setSubjects((result.subjects || []).filter(subject => subject.active));
+      }
+    } catch (err) {
+      console.error("Error loading teachers and subjects:", err);
+    }
+  };
+
+  const loadTimetable = async (id: number) => {
+    try {
+      const result = await getTimetableForClass(id);
+      if (result.success) {
+        setPeriods(result.periods || []);
+        setEntries(result.entries || []);
+      } else {
+        error(result.error || "Failed to load the timetable");
+      }
+    } catch (err) {
+      console.error("Error loading timetable:", err);
+      error("Failed to load the timetable");
+    }
+  };
+
+  const entryAt = (day: number, period: number) =>
+    entries.find(entry => entry.day_of_week === day && entry.period === period);
+
+  const editSlot = (day: number, period: number) => {
+    const entry = entryAt(day, period);
+    setDraft({
+      day,
+      period,
+      subject_id: entry?.subject_id ? String(entry.subject_id) : "",
+      teacher_id: entry?.teacher_id ? String(entry.teacher_id) : "",
+      room: entry?.room ?? ""
+    });
+  };
+
+  const handleSaveSlot = async (clear: boolean) => {
+    if (!draft) return;
+
+    setWorking(true);
+    try {
+      const lesson = clear
+        ? { subject_id: null, teacher_id: null, room: "" }
+        : {
+            subject_id: draft.subject_id ? Number(draft.subject_id) : null,
+            teacher_id: draft.teacher_id ? Number(draft.teacher_id) : null,
+            room: draft.room
+          };
+      const result = await saveTimetableSlot(Number(classId), draft.day, draft.period, lesson);
+      if (result.success) {
+        success(clear ? "Period cleared" : `${DAYS[draft.day - 1]} period ${draft.period} saved`);
+        setDraft(null);
+        await loadTimetable(Number(classId));
+      } else {
+        error(result.error || "Failed to save the lesson");
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setWorking(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      const result = await previewTimetableImport(text);
+      if (result.success) {
+        setImportRows(result.rows || []);
+      } else {
+        setImportRows([]);
+        error(result.error || "Failed to read the import file");
+      }
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      error("Failed to read the import file");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importErrors = importRows.filter(row => row.errors.length > 0).length;
+  const importClasses = Array.from(new Set(importRows.map(row => row.class_name)));
+
+  const handleImport = async () => {
+    const confirmed = await confirm({
+      title: "Import Timetable",
+      message: `Replace the whole week for ${importClasses.length} class(es): ${importClasses.join(", ")}?`,
+      confirmText: "Import",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    setWorking(true);
+    try {
+      const result = await runTimetableImport(csv);
+      if (result.success && result.summary) {
+        success(`Imported ${result.summary.entries} period(s) for ${result.summary.classes} class(es)`);
+        setImportRows([]);
+        setFileName("");
+        setCsv("");
+        await loadForms();
+        if (classId) {
+          await loadTimetable(Number(classId));
+        }
+      } else {
+        setImportRows(result.rows || importRows);
+        error(result.error || "Failed to import the timetable");
+      }
+    } catch (err) {
+      console.error("Error importing timetable:", err);
+      error("Failed to import the timetable");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const url = URL.createObjectURL(new Blob([toCsv(templateRows)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "timetable-template.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaCalendarAlt className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Timetable
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Each class's weekly lessons. Beadle slips are pre-filled from the lesson on at the time, and two
+            periods in a row with the same subject and teacher are treated as a double.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 px-4 py-2 text-white rounded-lg cursor-pointer transition-colors" style={{backgroundColor: '#8B1538'}}>
+              <FaUpload /> {fileName ? "Choose Another File" : "Import CSV"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                disabled={working}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={downloadTemplate}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <FaDownload /> Download Template
+            </button>
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          </div>
+          <p className="text-sm text-gray-500 mt-4">
+            Columns: class, day (Monday to Friday), period (a number, or a range such as 2-3 for a double), subject, teacher and an optional room.
+            Subjects and teachers must already be in the catalogue on the Teachers & Subjects page. Every class in the file has its whole week replaced.
+          </p>
+
+          {importRows.length > 0 && (
+            <div className="mt-6">
+              <div className="flex items-center gap-4 mb-4">
+                <button
+                  onClick={handleImport}
+                  disabled={working || importErrors > 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <FaCheck /> Import {importRows.length} Lesson(s)
+                </button>
+                {importErrors > 0 && (
+                  <span className="text-sm text-red-700">{importErrors} row(s) need fixing before the file can be imported.</span>
+                )}
+              </div>
+              <div className="overflow-x-auto max-h-96 border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      {["Line", "Class", "Day", "Periods", "Subject", "Teacher", "Room"].map(heading => (
+                        <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {importRows.map(row => (
+                      <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50" : ""}>
+                        <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-4 py-2">{row.class_name}</td>
+                        <td className="px-4 py-2">{row.day_of_week ? DAYS[row.day_of_week - 1] : "-"}</td>
+                        <td className="px-4 py-2">{row.periods.join(", ") || "-"}</td>
+                        <td className="px-4 py-2" colSpan={row.errors.length > 0 ? 3 : 1}>
+                          {row.errors.length > 0 ? (
+                            <ul className="text-red-700 list-disc list-inside">
+                              {row.errors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          ) : row.subject}
+                        </td>
+                        {row.errors.length === 0 && (
+                          <>
+                            <td className="px-4 py-2">{row.teacher}</td>
+                            <td className="px-4 py-2">{row.room || "-"}</td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Loading classes...
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center gap-4 mb-4">
+              <label htmlFor="timetableClass" className="text-sm font-medium text-gray-600">Class</label>
+              <select
+                id="timetableClass"
+                value={classId}
+                onChange={(e) => setClassId(e.target.value)}
+                className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              >
+                {forms.map(form => (
+                  <optgroup key={form.id} label={form.display_name}>
+                    {form.classes.map(schoolClass => (
+                      <option key={schoolClass.id} value={schoolClass.id}>{schoolClass.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">Click a period to edit it.</span>
+            </div>
+
+            {classId ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm border border-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                        Period
+                      </th>
+                      {DAYS.map(day => (
+                        <th key={day} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider border-b border-gray-200">
+                          {day}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {periods.map(period => (
+                      <tr key={period.period} className="border-b border-gray-100">
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                          <div className="font-medium">{period.period}</div>
+                          <div className="text-xs text-gray-400">{period.start_time}-{period.end_time}</div>
+                        </td>
+                        {DAYS.map((day, index) => {
+                          const entry = entryAt(index + 1, period.period);
+                          const selected = draft?.day === index + 1 && draft?.period === period.period;
+                          return (
+                            <td key={day} className="p-1">
+                              <button
+                                onClick={() => editSlot(index + 1, period.period)}
+                                className={`w-full h-full min-h-[3rem] text-left px-2 py-1 rounded-lg border transition-colors ${
+                                  selected ? "border-[#8B1538] bg-red-50" : "border-transparent hover:bg-gray-50"
+                                }`}
+                              >
+                                {entry ? (
+                                  <>
+                                    <div className="font-medium text-gray-900">{entry.subject}</div>
+                                    <div className="text-xs text-gray-500">{entry.teacher}{entry.room && ` · ${entry.room}`}</div>
+                                  </>
+                                ) : (
+                                  <span className="text-gray-300">-</span>
+                                )}
+                              </button>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-500">No classes are set up yet. Add them on the Forms & Classes page in the tech team portal.</p>
+            )}
+
+            {draft && (
+              <div className="mt-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+                <h3 className="text-sm font-semibold text-gray-700 mb-3">
+                  {DAYS[draft.day - 1]}, period {draft.period}
+                </h3>
+                <div className="flex flex-wrap items-end gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Subject</label>
+                    <select
+                      value={draft.subject_id}
+                      onChange={(e) => setDraft({ ...draft, subject_id: e.target.value })}
+                      className="mt-1 w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      <option value="">Select subject</option>
+                      {subjects.map(subject => (
+                        <option key={subject.id} value={subject.id}>{subject.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Teacher</label>
+                    <select
+                      value={draft.teacher_id}
+                      onChange={(e) => setDraft({ ...draft, teacher_id: e.target.value })}
+                      className="mt-1 w-56 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    >
+                      <option value="">Select teacher</option>
+                      {teachers.map(teacher => (
+                        <option key={teacher.id} value={teacher.id}>{teacher.display_name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-600">Room</label>
+                    <input
+                      type="text"
+                      value={draft.room}
+                      onChange={(e) => setDraft({ ...draft, room: e.target.value })}
+                      className="mt-1 w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleSaveSlot(false)}
+                    disabled={working}
+                    className="flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                    style={{backgroundColor: '#8B1538'}}
+                  >
+                    <FaSave /> Save
+                  </button>
+                  <button
+                    onClick={() => handleSaveSlot(true)}
+                    disabled={working || !entryAt(draft.day, draft.period)}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                  >
+                    <FaTimes /> Clear Period
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaGraduationCap, FaArrowRight, FaUndo, FaPlay } from "react-icons/fa";
+import { getYearRolloverPreview, runYearRollover, undoLastYearRollover } from "@/lib/year-rollover-actions";
+import type { RolloverPlan, RolloverRecord } from "@/lib/year-rollover";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+// The school year ends in the summer, so the year being closed is the one
+// that started last September.
+function defaultAcademicYear() {
+  const now = new Date();
+  const startYear = now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${startYear}-${startYear + 1}`;
+}
+
+export default function YearRolloverPage() {
+  const [plan, setPlan] = useState<RolloverPlan | null>(null);
+  const [history, setHistory] = useState<RolloverRecord[]>([]);
+  const [academicYear, setAcademicYear] = useState(defaultAcademicYear());
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadPreview();
+  }, []);
+
+  const loadPreview = async () => {
+    try {
+      const result = await getYearRolloverPreview();
+      if (result.success) {
+        setPlan(result.plan || null);
+        setHistory(result.history || []);
+      } else {
+        error(result.error || "Failed to load the rollover preview");
+      }
+    } catch (err) {
+      console.error("Error loading rollover preview:", err);
+      error("Failed to load the rollover preview");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!plan) return;
+
+    const confirmed = await confirm({
+      title: "Promote Academic Year",
+      message: `Close ${academicYear}? ${plan.promoted.length} student(s) move up a form, ${plan.graduating.length} graduate and ${plan.removedRoles.length} per-year role(s) are removed. You can undo this until the next rollover.`,
+      confirmText: "Promote",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    setWorking(true);
+    try {
+      const result = await runYearRollover(academicYear);
+      if (result.success) {
+        success(result.message || "Academic year promoted");
+        await loadPreview();
+      } else {
+        error(result.error || "Failed to run the year rollover");
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUndo = async (rollover: RolloverRecord) => {
+    const confirmed = await confirm({
+      title: "Undo Rollover",
+      message: `Put every form class and role back the way it was before the ${rollover.academic_year} rollover?`,
+      confirmText: "Undo",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    setWorking(true);
+    try {
+      const result = await undoLastYearRollover(rollover.id);
+      if (result.success) {
+        success(result.message || "Rollover undone");
+        await loadPreview();
+      } else {
+        error(result.error || "Failed to undo the rollover");
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const latestUndoable = history.find(rollover => !rollover.undone_at);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaGraduationCap className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Year Rollover
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Move every student up a form, graduate Form 6A and clear per-year roles such as Beadle
+          </p>
+        </div>
+
+        {loading || !plan ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            {loading ? "Loading preview..." : "Preview unavailable"}
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Preview</h2>
+
+              <div className="grid grid-cols-2 md:grid-cols-7 gap-3 mb-6">
+                {plan.transitions.map(transition => (
+                  <div key={transition.from} className="rounded-lg border border-gray-200 p-3 text-center">
+                    <div className="flex items-center justify-center gap-2 text-sm font-medium text-gray-700">
+                      {transition.from} <FaArrowRight className="text-gray-400" /> {transition.to}
+                    </div>
+                    <div className="text-2xl font-bold text-gray-900 mt-1">{transition.count}</div>
+                  </div>
+                ))}
+              </div>
+
+              {plan.removedRoles.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                    Per-year roles to remove ({plan.removedRoles.length})
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {plan.removedRoles.map(removal => (
+                      <span key={`${removal.member_id}-${removal.role_name}`} className="px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        {removal.full_name} · {removal.display_name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plan.skipped.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+                  <h3 className="text-sm font-semibold text-yellow-800 mb-2">
+                    {plan.skipped.length} student(s) will be left alone because their form class isn't recognised
+                  </h3>
+                  <p className="text-sm text-yellow-800">
+                    {plan.skipped.map(student => `${student.full_name} (${student.form_class || "no form class"})`).join(", ")}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-end gap-4 mt-6">
+                <div>
+                  <label className="text-sm font-medium text-gray-600">Academic year being closed</label>
+                  <input
+                    type="text"
+                    value={academicYear}
+                    onChange={(e) => setAcademicYear(e.target.value)}
+                    placeholder="2025-2026"
+                    className="mt-1 w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={handleRun}
+                  disabled={working || plan.promoted.length + plan.graduating.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  <FaPlay /> Promote Academic Year
+                </button>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-6 border-b border-gray-200">
+                <h2 className="text-xl font-bold text-gray-800">Past Rollovers</h2>
+              </div>
+              {history.length === 0 ? (
+                <div className="p-12 text-center text-gray-500">
+                  No rollovers have been run yet
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Year
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Run
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Changes
+                        </th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {history.map(rollover => (
+                        <tr key={rollover.id} className="hover:bg-gray-50 transition-colors">
+                          <td className="px-6 py-4 font-medium text-gray-900">{rollover.academic_year}</td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            <div>{formatDbTimestamp(rollover.created_at)}</div>
+                            <div className="text-xs text-gray-500">by {rollover.created_by_name || "a former member"}</div>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">
+                            {rollover.promoted_count} promoted, {rollover.graduated_count} graduated, {rollover.roles_removed_count} role(s) removed
+                          </td>
+                          <td className="px-6 py-4 text-right text-sm">
+                            {rollover.undone_at ? (
+                              <span className="text-gray-500">
+                                Undone {formatDbTimestamp(rollover.undone_at)}{rollover.undone_by_name && ` by ${rollover.undone_by_name}`}
+                              </span>
+                            ) : rollover.id === latestUndoable?.id ? (
+                              <button
+                                onClick={() => handleUndo(rollover)}
+                                disabled={working}
+                                className="inline-flex items-center gap-2 px-3 py-1 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                              >
+                                <FaUndo /> Undo
+                              </button>
+                            ) : (
+                              <span className="text-gray-500">Applied</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import {
+  getOidcConfig,
+  exchangeCode,
+  findOrCreateSsoMember,
+  OidcFlow,
+  OIDC_CALLBACK_PATH,
+  OIDC_FLOW_COOKIE_NAME
+} from "@/lib/oidc";
+import { buildAppUrl } from "@/lib/mailer";
+import { finishSignIn } from "@/lib/sign-in";
+import { LOGIN_PATH } from "@/lib/auth-config";
+
+function redirectToLogin(request: NextRequest, params: Record<string, string>) {
+  const loginUrl = new URL(LOGIN_PATH, request.url);
+  for (const [key, value] of Object.entries(params)) {
+    loginUrl.searchParams.set(key, value);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) {
+    return redirectToLogin(request, { sso_error: "Single sign-on is not configured" });
+  }
+
+  const cookieStore = await cookies();
+  const rawFlow = cookieStore.get(OIDC_FLOW_COOKIE_NAME)?.value;
+  cookieStore.delete({ name: OIDC_FLOW_COOKIE_NAME, path: "/api/auth/oidc" });
+
+  const params = request.nextUrl.searchParams;
+  if (params.get("error")) {
+    return redirectToLogin(request, { sso_error: "Sign-in was cancelled" });
+  }
+
+  let flow: OidcFlow;
+  try {
+    flow = JSON.parse(rawFlow ?? "");
+  } catch {
+    return redirectToLogin(request, { sso_error: "Your sign-in attempt expired. Please try again." });
+  }
+
+  const code = params.get("code");
+  if (!code || params.get("state") !== flow.state) {
+    return redirectToLogin(request, { sso_error: "Your sign-in attempt expired. Please try again." });
+  }
+
+  try {
+    const redirectUri = await buildAppUrl(OIDC_CALLBACK_PATH);
+    const claims = await exchangeCode(config, code, flow, redirectUri);
+
+    const { member, error } = await findOrCreateSsoMember(config.issuer, claims);
+    if (!member) {
+      return redirectToLogin(request, { sso_error: error || "Failed to sign in" });
+    }
+
+    const result = await finishSignIn(member);
+    if (result.error) {
+      return redirectToLogin(request, { sso_error: result.error.message });
+    }
+
+    if (result.twoFactorRequired) {
+      return redirectToLogin(request, { step: "two-factor", ...(flow.next ? { next: flow.next } : {}) });
+    }
+
+    console.log(`Member ${member.email} signed in with ${config.providerName}`);
+    return NextResponse.redirect(new URL(flow.next || "/dashboard", request.url));
+  } catch (error) {
+    console.error("Error completing OIDC sign-in:", error);
+    return redirectToLogin(request, { sso_error: "Single sign-on failed. Please try again." });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import {
+  getOidcConfig,
+  buildAuthorizationRequest,
+  OIDC_CALLBACK_PATH,
+  OIDC_FLOW_COOKIE_NAME,
+  OIDC_FLOW_TTL_SECONDS
+} from "@/lib/oidc";
+import { buildAppUrl } from "@/lib/mailer";
+import { LOGIN_PATH, isSafeRedirect } from "@/lib/auth-config";
+
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) {
+    return NextResponse.json(
+      { success: false, error: "Single sign-on is not configured" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const next = request.nextUrl.searchParams.get("next");
+    const redirectUri = await buildAppUrl(OIDC_CALLBACK_PATH);
+    const { url, flow } = await buildAuthorizationRequest(config, redirectUri, isSafeRedirect(next) ? next : undefined);
+
+    const cookieStore = await cookies();
+    cookieStore.set(OIDC_FLOW_COOKIE_NAME, JSON.stringify(flow), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/auth/oidc",
+      maxAge: OIDC_FLOW_TTL_SECONDS
+    });
+
+    return NextResponse.redirect(url);
+  } catch (error) {
+    console.error("Error starting OIDC sign-in:", error);
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set("sso_error", "Single sign-on is unavailable right now");
+    return NextResponse.redirect(loginUrl);
+  }
+}
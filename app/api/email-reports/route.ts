@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateAllSupervisorReports, scheduledDailyReports } from '@/lib/emailUtils';
 import { getBeadleSlips } from '@/lib/serverUtils';
+import { guardApiRoute } from '@/lib/api-guard';
 
 export async function GET() {
   try {
+    const { response } = await guardApiRoute('reports.generate');
+    if (response) return response;
+
     const slips = await getBeadleSlips();
     const uniqueForms = [...new Set(slips.map(slip => slip.grade_level))];
     const uniqueDates = [...new Set(slips.map(slip => slip.date))];
@@ -22,6 +26,9 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const { response } = await guardApiRoute('reports.generate');
+    if (response) return response;
+
     const body = await request.json();
     const { action, date } = body;
 
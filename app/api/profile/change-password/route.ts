@@ -1,21 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { getDatabase } from "@/lib/database";
+import { guardApiRoute } from "@/lib/api-guard";
+import { checkThrottledCredential } from "@/lib/login-throttle";
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth-config";
 import bcrypt from "bcrypt";
 
 const SALT_ROUNDS = 10;
 
 export async function POST(request: NextRequest) {
   try {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get("session_token")?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json(
-        { success: false, error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const { caller, response } = await guardApiRoute();
+    if (response) return response;
 
     const { currentPassword, newPassword } = await request.json();
 
@@ -26,33 +21,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (newPassword.length < 6) {
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
       return NextResponse.json(
-        { success: false, error: "New password must be at least 6 characters" },
+        { success: false, error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` },
         { status: 400 }
       );
     }
 
     const db = await getDatabase();
-    
-    const session = db.prepare(`
-      SELECT s.userId 
-      FROM sessions s
-      WHERE s.token = ?
-    `).get(sessionToken) as any;
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: "Invalid session" },
-        { status: 401 }
-      );
-    }
 
     const user = db.prepare(`
-      SELECT id, password
+      SELECT id, email, password
       FROM members
       WHERE id = ?
-    `).get(session.userId) as any;
+    `).get(caller.id) as any;
 
     if (!user) {
       return NextResponse.json(
@@ -61,10 +43,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
-    if (!isValidPassword) {
+    const passwordError = await checkThrottledCredential(
+      user.email,
+      () => bcrypt.compare(currentPassword, user.password),
+      "Current password is incorrect"
+    );
+    if (passwordError) {
       return NextResponse.json(
-        { success: false, error: "Current password is incorrect" },
+        { success: false, error: passwordError },
         { status: 400 }
       );
     }
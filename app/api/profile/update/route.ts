@@ -1,19 +1,13 @@
 
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { getDatabase } from "@/lib/database";
+import { guardApiRoute } from "@/lib/api-guard";
+import { resolveClass } from "@/lib/forms";
 
 export async function POST(request: NextRequest) {
   try {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get("session_token")?.value;
-
-    if (!sessionToken) {
-      return NextResponse.json(
-        { success: false, error: "Not authenticated" },
-        { status: 401 }
-      );
-    }
+    const { caller, response } = await guardApiRoute();
+    if (response) return response;
 
     const { full_name, form_class } = await request.json();
 
@@ -24,26 +18,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const db = await getDatabase();
-    
-    const session = db.prepare(`
-      SELECT s.userId 
-      FROM sessions s
-      WHERE s.token = ?
-    `).get(sessionToken) as any;
-
-    if (!session) {
+    const { classRecord, error } = await resolveClass(form_class);
+    if (error) {
       return NextResponse.json(
-        { success: false, error: "Invalid session" },
-        { status: 401 }
+        { success: false, error },
+        { status: 400 }
       );
     }
 
+    const db = await getDatabase();
+
     db.prepare(`
       UPDATE members 
-      SET full_name = ?, form_class = ?, updated_at = CURRENT_TIMESTAMP
+      SET full_name = ?, form_class = ?, class_id = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
-    `).run(full_name.trim(), form_class || null, session.userId);
+    `).run(full_name.trim(), classRecord?.name ?? null, classRecord?.id ?? null, caller.id);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { updateRole, deleteRole } from "@/lib/role-catalogue";
+import { guardApiRoute } from "@/lib/api-guard";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { caller, response } = await guardApiRoute("roles.manage");
+    if (response) return response;
+
+    const { id } = await params;
+    const result = await updateRole(Number(id), await request.json(), caller.id);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error("Error updating role:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update role" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { caller, response } = await guardApiRoute("roles.manage");
+    if (response) return response;
+
+    const { id } = await params;
+    const result = await deleteRole(Number(id), caller.id);
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error("Error deleting role:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete role" },
+      { status: 500 }
+    );
+  }
+}
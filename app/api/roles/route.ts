@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listRoles, createRole } from "@/lib/role-catalogue";
+import { guardApiRoute } from "@/lib/api-guard";
+
+export async function GET() {
+  try {
+    const { response } = await guardApiRoute();
+    if (response) return response;
+
+    return NextResponse.json({
+      success: true,
+      roles: await listRoles()
+    });
+  } catch (error) {
+    console.error("Error fetching roles:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch roles" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { caller, response } = await guardApiRoute("roles.manage");
+    if (response) return response;
+
+    const result = await createRole(await request.json(), caller.id);
+
+    return NextResponse.json(result, { status: result.success ? 201 : 400 });
+  } catch (error) {
+    console.error("Error creating role:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create role" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAllMembersWithRoles } from "@/lib/role-db-helpers";
+import { guardApiRoute } from "@/lib/api-guard";
 
 export async function GET(request: NextRequest) {
   try {
+    const { response } = await guardApiRoute("members.view");
+    if (response) return response;
+
     const users = await getAllMembersWithRoles();
 
     return NextResponse.json({
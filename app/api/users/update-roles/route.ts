@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { setMemberRoles, getMemberRoles } from "@/lib/role-db-helpers";
+import { setMemberRoles, getMemberRoles, getMemberUpcomingRoles } from "@/lib/role-db-helpers";
 import { getDatabase } from "@/lib/database";
+import { guardApiRoute } from "@/lib/api-guard";
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId, roles } = await request.json();
+    const { response } = await guardApiRoute("roles.assign");
+    if (response) return response;
+
+    const { userId, roles, terms, reason } = await request.json();
 
     if (!userId || !roles || !Array.isArray(roles)) {
       return NextResponse.json(
@@ -13,7 +17,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await setMemberRoles(userId, roles);
+    const result = await setMemberRoles(userId, roles, terms || {}, reason);
     
     if (!result.success) {
       return NextResponse.json(
@@ -33,11 +37,13 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: "Roles updated successfully",
+      message: result.message,
+      pending: result.pending,
       user: {
         ...user,
         roles: userRoles.map((r: any) => r.role_name),
-        roleDetails: userRoles
+        roleDetails: userRoles,
+        upcomingRoles: await getMemberUpcomingRoles(userId)
       }
     });
   } catch (error) {
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import Image from "next/image";
+import CampionBanner from "../../../res/images/CampionBanner.png";
+import { requestPasswordReset } from "@/lib/password-reset";
+
+export default function ForgotPasswordPage() {
+    const [email, setEmail] = useState("");
+    const [errorMsg, setErrorMsg] = useState("");
+    const [successMsg, setSuccessMsg] = useState("");
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrorMsg("");
+        setSuccessMsg("");
+
+        if (!email.trim()) {
+            setErrorMsg("Email is required.");
+            return;
+        }
+
+        setLoading(true);
+        const result = await requestPasswordReset(email);
+        setLoading(false);
+
+        if (result.success) {
+            setSuccessMsg(result.message || "Check your email for a reset link.");
+        } else {
+            setErrorMsg(result.error || "Failed to request password reset.");
+        }
+    };
+
+    return (
+        <main className="flex flex-col min-h-screen w-full">
+            <Navbar />
+
+            <section className="w-full py-12 px-6 md:px-16 lg:px-24 flex justify-center bg-gradient-to-br from-gray-50 via-red-50/30 to-gray-50 flex-1">
+                <div className="p-8 md:p-10 rounded-3xl shadow-2xl bg-white border border-gray-100 w-full max-w-md transform transition-all hover:shadow-3xl">
+                    <div className="w-full flex pb-6 justify-center pointer-events-none">
+                        <Image
+                            src={CampionBanner}
+                            alt="Campion Banner"
+                            className="w-[70%] aspect-auto drop-shadow-md"
+                        />
+                    </div>
+
+                    <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent mb-2">Forgot Password</h2>
+                    <p className="text-center text-gray-500 text-sm mb-8">We&apos;ll email you a link to choose a new password</p>
+
+                    <form onSubmit={handleSubmit} className="space-y-5">
+                        <div className="relative">
+                            <input
+                                type="email"
+                                placeholder="Email (@campioncollege.com)"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
+                                required
+                            />
+                        </div>
+                        {errorMsg && (
+                            <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
+                                <p className="text-red-600 text-sm font-medium">{errorMsg}</p>
+                            </div>
+                        )}
+                        {successMsg && (
+                            <div className="bg-green-50 border-l-4 border-green-500 p-3 rounded-r-lg">
+                                <p className="text-green-700 text-sm font-medium">{successMsg}</p>
+                            </div>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 active:translate-y-0"
+                        >
+                            {loading ? "Sending..." : "Send Reset Link"}
+                        </button>
+                    </form>
+                    <div className="mt-6 pt-6 border-t border-gray-100">
+                        <p className="text-sm text-gray-600 text-center">
+                            Remembered it?{" "}
+                            <a href="/auth/login" className="text-red-600 hover:text-red-700 font-semibold hover:underline transition-colors">
+                                Back to login
+                            </a>
+                        </p>
+                    </div>
+                </div>
+            </section>
+
+            <Footer />
+        </main>
+    );
+}
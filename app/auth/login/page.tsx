@@ -1,13 +1,15 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
 import Image from "next/image";
 import CampionBanner from "../../../res/images/CampionBanner.png";
-import { saveSessionToken } from "@/lib/utils";
-import { signInWithPassword } from "@/lib/serverUtils";
+import { signInWithPassword, verifyTwoFactorLogin } from "@/lib/serverUtils";
+import { requestVerificationEmail } from "@/lib/email-verification";
+import { getSsoProvider } from "@/lib/sso-actions";
+import { isSafeRedirect } from "@/lib/auth-config";
 
 export default function LoginPage() {
     const router = useRouter(); 
@@ -15,11 +17,47 @@ export default function LoginPage() {
     const [email, setEmail] = useState("");  
     const [password, setPassword] = useState(""); 
     const [errorMsg, setErrorMsg] = useState("");
+    const [infoMsg, setInfoMsg] = useState("");
+    const [unverified, setUnverified] = useState(false);
+    const [twoFactorStep, setTwoFactorStep] = useState(false);
+    const [twoFactorCode, setTwoFactorCode] = useState("");
     const [loading, setLoading] = useState(false); 
 
+    const [ssoProvider, setSsoProvider] = useState<string | null>(null);
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const ssoError = params.get("sso_error");
+        if (ssoError) {
+            setErrorMsg(ssoError);
+        }
+        // Single sign-on lands back here when the account also has 2FA.
+        if (params.get("step") === "two-factor") {
+            setTwoFactorStep(true);
+        }
+
+        getSsoProvider().then(provider => {
+            if (provider.enabled) {
+                setSsoProvider(provider.name || "SSO");
+            }
+        });
+    }, []);
+
+    const handleSsoLogin = () => {
+        const next = new URLSearchParams(window.location.search).get("next");
+        window.location.href = "/api/auth/oidc/login" + (isSafeRedirect(next) ? `?next=${encodeURIComponent(next)}` : "");
+    };
+
+    const finishLogin = () => {
+        const next = new URLSearchParams(window.location.search).get("next");
+        router.push(isSafeRedirect(next) ? next : "/dashboard");
+    };
+
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setErrorMsg("");
+        setInfoMsg("");
+        setUnverified(false);
 
         if (!email.trim()) {
             setErrorMsg("Email is required.");
@@ -31,21 +69,54 @@ export default function LoginPage() {
             return;
         }
 
-        if (!email.trim().toLowerCase().endsWith("@campioncollege.com")) {
-            setErrorMsg("Only @campioncollege.com email addresses are allowed.");
+        setLoading(true);
+        const { error, twoFactorRequired } = await signInWithPassword({ email, password });
+        setLoading(false);
+
+        if (error) {
+            setErrorMsg(error.message);
+            setUnverified(!!error.unverified);
+        } else if (twoFactorRequired) {
+            setTwoFactorStep(true);
+        } else {
+            finishLogin();
+        }
+    };
+
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrorMsg("");
+
+        if (!twoFactorCode.trim()) {
+            setErrorMsg("Verification code is required.");
             return;
         }
 
         setLoading(true);
-        const { error, token } = await signInWithPassword({ email, password });
+        const { error } = await verifyTwoFactorLogin(twoFactorCode);
         setLoading(false);
 
         if (error) {
             setErrorMsg(error.message);
+            if (error.expired) {
+                setTwoFactorStep(false);
+                setTwoFactorCode("");
+                setPassword("");
+            }
+        } else {
+            finishLogin();
+        }
+    };
+
+    const handleResendVerification = async () => {
+        setErrorMsg("");
+        const result = await requestVerificationEmail(email);
+        setUnverified(false);
+
+        if (result.success) {
+            setInfoMsg(result.message || "Verification email sent.");
         } else {
-            saveSessionToken(token ?? "");
-            document.cookie = `session_token=${token}; path=/; max-age=2592000`;
-            router.push("/dashboard");
+            setErrorMsg(result.error || "Failed to send verification email.");
         }
     };
 
@@ -66,48 +137,116 @@ export default function LoginPage() {
                     <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent mb-2">Welcome Back</h2>
                     <p className="text-center text-gray-500 text-sm mb-8">Sign in to your account</p>
 
-                    <form onSubmit={handleLogin} className="space-y-5">
-                        <div className="relative">
-                            <input
-                                type="email"
-                                placeholder="Email (@campioncollege.com)"
-                                value={email}
-                                onChange={(e) => setEmail(e.target.value)}
-                                className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
-                                required
-                            />
-                        </div>
-                        <div className="relative">
-                            <input
-                                type="password"
-                                placeholder="Password"
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
-                                required
-                            />
-                        </div>
-                        {errorMsg && (
-                            <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
-                                <p className="text-red-600 text-sm font-medium">{errorMsg}</p>
+                    {twoFactorStep ? (
+                        <form onSubmit={handleVerifyCode} className="space-y-5">
+                            <p className="text-sm text-gray-600 text-center">
+                                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                            </p>
+                            <div className="relative">
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    placeholder="Verification code"
+                                    value={twoFactorCode}
+                                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                                    className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 text-center tracking-widest transition-all placeholder:text-gray-400 placeholder:tracking-normal"
+                                    autoFocus
+                                    required
+                                />
                             </div>
-                        )}
-                        <button
-                            type="submit"
-                            disabled={loading}
-                            className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 active:translate-y-0"
-                        >
-                            {loading ? (
-                                <span className="flex items-center justify-center gap-2">
-                                    <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                                    </svg>
-                                    Logging in...
-                                </span>
-                            ) : "Login"}
-                        </button>
-                    </form>
+                            {errorMsg && (
+                                <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
+                                    <p className="text-red-600 text-sm font-medium">{errorMsg}</p>
+                                </div>
+                            )}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 active:translate-y-0"
+                            >
+                                {loading ? "Verifying..." : "Verify"}
+                            </button>
+                        </form>
+                    ) : (
+                        <form onSubmit={handleLogin} className="space-y-5">
+                            <div className="relative">
+                                <input
+                                    type="email"
+                                    placeholder="Email (@campioncollege.com)"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
+                                    required
+                                />
+                            </div>
+                            <div className="relative">
+                                <input
+                                    type="password"
+                                    placeholder="Password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
+                                    required
+                                />
+                                <div className="text-right mt-2">
+                                    <a href="/auth/forgot-password" className="text-sm text-red-600 hover:text-red-700 hover:underline transition-colors">
+                                        Forgot password?
+                                    </a>
+                                </div>
+                            </div>
+                            {errorMsg && (
+                                <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
+                                    <p className="text-red-600 text-sm font-medium">{errorMsg}</p>
+                                    {unverified && (
+                                        <button
+                                            type="button"
+                                            onClick={handleResendVerification}
+                                            className="mt-2 text-sm text-red-700 font-semibold hover:underline"
+                                        >
+                                            Resend verification email
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                            {infoMsg && (
+                                <div className="bg-green-50 border-l-4 border-green-500 p-3 rounded-r-lg">
+                                    <p className="text-green-700 text-sm font-medium">{infoMsg}</p>
+                                </div>
+                            )}
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 active:translate-y-0"
+                            >
+                                {loading ? (
+                                    <span className="flex items-center justify-center gap-2">
+                                        <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                                        </svg>
+                                        Logging in...
+                                    </span>
+                                ) : "Login"}
+                            </button>
+                        </form>
+                    )}
+                    {ssoProvider && !twoFactorStep && (
+                        <div className="mt-5">
+                            <div className="flex items-center gap-3 mb-5">
+                                <div className="flex-1 border-t border-gray-200" />
+                                <span className="text-xs text-gray-400 uppercase">or</span>
+                                <div className="flex-1 border-t border-gray-200" />
+                            </div>
+                            <button
+                                type="button"
+                                onClick={handleSsoLogin}
+                                className="w-full border-2 border-gray-200 hover:border-red-300 hover:bg-red-50/50 text-gray-700 py-3.5 rounded-lg font-semibold transition-all"
+                            >
+                                Sign in with {ssoProvider}
+                            </button>
+                        </div>
+                    )}
                     <div className="mt-6 pt-6 border-t border-gray-100">
                         <p className="text-sm text-gray-600 text-center">
                             Don&apos;t have an account?{" "}
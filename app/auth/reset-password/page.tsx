@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import Image from "next/image";
+import CampionBanner from "../../../res/images/CampionBanner.png";
+import { validateResetToken, resetPassword } from "@/lib/password-reset";
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth-config";
+
+export default function ResetPasswordPage() {
+    const router = useRouter();
+
+    const [token, setToken] = useState("");
+    const [tokenState, setTokenState] = useState<"checking" | "valid" | "invalid">("checking");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [errorMsg, setErrorMsg] = useState("");
+    const [successMsg, setSuccessMsg] = useState("");
+    const [loading, setLoading] = useState(false);
+
+    useEffect(() => {
+        const urlToken = new URLSearchParams(window.location.search).get("token") ?? "";
+        setToken(urlToken);
+
+        (async () => {
+            const result = await validateResetToken(urlToken);
+            setTokenState(result.valid ? "valid" : "invalid");
+            setEmail(result.email ?? "");
+        })();
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrorMsg("");
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            setErrorMsg(`Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`);
+            return;
+        }
+
+        if (password !== confirmPassword) {
+            setErrorMsg("Passwords do not match.");
+            return;
+        }
+
+        setLoading(true);
+        const result = await resetPassword(token, password);
+        setLoading(false);
+
+        if (result.success) {
+            setSuccessMsg(result.message || "Password reset successfully.");
+            setTimeout(() => router.push("/auth/login"), 2000);
+        } else {
+            setErrorMsg(result.error || "Failed to reset password.");
+        }
+    };
+
+    return (
+        <main className="flex flex-col min-h-screen w-full">
+            <Navbar />
+
+            <section className="w-full py-12 px-6 md:px-16 lg:px-24 flex justify-center bg-gradient-to-br from-gray-50 via-red-50/30 to-gray-50 flex-1">
+                <div className="p-8 md:p-10 rounded-3xl shadow-2xl bg-white border border-gray-100 w-full max-w-md transform transition-all hover:shadow-3xl">
+                    <div className="w-full flex pb-6 justify-center pointer-events-none">
+                        <Image
+                            src={CampionBanner}
+                            alt="Campion Banner"
+                            className="w-[70%] aspect-auto drop-shadow-md"
+                        />
+                    </div>
+
+                    <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent mb-2">Reset Password</h2>
+
+                    {tokenState === "checking" && (
+                        <p className="text-center text-gray-500 text-sm">Checking your reset link...</p>
+                    )}
+
+                    {tokenState === "invalid" && (
+                        <div className="space-y-5">
+                            <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
+                                <p className="text-red-600 text-sm font-medium">This reset link is invalid or has expired.</p>
+                            </div>
+                            <a
+                                href="/auth/forgot-password"
+                                className="block text-center w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all shadow-lg hover:shadow-xl"
+                            >
+                                Request a New Link
+                            </a>
+                        </div>
+                    )}
+
+                    {tokenState === "valid" && (
+                        <>
+                            <p className="text-center text-gray-500 text-sm mb-8">Choose a new password for {email}</p>
+
+                            <form onSubmit={handleSubmit} className="space-y-5">
+                                <div className="relative">
+                                    <input
+                                        type="password"
+                                        placeholder="New Password"
+                                        value={password}
+                                        onChange={(e) => setPassword(e.target.value)}
+                                        className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
+                                        minLength={MIN_PASSWORD_LENGTH}
+                                        required
+                                    />
+                                </div>
+                                <div className="relative">
+                                    <input
+                                        type="password"
+                                        placeholder="Confirm New Password"
+                                        value={confirmPassword}
+                                        onChange={(e) => setConfirmPassword(e.target.value)}
+                                        className="w-full p-3.5 rounded-lg border-2 border-gray-200 focus:outline-none focus:border-red-500 focus:ring-2 focus:ring-red-100 bg-white text-gray-900 transition-all placeholder:text-gray-400"
+                                        required
+                                    />
+                                </div>
+                                {errorMsg && (
+                                    <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg">
+                                        <p className="text-red-600 text-sm font-medium">{errorMsg}</p>
+                                    </div>
+                                )}
+                                {successMsg && (
+                                    <div className="bg-green-50 border-l-4 border-green-500 p-3 rounded-r-lg">
+                                        <p className="text-green-700 text-sm font-medium">{successMsg}</p>
+                                    </div>
+                                )}
+                                <button
+                                    type="submit"
+                                    disabled={loading || !!successMsg}
+                                    className="w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 active:translate-y-0"
+                                >
+                                    {loading ? "Saving..." : "Set New Password"}
+                                </button>
+                            </form>
+                        </>
+                    )}
+                </div>
+            </section>
+
+            <Footer />
+        </main>
+    );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import Image from "next/image";
+import CampionBanner from "../../../res/images/CampionBanner.png";
+import { verifyEmail, confirmEmailChange } from "@/lib/email-verification";
+
+export default function VerifyEmailPage() {
+    const [status, setStatus] = useState<"verifying" | "verified" | "failed">("verifying");
+    const [message, setMessage] = useState("");
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const token = params.get("token") ?? "";
+        const confirm = params.get("change") ? confirmEmailChange : verifyEmail;
+
+        (async () => {
+            const result = await confirm(token);
+            setStatus(result.success ? "verified" : "failed");
+            setMessage((result.success ? result.message : result.error) ?? "");
+        })();
+    }, []);
+
+    return (
+        <main className="flex flex-col min-h-screen w-full">
+            <Navbar />
+
+            <section className="w-full py-12 px-6 md:px-16 lg:px-24 flex justify-center bg-gradient-to-br from-gray-50 via-red-50/30 to-gray-50 flex-1">
+                <div className="p-8 md:p-10 rounded-3xl shadow-2xl bg-white border border-gray-100 w-full max-w-md transform transition-all hover:shadow-3xl">
+                    <div className="w-full flex pb-6 justify-center pointer-events-none">
+                        <Image
+                            src={CampionBanner}
+                            alt="Campion Banner"
+                            className="w-[70%] aspect-auto drop-shadow-md"
+                        />
+                    </div>
+
+                    <h2 className="text-3xl font-bold text-center bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent mb-6">Email Verification</h2>
+
+                    {status === "verifying" && (
+                        <p className="text-center text-gray-500 text-sm">Verifying your email...</p>
+                    )}
+
+                    {status === "verified" && (
+                        <div className="bg-green-50 border-l-4 border-green-500 p-3 rounded-r-lg mb-5">
+                            <p className="text-green-700 text-sm font-medium">{message}</p>
+                        </div>
+                    )}
+
+                    {status === "failed" && (
+                        <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-r-lg mb-5">
+                            <p className="text-red-600 text-sm font-medium">{message}</p>
+                            <p className="text-red-600 text-sm mt-1">Log in to request a new verification link.</p>
+                        </div>
+                    )}
+
+                    {status !== "verifying" && (
+                        <a
+                            href="/auth/login"
+                            className="block text-center w-full bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white py-3.5 rounded-lg font-semibold transition-all shadow-lg hover:shadow-xl"
+                        >
+                            Go to Login
+                        </a>
+                    )}
+                </div>
+            </section>
+
+            <Footer />
+        </main>
+    );
+}
@@ -0,0 +1,10 @@
+import { requirePageAccess } from "@/lib/page-guard";
+
+export default async function BeadleLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  await requirePageAccess();
+  return children;
+}
@@ -1,7 +1,6 @@
 "use client";
 
 import { getBeadleSlips, fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 import { checkBeadleAccess } from "@/lib/beadle-auth";
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
@@ -66,7 +65,7 @@ export default function MySubmissionsPage() {
 
   const loadData = async () => {
     try {
-      const user = await fetchCurrentUser(retrieveSessionToken(), true);
+      const user = await fetchCurrentUser(true);
       setCurrentUser(user);
       
       if (user?.email) {
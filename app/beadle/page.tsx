@@ -3,33 +3,53 @@ import { ToastContainer } from "@/components/Toast";
 import { ConfirmationModal } from "@/components/ConfirmationModal";
 import { useToast } from "@/hooks/useToast";
 import { useConfirmation } from "@/hooks/useConfirmation";
-import { retrieveSessionToken } from "@/lib/utils";
 import { fetchCurrentUser, saveBeadleSlip } from "@/lib/serverUtils";
-import { generateBeadleConfirmationEmail } from '@/lib/emailUtils';
+import { generateBeadleConfirmationEmail } from '@/lib/slip-confirmation-email';
 import { checkBeadleAccess } from "@/lib/beadle-auth";
+import { getSchoolForms, getRosterForClass } from "@/lib/form-actions";
+import type { FormWithClasses } from "@/lib/forms";
+import type { RosterStudent, RosterStatus } from "@/lib/roster";
+import { getLessonsForClass } from "@/lib/timetable-actions";
+import { getTeachingDirectory } from "@/lib/directory-actions";
+import { getPeriodsForSlipDate } from "@/lib/bell-schedule-actions";
+import { getSlipForEditing } from "@/lib/slip-edit-actions";
+import type { SchoolPeriod } from "@/lib/bell-schedules";
+import type { TeacherRecord, SubjectRecord } from "@/lib/directory";
+import type { TimetableLesson } from "@/lib/timetable";
+import { validateBeadleSlip, type BeadleSlipInput, type SlipFieldErrors } from "@/lib/slip-schema";
+import type { ConflictingSlip } from "@/lib/slip-conflicts";
+import { getCurrentJamaicanTime, formatTime, formatJamaicanDate } from "@/lib/timeUtils";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 
 import { useEffect, useState } from "react";
 
-type AttendanceFormData = {
-  beadleEmail: string;
-  form: string; 
-  formClass: string;
-  classStartTime: string;
-  classEndTime: string;
-  date: string;
-  teacher: string;
-  subject: string;
-  teacherPresent: string;
-  teacherArrivalTime: string;
-  substituteReceived: string;
-  homeworkGiven: string; 
-  studentsPresent: string;
-  absentStudents: string[];
-  lateStudents: string[];
-  isDoubleSession: boolean;
-};
+type AttendanceFormData = BeadleSlipInput;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Today's date and the time of day at the school, as the form inputs expect them.
+function schoolNow() {
+  const now = getCurrentJamaicanTime();
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`
+  };
+}
+
+const lessonKey = (lesson: TimetableLesson) => String(lesson.first_period);
+
+// Start and end of a lesson beginning at `period`; a double runs to the end of
+// the next teaching period on the schedule.
+function periodTimes(periods: SchoolPeriod[], period: string, isDouble: boolean) {
+  const index = periods.findIndex(p => String(p.period) === period);
+  const last = periods[isDouble ? index + 1 : index];
+  return index === -1 || !last ? null : { start: periods[index].start_time, end: last.end_time };
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null;
+}
 
 export default function BeadleAttendancePage() {
   const router = useRouter();
@@ -37,16 +57,31 @@ export default function BeadleAttendancePage() {
   const [loading, setLoading] = useState(true);
   const [hasAccess, setHasAccess] = useState(false);
   const [accessMessage, setAccessMessage] = useState("");
+  const [accessTitle, setAccessTitle] = useState("Not a Beadle");
   const [currentUserData, setCurrentUserData] = useState<any>(null);
   const { toasts, success, error, warning, removeToast } = useToast();
   const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [submittedData, setSubmittedData] = useState<any>(null);
+  const [forms, setForms] = useState<FormWithClasses[]>([]);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [lessons, setLessons] = useState<TimetableLesson[]>([]);
+  const [periods, setPeriods] = useState<SchoolPeriod[]>([]);
+  const [scheduleName, setScheduleName] = useState("");
+  const [teachers, setTeachers] = useState<TeacherRecord[]>([]);
+  const [subjects, setSubjects] = useState<SubjectRecord[]>([]);
+  const [selectedLesson, setSelectedLesson] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<SlipFieldErrors>({});
+  const [conflicts, setConflicts] = useState<ConflictingSlip[]>([]);
+  const [conflictOptions, setConflictOptions] = useState<{ amendSlipId?: number; note?: string }>({});
+  const [editing, setEditing] = useState<{ id: number; editableUntil: string | null } | null>(null);
+  const [editNote, setEditNote] = useState("");
 
   const [formData, setFormData] = useState<AttendanceFormData>({
     beadleEmail: "",
     form: "",
     formClass: "", 
+    period: "",
     classStartTime: "",
     classEndTime: "",
     date: "",
@@ -59,6 +94,8 @@ export default function BeadleAttendancePage() {
     studentsPresent: "",
     absentStudents: [""],
     lateStudents: [""],  
+    rosterStatus: {},
+    lateMinutes: {},
     isDoubleSession: false 
   });
 -
@@ -67,7 +104,130 @@ export default function BeadleAttendancePage() {
     checkAccessAndLoadUser();
   }, []);
 
+  useEffect(() => {
+    loadRoster();
+  }, [formData.formClass, forms]);
+
+  useEffect(() => {
+    loadLessons();
+  }, [formData.formClass, formData.date, forms]);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [formData.date]);
+
+  const loadPeriods = async () => {
+    if (!formData.date) {
+      setPeriods([]);
+      setScheduleName("");
+      return;
+    }
+
+    const result = await getPeriodsForSlipDate(formData.date);
+    const dayPeriods = result.periods || [];
+    setPeriods(dayPeriods);
+    setScheduleName(result.scheduleName || "");
+
+    // Keep a picked period but move its times onto this day's schedule.
+    setFormData(prev => {
+      if (!prev.period) return prev;
+      const times = periodTimes(dayPeriods, prev.period, prev.isDoubleSession);
+      return times
+        ? { ...prev, classStartTime: times.start, classEndTime: times.end }
+        : { ...prev, period: "", classStartTime: "", classEndTime: "" };
+    });
+  };
+
+  const loadRoster = async () => {
+    const schoolClass = forms.flatMap(form => form.classes).find(c => c.name === formData.formClass);
+    if (!schoolClass) {
+      setRoster([]);
+      return;
+    }
+
+    const result = await getRosterForClass(schoolClass.id);
+    setRoster(result.students || []);
+  };
+
+  // Slips for today start on the lesson in progress, or the one that has just
+  // finished; other days, and slips being edited, wait for a period to be picked.
+  const loadLessons = async () => {
+    setSelectedLesson("");
+    const schoolClass = forms.flatMap(form => form.classes).find(c => c.name === formData.formClass);
+    if (!schoolClass || !formData.date) {
+      setLessons([]);
+      return;
+    }
+
+    const result = await getLessonsForClass(schoolClass.id, formData.date);
+    const dayLessons = result.lessons || [];
+    setLessons(dayLessons);
+
+    const now = schoolNow();
+    if (!editing && formData.date === now.date) {
+      const current = dayLessons.filter(lesson => lesson.start_time <= now.time).pop();
+      if (current) {
+        applyLesson(current);
+      }
+    }
+  };
+
+  const applyLesson = (lesson: TimetableLesson) => {
+    setSelectedLesson(lessonKey(lesson));
+    setFormData(prev => ({
+      ...prev,
+      teacher: lesson.teacher,
+      subject: lesson.subject,
+      period: String(lesson.first_period),
+      classStartTime: lesson.start_time,
+      classEndTime: lesson.end_time,
+      isDoubleSession: lesson.is_double
+    }));
+  };
+
+  const handleLessonChange = (key: string) => {
+    const lesson = lessons.find(l => lessonKey(l) === key);
+    if (lesson) {
+      applyLesson(lesson);
+    } else {
+      setSelectedLesson("");
+    }
+  };
+
+  const loadFormOptions = async () => {
+    const { forms: schoolForms = [] } = await getSchoolForms();
+    setForms(schoolForms);
+    const directory = await getTeachingDirectory();
+    setTeachers((directory.teachers || []).filter(teacher => teacher.active));
+    setSubjects((directory.subjects || []).filter(subject => subject.active));
+    return schoolForms;
+  };
+
+  const loadSlipForEditing = async (slipId: number) => {
+    const result = await getSlipForEditing(slipId);
+    if (!result.success || !result.slip) {
+      setAccessTitle("Can't Edit This Slip");
+      setAccessMessage(result.error || "This slip can't be edited.");
+      setLoading(false);
+      return;
+    }
+
+    await loadFormOptions();
+    setEditing({ id: slipId, editableUntil: result.editableUntil ?? null });
+    setFormData(result.slip);
+    setHasAccess(true);
+    setLoading(false);
+  };
+
   const checkAccessAndLoadUser = async () => {
+    // /beadle?edit=<id> opens a filed slip for editing. Anyone allowed to edit
+    // that slip gets the form, including supervisors who don't file slips.
+    const editId = Number(new URLSearchParams(window.location.search).get("edit"));
+    if (editId) {
+      await loadSlipForEditing(editId);
+      return;
+    }
+
     const result = await checkBeadleAccess();
     setHasAccess(result.hasAccess);
     setCurrentUserData(result.user);
@@ -81,92 +241,49 @@ export default function BeadleAttendancePage() {
       return;
     }
 
-    const cuser = await fetchCurrentUser(retrieveSessionToken());
-    const user = cuser ?? { email: "", form_class: "" };
-    
-    // Extract form level from user's form_class (e.g., "5-2" -> "5th", "6A-1" -> "6A")
-    let userForm = "";
-    if (user?.form_class) {
-      const formClass = user.form_class.toUpperCase();
-      if (formClass.startsWith("1")) userForm = "1st";
-      else if (formClass.startsWith("2")) userForm = "2nd";
-      else if (formClass.startsWith("3")) userForm = "3rd";
-      else if (formClass.startsWith("4")) userForm = "4th";
-      else if (formClass.startsWith("5")) userForm = "5th";
-      else if (formClass.includes("6A")) userForm = "6A";
-      else if (formClass.includes("6B")) userForm = "6B";
-    }
+    const cuser = await fetchCurrentUser();
+    const user = cuser ?? { email: "", class_id: null };
+    const schoolForms = await loadFormOptions();
+
+    // New slips are always for the beadle's own class; the server fills it in
+    // from their profile whatever is sent.
+    const userForm = schoolForms.find(form => form.classes.some(c => c.id === user.class_id));
+    const userClass = userForm?.classes.find(c => c.id === user.class_id);
     
     setFormData(prev => ({
       ...prev,
       "beadleEmail": user?.email ?? "",
-      "form": userForm
+      "form": userForm?.code ?? "",
+      "formClass": userClass?.name ?? "",
+      "date": schoolNow().date
     }));
     setLoading(false);
   }
 
-  const formLevels = [
-    { value: "1st", label: "1st" },
-    { value: "2nd", label: "2nd" },
-    { value: "3rd", label: "3rd" },
-    { value: "4th", label: "4th" },
-    { value: "5th", label: "5th" },
-    { value: "6B", label: "6B (Lower 6th)" },
-    { value: "6A", label: "6A (Upper 6th)" }
-  ];
-
-  const teachers = [
-    "Ms. Johnson", "Mr. Smith", "Mrs. Davis", "Dr. Brown", "Ms. Wilson",
-    "Mr. Taylor", "Mrs. Anderson", "Ms. Thomas", "Mr. Jackson", "Mrs. White"
-  ];
-
-  const subjects = [
-    "Accounts", "Additional Mathematics", "Art", "Biology", "Caribbean Studies",
-    "Chemistry", "Christian Living", "Communication Studies", "Computer Science", "Digital Media",
-    "Drama", "Economics", "Electrical & Electronic Technology", "English Language", "English Literature",
-    "French", "Geography", "History", "Information Technology", "Integrated Science",
-    "Law", "Management of Business", "Mathematics", "Music", "Personal Development",
-    "Physical Education", "Physics", "Principles of Accounts", "Principles of Business", "Sociology",
-    "Spanish", "Technical Drawing"
-  ];
-
-  const calculateEndTime = (startTime: string, isDouble: boolean) => {
-    if (!startTime) return "";
-    
-    const [hours, minutes] = startTime.split(':').map(Number);
-    const startDate = new Date();
-    startDate.setHours(hours, minutes, 0, 0);
-  
-    const additionalMinutes = isDouble ? 70 : 35;
-    startDate.setMinutes(startDate.getMinutes() + additionalMinutes);
-    
-    const endHours = startDate.getHours().toString().padStart(2, '0');
-    const endMinutes = startDate.getMinutes().toString().padStart(2, '0');
-    
-    return `${endHours}:${endMinutes}`;
+  const formClasses = forms.find(form => form.code === formData.form)?.classes ?? [];
+
+  const clearFieldErrors = (...fields: (keyof AttendanceFormData)[]) => {
+    setFieldErrors(prev => {
+      const next = { ...prev };
+      fields.forEach(field => delete next[field]);
+      return next;
+    });
+  };
+
+  // Fields whose errors depend on the one being changed.
+  const relatedFields: Partial<Record<keyof AttendanceFormData, (keyof AttendanceFormData)[]>> = {
+    period: ["classStartTime", "classEndTime"],
+    isDoubleSession: ["period", "classStartTime", "classEndTime"],
+    classStartTime: ["classEndTime"],
+    classEndTime: ["teacherArrivalTime"],
+    teacherPresent: ["teacherArrivalTime", "substituteReceived"],
+    date: ["period"]
   };
 
   const handleInputChange = (e: any) => {
     const { name, value, type, checked } = e.target;
     const newValue = type === 'checkbox' ? checked : value;
-    
-    // Validate formClass input
-    if (name === 'formClass' && value) {
-      const form = formData.form;
-      const inputValue = value.toUpperCase();
-      
-      // Skip validation for 6th form (6A and 6B)
-      if (form !== '6A' && form !== '6B') {
-        // Extract the form number (1st -> 1, 2nd -> 2, etc.)
-        const formNumber = form.replace(/[^0-9]/g, '');
-        
-        // Check if the input starts with the correct form number
-        if (formNumber && !inputValue.startsWith(formNumber)) {
-          error(`Form class must start with ${formNumber} for ${form} form students`);
-          return;
-        }
-      }
-    }
+    clearFieldErrors(name, ...(relatedFields[name as keyof AttendanceFormData] || []));
     
     setFormData(prev => {
       const updated = {
@@ -174,17 +291,49 @@ export default function BeadleAttendancePage() {
         [name]: newValue
       };
 
-      if (name === 'classStartTime' || name === 'isDoubleSession') {
-        const startTime = name === 'classStartTime' ? value : prev.classStartTime;
-        const isDouble = name === 'isDoubleSession' ? checked : prev.isDoubleSession;
-        updated.classEndTime = calculateEndTime(startTime, isDouble);
+      // Roster picks belong to the class they were made for.
+      if (name === 'formClass') {
+        updated.rosterStatus = {};
+        updated.lateMinutes = {};
+      }
+
+      if (name === 'period' || name === 'isDoubleSession' || name === 'classStartTime' || name === 'classEndTime') {
+        setSelectedLesson("");
+      }
+
+      // Times come from the bell schedule unless the beadle picked "Other".
+      if ((name === 'period' || name === 'isDoubleSession') && updated.period) {
+        const times = periodTimes(periods, updated.period, updated.isDoubleSession);
+        updated.classStartTime = times?.start ?? "";
+        updated.classEndTime = times?.end ?? "";
       }
       
       return updated;
     });
   };
 
+  const setRosterStatus = (studentId: number, status: RosterStatus | "present") => {
+    setFormData(prev => {
+      const rosterStatus = { ...prev.rosterStatus };
+      const lateMinutes = { ...prev.lateMinutes };
+      if (status === "present") {
+        delete rosterStatus[studentId];
+      } else {
+        rosterStatus[studentId] = status;
+      }
+      if (status !== "late") {
+        delete lateMinutes[studentId];
+      }
+      return { ...prev, rosterStatus, lateMinutes };
+    });
+    clearFieldErrors("rosterStatus", "lateMinutes", "lateStudents");
+  };
+
+  const rosterNames = (status: RosterStatus) =>
+    roster.filter(student => formData.rosterStatus[student.id] === status).map(student => student.full_name);
+
   const handleArrayChange = (field: keyof AttendanceFormData, index: number, value: any) => {
+    clearFieldErrors(field);
     if (Array.isArray(formData[field])) {
       setFormData(prev => ({
         ...prev,
@@ -211,21 +360,38 @@ export default function BeadleAttendancePage() {
     }
   };
 
-  const handleSubmit = async () => {
-    if (formData.classEndTime <= formData.classStartTime) {
-      error("End time must be later than start time.");
+  // Resubmits after an overlap warning either amend the chosen slip or, with
+  // allowConflict, file this one alongside it.
+  const handleSubmit = async (options: { amendSlipId?: number; allowConflict?: boolean; note?: string } = {}) => {
+    // The server checks the same rules again; this just saves a round trip.
+    const { errors } = validateBeadleSlip(formData, schoolNow().date);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      error("Please fix the answers marked in red.");
       return;
     }
 
     try {
-      const result = await saveBeadleSlip(formData);
+      const saveOptions = editing ? { ...options, amendSlipId: editing.id, note: editNote } : options;
+      const result = await saveBeadleSlip(formData, saveOptions);
+      if (result.conflicts) {
+        setConflicts(result.conflicts);
+        setConflictOptions({ amendSlipId: saveOptions.amendSlipId, note: saveOptions.note });
+        return;
+      }
+      setConflicts([]);
+      if (result.success && editing) {
+        success("Slip updated.");
+        router.push(`/beadle/view?slip=${editing.id}`);
+        return;
+      }
       if (result.success) {
         setSubmittedData({
           ...formData,
           id: result.id || Math.floor(Math.random() * 10000), 
           date: formData.date,
           beadle_email: formData.beadleEmail,
-          grade_level: formData.form,
+          grade_level: forms.find(form => form.code === formData.form)?.display_name ?? formData.form,
           class_name: formData.formClass,
           class_start_time: formData.classStartTime,
           class_end_time: formData.classEndTime,
@@ -235,16 +401,17 @@ export default function BeadleAttendancePage() {
           teacher_arrival_time: formData.teacherArrivalTime,
           substitute_received: formData.substituteReceived,
           students_present: formData.studentsPresent,
-          absent_students: formData.absentStudents.filter(s => s.trim() !== ''),
-          late_students: formData.lateStudents.filter(s => s.trim() !== ''),
+          absent_students: [...rosterNames("absent"), ...formData.absentStudents.filter(s => s.trim() !== '')],
+          late_students: [...rosterNames("late"), ...formData.lateStudents.filter(s => s.trim() !== '')],
           is_double_session: formData.isDoubleSession,
           attendance_status: 'present',
           homework_assigned: formData.homeworkGiven,
           homework_completed: 'yes',
         });
         setShowConfirmation(true);
-        success("Attendance form submitted successfully!");
+        success(result.amended ? "The existing slip was amended with your answers." : "Attendance form submitted successfully!");
       } else {
+        setFieldErrors(result.fieldErrors || {});
         error("Error submitting form: " + result.error);
       }
     } catch (err) {
@@ -263,10 +430,11 @@ export default function BeadleAttendancePage() {
     });
 
     if (confirmed) {
-      setFormData({
-        beadleEmail: "",
-        form: "",
-        formClass: "",
+      setFormData(prev => ({
+        beadleEmail: prev.beadleEmail,
+        form: prev.form,
+        formClass: prev.formClass,
+        period: "",
         classStartTime: "",
         classEndTime: "",
         date: "",
@@ -279,8 +447,11 @@ export default function BeadleAttendancePage() {
         studentsPresent: "",
         absentStudents: [""],
         lateStudents: [""],
+        rosterStatus: {},
+        lateMinutes: {},
         isDoubleSession: false
-      });
+      }));
+      setFieldErrors({});
       success("Form cleared successfully.");
     }
   };
@@ -309,7 +480,7 @@ export default function BeadleAttendancePage() {
               </svg>
             </div>
             <h2 className="text-4xl font-bold mb-4" style={{color: '#B91C47'}}>
-              Not a Beadle
+              {accessTitle}
             </h2>
             <p className="text-gray-600 text-lg leading-relaxed">
               {accessMessage}
@@ -350,13 +521,22 @@ export default function BeadleAttendancePage() {
               </div>
             </div>
 
+            {editing && (
+              <div className="mb-6 p-4 rounded-lg border border-yellow-300 bg-yellow-50 text-sm text-yellow-900">
+                You are editing a slip that has already been filed. Your changes are saved as a revision that shows on the slip&apos;s details.
+                {editing.editableUntil && (
+                  <> You can make changes until {formatTime(editing.editableUntil.slice(11))} on {formatJamaicanDate(editing.editableUntil.slice(0, 10))}.</>
+                )}
+              </div>
+            )}
+
             <div className="space-y-6">
               <div className="bg-red-50 p-6 rounded-lg border border-red-200">
                 <h3 className="text-xl font-semibold mb-4" style={{color: '#B91C47'}}>Beadle Information</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div>
                     <label htmlFor="beadleEmail" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
-                      Your Email *
+                      {editing ? "Filed By" : "Your Email *"}
                     </label>
                     <input
                       type="email"
@@ -388,47 +568,36 @@ export default function BeadleAttendancePage() {
                       style={{'--tw-ring-color': '#B91C47'} as any}
                     >
                       <option value="">Select Form</option>
-                      {formLevels.map((form) => (
-                        <option key={form.value} value={form.value}>{form.label}</option>
+                      {forms.map((form) => (
+                        <option key={form.id} value={form.code}>{form.display_name}</option>
                       ))}
                     </select>
+                    <FieldError message={fieldErrors.form} />
                   </div>
                   <div>
                     <label htmlFor="formClass" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
                       Form Class *
                     </label>
-                    <input
-                      type="text"
+                    <select
                       id="formClass"
                       name="formClass"
                       value={formData.formClass}
-                      placeholder={
-                        formData.form === '6A' || formData.form === '6B' 
-                          ? "e.g., Biology-1, Physics-2, or 6A-1" 
-                          : formData.form 
-                            ? `Must start with ${formData.form.replace(/[^0-9]/g, '')} (e.g., ${formData.form.replace(/[^0-9]/g, '')}-2, ${formData.form.replace(/[^0-9]/g, '')}A)` 
-                            : "1-2 / 4A / [Subject/6A]-1"
-                      }
                       onChange={handleInputChange}
                       required
-                      title={
-                        formData.form === '6A' || formData.form === '6B'
-                          ? "6th form: Enter subject name or form class (e.g., Biology-1, 6A-2)"
-                          : formData.form
-                            ? `Must start with ${formData.form.replace(/[^0-9]/g, '')} for ${formData.form} form`
-                            : "Enter the specific form class or group"
-                      }
-                      className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
+                      disabled={!editing}
+                      title={editing ? "The class this slip is for" : "Your class (automatically set from your profile)"}
+                      className={`w-full px-4 py-2 border border-red-300 rounded-lg text-gray-800 ${editing ? "bg-white focus:outline-none focus:ring-2 focus:border-transparent" : "bg-gray-100 cursor-not-allowed"}`}
                       style={{'--tw-ring-color': '#B91C47'} as any}
-                    />
-                    {formData.form && formData.form !== '6A' && formData.form !== '6B' && (
-                      <p className="text-xs text-gray-600 mt-1">
-                        Must start with {formData.form.replace(/[^0-9]/g, '')} (e.g., {formData.form.replace(/[^0-9]/g, '')}-2, {formData.form.replace(/[^0-9]/g, '')}A)
-                      </p>
-                    )}
-                    {(formData.form === '6A' || formData.form === '6B') && (
+                    >
+                      <option value="">Select Class</option>
+                      {formClasses.map((schoolClass) => (
+                        <option key={schoolClass.id} value={schoolClass.name}>{schoolClass.name}</option>
+                      ))}
+                    </select>
+                    <FieldError message={fieldErrors.formClass} />
+                    {formData.form && formClasses.length === 0 && (
                       <p className="text-xs text-gray-600 mt-1">
-                        6th form: Can start with subject name or form number (e.g., Biology-1, Physics-2, 6A-1)
+                        No classes are set up for your form yet. Ask the tech team to add them.
                       </p>
                     )}
                   </div>
@@ -447,6 +616,7 @@ export default function BeadleAttendancePage() {
                       className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
                       style={{'--tw-ring-color': '#B91C47'} as any}
                     />
+                    <FieldError message={fieldErrors.date} />
                   </div>
                 </div>
               </div>
@@ -454,6 +624,33 @@ export default function BeadleAttendancePage() {
               <div className="bg-red-25 p-6 rounded-lg border border-red-200" style={{backgroundColor: '#fef7f7'}}>
                 <h3 className="text-xl font-semibold mb-4" style={{color: '#B91C47'}}>Class Information</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {lessons.length > 0 && (
+                    <div className="md:col-span-2">
+                      <label htmlFor="lesson" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
+                        Timetabled Period
+                      </label>
+                      <select
+                        id="lesson"
+                        value={selectedLesson}
+                        onChange={(e) => handleLessonChange(e.target.value)}
+                        title="Pick the period from your class timetable to fill in the teacher, subject and times"
+                        className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
+                        style={{'--tw-ring-color': '#B91C47'} as any}
+                      >
+                        <option value="">Not on the timetable (enter details below)</option>
+                        {lessons.map((lesson) => (
+                          <option key={lessonKey(lesson)} value={lessonKey(lesson)}>
+                            {lesson.is_double ? `Periods ${lesson.first_period}-${lesson.last_period}` : `Period ${lesson.first_period}`}
+                            {` (${lesson.start_time}-${lesson.end_time}): ${lesson.subject}, ${lesson.teacher}`}
+                            {lesson.room ? `, ${lesson.room}` : ""}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-600 mt-1">
+                        Teacher, subject and times are filled in from the timetable. Change them below if today was different.
+                      </p>
+                    </div>
+                  )}
                   <div>
                     <label htmlFor="teacher" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
                       Teacher *
@@ -470,9 +667,10 @@ export default function BeadleAttendancePage() {
                       style={{'--tw-ring-color': '#B91C47'} as any}
                       placeholder="Select or type teacher name"
                     />
+                    <FieldError message={fieldErrors.teacher} />
                     <datalist id="teachers">
                       {teachers.map((teacher) => (
-                        <option key={teacher} value={teacher} />
+                        <option key={teacher.id} value={teacher.display_name} />
                       ))}
                     </datalist>
                   </div>
@@ -492,9 +690,38 @@ export default function BeadleAttendancePage() {
                     >
                       <option value="">Select Subject</option>
                       {subjects.map((subject) => (
-                        <option key={subject} value={subject}>{subject}</option>
+                        <option key={subject.id} value={subject.name}>{subject.name}</option>
+                      ))}
+                      {editing && formData.subject && !subjects.some(subject => subject.name === formData.subject) && (
+                        <option value={formData.subject}>{formData.subject} (retired)</option>
+                      )}
+                    </select>
+                    <FieldError message={fieldErrors.subject} />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label htmlFor="period" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
+                      Period *
+                    </label>
+                    <select
+                      id="period"
+                      name="period"
+                      value={formData.period}
+                      onChange={handleInputChange}
+                      title="Pick the period the class was in; the times come from today's bell schedule"
+                      className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
+                      style={{'--tw-ring-color': '#B91C47'} as any}
+                    >
+                      <option value="">{periods.length > 0 ? "Other (enter the times below)" : "Select a date first"}</option>
+                      {periods.map((period) => (
+                        <option key={period.period} value={period.period}>
+                          Period {period.period} ({period.start_time}-{period.end_time})
+                        </option>
                       ))}
                     </select>
+                    <FieldError message={fieldErrors.period} />
+                    {scheduleName && (
+                      <p className="text-xs text-gray-600 mt-1">{scheduleName} schedule</p>
+                    )}
                   </div>
                   <div>
                     <label htmlFor="classStartTime" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
@@ -507,10 +734,12 @@ export default function BeadleAttendancePage() {
                       value={formData.classStartTime}
                       onChange={handleInputChange}
                       required
-                      title="Enter the scheduled start time for this class period"
-                      className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
+                      readOnly={!!formData.period}
+                      title={formData.period ? "Set from the bell schedule for the period you picked" : "Enter the time this class started"}
+                      className={`w-full px-4 py-2 ${formData.period ? "bg-red-50" : "bg-white"} border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent`}
                       style={{'--tw-ring-color': '#B91C47'} as any}
                     />
+                    <FieldError message={fieldErrors.classStartTime} />
                   </div>
                   <div>
                     <label htmlFor="classEndTime" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
@@ -523,11 +752,12 @@ export default function BeadleAttendancePage() {
                       value={formData.classEndTime}
                       onChange={handleInputChange}
                       required
-                      readOnly
-                      title="This is automatically calculated based on start time and session type"
-                      className="w-full px-4 py-2 bg-red-50 border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
+                      readOnly={!!formData.period}
+                      title={formData.period ? "Set from the bell schedule for the period you picked" : "Enter the time this class ended"}
+                      className={`w-full px-4 py-2 ${formData.period ? "bg-red-50" : "bg-white"} border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent`}
                       style={{'--tw-ring-color': '#B91C47'} as any}
                     />
+                    <FieldError message={fieldErrors.classEndTime} />
                   </div>
                   <div className="md:col-span-2">
                     <div className="flex items-center space-x-3">
@@ -541,14 +771,11 @@ export default function BeadleAttendancePage() {
                         style={{'--tw-ring-color': '#B91C47', 'accentColor': '#B91C47'} as any}
                       />
                       <label htmlFor="isDoubleSession" className="text-sm font-medium" style={{color: '#B91C47'}}>
-                        Double Session (70 minutes)
+                        Double Session
                       </label>
-                      <span className="text-xs text-gray-500">
-                        {formData.isDoubleSession ? '(1hr 10min class)' : '(35min class)'}
-                      </span>
                     </div>
                     <p className="text-xs text-gray-600 mt-1">
-                      Check this box if the class is a double session. End time will be calculated automatically.
+                      Check this box if the class ran into the next period. The end time moves to the end of that period.
                     </p>
                   </div>
 
@@ -577,6 +804,7 @@ export default function BeadleAttendancePage() {
                         <option value="yes">Yes</option>
                         <option value="no">No</option>
                       </select>
+                      <FieldError message={fieldErrors.teacherPresent} />
                     </div>
                     <div>
                       <label htmlFor="homeworkGiven" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
@@ -596,6 +824,7 @@ export default function BeadleAttendancePage() {
                         <option value="yes">Yes</option>
                         <option value="no">No</option>
                       </select>
+                      <FieldError message={fieldErrors.homeworkGiven} />
                     </div>
                   </div>
                   
@@ -615,6 +844,7 @@ export default function BeadleAttendancePage() {
                         className="w-full md:w-64 px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:border-transparent"
                         style={{'--tw-ring-color': '#B91C47'} as any}
                       />
+                      <FieldError message={fieldErrors.teacherArrivalTime} />
                     </div>
                   )}
                   
@@ -637,6 +867,7 @@ export default function BeadleAttendancePage() {
                         <option value="yes">Yes</option>
                         <option value="no">No</option>
                       </select>
+                      <FieldError message={fieldErrors.substituteReceived} />
                     </div>
                   )}
                 </div>
@@ -662,12 +893,63 @@ export default function BeadleAttendancePage() {
                     style={{'--tw-ring-color': '#B91C47'} as any}
                     placeholder="Enter number"
                   />
+                  <FieldError message={fieldErrors.studentsPresent} />
                 </div>
 
+                {roster.length > 0 && (
+                  <div className="mb-6">
+                    <label className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
+                      Class Roster ({roster.length - rosterNames("absent").length} here, {rosterNames("absent").length} absent, {rosterNames("late").length} late)
+                    </label>
+                    <div className="bg-white border border-red-200 rounded-lg divide-y divide-red-100">
+                      {roster.map(student => {
+                        const status = formData.rosterStatus[student.id] ?? "present";
+                        return (
+                          <div key={student.id} className="flex items-center justify-between px-4 py-2">
+                            <span className="text-gray-800">{student.full_name}</span>
+                            <div className="flex gap-4 text-sm">
+                              {(["present", "absent", "late"] as const).map(option => (
+                                <label key={option} className="flex items-center gap-1 cursor-pointer text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={status === option}
+                                    onChange={() => setRosterStatus(student.id, option)}
+                                    className="accent-[#B91C47]"
+                                  />
+                                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                                </label>
+                              ))}
+                              {status === "late" && (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={formData.lateMinutes[student.id] ?? ""}
+                                  onChange={(e) => {
+                                    clearFieldErrors("lateMinutes");
+                                    setFormData(prev => ({
+                                      ...prev,
+                                      lateMinutes: { ...prev.lateMinutes, [student.id]: e.target.value }
+                                    }));
+                                  }}
+                                  title="How many minutes late the student arrived"
+                                  placeholder="mins"
+                                  className="w-20 px-2 py-1 bg-white border border-red-300 rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                                />
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <FieldError message={fieldErrors.rosterStatus} />
+                    <FieldError message={fieldErrors.lateMinutes} />
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
                     <label className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
-                      Absent Students
+                      {roster.length > 0 ? "Absent (not on roster)" : "Absent Students"}
                     </label>
                     {formData.absentStudents.map((student, index) => (
                       <div key={index} className="flex gap-2 mb-2">
@@ -700,11 +982,12 @@ export default function BeadleAttendancePage() {
                     >
                       + Add Student
                     </button>
+                    <FieldError message={fieldErrors.absentStudents} />
                   </div>
 
                   <div>
                     <label className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
-                      Late Students
+                      {roster.length > 0 ? "Late (not on roster)" : "Late Students"}
                     </label>
                     {formData.lateStudents.map((student, index) => (
                       <div key={index} className="flex gap-2 mb-2">
@@ -737,10 +1020,30 @@ export default function BeadleAttendancePage() {
                     >
                       + Add Student
                     </button>
+                    <FieldError message={fieldErrors.lateStudents} />
                   </div>
                 </div>
               </div>
 
+              {editing && (
+                <div>
+                  <label htmlFor="editNote" className="block text-sm font-medium mb-2" style={{color: '#B91C47'}}>
+                    Reason for Change
+                  </label>
+                  <input
+                    type="text"
+                    id="editNote"
+                    value={editNote}
+                    onChange={(e) => setEditNote(e.target.value)}
+                    maxLength={200}
+                    title="Say briefly why the slip is being changed; this is kept with the revision"
+                    className="w-full px-4 py-2 bg-white border border-red-300 rounded-lg text-gray-800 placeholder-gray-500 focus:outline-none focus:ring-2 focus:border-transparent"
+                    style={{'--tw-ring-color': '#B91C47'} as any}
+                    placeholder="e.g. Wrong student marked absent"
+                  />
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row gap-4 justify-center">
                 <button
                   type="submit"
@@ -749,8 +1052,9 @@ export default function BeadleAttendancePage() {
                   onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#A01B3F'}
                   onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = '#B91C47'}
                 >
-                  Submit Attendance
+                  {editing ? "Save Changes" : "Submit Attendance"}
                 </button>
+                {!editing && (
                 <button
                   type="button"
                   onClick={handleReset}
@@ -758,6 +1062,7 @@ export default function BeadleAttendancePage() {
                 >
                   Clear Form
                 </button>
+                )}
                 <a
                   href="/beadle/view"
                   className="px-4 py-2 text-white font-semibold rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 text-center"
@@ -788,6 +1093,86 @@ export default function BeadleAttendancePage() {
         />
       )}
 
+      {conflicts.length > 0 && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-hidden shadow-2xl">
+            <div className="text-white px-6 py-4" style={{backgroundColor: '#B91C47'}}>
+              <h2 className="text-xl font-bold">This lesson already has a slip</h2>
+            </div>
+
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-160px)] space-y-4">
+              <p className="text-gray-700">
+                {conflicts.length === 1 ? "A slip has" : `${conflicts.length} slips have`} already been filed for {formData.formClass} on {formData.date} at an overlapping time.
+                Amend an existing slip instead of filing a second one, so absences aren&apos;t counted twice.
+              </p>
+              {conflicts.map(existing => (
+                <div key={existing.id} className="border border-red-200 rounded-lg p-4" style={{backgroundColor: '#fef7f7'}}>
+                  <div className="flex justify-between items-start gap-4">
+                    <div className="text-sm text-gray-700 space-y-1">
+                      <div className="font-semibold" style={{color: '#B91C47'}}>
+                        {existing.period ? `Period ${existing.period}, ` : ""}{formatTime(existing.class_start_time)} - {formatTime(existing.class_end_time)}
+                      </div>
+                      <div>{existing.subject} with {existing.teacher}</div>
+                      {existing.can_view ? (
+                        <>
+                          <div>
+                            {existing.students_present} present, {existing.absent_students?.length ?? 0} absent, {existing.late_students?.length ?? 0} late
+                          </div>
+                          <div className="text-gray-500">Filed by {existing.beadle_email?.split('@')[0]}</div>
+                        </>
+                      ) : (
+                        <div>{existing.students_present} present</div>
+                      )}
+                    </div>
+                    <div className="flex flex-col gap-2 shrink-0">
+                      {existing.can_view && (
+                        <a
+                          href={`/beadle/view?slip=${existing.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="px-3 py-2 text-sm text-center border rounded-lg transition-colors hover:bg-red-50"
+                          style={{color: '#B91C47', borderColor: '#B91C47'}}
+                        >
+                          View slip
+                        </a>
+                      )}
+                      {existing.can_amend && conflictOptions.amendSlipId === undefined && (
+                        <button
+                          type="button"
+                          onClick={() => handleSubmit({ amendSlipId: existing.id, note: "Replaced by a new submission for the same lesson" })}
+                          className="px-3 py-2 text-sm text-white rounded-lg transition-colors"
+                          style={{backgroundColor: '#B91C47'}}
+                        >
+                          Amend with my answers
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="px-6 py-4 flex justify-between items-center border-t" style={{backgroundColor: '#fef7f7', borderTopColor: '#B91C47'}}>
+              <button
+                type="button"
+                onClick={() => setConflicts([])}
+                className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => handleSubmit({ ...conflictOptions, allowConflict: true })}
+                className="px-4 py-2 font-semibold rounded-lg border transition-colors hover:bg-red-50"
+                style={{color: '#B91C47', borderColor: '#B91C47'}}
+              >
+                {conflictOptions.amendSlipId === undefined ? "File as a separate slip" : "Save anyway"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showConfirmation && submittedData && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-hidden shadow-2xl">
@@ -832,10 +1217,11 @@ export default function BeadleAttendancePage() {
               <button
                 onClick={() => {
                   setShowConfirmation(false);
-                  setFormData({
-                    beadleEmail: "",
-                    form: "",
-                    formClass: "",
+                  setFormData(prev => ({
+                    beadleEmail: prev.beadleEmail,
+                    form: prev.form,
+                    formClass: prev.formClass,
+                    period: "",
                     classStartTime: "",
                     classEndTime: "",
                     date: "",
@@ -848,8 +1234,10 @@ export default function BeadleAttendancePage() {
                     studentsPresent: "",
                     absentStudents: [""],
                     lateStudents: [""],
+                    rosterStatus: {},
+                    lateMinutes: {},
                     isDoubleSession: false
-                  });
+                  }));
                 }}
                 className="px-6 py-3 bg-gray-500 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors shadow-md"
               >
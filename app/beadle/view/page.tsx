@@ -1,6 +1,6 @@
 "use client";
 import { getBeadleSlips, deleteBeadleSlip, fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
+import { can } from "@/lib/permissions";
 import { ConfirmationModal } from '@/components/ConfirmationModal';
 import { useConfirmation } from '@/hooks/useConfirmation';
 import { useEffect, useState } from "react";
@@ -8,12 +8,16 @@ import dynamic from "next/dynamic";
 import { ToastContainer } from '@/components/Toast';
 import { useToast } from '@/hooks/useToast';
 import Image from 'next/image';
+import { getSchoolForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
+import { SlipHistory } from "@/components/SlipHistory";
 
 type BeadleSlip = {
   id: number;
   beadle_email: string;
   grade_level: string;
   class_name: string;
+  form_id: number | null;
   class_start_time: string;
   class_end_time: string;
   date: string;
@@ -40,6 +44,7 @@ function BeadleDashboardContent() {
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<any>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [forms, setForms] = useState<FormRecord[]>([]);
   const [filterGrade, setFilterGrade] = useState("");
   const [filterDate, setFilterDate] = useState("");
   const [filterTeacher, setFilterTeacher] = useState("");
@@ -54,22 +59,36 @@ function BeadleDashboardContent() {
 
   useEffect(() => {
     loadSlips();
+    loadForms();
     loadCurrentUser();
   }, []);
 
   const loadCurrentUser = async () => {
     try {
-      const user = await fetchCurrentUser(retrieveSessionToken(), false);
+      const user = await fetchCurrentUser(false);
       setCurrentUser(user);
     } catch (error) {
       console.error("Error loading current user:", error);
     }
   };
 
+  const loadForms = async () => {
+    const result = await getSchoolForms();
+    setForms(result.forms || []);
+  };
+
   const loadSlips = async () => {
     try {
       const data = await getBeadleSlips();
       setSlips(data);
+
+      // Links such as the beadle form's overlap warning open one slip directly.
+      const linkedId = Number(new URLSearchParams(window.location.search).get("slip"));
+      const linked = data.find((slip: BeadleSlip) => slip.id === linkedId);
+      if (linked) {
+        setSelectedSlip(linked);
+        setViewedReports(prev => new Set([...prev, linked.id]));
+      }
     } catch (error) {
       console.error("Error loading beadle slips:", error);
     } finally {
@@ -105,7 +124,7 @@ function BeadleDashboardContent() {
     }
   };
 
-  const isAdmin = currentUser?.role === 2 || (currentUser?.roles && (currentUser.roles.includes('admin') || currentUser.roles.includes('super_admin')));
+  const isAdmin = can(currentUser, "slips.delete");
 
   const filteredSlips = slips.filter(slip => {
     const matchesSearch = searchTerm === "" || 
@@ -115,7 +134,7 @@ function BeadleDashboardContent() {
       slip.beadle_email.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesDate = filterDate === "" || slip.date === filterDate;
-    const matchesGrade = filterGrade === "" || slip.grade_level === filterGrade;
+    const matchesGrade = filterGrade === "" || String(slip.form_id) === filterGrade;
     const matchesTeacher = filterTeacher === "" || slip.teacher.toLowerCase().includes(filterTeacher.toLowerCase());
     const matchesSubject = filterSubject === "" || slip.subject.toLowerCase().includes(filterSubject.toLowerCase());
     
@@ -212,13 +231,9 @@ function BeadleDashboardContent() {
                   className="px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2" style={{'--tw-ring-color': '#B91C47'} as any}
                 >
                   <option value="">All Grade Levels</option>
-                  <option value="1st">1st</option>
-                  <option value="2nd">2nd</option>
-                  <option value="3rd">3rd</option>
-                  <option value="4th">4th</option>
-                  <option value="5th">5th</option>
-                  <option value="6B">6B (Lower 6th)</option>
-                  <option value="6A">6A (Upper 6th)</option>
+                  {forms.map(form => (
+                    <option key={form.id} value={form.id}>{form.display_name}</option>
+                  ))}
                 </select>
                 <input
                   type="date"
@@ -609,6 +624,8 @@ function BeadleDashboardContent() {
                 </div>
               </div>
 
+              <SlipHistory slipId={selectedSlip.id} />
+
               <div className="flex justify-between items-center">
                 <div className="flex space-x-3">
                   <button
@@ -4,9 +4,8 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
-import { FaUser, FaEnvelope, FaSchool, FaShieldAlt, FaKey, FaEdit, FaSave, FaTimes } from "react-icons/fa";
+import { FaUser, FaEnvelope, FaSchool, FaShieldAlt, FaKey, FaEdit, FaSave, FaTimes, FaDesktop } from "react-icons/fa";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 import { updateProfile, changePassword } from "@/lib/profile-actions";
 
 interface UserProfile {
@@ -42,13 +41,7 @@ export default function Dashboard() {
 
   const fetchUserProfile = async () => {
     try {
-      const token = retrieveSessionToken();
-      if (!token) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const userData = await fetchCurrentUser(token, false);
+      const userData = await fetchCurrentUser(false);
       
       if (userData) {
         setUser(userData);
@@ -73,7 +66,7 @@ export default function Dashboard() {
     if (!user) return;
     
     try {
-      const result = await updateProfile(user.id, fullName, formClass || null);
+      const result = await updateProfile(fullName, formClass || null);
       
       if (result.success) {
         setMessage("Profile updated successfully!");
@@ -106,7 +99,7 @@ export default function Dashboard() {
     }
     
     try {
-      const result = await changePassword(user.id, currentPassword, newPassword);
+      const result = await changePassword(currentPassword, newPassword);
       
       if (result.success) {
         setMessage("Password changed successfully!");
@@ -380,6 +373,42 @@ export default function Dashboard() {
             )}
           </div>
 
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-3">
+                <FaDesktop className="text-gray-400 text-xl" />
+                <h2 className="text-xl font-bold text-gray-800">Active Sessions</h2>
+              </div>
+              <a
+                href="/dashboard/sessions"
+                className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                Manage Sessions
+              </a>
+            </div>
+            <p className="text-sm text-gray-500 mt-2">
+              See where you are signed in and sign out devices you no longer use
+            </p>
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mt-6">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-3">
+                <FaShieldAlt className="text-gray-400 text-xl" />
+                <h2 className="text-xl font-bold text-gray-800">Two-Factor Authentication</h2>
+              </div>
+              <a
+                href="/dashboard/two-factor"
+                className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                Manage 2FA
+              </a>
+            </div>
+            <p className="text-sm text-gray-500 mt-2">
+              Require a code from an authenticator app when you log in
+            </p>
+          </div>
+
           <div className="mt-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
             <p className="text-xs text-gray-600">
               <strong>Account Created:</strong> {new Date(user.created_at).toLocaleDateString('en-US', {
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import { FaDesktop, FaArrowLeft, FaSignOutAlt } from "react-icons/fa";
+import { getMySessions, revokeMySession, revokeMyOtherSessions, ActiveSession } from "@/lib/session-actions";
+import { describeUserAgent } from "@/lib/utils";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+export default function ActiveSessionsPage() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const result = await getMySessions();
+      if (result.success) {
+        setSessions(result.sessions || []);
+      } else {
+        router.push("/auth/login");
+      }
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      setError("Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setError("");
+    setMessage("");
+
+    const result = await revokeMySession(session.id);
+    if (!result.success) {
+      setError(result.error || "Failed to revoke session");
+      return;
+    }
+
+    if (session.isCurrent) {
+      router.push("/auth/login");
+      return;
+    }
+
+    setMessage("Session revoked");
+    await loadSessions();
+    setTimeout(() => setMessage(""), 3000);
+  };
+
+  const handleRevokeOthers = async () => {
+    setError("");
+    setMessage("");
+
+    const result = await revokeMyOtherSessions();
+    if (result.success) {
+      setMessage(result.message || "Signed out of other sessions");
+      await loadSessions();
+      setTimeout(() => setMessage(""), 3000);
+    } else {
+      setError(result.error || "Failed to revoke sessions");
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gradient-to-b from-white to-gray-50">
+      <Navbar />
+
+      <main className="flex-1 py-8 px-6 md:px-16 lg:px-24">
+        <div className="max-w-4xl mx-auto">
+          <a href="/dashboard" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <FaArrowLeft /> Back to Dashboard
+          </a>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2" style={{color: '#8B1538'}}>
+              Active Sessions
+            </h1>
+            <p className="text-gray-600">
+              Devices currently signed in to your account
+            </p>
+          </div>
+
+          {message && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+              {error}
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            {loading ? (
+              <div className="p-12 text-center text-gray-500">
+                Loading sessions...
+              </div>
+            ) : sessions.length === 0 ? (
+              <div className="p-12 text-center text-gray-500">
+                No active sessions
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {sessions.map((session) => (
+                  <li key={session.id} className="p-6 flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-4">
+                      <FaDesktop className="text-gray-400 text-xl mt-1" />
+                      <div>
+                        <div className="font-medium text-gray-900 flex items-center gap-2">
+                          {describeUserAgent(session.userAgent)}
+                          {session.isCurrent && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              This device
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-500 mt-1">
+                          Signed in {formatDbTimestamp(session.createdAt)}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          Last active {formatDbTimestamp(session.lastSeenAt)}
+                          {session.ipAddress && <> &middot; {session.ipAddress}</>}
+                        </div>
+                        {session.userAgent && (
+                          <div className="text-xs text-gray-400 mt-1 break-all">{session.userAgent}</div>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(session)}
+                      className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors whitespace-nowrap"
+                    >
+                      <FaSignOutAlt /> {session.isCurrent ? "Sign out" : "Revoke"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {sessions.filter(s => !s.isCurrent).length > 0 && (
+            <button
+              onClick={handleRevokeOthers}
+              className="mt-6 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Sign out of all other sessions
+            </button>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
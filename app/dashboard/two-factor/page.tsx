@@ -0,0 +1,303 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import { FaArrowLeft, FaShieldAlt, FaCopy } from "react-icons/fa";
+import {
+  getMyTwoFactorStatus,
+  startTwoFactorEnrolment,
+  confirmTwoFactorEnrolment,
+  regenerateMyRecoveryCodes,
+  disableTwoFactor
+} from "@/lib/two-factor-actions";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface Enrolment {
+  secret: string;
+  qrCodeDataUrl: string;
+}
+
+export default function TwoFactorPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrolment, setEnrolment] = useState<Enrolment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const result = await getMyTwoFactorStatus();
+      if (result.success) {
+        setStatus({
+          enabled: !!result.enabled,
+          enabledAt: result.enabledAt ?? null,
+          required: !!result.required,
+          recoveryCodesRemaining: result.recoveryCodesRemaining ?? 0
+        });
+      } else {
+        router.push("/auth/login");
+      }
+    } catch (err) {
+      console.error("Error loading 2FA status:", err);
+      setError("Failed to load two-factor status");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetMessages = () => {
+    setError("");
+    setMessage("");
+  };
+
+  const handleStart = async () => {
+    resetMessages();
+    setSubmitting(true);
+    const result = await startTwoFactorEnrolment();
+    setSubmitting(false);
+
+    if (result.success && result.secret && result.qrCodeDataUrl) {
+      setEnrolment({ secret: result.secret, qrCodeDataUrl: result.qrCodeDataUrl });
+      setCode("");
+    } else {
+      setError(result.error || "Failed to start two-factor setup");
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    resetMessages();
+    setSubmitting(true);
+    const result = await confirmTwoFactorEnrolment(code);
+    setSubmitting(false);
+
+    if (result.success) {
+      setEnrolment(null);
+      setRecoveryCodes(result.recoveryCodes || []);
+      setCode("");
+      setMessage(result.message || "Two-factor authentication enabled");
+      await loadStatus();
+    } else {
+      setError(result.error || "Failed to enable two-factor authentication");
+    }
+  };
+
+  const handleRegenerate = async () => {
+    resetMessages();
+    setSubmitting(true);
+    const result = await regenerateMyRecoveryCodes(code);
+    setSubmitting(false);
+
+    if (result.success) {
+      setRecoveryCodes(result.recoveryCodes || []);
+      setCode("");
+      setMessage(result.message || "New recovery codes generated");
+      await loadStatus();
+    } else {
+      setError(result.error || "Failed to generate recovery codes");
+    }
+  };
+
+  const handleDisable = async () => {
+    resetMessages();
+    setSubmitting(true);
+    const result = await disableTwoFactor(code);
+    setSubmitting(false);
+
+    if (result.success) {
+      setRecoveryCodes([]);
+      setCode("");
+      setMessage(result.message || "Two-factor authentication disabled");
+      await loadStatus();
+    } else {
+      setError(result.error || "Failed to disable two-factor authentication");
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    setMessage("Recovery codes copied to clipboard");
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="6-digit code"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full md:w-64 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent tracking-widest"
+    />
+  );
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gradient-to-b from-white to-gray-50">
+      <Navbar />
+
+      <main className="flex-1 py-8 px-6 md:px-16 lg:px-24">
+        <div className="max-w-4xl mx-auto">
+          <a href="/dashboard" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <FaArrowLeft /> Back to Dashboard
+          </a>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2" style={{color: '#8B1538'}}>
+              Two-Factor Authentication
+            </h1>
+            <p className="text-gray-600">
+              Protect your account with a code from an authenticator app as well as your password
+            </p>
+          </div>
+
+          {status?.required && !status.enabled && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+              Two-factor authentication is required for your role. Set it up to continue using the site.
+            </div>
+          )}
+
+          {message && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-800">
+              {message}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+              {error}
+            </div>
+          )}
+
+          {recoveryCodes.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-2">Your Recovery Codes</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Each code can be used once if you lose access to your authenticator app.
+                Store them somewhere safe - they won&apos;t be shown again.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-gray-900 bg-gray-50 p-4 rounded-lg">
+                {recoveryCodes.map((recoveryCode) => (
+                  <div key={recoveryCode}>{recoveryCode}</div>
+                ))}
+              </div>
+              <button
+                onClick={copyRecoveryCodes}
+                className="mt-4 flex items-center gap-2 px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <FaCopy /> Copy Codes
+              </button>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            {loading || !status ? (
+              <div className="p-6 text-center text-gray-500">
+                Loading...
+              </div>
+            ) : status.enabled ? (
+              <>
+                <div className="flex items-center gap-3 mb-2">
+                  <FaShieldAlt className="text-green-600 text-xl" />
+                  <h2 className="text-xl font-bold text-gray-800">Two-factor authentication is on</h2>
+                </div>
+                <p className="text-sm text-gray-500 mb-6">
+                  Enabled {status.enabledAt ? formatDbTimestamp(status.enabledAt) : ""}
+                  {" "}&middot; {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+                </p>
+
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  Enter a current code to make changes
+                </label>
+                <div className="flex flex-col md:flex-row gap-3">
+                  {codeInput}
+                  <button
+                    onClick={handleRegenerate}
+                    disabled={submitting}
+                    className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    New Recovery Codes
+                  </button>
+                  {!status.required && (
+                    <button
+                      onClick={handleDisable}
+                      disabled={submitting}
+                      className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Turn Off
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : enrolment ? (
+              <form onSubmit={handleConfirm}>
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Scan this QR code</h2>
+                <div className="flex flex-col md:flex-row gap-6 items-start">
+                  <img src={enrolment.qrCodeDataUrl} alt="Two-factor QR code" className="w-48 h-48 border border-gray-200 rounded-lg" />
+                  <div className="flex-1">
+                    <p className="text-sm text-gray-600 mb-2">
+                      Scan the code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+                      If you can&apos;t scan it, enter this key instead:
+                    </p>
+                    <p className="font-mono text-sm bg-gray-50 p-3 rounded-lg break-all text-gray-900 mb-4">
+                      {enrolment.secret}
+                    </p>
+                    <label className="block text-sm font-medium text-gray-600 mb-1">
+                      Enter the 6-digit code the app shows
+                    </label>
+                    <div className="flex flex-col md:flex-row gap-3">
+                      {codeInput}
+                      <button
+                        type="submit"
+                        disabled={submitting}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        {submitting ? "Verifying..." : "Turn On"}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </form>
+            ) : (
+              <>
+                <div className="flex items-center gap-3 mb-2">
+                  <FaShieldAlt className="text-gray-400 text-xl" />
+                  <h2 className="text-xl font-bold text-gray-800">Two-factor authentication is off</h2>
+                </div>
+                <p className="text-sm text-gray-500 mb-6">
+                  When it&apos;s on, you&apos;ll enter a code from your phone each time you log in.
+                </p>
+                <button
+                  onClick={handleStart}
+                  disabled={submitting}
+                  className="px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                  style={{backgroundColor: '#8B1538'}}
+                >
+                  Set Up Two-Factor Authentication
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -6,7 +6,6 @@ import Logo from "../res/images/Campion_Logo.png";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 
 export default function HomePage() {
   const [user, setUser] = useState<any | null>(null);
@@ -21,7 +20,7 @@ export default function HomePage() {
     if (!isClient) return;
     
     (async () => {
-      const cuser = await fetchCurrentUser(retrieveSessionToken(), false);
+      const cuser = await fetchCurrentUser(false);
       setUser(cuser ?? null);
       setIsLoading(false);
     })();
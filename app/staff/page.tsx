@@ -7,8 +7,9 @@ import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
 import { FaClipboardList, FaChartLine, FaBars, FaTimes } from "react-icons/fa";
 import { fetchCurrentUser, getBeadleSlips } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 import { getAllMembersWithRoles, addRoleToMember, removeRoleFromMember } from "@/lib/role-db-helpers";
+import { getMySupervisedForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
 import { useToast } from "@/hooks/useToast";
 import { ToastContainer } from "@/components/Toast";
 import { formatJamaicanDate, formatTime, formatJamaicanDateTime } from "@/lib/timeUtils";
@@ -18,6 +19,7 @@ type User = {
   email: string;
   full_name: string;
   form_class?: string;
+  form_id?: number | null;
   roles: string[];
   roleDetails: any[];
 };
@@ -27,6 +29,7 @@ type BeadleSlip = {
   beadle_email: string;
   grade_level: string;
   class_name: string;
+  form_id: number | null;
   class_start_time: string;
   class_end_time: string;
   date: string;
@@ -48,7 +51,7 @@ export default function StaffPortal() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [supervisorForm, setSupervisorForm] = useState<string>("");
+  const [supervisorForm, setSupervisorForm] = useState<FormRecord | null>(null);
   const [students, setStudents] = useState<User[]>([]);
   const [reports, setReports] = useState<BeadleSlip[]>([]);
   const [loading, setLoading] = useState(true);
@@ -64,13 +67,7 @@ export default function StaffPortal() {
 
   const initializeDashboard = async () => {
     try {
-      const token = retrieveSessionToken();
-      if (!token) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const user = await fetchCurrentUser(token, false);
+      const user = await fetchCurrentUser(false);
       if (!user) {
         router.push("/auth/login");
         return;
@@ -78,16 +75,8 @@ export default function StaffPortal() {
 
       setCurrentUser(user);
 
-      const supervisorRoles = user.roles || [];
-      let form = "";
-      
-      if (supervisorRoles.includes("supervisor_1")) form = "1";
-      else if (supervisorRoles.includes("supervisor_2")) form = "2";
-      else if (supervisorRoles.includes("supervisor_3")) form = "3";
-      else if (supervisorRoles.includes("supervisor_4")) form = "4";
-      else if (supervisorRoles.includes("supervisor_5")) form = "5";
-      else if (supervisorRoles.includes("supervisor_6")) form = "6";
-      else if (supervisorRoles.includes("supervisor_6a")) form = "6A";
+      const { forms } = await getMySupervisedForms();
+      const form = forms?.[0] ?? null;
 
       setSupervisorForm(form);
       if (form) {
@@ -101,14 +90,11 @@ export default function StaffPortal() {
     }
   };
 
-  const fetchReports = async (form: string) => {
+  const fetchReports = async (form: FormRecord) => {
     try {
       const allSlips = await getBeadleSlips();
       
-      const formSlips = allSlips.filter((slip: BeadleSlip) => {
-        const gradeNumber = slip.grade_level.replace(/\D/g, ""); 
-        return gradeNumber === form || slip.grade_level.toUpperCase().includes(form.toUpperCase());
-      });
+      const formSlips = allSlips.filter((slip: BeadleSlip) => slip.form_id === form.id);
 
       setReports(formSlips);
     } catch (err) {
@@ -117,15 +103,10 @@ export default function StaffPortal() {
     }
   };
 
-  const fetchStudents = async (form: string) => {
+  const fetchStudents = async (form: FormRecord) => {
     try {
       const allUsers = await getAllMembersWithRoles();
-      const formStudents = allUsers.filter((user: User) => {
-        if (!user.form_class) return false;
-        
-        const formPrefix = user.form_class.split("-")[0].toUpperCase();
-        return formPrefix === form.toUpperCase();
-      });
+      const formStudents = allUsers.filter((user: User) => user.form_id === form.id);
 
       setStudents(formStudents);
     } catch (err) {
@@ -142,7 +123,7 @@ export default function StaffPortal() {
 
       if (result.success) {
         success(currentlyHasRole ? "Beadle role removed" : "Beadle role assigned");
-        await fetchStudents(supervisorForm);
+        if (supervisorForm) await fetchStudents(supervisorForm);
       } else {
         error(result.error || "Failed to update role");
       }
@@ -285,7 +266,7 @@ export default function StaffPortal() {
                   <>
                     <div className="text-center mb-8">
                       <h1 className="text-3xl font-bold mb-2" style={{color: '#8B1538'}}>
-                        Form {supervisorForm} Beadle Reports
+                        {supervisorForm?.display_name} Beadle Reports
                       </h1>
                       <p className="text-gray-600">View attendance reports for your form</p>
                     </div>
@@ -311,7 +292,7 @@ export default function StaffPortal() {
                     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                       {reports.length === 0 ? (
                         <div className="p-8 text-center text-gray-500">
-                          No reports found for Form {supervisorForm}
+                          No reports found for {supervisorForm?.display_name}
                         </div>
                       ) : (
                         <div className="overflow-x-auto">
@@ -436,10 +417,10 @@ export default function StaffPortal() {
                   <>
                     <div className="text-center mb-8">
                       <h1 className="text-3xl font-bold mb-2" style={{color: '#8B1538'}}>
-                        Form {supervisorForm} Supervisor Dashboard
+                        {supervisorForm?.display_name} Supervisor Dashboard
                       </h1>
                       <p className="text-lg text-gray-700">
-                        Manage beadle assignments for Form {supervisorForm}
+                        Manage beadle assignments for {supervisorForm?.display_name}
                       </p>
                       <p className="text-sm text-gray-600 mt-1">
                         Supervisor: {currentUser?.full_name}
@@ -480,7 +461,7 @@ export default function StaffPortal() {
                     <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
                       <div className="px-6 py-4 border-b border-gray-200">
                         <h2 className="text-lg font-bold" style={{color: '#8B1538'}}>
-                          Form {supervisorForm} Students
+                          {supervisorForm?.display_name} Students
                         </h2>
                         <p className="text-sm text-gray-600">Assign or remove beadle roles</p>
                       </div>
@@ -562,7 +543,7 @@ export default function StaffPortal() {
                           (student.form_class?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false)
                         ).length === 0 && (
                           <div className="p-8 text-center text-gray-500">
-                            No students found in Form {supervisorForm}.
+                            No students found in {supervisorForm?.display_name}.
                           </div>
                         )}
                       </div>
@@ -2,8 +2,9 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 import { getAllMembersWithRoles, addRoleToMember, removeRoleFromMember } from "@/lib/role-db-helpers";
+import { getMySupervisedForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
 import { useToast } from "@/hooks/useToast";
 import { ToastContainer } from "@/components/Toast";
 
@@ -12,6 +13,7 @@ type User = {
   email: string;
   full_name: string;
   form_class?: string;
+  form_id?: number | null;
   roles: string[];
   roleDetails: any[];
 };
@@ -20,10 +22,11 @@ export default function SupervisorDashboardEmbed() {
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [supervisorForm, setSupervisorForm] = useState<string>("");
+  const [supervisorForm, setSupervisorForm] = useState<FormRecord | null>(null);
   const [students, setStudents] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [beadleUntil, setBeadleUntil] = useState("");
   const { toasts, success, error, removeToast } = useToast();
 
   useEffect(() => {
@@ -33,13 +36,7 @@ export default function SupervisorDashboardEmbed() {
 
   const initializeDashboard = async () => {
     try {
-      const token = retrieveSessionToken();
-      if (!token) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const user = await fetchCurrentUser(token, false);
+      const user = await fetchCurrentUser(false);
       if (!user) {
         router.push("/auth/login");
         return;
@@ -47,16 +44,8 @@ export default function SupervisorDashboardEmbed() {
 
       setCurrentUser(user);
 
-      const supervisorRoles = user.roles || [];
-      let form = "";
-      
-      if (supervisorRoles.includes("supervisor_1")) form = "1";
-      else if (supervisorRoles.includes("supervisor_2")) form = "2";
-      else if (supervisorRoles.includes("supervisor_3")) form = "3";
-      else if (supervisorRoles.includes("supervisor_4")) form = "4";
-      else if (supervisorRoles.includes("supervisor_5")) form = "5";
-      else if (supervisorRoles.includes("supervisor_6")) form = "6";
-      else if (supervisorRoles.includes("supervisor_6a")) form = "6A";
+      const { forms } = await getMySupervisedForms();
+      const form = forms?.[0] ?? null;
 
       if (!form) {
         error("You are not assigned to supervise any form");
@@ -73,16 +62,11 @@ export default function SupervisorDashboardEmbed() {
     }
   };
 
-  const fetchStudents = async (form: string) => {
+  const fetchStudents = async (form: FormRecord) => {
     try {
       const allUsers = await getAllMembersWithRoles();
       
-      const formStudents = allUsers.filter((user: User) => {
-        if (!user.form_class) return false;
-        
-        const formPrefix = user.form_class.split("-")[0].toUpperCase();
-        return formPrefix === form.toUpperCase();
-      });
+      const formStudents = allUsers.filter((user: User) => user.form_id === form.id);
 
       setStudents(formStudents);
     } catch (err) {
@@ -95,11 +79,11 @@ export default function SupervisorDashboardEmbed() {
     try {
       const result = currentlyHasRole
         ? await removeRoleFromMember(userId, "beadle")
-        : await addRoleToMember(userId, "beadle");
+        : await addRoleToMember(userId, "beadle", { expires_at: beadleUntil || null });
 
       if (result.success) {
         success(currentlyHasRole ? "Beadle role removed" : "Beadle role assigned");
-        await fetchStudents(supervisorForm);
+        if (supervisorForm) await fetchStudents(supervisorForm);
       } else {
         error(result.error || "Failed to update role");
       }
@@ -135,10 +119,10 @@ export default function SupervisorDashboardEmbed() {
         {/* Header */}
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold mb-2" style={{color: '#B91C47'}}>
-            Form {supervisorForm} Supervisor Dashboard
+            {supervisorForm?.display_name} Supervisor Dashboard
           </h1>
           <p className="text-lg text-gray-700">
-            Manage beadle assignments for Form {supervisorForm}
+            Manage beadle assignments for {supervisorForm?.display_name}
           </p>
           <p className="text-sm text-gray-600 mt-1">
             Supervisor: {currentUser?.full_name}
@@ -177,9 +161,20 @@ export default function SupervisorDashboardEmbed() {
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
             <h2 className="text-lg font-bold" style={{color: '#B91C47'}}>
-              Form {supervisorForm} Students
+              {supervisorForm?.display_name} Students
             </h2>
             <p className="text-sm text-gray-600">Assign or remove beadle roles</p>
+            <div className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+              <label htmlFor="beadle-until">New beadles serve until</label>
+              <input
+                id="beadle-until"
+                type="date"
+                value={beadleUntil}
+                onChange={(e) => setBeadleUntil(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+              <span className="text-gray-400">(optional)</span>
+            </div>
           </div>
 
           <div className="overflow-x-auto">
@@ -203,6 +198,7 @@ export default function SupervisorDashboardEmbed() {
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredStudents.map((student) => {
                   const isBeadle = student.roles.includes("beadle");
+                  const beadleExpiresAt = student.roleDetails.find((role: any) => role.role_name === "beadle")?.expires_at;
                   return (
                     <tr key={student.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4">
@@ -226,7 +222,7 @@ export default function SupervisorDashboardEmbed() {
                               : "bg-gray-100 text-gray-800"
                           }`}
                         >
-                          {isBeadle ? "Beadle" : "Student"}
+                          {isBeadle ? (beadleExpiresAt ? `Beadle until ${beadleExpiresAt}` : "Beadle") : "Student"}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -249,7 +245,7 @@ export default function SupervisorDashboardEmbed() {
 
             {filteredStudents.length === 0 && (
               <div className="p-8 text-center text-gray-500">
-                No students found in Form {supervisorForm}.
+                No students found in {supervisorForm?.display_name}.
               </div>
             )}
           </div>
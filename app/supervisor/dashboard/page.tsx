@@ -16,8 +16,9 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
 import { getAllMembersWithRoles, addRoleToMember, removeRoleFromMember } from "@/lib/role-db-helpers";
+import { getMySupervisedForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
 import { useToast } from "@/hooks/useToast";
 import { ToastContainer } from "@/components/Toast";
 import ProtectedRoute from "@/components/ProtectedRoute";
@@ -27,6 +28,7 @@ type User = {
   email: string;
   full_name: string;
   form_class?: string;
+  form_id?: number | null;
   roles: string[];
   roleDetails: any[];
 };
@@ -35,10 +37,11 @@ export default function SupervisorDashboard() {
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [supervisorForm, setSupervisorForm] = useState<string>("");
+  const [supervisorForm, setSupervisorForm] = useState<FormRecord | null>(null);
   const [students, setStudents] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [beadleUntil, setBeadleUntil] = useState("");
   const { toasts, success, error, removeToast } = useToast();
 
   useEffect(() => {
@@ -48,13 +51,7 @@ export default function SupervisorDashboard() {
 
   const initializeDashboard = async () => {
     try {
-      const token = retrieveSessionToken();
-      if (!token) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const user = await fetchCurrentUser(token, false);
+      const user = await fetchCurrentUser(false);
       if (!user) {
         router.push("/auth/login");
         return;
@@ -62,17 +59,8 @@ export default function SupervisorDashboard() {
 
       setCurrentUser(user);
 
-      // Determine which form this supervisor manages
-      const supervisorRoles = user.roles || [];
-      let form = "";
-      
-      if (supervisorRoles.includes("supervisor_1")) form = "1";
-      else if (supervisorRoles.includes("supervisor_2")) form = "2";
-      else if (supervisorRoles.includes("supervisor_3")) form = "3";
-      else if (supervisorRoles.includes("supervisor_4")) form = "4";
-      else if (supervisorRoles.includes("supervisor_5")) form = "5";
-      else if (supervisorRoles.includes("supervisor_6")) form = "6";
-      else if (supervisorRoles.includes("supervisor_6a")) form = "6A";
+      const { forms } = await getMySupervisedForms();
+      const form = forms?.[0] ?? null;
 
       if (!form) {
         error("You are not assigned to supervise any form");
@@ -89,18 +77,12 @@ export default function SupervisorDashboard() {
     }
   };
 
-  const fetchStudents = async (form: string) => {
+  const fetchStudents = async (form: FormRecord) => {
     try {
       const allUsers = await getAllMembersWithRoles();
       
       // Filter students by form class
-      const formStudents = allUsers.filter((user: User) => {
-        if (!user.form_class) return false;
-        
-        // Match form class (e.g., "5-2" matches form "5", "6A-1" matches form "6A")
-        const formPrefix = user.form_class.split("-")[0].toUpperCase();
-        return formPrefix === form.toUpperCase();
-      });
+      const formStudents = allUsers.filter((user: User) => user.form_id === form.id);
 
       setStudents(formStudents);
     } catch (err) {
@@ -113,11 +95,11 @@ export default function SupervisorDashboard() {
     try {
       const result = currentlyHasRole
         ? await removeRoleFromMember(userId, "beadle")
-        : await addRoleToMember(userId, "beadle");
+        : await addRoleToMember(userId, "beadle", { expires_at: beadleUntil || null });
 
       if (result.success) {
         success(currentlyHasRole ? "Beadle role removed" : "Beadle role assigned");
-        await fetchStudents(supervisorForm);
+        if (supervisorForm) await fetchStudents(supervisorForm);
       } else {
         error(result.error || "Failed to update role");
       }
@@ -148,7 +130,7 @@ export default function SupervisorDashboard() {
   }
 
   return (
-    <ProtectedRoute requiredRoles={["supervisor"]} requireAnyRole={true}>
+    <ProtectedRoute requiredPermission="portal.supervisor">
       <main className="min-h-screen bg-gradient-to-br from-red-50 via-white to-blue-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           {/* Header */}
@@ -164,10 +146,10 @@ export default function SupervisorDashboard() {
               />
             </div>
             <h1 className="text-4xl font-bold mb-4" style={{color: '#B91C47'}}>
-              Form {supervisorForm} Supervisor Dashboard
+              {supervisorForm?.display_name} Supervisor Dashboard
             </h1>
             <p className="text-xl text-gray-700">
-              Manage beadle assignments for Form {supervisorForm}
+              Manage beadle assignments for {supervisorForm?.display_name}
             </p>
             <div className="mt-2 text-sm text-gray-600">
               <p className="font-medium">Campion College</p>
@@ -210,9 +192,20 @@ export default function SupervisorDashboard() {
           <div className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200">
               <h2 className="text-xl font-bold" style={{color: '#B91C47'}}>
-                Form {supervisorForm} Students
+                {supervisorForm?.display_name} Students
               </h2>
               <p className="text-gray-600">Assign or remove beadle roles</p>
+              <div className="mt-3 flex items-center gap-2 text-sm text-gray-600">
+                <label htmlFor="beadle-until">New beadles serve until</label>
+                <input
+                  id="beadle-until"
+                  type="date"
+                  value={beadleUntil}
+                  onChange={(e) => setBeadleUntil(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <span className="text-gray-400">(optional)</span>
+              </div>
             </div>
 
             {loading ? (
@@ -241,6 +234,7 @@ export default function SupervisorDashboard() {
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredStudents.map((student) => {
                       const isBeadle = student.roles.includes("beadle");
+                      const beadleExpiresAt = student.roleDetails.find((role: any) => role.role_name === "beadle")?.expires_at;
                       return (
                         <tr key={student.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4">
@@ -264,7 +258,7 @@ export default function SupervisorDashboard() {
                                   : "bg-gray-100 text-gray-800"
                               }`}
                             >
-                              {isBeadle ? "Beadle" : "Student"}
+                              {isBeadle ? (beadleExpiresAt ? `Beadle until ${beadleExpiresAt}` : "Beadle") : "Student"}
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
@@ -287,7 +281,7 @@ export default function SupervisorDashboard() {
 
                 {filteredStudents.length === 0 && (
                   <div className="p-8 text-center text-gray-500">
-                    No students found in Form {supervisorForm}.
+                    No students found in {supervisorForm?.display_name}.
                   </div>
                 )}
               </div>
@@ -297,13 +291,13 @@ export default function SupervisorDashboard() {
           {/* View Reports Button */}
           <div className="mt-8 text-center">
             <button
-              onClick={() => router.push(`/supervisor/reports?form=${supervisorForm}`)}
+              onClick={() => router.push(`/supervisor/reports?form=${supervisorForm?.id}`)}
               className="px-8 py-3 text-white font-semibold rounded-lg transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
               style={{backgroundColor: '#B91C47'}}
               onMouseEnter={(e) => (e.target as HTMLElement).style.backgroundColor = '#A01B3F'}
               onMouseLeave={(e) => (e.target as HTMLElement).style.backgroundColor = '#B91C47'}
             >
-              View Form {supervisorForm} Beadle Reports
+              View {supervisorForm?.display_name} Beadle Reports
             </button>
           </div>
         </div>
@@ -2,6 +2,8 @@
 import { useEffect, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { getBeadleSlips } from "@/lib/serverUtils";
+import { getMySupervisedForms } from "@/lib/form-actions";
+import type { FormRecord } from "@/lib/forms";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Image from "next/image";
 
@@ -10,6 +12,7 @@ type BeadleSlip = {
   beadle_email: string;
   grade_level: string;
   class_name: string;
+  form_id: number | null;
   class_start_time: string;
   class_end_time: string;
   date: string;
@@ -28,8 +31,9 @@ type BeadleSlip = {
 function SupervisorReportsContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const form = searchParams.get("form") || "";
+  const formId = Number(searchParams.get("form"));
   
+  const [form, setForm] = useState<FormRecord | null>(null);
   const [slips, setSlips] = useState<BeadleSlip[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -37,18 +41,19 @@ function SupervisorReportsContent() {
 
   useEffect(() => {
     fetchReports();
-  }, [form]);
+  }, [formId]);
 
   const fetchReports = async () => {
     try {
-      const allSlips = await getBeadleSlips();
-      
-      const formSlips = allSlips.filter((slip: BeadleSlip) => {
-        const gradeNumber = slip.grade_level.replace(/\D/g, ""); 
-        return gradeNumber === form || slip.grade_level.toUpperCase().includes(form.toUpperCase());
-      });
+      const { forms } = await getMySupervisedForms();
+      const supervised = forms?.find(f => f.id === formId) ?? null;
+      setForm(supervised);
+      if (!supervised) {
+        return;
+      }
 
-      setSlips(formSlips);
+      const allSlips = await getBeadleSlips();
+      setSlips(allSlips.filter((slip: BeadleSlip) => slip.form_id === supervised.id));
     } catch (error) {
       console.error("Error fetching reports:", error);
     } finally {
@@ -68,7 +73,7 @@ function SupervisorReportsContent() {
   });
 
   return (
-    <ProtectedRoute requiredRoles={["supervisor"]} requireAnyRole={true}>
+    <ProtectedRoute requiredPermission="portal.supervisor">
       <main className="min-h-screen bg-gradient-to-br from-red-50 via-white to-blue-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="text-center mb-8">
@@ -83,7 +88,7 @@ function SupervisorReportsContent() {
               />
             </div>
             <h1 className="text-3xl font-bold mb-2" style={{color: '#B91C47'}}>
-              Form {form} Beadle Reports
+              {form?.display_name} Beadle Reports
             </h1>
             <p className="text-gray-600">View attendance reports for your form</p>
           </div>
@@ -113,7 +118,7 @@ function SupervisorReportsContent() {
               </div>
             ) : filteredSlips.length === 0 ? (
               <div className="p-8 text-center text-gray-500">
-                No reports found for Form {form}
+                No reports found for {form?.display_name}
               </div>
             ) : (
               <div className="overflow-x-auto">
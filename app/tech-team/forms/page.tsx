@@ -0,0 +1,243 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaSchool, FaPlus, FaSave, FaTimes } from "react-icons/fa";
+import { getSchoolForms, addClass, removeClass, saveForm } from "@/lib/form-actions";
+import type { FormWithClasses, ClassRecord } from "@/lib/forms";
+import type { RoleRecord } from "@/lib/role-catalogue";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+
+type FormDraft = {
+  display_name: string;
+  supervisor_role_id: string;
+  new_class: string;
+};
+
+export default function FormsAndClassesPage() {
+  const [forms, setForms] = useState<FormWithClasses[]>([]);
+  const [roles, setRoles] = useState<RoleRecord[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, FormDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadForms();
+    loadRoles();
+  }, []);
+
+  const loadForms = async () => {
+    try {
+      const result = await getSchoolForms();
+      if (result.success) {
+        const loaded = result.forms || [];
+        setForms(loaded);
+        setDrafts(Object.fromEntries(loaded.map(form => [form.id, {
+          display_name: form.display_name,
+          supervisor_role_id: form.supervisor_role_id ? String(form.supervisor_role_id) : "",
+          new_class: ""
+        }])));
+      } else {
+        error(result.error || "Failed to load forms");
+      }
+    } catch (err) {
+      console.error("Error loading forms:", err);
+      error("Failed to load forms");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRoles = async () => {
+    try {
+      const response = await fetch("/api/roles");
+      const data = await response.json();
+      if (data.success) {
+        setRoles((data.roles || []).filter((role: RoleRecord) => role.role_type === "sub"));
+      }
+    } catch (err) {
+      console.error("Error loading roles:", err);
+    }
+  };
+
+  const updateDraft = (formId: number, changes: Partial<FormDraft>) => {
+    setDrafts(prev => ({ ...prev, [formId]: { ...prev[formId], ...changes } }));
+  };
+
+  const handleSaveForm = async (form: FormWithClasses) => {
+    const draft = drafts[form.id];
+    setSaving(true);
+    try {
+      const result = await saveForm(form.id, draft.display_name, draft.supervisor_role_id ? Number(draft.supervisor_role_id) : null);
+      if (result.success) {
+        success(`${draft.display_name} saved`);
+        await loadForms();
+      } else {
+        error(result.error || "Failed to save form");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddClass = async (form: FormWithClasses) => {
+    const name = drafts[form.id]?.new_class.trim();
+    if (!name) return;
+
+    setSaving(true);
+    try {
+      const result = await addClass(form.id, name);
+      if (result.success) {
+        success(`Class ${name} added to ${form.display_name}`);
+        await loadForms();
+      } else {
+        error(result.error || "Failed to add class");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveClass = async (schoolClass: ClassRecord) => {
+    const confirmed = await confirm({
+      title: "Remove Class",
+      message: `Remove class ${schoolClass.name}? Slips already submitted for it keep the class name.`,
+      confirmText: "Remove",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    setSaving(true);
+    try {
+      const result = await removeClass(schoolClass.id);
+      if (result.success) {
+        success(`Class ${schoolClass.name} removed`);
+        await loadForms();
+      } else {
+        error(result.error || "Failed to remove class");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaSchool className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Forms & Classes
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Name each form, choose the supervisor role that looks after it and list its classes.
+            Numbered classes such as 5-2 are also added automatically the first time a member is placed in them.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Loading forms...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {forms.map(form => {
+              const draft = drafts[form.id];
+              if (!draft) return null;
+
+              return (
+                <div key={form.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                  <div className="flex flex-wrap items-end gap-4 mb-4">
+                    <div>
+                      <label className="text-sm font-medium text-gray-600">Form {form.code}</label>
+                      <input
+                        type="text"
+                        value={draft.display_name}
+                        onChange={(e) => updateDraft(form.id, { display_name: e.target.value })}
+                        className="mt-1 w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-sm font-medium text-gray-600">Supervisor role</label>
+                      <select
+                        value={draft.supervisor_role_id}
+                        onChange={(e) => updateDraft(form.id, { supervisor_role_id: e.target.value })}
+                        className="mt-1 w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      >
+                        <option value="">No supervisor</option>
+                        {roles.map(role => (
+                          <option key={role.id} value={role.id}>{role.display_name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button
+                      onClick={() => handleSaveForm(form)}
+                      disabled={saving}
+                      className="flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50"
+                      style={{backgroundColor: '#8B1538'}}
+                    >
+                      <FaSave /> Save
+                    </button>
+                  </div>
+
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                    Classes ({form.classes.length})
+                  </h3>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {form.classes.map(schoolClass => (
+                      <span key={schoolClass.id} className="flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        {schoolClass.name}
+                        <span className="text-gray-400">{schoolClass.member_count}</span>
+                        <button
+                          onClick={() => handleRemoveClass(schoolClass)}
+                          disabled={saving}
+                          title={`Remove ${schoolClass.name}`}
+                          className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        >
+                          <FaTimes />
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      value={draft.new_class}
+                      onChange={(e) => updateDraft(form.id, { new_class: e.target.value })}
+                      onKeyDown={(e) => e.key === "Enter" && handleAddClass(form)}
+                      placeholder={`${form.code}-1`}
+                      className="w-32 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    />
+                    <button
+                      onClick={() => handleAddClass(form)}
+                      disabled={saving || !draft.new_class.trim()}
+                      className="flex items-center gap-1 px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+                    >
+                      <FaPlus /> Add
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
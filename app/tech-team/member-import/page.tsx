@@ -0,0 +1,264 @@
+"use client";
+
+import { useState } from "react";
+import { FaFileImport, FaDownload, FaUpload, FaCheck } from "react-icons/fa";
+import { previewMemberImport, runMemberImport } from "@/lib/member-import-actions";
+import type { ImportRowPlan, ImportAction, ImportSummary } from "@/lib/member-import";
+import { toCsv } from "@/lib/csv";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+
+const actionStyles: Record<ImportAction, { label: string; color: string }> = {
+  create: { label: "New", color: "bg-green-100 text-green-800" },
+  update: { label: "Update", color: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "No change", color: "bg-gray-100 text-gray-600" },
+  error: { label: "Error", color: "bg-red-100 text-red-800" }
+};
+
+const templateRows = [
+  ["email", "full_name", "form_class", "roles", "expires_at"],
+  ["jane.doe@campioncollege.com", "Jane Doe", "1-3", "student", ""],
+  ["john.smith@campioncollege.com", "John Smith", "4-2", "student;beadle", "2027-07-01"],
+  ["a.teacher@campioncollege.com", "A. Teacher", "", "staff;supervisor;supervisor_4", ""]
+];
+
+function downloadCsv(filename: string, rows: (string | number | null)[][]) {
+  const url = URL.createObjectURL(new Blob([toCsv(rows)], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function MemberImportPage() {
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [rows, setRows] = useState<ImportRowPlan[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [working, setWorking] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setFileName(file.name);
+    setSummary(null);
+    setWorking(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      const result = await previewMemberImport(text);
+      if (result.success) {
+        setRows(result.rows || []);
+      } else {
+        setRows([]);
+        error(result.error || "Failed to read the import file");
+      }
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      error("Failed to read the import file");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const counts = rows.reduce((totals, row) => {
+    totals[row.action]++;
+    return totals;
+  }, { create: 0, update: 0, unchanged: 0, error: 0 } as Record<ImportAction, number>);
+
+  const handleImport = async () => {
+    const confirmed = await confirm({
+      title: "Run Import",
+      message: `Create ${counts.create} and update ${counts.update} member(s)?${counts.error > 0 ? ` ${counts.error} row(s) with errors will be skipped.` : ""}`,
+      confirmText: "Import",
+      confirmVariant: "primary"
+    });
+    if (!confirmed) return;
+
+    setWorking(true);
+    try {
+      const result = await runMemberImport(csv);
+      if (result.success && result.summary) {
+        setRows(result.rows || []);
+        setSummary(result.summary);
+        success(`Imported ${result.summary.created + result.summary.updated} member(s)`);
+      } else {
+        error(result.error || "Failed to import members");
+      }
+    } catch (err) {
+      console.error("Error importing members:", err);
+      error("Failed to import members");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    downloadCsv(`import-errors-${fileName.replace(/\.csv$/i, "")}.csv`, [
+      ["line", "email", "full_name", "errors"],
+      ...rows
+        .filter(row => row.action === "error")
+        .map(row => [row.line, row.email, row.full_name, row.errors.join("; ")]),
+      ...(summary?.inviteFailures || []).map(email => ["", email, "", "Member created but the invite email failed to send"])
+    ]);
+  };
+
+  const hasErrors = counts.error > 0 || (summary?.inviteFailures.length ?? 0) > 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaFileImport className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Import Members
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Add or update members and their roles from a CSV file. New members get an email to set their password.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 px-4 py-2 text-white rounded-lg cursor-pointer transition-colors" style={{backgroundColor: '#8B1538'}}>
+              <FaUpload /> {fileName ? "Choose Another File" : "Choose CSV File"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                disabled={working}
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={() => downloadCsv("member-import-template.csv", templateRows)}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <FaDownload /> Download Template
+            </button>
+            {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          </div>
+          <p className="text-sm text-gray-500 mt-4">
+            Columns: email, full_name, form_class, roles (role keys separated by ; such as student;beadle) and an optional expires_at date for those roles.
+            Existing members are matched by email and only gain roles, never lose them.
+          </p>
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {(Object.keys(actionStyles) as ImportAction[]).map(action => (
+                <div key={action} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="text-2xl font-bold text-gray-900">{counts[action]}</div>
+                  <div className="text-sm text-gray-600 mt-1">{actionStyles[action].label}</div>
+                </div>
+              ))}
+            </div>
+
+            {summary && (
+              <div className="bg-green-50 border border-green-200 rounded-xl p-4 mb-6 text-sm text-green-800">
+                Created {summary.created} and updated {summary.updated} member(s), granted {summary.rolesGranted} role(s),
+                sent {summary.invitesSent} invite(s){summary.rolesRequested > 0 && ` and queued ${summary.rolesRequested} role(s) for approval`}.
+                {summary.skipped > 0 && ` ${summary.skipped} row(s) were skipped.`}
+              </div>
+            )}
+
+            <div className="flex gap-2 mb-4">
+              {!summary && (
+                <button
+                  onClick={handleImport}
+                  disabled={working || counts.create + counts.update === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <FaCheck /> Import {counts.create + counts.update} Row(s)
+                </button>
+              )}
+              {hasErrors && (
+                <button
+                  onClick={downloadErrorReport}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <FaDownload /> Download Error Report
+                </button>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Line
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Member
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Result
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Changes
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map(row => (
+                      <tr key={row.line} className={row.action === "error" ? "bg-red-50" : "hover:bg-gray-50 transition-colors"}>
+                        <td className="px-6 py-4 text-sm text-gray-500">{row.line}</td>
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">{row.full_name || "-"}</div>
+                          <div className="text-sm text-gray-500">{row.email}</div>
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${actionStyles[row.action].color}`}>
+                            {actionStyles[row.action].label}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {row.action === "error" ? (
+                            <ul className="text-red-700 list-disc list-inside">
+                              {row.errors.map(message => <li key={message}>{message}</li>)}
+                            </ul>
+                          ) : row.changes.length > 0 ? (
+                            <ul className="text-gray-700 list-disc list-inside">
+                              {row.changes.map(change => <li key={change}>{change}</li>)}
+                            </ul>
+                          ) : (
+                            <span className="text-gray-400">Already up to date</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { FaUserClock, FaArrowLeft } from "react-icons/fa";
+import { getMemberRoleTimeline, RoleAuditRecord } from "@/lib/role-audit-actions";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+import { RoleAuditBadge } from "@/components/RoleAuditBadge";
+
+export default function MemberRoleTimelinePage() {
+  const params = useParams<{ id: string }>();
+  const [member, setMember] = useState<any>(null);
+  const [roles, setRoles] = useState<any[]>([]);
+  const [entries, setEntries] = useState<RoleAuditRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toasts, error, removeToast } = useToast();
+
+  useEffect(() => {
+    loadTimeline();
+  }, [params.id]);
+
+  const loadTimeline = async () => {
+    try {
+      const result = await getMemberRoleTimeline(parseInt(params.id));
+      if (result.success) {
+        setMember(result.member || null);
+        setRoles(result.roles || []);
+        setEntries(result.entries || []);
+      } else {
+        error(result.error || "Failed to load role history");
+      }
+    } catch (err) {
+      console.error("Error loading member role history:", err);
+      error("Failed to load role history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+
+      <div className="max-w-4xl mx-auto">
+        <Link href="/tech-team/role-history" className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-6">
+          <FaArrowLeft /> Back to Role History
+        </Link>
+
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaUserClock className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              {member?.full_name || `Member #${params.id}`}
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            {member ? `${member.email}${member.form_class ? ` · Form ${member.form_class}` : ""}` : "This member's account no longer exists"}
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center text-gray-500">
+            Loading role history...
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Current Roles</h2>
+              {roles.length === 0 ? (
+                <p className="text-gray-500">No active roles</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {roles.map(role => (
+                    <span key={role.role_name} className="px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                      {role.display_name}{role.expires_at && ` (until ${role.expires_at})`}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Timeline</h2>
+              {entries.length === 0 ? (
+                <p className="text-gray-500">No recorded role changes</p>
+              ) : (
+                <ol className="relative border-l border-gray-200 ml-2">
+                  {entries.map(entry => (
+                    <li key={entry.id} className="mb-6 ml-6">
+                      <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white" style={{backgroundColor: '#8B1538'}} />
+                      <div className="text-xs text-gray-500 mb-1">{formatDbTimestamp(entry.created_at)}</div>
+                      <div className="flex items-center gap-2">
+                        <RoleAuditBadge action={entry.action} />
+                        <span className="text-sm font-medium text-gray-900">
+                          {entry.role_display_name || entry.role_name}
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          by {entry.actor_name || (entry.action === "expire" ? "System" : "unknown")}
+                        </span>
+                      </div>
+                      {(entry.starts_at || entry.expires_at) && entry.action !== "expire" && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {entry.starts_at ? `From ${entry.starts_at}` : "From now"}
+                          {entry.expires_at ? ` until ${entry.expires_at}` : ""}
+                        </div>
+                      )}
+                      {entry.reason && (
+                        <p className="text-sm text-gray-600 mt-1">{entry.reason}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
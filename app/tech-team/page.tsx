@@ -3,7 +3,10 @@
 import { useState, useEffect } from "react";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
-import { FaUsersCog, FaCog, FaBars, FaTimes, FaSearch, FaEdit, FaSave } from "react-icons/fa";
+import { FaUsersCog, FaCog, FaBars, FaTimes, FaSearch, FaEdit, FaSave, FaHistory, FaLayerGroup, FaFileImport, FaSchool } from "react-icons/fa";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useRoleCatalogue } from "@/hooks/useRoleCatalogue";
 import ProtectedRoute from "@/components/ProtectedRoute";
 
 interface User {
@@ -23,42 +26,8 @@ export default function TechTeamPortal() {
   const [editingUser, setEditingUser] = useState<number | null>(null);
   const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-
-  const primaryRoles = [
-    { value: "student", label: "Student", color: "bg-blue-100 text-blue-800" },
-    { value: "staff", label: "Staff", color: "bg-green-100 text-green-800" },
-    { value: "supervisor", label: "Supervisor", color: "bg-purple-100 text-purple-800" },
-    { value: "tech_team", label: "Tech Team", color: "bg-orange-100 text-orange-800" },
-    { value: "admin", label: "Admin", color: "bg-red-100 text-red-800" }
-  ];
-
-  const subRoles: Record<string, Array<{value: string, label: string}>> = {
-    student: [{ value: "beadle", label: "Beadle" }],
-    staff: [
-      { value: "teacher", label: "Teacher" },
-      { value: "ancillary", label: "Ancillary Staff" }
-    ],
-    supervisor: [
-      { value: "supervisor_1", label: "Form 1 Supervisor" },
-      { value: "supervisor_2", label: "Form 2 Supervisor" },
-      { value: "supervisor_3", label: "Form 3 Supervisor" },
-      { value: "supervisor_4", label: "Form 4 Supervisor" },
-      { value: "supervisor_5", label: "Form 5 Supervisor" },
-      { value: "supervisor_6", label: "Form 6 Supervisor" },
-      { value: "supervisor_6a", label: "Form 6A Supervisor" }
-    ],
-    tech_team: [
-      { value: "tech_team_president", label: "President" },
-      { value: "tech_team_vice_president", label: "Vice President" },
-      { value: "tech_team_junior_vice_president", label: "Junior Vice President" },
-      { value: "tech_team_member", label: "Member" }
-    ],
-    admin: [
-      { value: "principal", label: "Principal" },
-      { value: "vice_principal", label: "Vice Principal" },
-      { value: "dean_of_discipline", label: "Dean of Discipline" }
-    ]
-  };
+  const { toasts, success, error, removeToast } = useToast();
+  const { primaryRoles, subRoles } = useRoleCatalogue();
 
   useEffect(() => {
     fetchUsers();
@@ -103,13 +72,18 @@ export default function TechTeamPortal() {
         body: JSON.stringify({ userId, roles: selectedRoles })
       });
 
-      if (response.ok) {
+      const result = await response.json();
+      if (response.ok && result.success) {
+        success(result.message || "Roles updated");
         await fetchUsers();
         setEditingUser(null);
         setSelectedRoles([]);
+      } else {
+        error(result.error || "Failed to update roles");
       }
-    } catch (error) {
-      console.error("Error updating roles:", error);
+    } catch (err) {
+      console.error("Error updating roles:", err);
+      error("Failed to update roles");
     }
   };
 
@@ -149,11 +123,40 @@ export default function TechTeamPortal() {
       description: "Manage user roles and permissions",
       link: "/tech-team/role-management"
     },
+    {
+      id: "history",
+      name: "Role History",
+      icon: <FaHistory className="text-xl" />,
+      description: "Audit trail of every role change",
+      link: "/tech-team/role-history"
+    },
+    {
+      id: "catalogue",
+      name: "Role Catalogue",
+      icon: <FaLayerGroup className="text-xl" />,
+      description: "Create and edit assignable roles",
+      link: "/tech-team/roles"
+    },
+    {
+      id: "import",
+      name: "Import Members",
+      icon: <FaFileImport className="text-xl" />,
+      description: "Bulk add members and roles from CSV",
+      link: "/tech-team/member-import"
+    },
+    {
+      id: "forms",
+      name: "Forms & Classes",
+      icon: <FaSchool className="text-xl" />,
+      description: "Form levels, classes and supervisors",
+      link: "/tech-team/forms"
+    },
   ];
 
   return (
-    <ProtectedRoute requiredRoles={["tech_team", "admin"]} requireAnyRole={true}>
+    <ProtectedRoute requiredPermission="portal.tech_team">
       <div className="flex flex-col min-h-screen bg-gradient-to-b from-white to-gray-50">
+        <ToastContainer toasts={toasts} onRemove={removeToast} />
         <Navbar />
       
       <div className="flex-1 flex">
@@ -355,7 +358,7 @@ export default function TechTeamPortal() {
                                       return (
                                         <div key={key}>
                                           <p className="text-xs font-semibold text-gray-600 mb-2 capitalize">
-                                            {key.replace('_', ' ')} Sub-roles
+                                            {primaryRoles.find(r => r.value === key)?.label || key} Sub-roles
                                           </p>
                                           <div className="flex flex-wrap gap-2">
                                             {roles.map(role => (
@@ -444,6 +447,50 @@ export default function TechTeamPortal() {
               </div>
             </div>
           )}
+
+          {activeSection === "history" && (
+            <div className="h-full">
+              <iframe
+                src="/tech-team/role-history"
+                className="w-full h-full border-0"
+                style={{minHeight: 'calc(100vh - 73px)'}}
+                title="Role History"
+              />
+            </div>
+          )}
+
+          {activeSection === "catalogue" && (
+            <div className="h-full">
+              <iframe
+                src="/tech-team/roles"
+                className="w-full h-full border-0"
+                style={{minHeight: 'calc(100vh - 73px)'}}
+                title="Role Catalogue"
+              />
+            </div>
+          )}
+
+          {activeSection === "import" && (
+            <div className="h-full">
+              <iframe
+                src="/tech-team/member-import"
+                className="w-full h-full border-0"
+                style={{minHeight: 'calc(100vh - 73px)'}}
+                title="Import Members"
+              />
+            </div>
+          )}
+
+          {activeSection === "forms" && (
+            <div className="h-full">
+              <iframe
+                src="/tech-team/forms"
+                className="w-full h-full border-0"
+                style={{minHeight: 'calc(100vh - 73px)'}}
+                title="Forms & Classes"
+              />
+            </div>
+          )}
         </main>
       </div>
 
@@ -0,0 +1,193 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { FaHistory, FaSearch } from "react-icons/fa";
+import { getRoleAuditLog, RoleAuditRecord, RoleAuditFilters } from "@/lib/role-audit-actions";
+import { getAllRoles } from "@/lib/role-db-helpers";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { formatDbTimestamp } from "@/lib/timeUtils";
+import { RoleAuditBadge, ROLE_AUDIT_ACTIONS } from "@/components/RoleAuditBadge";
+
+export default function RoleHistoryPage() {
+  const [entries, setEntries] = useState<RoleAuditRecord[]>([]);
+  const [roles, setRoles] = useState<any[]>([]);
+  const [filters, setFilters] = useState<RoleAuditFilters>({ search: "", roleName: "", action: "", from: "", to: "" });
+  const [loading, setLoading] = useState(true);
+  const { toasts, error, removeToast } = useToast();
+
+  useEffect(() => {
+    getAllRoles().then(setRoles).catch(err => console.error("Error loading roles:", err));
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(loadHistory, 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const loadHistory = async () => {
+    try {
+      const result = await getRoleAuditLog(filters);
+      if (result.success) {
+        setEntries(result.entries || []);
+      } else {
+        error(result.error || "Failed to load role history");
+      }
+    } catch (err) {
+      console.error("Error loading role history:", err);
+      error("Failed to load role history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (field: keyof RoleAuditFilters, value: string) => {
+    setFilters({ ...filters, [field]: value });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaHistory className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Role History
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Every role granted, revoked, changed or expired, newest first
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="relative md:col-span-2">
+              <FaSearch className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search member, actor or reason..."
+                value={filters.search}
+                onChange={(e) => updateFilter("search", e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+            </div>
+
+            <select
+              value={filters.roleName}
+              onChange={(e) => updateFilter("roleName", e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              <option value="">All Roles</option>
+              {roles.map(role => (
+                <option key={role.role_name} value={role.role_name}>{role.display_name}</option>
+              ))}
+            </select>
+
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter("action", e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+            >
+              <option value="">All Changes</option>
+              {Object.entries(ROLE_AUDIT_ACTIONS).map(([action, style]) => (
+                <option key={action} value={action}>{style.label}</option>
+              ))}
+            </select>
+
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter("from", e.target.value)}
+                className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                title="From"
+              />
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter("to", e.target.value)}
+                className="w-full px-2 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                title="To"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading role history...
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-12 text-center text-gray-500">
+              No role changes found
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      When
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Member
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Change
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      By
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Reason
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">
+                        {formatDbTimestamp(entry.created_at)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <Link href={`/tech-team/members/${entry.member_id}`} className="font-medium text-gray-900 hover:underline">
+                          {entry.member_name || `Member #${entry.member_id}`}
+                        </Link>
+                        {entry.member_email && (
+                          <div className="text-sm text-gray-500">{entry.member_email}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <RoleAuditBadge action={entry.action} />
+                        <span className="ml-2 text-sm text-gray-900">
+                          {entry.role_display_name || entry.role_name}
+                        </span>
+                        {(entry.starts_at || entry.expires_at) && entry.action !== "expire" && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {entry.starts_at ? `From ${entry.starts_at}` : "From now"}
+                            {entry.expires_at ? ` until ${entry.expires_at}` : ""}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {entry.actor_name || (entry.action === "expire" ? "System" : "-")}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {entry.reason || "-"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
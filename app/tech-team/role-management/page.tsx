@@ -1,16 +1,33 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { FaUsersCog, FaSearch, FaPlus, FaTimes, FaEdit, FaSave } from "react-icons/fa";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useRoleCatalogue } from "@/hooks/useRoleCatalogue";
+
+interface RoleAssignment {
+  role_name: string;
+  starts_at: string | null;
+  expires_at: string | null;
+}
 
 interface User {
   id: number;
   full_name: string;
   email: string;
   roles: string[] | string;
+  roleDetails?: RoleAssignment[];
+  upcomingRoles?: RoleAssignment[];
   form_class: string | null;
 }
 
+type RoleTerm = {
+  starts_at: string;
+  expires_at: string;
+};
+
 export default function RoleManagement() {
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
@@ -18,45 +35,11 @@ export default function RoleManagement() {
   const [selectedRole, setSelectedRole] = useState("all");
   const [editingUser, setEditingUser] = useState<number | null>(null);
   const [selectedRoles, setSelectedRoles] = useState<string[]>([]);
+  const [roleTerms, setRoleTerms] = useState<Record<string, RoleTerm>>({});
+  const [changeReason, setChangeReason] = useState("");
   const [loading, setLoading] = useState(true);
-
-  const primaryRoles = [
-    { value: "student", label: "Student", color: "bg-blue-100 text-blue-800" },
-    { value: "staff", label: "Staff", color: "bg-green-100 text-green-800" },
-    { value: "supervisor", label: "Supervisor", color: "bg-purple-100 text-purple-800" },
-    { value: "tech_team", label: "Tech Team", color: "bg-orange-100 text-orange-800" },
-    { value: "admin", label: "Admin", color: "bg-red-100 text-red-800" }
-  ];
-
-  const subRoles = {
-    student: [
-      { value: "beadle", label: "Beadle" }
-    ],
-    staff: [
-      { value: "teacher", label: "Teacher" },
-      { value: "ancillary", label: "Ancillary Staff" }
-    ],
-    supervisor: [
-      { value: "supervisor_1", label: "Form 1 Supervisor" },
-      { value: "supervisor_2", label: "Form 2 Supervisor" },
-      { value: "supervisor_3", label: "Form 3 Supervisor" },
-      { value: "supervisor_4", label: "Form 4 Supervisor" },
-      { value: "supervisor_5", label: "Form 5 Supervisor" },
-      { value: "supervisor_6", label: "Form 6 Supervisor" },
-      { value: "supervisor_6a", label: "Form 6A Supervisor" }
-    ],
-    tech_team: [
-      { value: "tech_team_president", label: "President" },
-      { value: "tech_team_vice_president", label: "Vice President" },
-      { value: "tech_team_junior_vice_president", label: "Junior Vice President" },
-      { value: "tech_team_member", label: "Member" }
-    ],
-    admin: [
-      { value: "principal", label: "Principal" },
-      { value: "vice_principal", label: "Vice Principal" },
-      { value: "dean_of_discipline", label: "Dean of Discipline" }
-    ]
-  };
+  const { toasts, success, error, removeToast } = useToast();
+  const { primaryRoles, subRoles } = useRoleCatalogue();
 
   useEffect(() => {
     fetchUsers();
@@ -101,7 +84,25 @@ export default function RoleManagement() {
   const startEditing = (user: User) => {
     setEditingUser(user.id);
     const roles = Array.isArray(user.roles) ? user.roles : (typeof user.roles === 'string' ? JSON.parse(user.roles) : []);
-    setSelectedRoles(roles);
+    const upcoming = user.upcomingRoles || [];
+    setSelectedRoles([...roles, ...upcoming.map(role => role.role_name)]);
+
+    const terms: Record<string, RoleTerm> = {};
+    for (const assignment of [...(user.roleDetails || []), ...upcoming]) {
+      terms[assignment.role_name] = {
+        starts_at: assignment.starts_at || "",
+        expires_at: assignment.expires_at || ""
+      };
+    }
+    setRoleTerms(terms);
+    setChangeReason("");
+  };
+
+  const updateRoleTerm = (role: string, field: keyof RoleTerm, value: string) => {
+    setRoleTerms({
+      ...roleTerms,
+      [role]: { ...(roleTerms[role] || { starts_at: "", expires_at: "" }), [field]: value }
+    });
   };
 
   const cancelEditing = () => {
@@ -122,16 +123,29 @@ export default function RoleManagement() {
       const response = await fetch("/api/users/update-roles", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, roles: selectedRoles })
+        body: JSON.stringify({
+          userId,
+          roles: selectedRoles,
+          terms: Object.fromEntries(selectedRoles.map(role => [role, {
+            starts_at: roleTerms[role]?.starts_at || null,
+            expires_at: roleTerms[role]?.expires_at || null
+          }])),
+          reason: changeReason
+        })
       });
 
-      if (response.ok) {
+      const result = await response.json();
+      if (response.ok && result.success) {
+        success(result.message || "Roles updated");
         await fetchUsers();
         setEditingUser(null);
         setSelectedRoles([]);
+      } else {
+        error(result.error || "Failed to update roles");
       }
-    } catch (error) {
-      console.error("Error updating roles:", error);
+    } catch (err) {
+      console.error("Error updating roles:", err);
+      error("Failed to update roles");
     }
   };
 
@@ -155,6 +169,8 @@ export default function RoleManagement() {
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+
       <div className="max-w-7xl mx-auto">
         <div className="mb-8">
           <div className="flex items-center gap-3 mb-2">
@@ -227,7 +243,9 @@ export default function RoleManagement() {
                     <tr key={user.id} className="hover:bg-gray-50 transition-colors">
                       <td className="px-6 py-4">
                         <div>
-                          <div className="font-medium text-gray-900">{user.full_name}</div>
+                          <Link href={`/tech-team/members/${user.id}`} className="font-medium text-gray-900 hover:underline">
+                            {user.full_name}
+                          </Link>
                           <div className="text-sm text-gray-500">{user.email}</div>
                         </div>
                       </td>
@@ -264,7 +282,7 @@ export default function RoleManagement() {
                               return (
                                 <div key={key}>
                                   <p className="text-xs font-semibold text-gray-600 mb-2 capitalize">
-                                    {key.replace('_', ' ')} Sub-roles
+                                    {primaryRoles.find(r => r.value === key)?.label || key} Sub-roles
                                   </p>
                                   <div className="flex flex-wrap gap-2">
                                     {roles.map(role => (
@@ -284,15 +302,63 @@ export default function RoleManagement() {
                                 </div>
                               );
                             })}
+
+                            {selectedRoles.some(role => role !== "student") && (
+                              <div>
+                                <p className="text-xs font-semibold text-gray-600 mb-2">Terms (leave blank for no limit)</p>
+                                <div className="space-y-2">
+                                  {selectedRoles.filter(role => role !== "student").map(role => (
+                                    <div key={role} className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                                      <span className="w-40 font-medium text-gray-700">{getRoleLabel(role)}</span>
+                                      <label>From</label>
+                                      <input
+                                        type="date"
+                                        value={roleTerms[role]?.starts_at || ""}
+                                        onChange={(e) => updateRoleTerm(role, "starts_at", e.target.value)}
+                                        className="px-2 py-1 border border-gray-300 rounded"
+                                      />
+                                      <label>Expires</label>
+                                      <input
+                                        type="date"
+                                        value={roleTerms[role]?.expires_at || ""}
+                                        onChange={(e) => updateRoleTerm(role, "expires_at", e.target.value)}
+                                        className="px-2 py-1 border border-gray-300 rounded"
+                                      />
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+
+                            <input
+                              type="text"
+                              placeholder="Reason for this change (optional)"
+                              value={changeReason}
+                              onChange={(e) => setChangeReason(e.target.value)}
+                              maxLength={500}
+                              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                            />
                           </div>
                         ) : (
                           <div className="flex flex-wrap gap-2">
-                            {(Array.isArray(user.roles) ? user.roles : []).map((role: string) => (
+                            {(Array.isArray(user.roles) ? user.roles : []).map((role: string) => {
+                              const expiresAt = user.roleDetails?.find(detail => detail.role_name === role)?.expires_at;
+                              return (
+                                <span
+                                  key={role}
+                                  className={`px-3 py-1 rounded-full text-xs font-medium ${getRoleBadgeColor(role)}`}
+                                  title={expiresAt ? `Expires ${expiresAt}` : undefined}
+                                >
+                                  {getRoleLabel(role)}{expiresAt && ` (until ${expiresAt})`}
+                                </span>
+                              );
+                            })}
+                            {(user.upcomingRoles || []).map(upcoming => (
                               <span
-                                key={role}
-                                className={`px-3 py-1 rounded-full text-xs font-medium ${getRoleBadgeColor(role)}`}
+                                key={upcoming.role_name}
+                                className="px-3 py-1 rounded-full text-xs font-medium border border-dashed border-gray-300 text-gray-500"
                               >
-                                {getRoleLabel(role)}
+                                {getRoleLabel(upcoming.role_name)} (from {upcoming.starts_at})
                               </span>
                             ))}
                           </div>
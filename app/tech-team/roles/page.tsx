@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { FaLayerGroup, FaPlus, FaEdit, FaTrash, FaSave, FaTimes } from "react-icons/fa";
+import type { RoleRecord, RoleType } from "@/lib/role-catalogue";
+import { ConfirmationModal } from "@/components/ConfirmationModal";
+import { ToastContainer } from "@/components/Toast";
+import { useToast } from "@/hooks/useToast";
+import { useConfirmation } from "@/hooks/useConfirmation";
+
+type RoleForm = {
+  role_name: string;
+  display_name: string;
+  description: string;
+  role_type: RoleType;
+  parent_role_id: string;
+  permission_level: string;
+  resets_yearly: boolean;
+};
+
+const emptyForm: RoleForm = {
+  role_name: "",
+  display_name: "",
+  description: "",
+  role_type: "sub",
+  parent_role_id: "",
+  permission_level: "1",
+  resets_yearly: false
+};
+
+export default function RoleCataloguePage() {
+  const [roles, setRoles] = useState<RoleRecord[]>([]);
+  const [form, setForm] = useState<RoleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toasts, success, error, removeToast } = useToast();
+  const { isOpen, options, confirm, handleConfirm, handleCancel } = useConfirmation();
+
+  useEffect(() => {
+    loadRoles();
+  }, []);
+
+  const loadRoles = async () => {
+    try {
+      const response = await fetch("/api/roles");
+      const data = await response.json();
+      if (data.success) {
+        setRoles(data.roles || []);
+      } else {
+        error(data.error || "Failed to load roles");
+      }
+    } catch (err) {
+      console.error("Error loading roles:", err);
+      error("Failed to load roles");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const primaryRoles = roles.filter(role => role.role_type === "primary");
+
+  const startEditing = (role: RoleRecord) => {
+    setEditingId(role.id);
+    setForm({
+      role_name: role.role_name,
+      display_name: role.display_name,
+      description: role.description || "",
+      role_type: role.role_type,
+      parent_role_id: role.parent_role_id ? String(role.parent_role_id) : "",
+      permission_level: String(role.permission_level),
+      resets_yearly: !!role.resets_yearly
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(editingId ? `/api/roles/${editingId}` : "/api/roles", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          role_name: editingId ? undefined : form.role_name || undefined,
+          display_name: form.display_name,
+          description: form.description,
+          role_type: form.role_type,
+          parent_role_id: form.role_type === "sub" && form.parent_role_id ? parseInt(form.parent_role_id) : null,
+          permission_level: parseInt(form.permission_level),
+          resets_yearly: form.resets_yearly
+        })
+      });
+
+      const result = await response.json();
+      if (result.success) {
+        success(editingId ? "Role updated" : "Role created");
+        resetForm();
+        await loadRoles();
+      } else {
+        error(result.error || "Failed to save role");
+      }
+    } catch (err) {
+      console.error("Error saving role:", err);
+      error("Failed to save role");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleRecord) => {
+    const confirmed = await confirm({
+      title: "Delete Role",
+      message: `Delete the ${role.display_name} role? This can't be undone.`,
+      confirmText: "Delete",
+      confirmVariant: "danger"
+    });
+    if (!confirmed) return;
+
+    try {
+      const response = await fetch(`/api/roles/${role.id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (result.success) {
+        success("Role deleted");
+        if (editingId === role.id) resetForm();
+        await loadRoles();
+      } else {
+        error(result.error || "Failed to delete role");
+      }
+    } catch (err) {
+      console.error("Error deleting role:", err);
+      error("Failed to delete role");
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-white to-gray-50 p-6">
+      <ToastContainer toasts={toasts} onRemove={removeToast} />
+      <ConfirmationModal
+        isOpen={isOpen}
+        title={options.title}
+        message={options.message}
+        confirmText={options.confirmText}
+        cancelText={options.cancelText}
+        confirmVariant={options.confirmVariant}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FaLayerGroup className="text-3xl" style={{color: '#8B1538'}} />
+            <h1 className="text-3xl font-bold" style={{color: '#8B1538'}}>
+              Role Catalogue
+            </h1>
+          </div>
+          <p className="text-gray-600">
+            Create and edit the roles that can be assigned to members
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-800 mb-4">
+            {editingId ? `Edit ${form.display_name || "Role"}` : "New Role"}
+          </h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-600">Display name</label>
+              <input
+                type="text"
+                value={form.display_name}
+                onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+                placeholder="e.g. Media Crew Lead"
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-600">Key</label>
+              <input
+                type="text"
+                value={form.role_name}
+                onChange={(e) => setForm({ ...form, role_name: e.target.value })}
+                placeholder={editingId ? "" : "Generated from the name if left blank"}
+                disabled={editingId !== null}
+                className={`${inputClass} disabled:bg-gray-100 disabled:text-gray-500`}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-600">Permission level</label>
+              <input
+                type="number"
+                min={1}
+                value={form.permission_level}
+                onChange={(e) => setForm({ ...form, permission_level: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-600">Type</label>
+              <select
+                value={form.role_type}
+                onChange={(e) => setForm({ ...form, role_type: e.target.value as RoleType })}
+                className={inputClass}
+              >
+                <option value="primary">Primary role</option>
+                <option value="sub">Sub-role</option>
+              </select>
+            </div>
+
+            {form.role_type === "sub" && (
+              <div>
+                <label className="text-sm font-medium text-gray-600">Parent role</label>
+                <select
+                  value={form.parent_role_id}
+                  onChange={(e) => setForm({ ...form, parent_role_id: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Choose a primary role...</option>
+                  {primaryRoles.filter(role => role.id !== editingId).map(role => (
+                    <option key={role.id} value={role.id}>{role.display_name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-3">
+              <input
+                type="checkbox"
+                checked={form.resets_yearly}
+                onChange={(e) => setForm({ ...form, resets_yearly: e.target.checked })}
+              />
+              Removed from everyone at the end-of-year rollover
+            </label>
+
+            <div className="md:col-span-3">
+              <label className="text-sm font-medium text-gray-600">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.display_name.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              {editingId ? <FaSave /> : <FaPlus />} {editingId ? "Save Changes" : "Create Role"}
+            </button>
+            {editingId && (
+              <button
+                onClick={resetForm}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                <FaTimes /> Cancel
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">
+              Loading roles...
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Type
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Level
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Members
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {roles.map((role) => (
+                    <tr key={role.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="font-medium text-gray-900">{role.display_name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{role.role_name}</div>
+                        {role.description && (
+                          <div className="text-sm text-gray-500">{role.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {role.role_type === "primary"
+                          ? "Primary"
+                          : `Sub-role of ${roles.find(r => r.id === role.parent_role_id)?.display_name || "-"}`}
+                        {role.resets_yearly ? (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">Yearly</span>
+                        ) : null}
+                        {role.is_system ? (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Built-in</span>
+                        ) : null}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {role.permission_level}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {role.member_count}
+                      </td>
+                      <td className="px-6 py-4 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => startEditing(role)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit Role"
+                        >
+                          <FaEdit />
+                        </button>
+                        {!role.is_system && (
+                          <button
+                            onClick={() => handleDelete(role)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete Role"
+                          >
+                            <FaTrash />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
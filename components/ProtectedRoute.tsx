@@ -3,19 +3,17 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken } from "@/lib/utils";
+import { can, type Permission } from "@/lib/permissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRoles?: string[];
-  requireAnyRole?: boolean;
+  requiredPermission?: Permission;
   redirectTo?: string;
 }
 
 export default function ProtectedRoute({
   children,
-  requiredRoles = [],
-  requireAnyRole = true,
+  requiredPermission,
   redirectTo = "/auth/login"
 }: ProtectedRouteProps) {
   const router = useRouter();
@@ -28,36 +26,19 @@ export default function ProtectedRoute({
 
   const checkAccess = async () => {
     try {
-      const token = retrieveSessionToken();
-      
-      if (!token) {
-        router.push(redirectTo);
-        return;
-      }
-
-      const user = await fetchCurrentUser(token, false);
+      const user = await fetchCurrentUser(false);
       
       if (!user) {
         router.push(redirectTo);
         return;
       }
-      if (requiredRoles.length === 0) {
+      if (!requiredPermission) {
         setIsAuthorized(true);
         setIsLoading(false);
         return;
       }
 
-      const userRoles = user.roles || [];
-      
-      let hasAccess = false;
-      
-      if (requireAnyRole) {
-        hasAccess = requiredRoles.some(role => userRoles.includes(role));
-      } else {
-        hasAccess = requiredRoles.every(role => userRoles.includes(role));
-      }
-
-      if (hasAccess) {
+      if (can(user, requiredPermission)) {
         setIsAuthorized(true);
         setIsLoading(false);
       } else {
@@ -91,9 +72,9 @@ export default function ProtectedRoute({
           <h2 className="text-2xl font-bold mb-2 text-gray-900">Access Denied</h2>
           <p className="text-gray-600 mb-6">
             You don't have permission to access this page. 
-            {requiredRoles.length > 0 && (
+            {requiredPermission && (
               <span className="block mt-2 text-sm">
-                Required role{requiredRoles.length > 1 ? 's' : ''}: {requiredRoles.join(', ')}
+                Required permission: {requiredPermission}
               </span>
             )}
           </p>
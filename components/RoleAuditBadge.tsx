@@ -0,0 +1,19 @@
+"use client";
+
+import type { RoleAuditAction } from "@/lib/role-audit";
+
+export const ROLE_AUDIT_ACTIONS: Record<RoleAuditAction, { label: string; color: string }> = {
+  grant: { label: "Granted", color: "bg-green-100 text-green-800" },
+  revoke: { label: "Revoked", color: "bg-red-100 text-red-800" },
+  update: { label: "Term changed", color: "bg-blue-100 text-blue-800" },
+  expire: { label: "Expired", color: "bg-gray-100 text-gray-800" }
+};
+
+export function RoleAuditBadge({ action }: { action: RoleAuditAction }) {
+  const style = ROLE_AUDIT_ACTIONS[action];
+  return (
+    <span className={`px-3 py-1 rounded-full text-xs font-medium ${style?.color || "bg-gray-100 text-gray-800"}`}>
+      {style?.label || action}
+    </span>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getSlipHistory } from "@/lib/slip-edit-actions";
+import type { SlipRevision } from "@/lib/slip-edits";
+import { formatDbTimestamp, formatJamaicanDate, formatTime } from "@/lib/timeUtils";
+
+// Edit link and change history for one beadle slip, shown in the slip details
+// modals. Renders nothing until the history has loaded.
+export function SlipHistory({ slipId }: { slipId: number }) {
+  const [revisions, setRevisions] = useState<SlipRevision[] | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [editableUntil, setEditableUntil] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRevisions(null);
+    getSlipHistory(slipId).then(result => {
+      if (cancelled || !result.success) return;
+      setRevisions(result.revisions || []);
+      setCanEdit(!!result.canEdit);
+      setEditableUntil(result.editableUntil ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [slipId]);
+
+  if (!revisions) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-base font-medium text-gray-800">Change History</h3>
+        {canEdit && (
+          <Link
+            href={`/beadle?edit=${slipId}`}
+            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            Edit Slip
+          </Link>
+        )}
+      </div>
+      {canEdit && editableUntil && (
+        <p className="text-xs text-gray-500 mb-3">
+          You can edit this slip until {formatTime(editableUntil.slice(11))} on {formatJamaicanDate(editableUntil.slice(0, 10))}.
+        </p>
+      )}
+
+      {revisions.length === 0 ? (
+        <div className="text-gray-500 italic text-sm">This slip hasn&apos;t been changed since it was submitted.</div>
+      ) : (
+        <div className="space-y-4">
+          {revisions.map(revision => (
+            <div key={revision.id} className="bg-white border border-gray-200 rounded-lg p-3">
+              <div className="text-sm text-gray-700 mb-2">
+                <span className="font-medium">{revision.edited_by_name || revision.edited_by_email || "Unknown"}</span>
+                <span className="text-gray-500"> · {formatDbTimestamp(revision.created_at)}</span>
+                {revision.note && <div className="text-gray-600 italic mt-1">&ldquo;{revision.note}&rdquo;</div>}
+              </div>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-2 font-medium">Field</th>
+                    <th className="py-1 pr-2 font-medium">Before</th>
+                    <th className="py-1 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {revision.changes.map(change => (
+                    <tr key={change.field} className="border-t border-gray-100 align-top">
+                      <td className="py-1 pr-2 text-gray-700 font-medium">{change.field}</td>
+                      <td className="py-1 pr-2 text-red-700 line-through">{change.before || "—"}</td>
+                      <td className="py-1 text-green-700">{change.after || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,6 @@ import { useEffect, useState } from "react";
 import { redirect } from "next/navigation";
 import { CombineNavLinks, CreateNavLink, NavLink, RenderNavLinks } from "./navlinks";
 import { fetchCurrentUser } from "@/lib/serverUtils";
-import { retrieveSessionToken, deleteSessionToken } from "@/lib/utils";
 import { signOut } from "@/lib/serverUtils";
 
 const Navlinks: NavLink[] = CombineNavLinks(
@@ -30,7 +29,7 @@ export default function Navbar() {
         if (!isClient) return;
         
         (async () => {
-            const cuser = await fetchCurrentUser(retrieveSessionToken(), window.location.pathname != "/auth/signup" && window.location.pathname != "/auth/login" && window.location.pathname != "/");
+            const cuser = await fetchCurrentUser(window.location.pathname != "/auth/signup" && window.location.pathname != "/auth/login" && window.location.pathname != "/");
 
             setUser(cuser ?? null);
         })();
@@ -38,7 +37,6 @@ export default function Navbar() {
 
     const handleLogout = async () => {
         await signOut();
-        deleteSessionToken();
         setUser(null);
         redirect("/auth/login");
     };
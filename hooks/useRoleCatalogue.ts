@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { RoleRecord } from '@/lib/role-catalogue';
+
+export type RoleOption = {
+  value: string;
+  label: string;
+  color: string;
+};
+
+const PRIMARY_ROLE_COLORS: Record<string, string> = {
+  student: "bg-blue-100 text-blue-800",
+  staff: "bg-green-100 text-green-800",
+  supervisor: "bg-purple-100 text-purple-800",
+  tech_team: "bg-orange-100 text-orange-800",
+  admin: "bg-red-100 text-red-800"
+};
+
+const DEFAULT_ROLE_COLOR = "bg-gray-100 text-gray-800";
+
+// Loads the role catalogue from /api/roles and shapes it for the role pickers:
+// primary roles in permission-level order, sub-roles grouped by parent role_name.
+export function useRoleCatalogue() {
+  const [primaryRoles, setPrimaryRoles] = useState<RoleOption[]>([]);
+  const [subRoles, setSubRoles] = useState<Record<string, RoleOption[]>>({});
+
+  const reload = useCallback(async () => {
+    try {
+      const response = await fetch("/api/roles");
+      const data = await response.json();
+      if (!data.success) return;
+
+      const roles: RoleRecord[] = data.roles || [];
+      const grouped: Record<string, RoleOption[]> = {};
+
+      for (const role of roles) {
+        if (role.role_type !== "sub" || !role.parent_role_name) continue;
+        if (!grouped[role.parent_role_name]) grouped[role.parent_role_name] = [];
+        grouped[role.parent_role_name].push({
+          value: role.role_name,
+          label: role.display_name,
+          color: DEFAULT_ROLE_COLOR
+        });
+      }
+
+      setPrimaryRoles(roles
+        .filter(role => role.role_type === "primary")
+        .map(role => ({
+          value: role.role_name,
+          label: role.display_name,
+          color: PRIMARY_ROLE_COLORS[role.role_name] || DEFAULT_ROLE_COLOR
+        })));
+      setSubRoles(grouped);
+    } catch (error) {
+      console.error("Error loading role catalogue:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { primaryRoles, subRoles, reload };
+}
@@ -0,0 +1,6 @@
+export async function register() {
+    if (process.env.NEXT_RUNTIME === "nodejs") {
+        const { startRoleExpirySweep } = await import("./lib/role-assignments");
+        startRoleExpirySweep();
+    }
+}
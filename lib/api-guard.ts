@@ -0,0 +1,63 @@
+import "server-only";
+import { NextResponse } from "next/server";
+import { readSessionCookie } from "./session-cookie";
+import { getSession } from "./serverUtils";
+import { getMemberRoleNames, getMemberPermissions } from "./role-db-helpers";
+import { can, type Permission } from "./permissions";
+
+// Guard for /api route handlers. Resolves the caller from the
+// session cookie and, when a permission is named, checks one of their roles
+// grants it through role_permissions. Handlers return `response` as-is when it's set:
+//
+//   const { caller, response } = await guardApiRoute("members.view");
+//   if (response) return response;
+
+export type ApiCaller = {
+  id: number;
+  email: string;
+  full_name: string;
+  roles: string[];
+  permissions: string[];
+};
+
+export async function guardApiRoute(permission?: Permission): Promise<
+  { caller: ApiCaller; response?: undefined } | { caller?: undefined; response: NextResponse }
+> {
+  const token = await readSessionCookie();
+  const { user } = token ? await getSession(token) : { user: undefined };
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: "Not authenticated" },
+        { status: 401 }
+      )
+    };
+  }
+
+  if (user.twoFactorSetupRequired) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: "Two-factor authentication setup required" },
+        { status: 403 }
+      )
+    };
+  }
+
+  const roles = await getMemberRoleNames(user.userId);
+  const permissions = await getMemberPermissions(user.userId);
+
+  if (permission && !can({ permissions }, permission)) {
+    console.warn(`[API] ${user.email} denied ${permission}`);
+    return {
+      response: NextResponse.json(
+        { success: false, error: `You don't have permission to do that (${permission})` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return {
+    caller: { id: user.userId, email: user.email, full_name: user.full_name, roles, permissions }
+  };
+}
@@ -0,0 +1,123 @@
+import type { Permission } from "./permissions";
+
+export const SESSION_COOKIE_NAME = "session_token";
+
+// Session tokens are v4 UUIDs. Middleware only checks the cookie has this
+// shape; the session itself is looked up by the section layouts and actions.
+const SESSION_TOKEN_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+// Set by middleware on every request it handles so server layouts know the path.
+export const PATHNAME_HEADER = "x-pathname";
+
+const HOUR_SECONDS = 60 * 60;
+
+// A session ends at whichever comes first: the absolute lifetime since sign-in,
+// or the idle timeout since the session was last used.
+export const SESSION_ABSOLUTE_TIMEOUT_SECONDS = Number(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS ?? 24 * 30) * HOUR_SECONDS;
+export const SESSION_IDLE_TIMEOUT_SECONDS = Number(process.env.SESSION_IDLE_TIMEOUT_HOURS ?? 24 * 7) * HOUR_SECONDS;
+
+// lastSeenAt is only rewritten once per interval so every request doesn't hit the disk.
+export const SESSION_RENEW_INTERVAL_SECONDS = 60;
+
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES ?? 60);
+
+export const EMAIL_VERIFICATION_TOKEN_TTL_MINUTES = Number(process.env.EMAIL_VERIFICATION_TOKEN_TTL_MINUTES ?? 60 * 24 * 2);
+
+// Imported members set their first password through a reset-style link, so it
+// has to outlast a school week.
+export const MEMBER_INVITE_TOKEN_TTL_MINUTES = Number(process.env.MEMBER_INVITE_TOKEN_TTL_MINUTES ?? 60 * 24 * 7);
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Failed logins are counted per account (email) and per client IP. Past the free
+// attempts, each further failure locks that key for BASE * 2^(extra failures - 1)
+// seconds, capped at MAX. Counters reset after a quiet period with no failures.
+export const LOGIN_FREE_ATTEMPTS_PER_ACCOUNT = Number(process.env.LOGIN_FREE_ATTEMPTS_PER_ACCOUNT ?? 5);
+export const LOGIN_FREE_ATTEMPTS_PER_IP = Number(process.env.LOGIN_FREE_ATTEMPTS_PER_IP ?? 20);
+export const LOGIN_BACKOFF_BASE_SECONDS = 30;
+export const LOGIN_BACKOFF_MAX_SECONDS = Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES ?? 60) * 60;
+export const LOGIN_FAILURE_RESET_SECONDS = 24 * HOUR_SECONDS;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For. The
+// client's IP is the entry the outermost of them added; anything to its left
+// came from the client and can't be trusted. Defaults to 0, which ignores the
+// header entirely: deployments behind a proxy must set this explicitly, or
+// per-IP login throttling and session IPs are unavailable.
+export const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 0);
+
+// app_settings keys for the signup policy admins manage from the admin portal.
+// An empty domain list allows any address.
+export const SIGNUP_ALLOWED_DOMAINS_SETTING = "signup.allowed_domains";
+export const SIGNUP_REQUIRE_INVITE_SETTING = "signup.require_invite_code";
+export const DEFAULT_ALLOWED_EMAIL_DOMAINS = ["campioncollege.com"];
+
+// Minimum role permission_level at which members must enrol in TOTP 2FA;
+// a null setting leaves 2FA optional for everyone.
+export const TWO_FACTOR_REQUIRED_LEVEL_SETTING = "security.two_factor_required_level";
+export const TWO_FACTOR_SETUP_PATH = "/dashboard/two-factor";
+
+// Grants of roles at or above this permission_level become role_requests that
+// another member has to approve. Level 6 covers the tech team executive and
+// every admin role.
+export const ROLE_APPROVAL_LEVEL_SETTING = "roles.approval_level";
+export const DEFAULT_ROLE_APPROVAL_LEVEL = 6;
+
+// How long a password-verified login waits for its second factor.
+export const TWO_FACTOR_CHALLENGE_TTL_MINUTES = 5;
+export const TWO_FACTOR_CHALLENGE_COOKIE_NAME = "two_factor_challenge";
+export const TOTP_ISSUER = "Campion Tech Hub";
+export const RECOVERY_CODE_COUNT = 10;
+
+export const LOGIN_PATH = "/auth/login";
+
+const PUBLIC_PATHS = ["/", "/tools", "/student"];
+const PUBLIC_PREFIXES = ["/auth", "/api/auth"];
+
+export type RouteRule = {
+    prefix: string;
+    permissions: Permission[];
+};
+
+// Checked in order, first matching prefix wins, so keep specific paths above their parents.
+// Holding any one of the listed permissions is enough. A path that matches no rule only
+// requires a valid session; /api handlers check their own permission with guardApiRoute.
+export const ROUTE_RULES: RouteRule[] = [
+    { prefix: "/admin", permissions: ["portal.admin"] },
+    { prefix: "/tech-team", permissions: ["portal.tech_team"] },
+    { prefix: "/supervisor", permissions: ["portal.supervisor"] },
+    { prefix: "/staff", permissions: ["portal.staff"] },
+    { prefix: "/beadle/view", permissions: ["slips.view.own", "slips.view.all"] },
+    { prefix: "/beadle", permissions: ["slips.submit", "slips.edit"] },
+];
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+    return pathname === prefix || pathname.startsWith(prefix + "/");
+}
+
+export function isPublicPath(pathname: string): boolean {
+    return PUBLIC_PATHS.includes(pathname) || PUBLIC_PREFIXES.some(prefix => matchesPrefix(pathname, prefix));
+}
+
+export function findRouteRule(pathname: string): RouteRule | undefined {
+    return ROUTE_RULES.find(rule => matchesPrefix(pathname, rule.prefix));
+}
+
+export function isWellFormedSessionToken(token: string | undefined): token is string {
+    return !!token && SESSION_TOKEN_PATTERN.test(token);
+}
+
+// Only same-origin paths. Browsers treat a backslash as "/" and drop tabs and
+// newlines, so "/\evil.com" or "/<tab>/evil.com" would otherwise leave the site.
+const REDIRECT_BASE = "http://redirect.invalid";
+
+export function isSafeRedirect(path: string | null | undefined): path is string {
+    if (!path || !path.startsWith("/") || path.startsWith("//") || /[\\\x00-\x1f\x7f]/.test(path)) {
+        return false;
+    }
+
+    try {
+        return new URL(path, REDIRECT_BASE).origin === REDIRECT_BASE;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,63 @@
+import "server-only";
+import { createHash, randomBytes } from "crypto";
+import { getDatabase } from "./database";
+
+// Helpers for the single-use, time-limited tokens we email out.
+// Only a SHA-256 hash is stored, so a leaked database can't be replayed.
+
+export type TokenTable =
+  | "password_reset_tokens"
+  | "email_verification_tokens"
+  | "email_change_tokens"
+  | "two_factor_challenges";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Issuing a new token retires any outstanding ones for the same member.
+export async function issueToken(table: TokenTable, memberId: number, ttlMinutes: number): Promise<string> {
+  const db = await getDatabase();
+  const token = randomBytes(32).toString("hex");
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE ${table} SET used_at = CURRENT_TIMESTAMP
+      WHERE member_id = ? AND used_at IS NULL
+    `).run(memberId);
+
+    db.prepare(`
+      INSERT INTO ${table} (member_id, token_hash, expires_at)
+      VALUES (?, ?, datetime('now', '+' || ? || ' minutes'))
+    `).run(memberId, hashToken(token), ttlMinutes);
+  })();
+
+  return token;
+}
+
+export async function findValidToken(table: TokenTable, token: string) {
+  if (!token) {
+    return undefined;
+  }
+
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT t.id, t.member_id, m.email
+    FROM ${table} t
+    INNER JOIN members m ON m.id = t.member_id
+    WHERE t.token_hash = ?
+      AND t.used_at IS NULL
+      AND t.expires_at > datetime('now')
+  `).get(hashToken(token)) as { id: number; member_id: number; email: string } | undefined;
+}
+
+// Returns false if another request already used the token. Call inside the
+// transaction that applies the token's effect.
+export function consumeToken(db: Awaited<ReturnType<typeof getDatabase>>, table: TokenTable, tokenId: number): boolean {
+  const result = db.prepare(`
+    UPDATE ${table} SET used_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND used_at IS NULL
+  `).run(tokenId);
+
+  return result.changes > 0;
+}
@@ -1,5 +1,5 @@
 import { fetchCurrentUser } from './serverUtils';
-import { retrieveSessionToken } from './utils';
+import { can } from './permissions';
 
 export async function checkBeadleAccess(): Promise<{
   hasAccess: boolean;
@@ -7,16 +7,7 @@ export async function checkBeadleAccess(): Promise<{
   message?: string;
 }> {
   try {
-    const token = retrieveSessionToken();
-    if (!token) {
-      return {
-        hasAccess: false,
-        user: null,
-        message: "Please log in to access this page."
-      };
-    }
-
-    const user = await fetchCurrentUser(token, false);
+    const user = await fetchCurrentUser(false);
     if (!user) {
       return {
         hasAccess: false,
@@ -25,10 +16,7 @@ export async function checkBeadleAccess(): Promise<{
       };
     }
 
-    const roles = user.roles || [];
-    const isBeadle = roles.includes('beadle');
-
-    if (!isBeadle) {
+    if (!can(user, 'slips.submit')) {
       return {
         hasAccess: false,
         user,
@@ -0,0 +1,118 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can, canAny } from "./permissions";
+import {
+  getBellSchedules,
+  getScheduleForDate,
+  getPeriodsForDate,
+  getScheduleAssignments,
+  saveBellSchedule,
+  setDefaultBellSchedule,
+  deleteBellSchedule,
+  assignBellSchedule,
+  type BellSchedule,
+  type BellSlot,
+  type SchoolPeriod,
+  type ScheduleAssignment
+} from "./bell-schedules";
+
+export async function getBellScheduleSettings(from: string, to: string): Promise<{
+  success: boolean;
+  schedules?: BellSchedule[];
+  assignments?: ScheduleAssignment[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage bell schedules" };
+    }
+
+    return {
+      success: true,
+      schedules: await getBellSchedules(),
+      assignments: await getScheduleAssignments(from, to)
+    };
+  } catch (error: any) {
+    console.error("Error fetching bell schedules:", error);
+    return { success: false, error: "Failed to load bell schedules" };
+  }
+}
+
+// The teaching periods in force on a date, for the beadle slip's period picker.
+export async function getPeriodsForSlipDate(date: string): Promise<{
+  success: boolean;
+  scheduleName?: string;
+  periods?: SchoolPeriod[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!canAny(user, ["slips.submit", "slips.edit", "timetable.manage"])) {
+      return { success: false, error: "You don't have permission to view the bell schedule" };
+    }
+
+    const schedule = await getScheduleForDate(date);
+    return { success: true, scheduleName: schedule?.name, periods: await getPeriodsForDate(date) };
+  } catch (error: any) {
+    console.error("Error fetching periods:", error);
+    return { success: false, error: "Failed to load the bell schedule" };
+  }
+}
+
+export async function saveSchedule(id: number | null, name: string, slots: BellSlot[]) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage bell schedules" };
+    }
+
+    return await saveBellSchedule(id, name, slots);
+  } catch (error: any) {
+    console.error("Error saving bell schedule:", error);
+    return { success: false, error: "Failed to save the schedule" };
+  }
+}
+
+export async function makeDefaultSchedule(id: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage bell schedules" };
+    }
+
+    return await setDefaultBellSchedule(id);
+  } catch (error: any) {
+    console.error("Error setting default bell schedule:", error);
+    return { success: false, error: "Failed to change the default schedule" };
+  }
+}
+
+export async function removeSchedule(id: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage bell schedules" };
+    }
+
+    return await deleteBellSchedule(id);
+  } catch (error: any) {
+    console.error("Error deleting bell schedule:", error);
+    return { success: false, error: "Failed to delete the schedule" };
+  }
+}
+
+export async function assignSchedule(scheduleId: number | null, from: string, to: string, note: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage bell schedules" };
+    }
+
+    return await assignBellSchedule(scheduleId, from, to, note, user.id);
+  } catch (error: any) {
+    console.error("Error assigning bell schedule:", error);
+    return { success: false, error: "Failed to assign the schedule" };
+  }
+}
@@ -0,0 +1,269 @@
+import "server-only";
+import { getDatabase } from "./database";
+
+// Access to bell schedules. A schedule is a list of time slots for
+// one kind of day (regular, shortened, exam...); teaching periods carry the
+// period number the timetable is keyed on, breaks carry only a label. Dates
+// use the default schedule unless one is assigned in bell_schedule_days.
+
+export type BellSlot = {
+  period: number | null;
+  label: string;
+  start_time: string;
+  end_time: string;
+};
+
+export type BellSchedule = {
+  id: number;
+  name: string;
+  is_default: number;
+  slots: BellSlot[];
+};
+
+export type SchoolPeriod = {
+  period: number;
+  start_time: string;
+  end_time: string;
+};
+
+export type ScheduleAssignment = {
+  date: string;
+  schedule_id: number;
+  schedule_name: string;
+  note: string | null;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_ASSIGNMENT_DAYS = 366;
+
+export async function getBellSchedules(): Promise<BellSchedule[]> {
+  const db = await getDatabase();
+  const schedules = db.prepare(`
+    SELECT id, name, is_default FROM bell_schedules ORDER BY is_default DESC, name ASC
+  `).all() as Omit<BellSchedule, "slots">[];
+  const slots = db.prepare(`
+    SELECT schedule_id, period, label, start_time, end_time
+    FROM bell_schedule_slots
+    ORDER BY start_time ASC
+  `).all() as (BellSlot & { schedule_id: number })[];
+
+  return schedules.map(schedule => ({
+    ...schedule,
+    slots: slots
+      .filter(slot => slot.schedule_id === schedule.id)
+      .map(({ schedule_id, ...slot }) => slot)
+  }));
+}
+
+// The schedule in force on a date, or the default schedule when no date is given.
+export async function getScheduleForDate(date?: string | null): Promise<BellSchedule | undefined> {
+  const db = await getDatabase();
+  const assigned = date
+    ? db.prepare(`SELECT schedule_id FROM bell_schedule_days WHERE date = ?`).get(date) as { schedule_id: number } | undefined
+    : undefined;
+
+  const schedules = await getBellSchedules();
+  return schedules.find(schedule => schedule.id === assigned?.schedule_id) ?? schedules.find(schedule => !!schedule.is_default);
+}
+
+// Teaching periods only, in time order.
+export async function getPeriodsForDate(date?: string | null): Promise<SchoolPeriod[]> {
+  const schedule = await getScheduleForDate(date);
+  return (schedule?.slots || [])
+    .filter(slot => slot.period !== null)
+    .map(slot => ({ period: slot.period as number, start_time: slot.start_time, end_time: slot.end_time }));
+}
+
+// Where a lesson of one or two periods starting at `period` begins and ends on
+// a date. A double runs to the end of the next teaching period.
+export async function resolvePeriodTimes(
+  date: string,
+  period: number,
+  isDouble: boolean
+): Promise<{ start_time: string; end_time: string } | undefined> {
+  const periods = await getPeriodsForDate(date);
+  const index = periods.findIndex(p => p.period === period);
+  const last = periods[isDouble ? index + 1 : index];
+  if (index === -1 || !last) {
+    return undefined;
+  }
+  return { start_time: periods[index].start_time, end_time: last.end_time };
+}
+
+function validateSlots(slots: BellSlot[]): string | undefined {
+  if (!slots.some(slot => slot.period !== null)) {
+    return "A schedule needs at least one teaching period";
+  }
+
+  const seen = new Set<number>();
+  const sorted = [...slots].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  for (const [index, slot] of sorted.entries()) {
+    const name = slot.label || (slot.period !== null ? `Period ${slot.period}` : "A break");
+    if (!TIME_PATTERN.test(slot.start_time) || !TIME_PATTERN.test(slot.end_time)) {
+      return `${name} needs start and end times`;
+    }
+    if (slot.end_time <= slot.start_time) {
+      return `${name} has to end after it starts`;
+    }
+    if (index > 0 && slot.start_time < sorted[index - 1].end_time) {
+      return `${name} overlaps ${sorted[index - 1].label}`;
+    }
+    if (slot.period !== null) {
+      if (!Number.isInteger(slot.period) || slot.period < 1) {
+        return `${name} needs a period number of 1 or more`;
+      }
+      if (seen.has(slot.period)) {
+        return `Period ${slot.period} appears twice`;
+      }
+      seen.add(slot.period);
+    } else if (!slot.label.trim()) {
+      return "Breaks need a label";
+    }
+  }
+}
+
+// Creates a schedule when id is null, otherwise replaces its name and slots.
+export async function saveBellSchedule(
+  id: number | null,
+  name: string,
+  slots: BellSlot[]
+): Promise<{ success: boolean; id?: number; error?: string }> {
+  const db = await getDatabase();
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { success: false, error: "Schedule name is required" };
+  }
+
+  const clash = db.prepare(`SELECT id FROM bell_schedules WHERE name = ? AND id != ?`).get(trimmed, id ?? 0);
+  if (clash) {
+    return { success: false, error: `There is already a schedule called '${trimmed}'` };
+  }
+
+  const cleaned = slots.map(slot => ({
+    period: slot.period,
+    label: slot.label.trim() || (slot.period !== null ? `Period ${slot.period}` : ""),
+    start_time: slot.start_time,
+    end_time: slot.end_time
+  }));
+  const slotError = validateSlots(cleaned);
+  if (slotError) {
+    return { success: false, error: slotError };
+  }
+
+  if (id !== null && !db.prepare(`SELECT id FROM bell_schedules WHERE id = ?`).get(id)) {
+    return { success: false, error: "Schedule not found" };
+  }
+
+  const insertSlot = db.prepare(`
+    INSERT INTO bell_schedule_slots (schedule_id, period, label, start_time, end_time) VALUES (?, ?, ?, ?, ?)
+  `);
+  const scheduleId = db.transaction(() => {
+    let savedId = id;
+    if (savedId === null) {
+      savedId = Number(db.prepare(`INSERT INTO bell_schedules (name) VALUES (?)`).run(trimmed).lastInsertRowid);
+    } else {
+      db.prepare(`UPDATE bell_schedules SET name = ? WHERE id = ?`).run(trimmed, savedId);
+      db.prepare(`DELETE FROM bell_schedule_slots WHERE schedule_id = ?`).run(savedId);
+    }
+    for (const slot of cleaned) {
+      insertSlot.run(savedId, slot.period, slot.label, slot.start_time, slot.end_time);
+    }
+    return savedId;
+  })();
+
+  return { success: true, id: scheduleId };
+}
+
+export async function setDefaultBellSchedule(id: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  if (!db.prepare(`SELECT id FROM bell_schedules WHERE id = ?`).get(id)) {
+    return { success: false, error: "Schedule not found" };
+  }
+
+  db.transaction(() => {
+    db.prepare(`UPDATE bell_schedules SET is_default = 0`).run();
+    db.prepare(`UPDATE bell_schedules SET is_default = 1 WHERE id = ?`).run(id);
+  })();
+  return { success: true };
+}
+
+// The default schedule can't be deleted; days assigned to a deleted schedule
+// fall back to the default.
+export async function deleteBellSchedule(id: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  const schedule = db.prepare(`SELECT is_default FROM bell_schedules WHERE id = ?`).get(id) as { is_default: number } | undefined;
+  if (!schedule) {
+    return { success: false, error: "Schedule not found" };
+  }
+  if (schedule.is_default) {
+    return { success: false, error: "Make another schedule the default before deleting this one" };
+  }
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM bell_schedule_days WHERE schedule_id = ?`).run(id);
+    db.prepare(`DELETE FROM bell_schedule_slots WHERE schedule_id = ?`).run(id);
+    db.prepare(`DELETE FROM bell_schedules WHERE id = ?`).run(id);
+  })();
+  return { success: true };
+}
+
+export async function getScheduleAssignments(from: string, to: string): Promise<ScheduleAssignment[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT d.date, d.schedule_id, s.name AS schedule_name, d.note
+    FROM bell_schedule_days d
+    INNER JOIN bell_schedules s ON s.id = d.schedule_id
+    WHERE d.date BETWEEN ? AND ?
+    ORDER BY d.date ASC
+  `).all(from, to) as ScheduleAssignment[];
+}
+
+// Puts every weekday from `from` to `to` on a schedule. A null schedule clears
+// the assignment so those days go back to the default.
+export async function assignBellSchedule(
+  scheduleId: number | null,
+  from: string,
+  to: string,
+  note: string,
+  actorId: number
+): Promise<{ success: boolean; days?: number; error?: string }> {
+  const db = await getDatabase();
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || to < from) {
+    return { success: false, error: "Pick a start date and an end date on or after it" };
+  }
+  if (scheduleId !== null && !db.prepare(`SELECT id FROM bell_schedules WHERE id = ?`).get(scheduleId)) {
+    return { success: false, error: "Schedule not found" };
+  }
+
+  const dates: string[] = [];
+  for (const day = new Date(`${from}T12:00:00Z`); day.toISOString().slice(0, 10) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+      dates.push(day.toISOString().slice(0, 10));
+    }
+    if (dates.length > MAX_ASSIGNMENT_DAYS) {
+      return { success: false, error: "Assign at most a year at a time" };
+    }
+  }
+
+  const clearDay = db.prepare(`DELETE FROM bell_schedule_days WHERE date = ?`);
+  const setDay = db.prepare(`
+    INSERT INTO bell_schedule_days (date, schedule_id, note, set_by) VALUES (?, ?, ?, ?)
+    ON CONFLICT(date) DO UPDATE SET
+      schedule_id = excluded.schedule_id,
+      note = excluded.note,
+      set_by = excluded.set_by,
+      created_at = CURRENT_TIMESTAMP
+  `);
+  db.transaction(() => {
+    for (const date of dates) {
+      if (scheduleId === null) {
+        clearDay.run(date);
+      } else {
+        setDay.run(date, scheduleId, note.trim() || null, actorId);
+      }
+    }
+  })();
+
+  return { success: true, days: dates.length };
+}
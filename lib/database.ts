@@ -3,6 +3,16 @@ import Database from "better-sqlite3";
 
 const db = new Database("db.sqlite");
 
+function addColumnIfMissing(table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  if (columns.some((c: any) => c.name === column)) {
+    return false;
+  }
+
+  db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+  return true;
+}
+
 db.prepare(`
   CREATE TABLE IF NOT EXISTS members (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -10,11 +20,35 @@ db.prepare(`
     email TEXT UNIQUE NOT NULL,
     password TEXT NOT NULL,
     form_class TEXT,
+    class_id INTEGER,
+    email_verified_at TEXT,
+    first_login_at TEXT,
+    invite_code_id INTEGER,
+    totp_secret TEXT,
+    totp_enabled_at TEXT,
+    totp_last_step INTEGER,
     created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (invite_code_id) REFERENCES invite_codes(id) ON DELETE SET NULL,
+    FOREIGN KEY (class_id) REFERENCES classes(id) ON DELETE SET NULL
   )
 `).run();
 
+// Members created before email verification existed are treated as verified
+// and already onboarded.
+if (addColumnIfMissing("members", "email_verified_at", "TEXT")) {
+  db.prepare(`UPDATE members SET email_verified_at = COALESCE(created_at, CURRENT_TIMESTAMP)`).run();
+}
+if (addColumnIfMissing("members", "first_login_at", "TEXT")) {
+  db.prepare(`UPDATE members SET first_login_at = COALESCE(created_at, CURRENT_TIMESTAMP)`).run();
+}
+addColumnIfMissing("members", "invite_code_id", "INTEGER REFERENCES invite_codes(id) ON DELETE SET NULL");
+addColumnIfMissing("members", "totp_secret", "TEXT");
+addColumnIfMissing("members", "totp_enabled_at", "TEXT");
+addColumnIfMissing("members", "totp_last_step", "INTEGER");
+// A member's new address waits here until they follow the link sent to it.
+addColumnIfMissing("members", "pending_email", "TEXT");
+
 db.prepare(`
   CREATE TABLE IF NOT EXISTS roles (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -23,10 +57,27 @@ db.prepare(`
     display_name TEXT NOT NULL,
     description TEXT,
     permission_level INTEGER NOT NULL DEFAULT 1,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    parent_role_id INTEGER,
+    is_system INTEGER NOT NULL DEFAULT 0,
+    resets_yearly INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (parent_role_id) REFERENCES roles(id) ON DELETE SET NULL
   )
 `).run();
 
+// Sub-roles hang off a primary role through parent_role_id. Built-in roles are
+// flagged is_system so the tech team can edit but not delete them.
+addColumnIfMissing("roles", "parent_role_id", "INTEGER REFERENCES roles(id) ON DELETE SET NULL");
+addColumnIfMissing("roles", "is_system", "INTEGER NOT NULL DEFAULT 0");
+addColumnIfMissing("roles", "updated_at", "TEXT");
+
+// Roles flagged resets_yearly are taken away from everyone by the end-of-year
+// rollover. New databases get the flag from seedRoles instead.
+if (addColumnIfMissing("roles", "resets_yearly", "INTEGER NOT NULL DEFAULT 0")) {
+  db.prepare(`UPDATE roles SET resets_yearly = 1 WHERE role_name = 'beadle'`).run();
+}
+
 db.prepare(`
   CREATE TABLE IF NOT EXISTS member_roles (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -34,6 +85,9 @@ db.prepare(`
     role_id INTEGER NOT NULL,
     assigned_at TEXT DEFAULT CURRENT_TIMESTAMP,
     assigned_by INTEGER,
+    starts_at TEXT,
+    expires_at TEXT,
+    deactivated_at TEXT,
     FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
     FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE,
     FOREIGN KEY (assigned_by) REFERENCES members(id) ON DELETE SET NULL,
@@ -41,27 +95,254 @@ db.prepare(`
   )
 `).run();
 
+// Optional term for an assignment as YYYY-MM-DD dates: in force from starts_at
+// until the day before expires_at. The expiry sweep sets deactivated_at.
+addColumnIfMissing("member_roles", "starts_at", "TEXT");
+addColumnIfMissing("member_roles", "expires_at", "TEXT");
+addColumnIfMissing("member_roles", "deactivated_at", "TEXT");
+
+// Every grant, revoke, term change and expiry of a member_roles row. Member and
+// role are copied by id/name without foreign keys so history outlives them.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS role_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    role_name TEXT NOT NULL,
+    action TEXT NOT NULL CHECK(action IN ('grant', 'revoke', 'update', 'expire')),
+    actor_id INTEGER,
+    reason TEXT,
+    starts_at TEXT,
+    expires_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`).run();
+
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_role_audit_member ON role_audit(member_id, created_at)`).run();
+
+for (const operation of ["UPDATE", "DELETE"]) {
+  db.prepare(`
+    CREATE TRIGGER IF NOT EXISTS role_audit_no_${operation.toLowerCase()}
+    BEFORE ${operation} ON role_audit
+    BEGIN
+      SELECT RAISE(ABORT, 'role_audit is append-only');
+    END
+  `).run();
+}
+
+// Grants of roles at or above the approval level wait here until a second
+// member approves or rejects them. Approved requests become member_roles rows.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS role_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    role_id INTEGER NOT NULL,
+    requested_by INTEGER,
+    reason TEXT,
+    starts_at TEXT,
+    expires_at TEXT,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected')),
+    decided_by INTEGER,
+    decision_note TEXT,
+    decided_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE,
+    FOREIGN KEY (requested_by) REFERENCES members(id) ON DELETE SET NULL,
+    FOREIGN KEY (decided_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+db.prepare(`
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_role_requests_pending
+  ON role_requests(member_id, role_id) WHERE status = 'pending'
+`).run();
+
+// One row per end-of-year rollover. snapshot holds everything the rollover
+// changed (JSON) so the latest run can be undone.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS year_rollovers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    academic_year TEXT NOT NULL,
+    snapshot TEXT NOT NULL,
+    promoted_count INTEGER NOT NULL DEFAULT 0,
+    graduated_count INTEGER NOT NULL DEFAULT 0,
+    roles_removed_count INTEGER NOT NULL DEFAULT 0,
+    created_by INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    undone_by INTEGER,
+    undone_at TEXT,
+    FOREIGN KEY (created_by) REFERENCES members(id) ON DELETE SET NULL,
+    FOREIGN KEY (undone_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS permissions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS role_permissions (
+    role_id INTEGER NOT NULL,
+    permission_id INTEGER NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (role_id, permission_id),
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE CASCADE,
+    FOREIGN KEY (permission_id) REFERENCES permissions(id) ON DELETE CASCADE
+  )
+`).run();
+
 db.prepare(`
   CREATE TABLE IF NOT EXISTS sessions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     userId INTEGER NOT NULL,
     token TEXT UNIQUE NOT NULL,
     createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+    lastSeenAt TEXT,
+    userAgent TEXT,
+    ipAddress TEXT,
     FOREIGN KEY (userId) REFERENCES members(id) ON DELETE CASCADE
   )
 `).run();
 
+addColumnIfMissing("sessions", "lastSeenAt", "TEXT");
+addColumnIfMissing("sessions", "userAgent", "TEXT");
+addColumnIfMissing("sessions", "ipAddress", "TEXT");
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(userId)`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS email_verification_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS email_change_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+  )
+`).run();
+
+// External SSO identities, keyed by the issuer URL and its stable subject id.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS member_identities (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    provider TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    email TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_login_at TEXT,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    UNIQUE(provider, subject)
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS two_factor_challenges (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    token_hash TEXT UNIQUE NOT NULL,
+    expires_at TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS totp_recovery_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER NOT NULL,
+    code_hash TEXT NOT NULL,
+    used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS invite_codes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT UNIQUE NOT NULL,
+    role_id INTEGER,
+    description TEXT,
+    max_uses INTEGER,
+    uses INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT,
+    revoked_at TEXT,
+    created_by INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (role_id) REFERENCES roles(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_by INTEGER,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (updated_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS login_attempts (
+    scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+    identifier TEXT NOT NULL,
+    failures INTEGER NOT NULL DEFAULT 0,
+    last_failure_at TEXT,
+    locked_until TEXT,
+    PRIMARY KEY (scope, identifier)
+  )
+`).run();
+
 db.prepare(`
   CREATE TABLE IF NOT EXISTS beadle_slips (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     beadle_email TEXT NOT NULL,
     grade_level TEXT NOT NULL,
     class_name TEXT NOT NULL,
+    form_id INTEGER,
+    class_id INTEGER,
     class_start_time TEXT NOT NULL,
     class_end_time TEXT NOT NULL,
     date TEXT NOT NULL,
     teacher TEXT NOT NULL,
     subject TEXT NOT NULL,
+    teacher_id INTEGER,
+    subject_id INTEGER,
+    period INTEGER,
+    is_double_session INTEGER NOT NULL DEFAULT 0,
     teacher_present TEXT NOT NULL,
     teacher_arrival_time TEXT,
     substitute_received TEXT,
@@ -69,50 +350,528 @@ db.prepare(`
     students_present INTEGER NOT NULL,
     absent_students TEXT,
     late_students TEXT,
-    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    discarded_at TEXT,
+    discarded_by INTEGER,
+    merged_into INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE SET NULL,
+    FOREIGN KEY (class_id) REFERENCES classes(id) ON DELETE SET NULL,
+    FOREIGN KEY (teacher_id) REFERENCES teachers(id) ON DELETE SET NULL,
+    FOREIGN KEY (subject_id) REFERENCES subjects(id) ON DELETE SET NULL,
+    FOREIGN KEY (discarded_by) REFERENCES members(id) ON DELETE SET NULL,
+    FOREIGN KEY (merged_into) REFERENCES beadle_slips(id) ON DELETE SET NULL
+  )
+`).run();
+
+// One row per absent or late student on a slip. These replace the JSON name
+// lists in beadle_slips.absent_students/late_students, which are emptied once
+// copied over. member_id is NULL for names typed in by hand.
+const slipAttendanceExists = !!db.prepare(`
+  SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'slip_attendance'
+`).get();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS slip_attendance (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slip_id INTEGER NOT NULL,
+    member_id INTEGER,
+    student_name TEXT NOT NULL,
+    status TEXT NOT NULL CHECK(status IN ('absent', 'late')),
+    minutes_late INTEGER,
+    reason TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (slip_id) REFERENCES beadle_slips(id) ON DELETE CASCADE,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE SET NULL
   )
 `).run();
 
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_slip_attendance_slip ON slip_attendance(slip_id)`).run();
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_slip_attendance_member ON slip_attendance(member_id, status)`).run();
+
+if (!slipAttendanceExists) {
+  const insertAttendance = db.prepare(`
+    INSERT INTO slip_attendance (slip_id, member_id, student_name, status) VALUES (?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    const slips = db.prepare(`
+      SELECT id, absent_students, late_students FROM beadle_slips
+      WHERE absent_students IS NOT NULL OR late_students IS NOT NULL
+    `).all() as any[];
+
+    for (const slip of slips) {
+      for (const [status, json] of [["absent", slip.absent_students], ["late", slip.late_students]]) {
+        // Entries are plain names, or { member_id, name } for roster picks.
+        for (const entry of JSON.parse(json || "[]") as (string | { member_id?: number; name: string })[]) {
+          const { member_id, name } = typeof entry === "string" ? { member_id: null, name: entry } : entry;
+          if (name.trim()) {
+            insertAttendance.run(slip.id, member_id ?? null, name.trim(), status);
+          }
+        }
+      }
+    }
+
+    db.prepare(`UPDATE beadle_slips SET absent_students = NULL, late_students = NULL`).run();
+  })();
+}
+
 const seedRoles = [
   { name: 'student', type: 'primary', display: 'Student', desc: 'Regular student', level: 1 },
-  { name: 'beadle', type: 'sub', display: 'Beadle', desc: 'Student attendance monitor', level: 2 },
+  { name: 'beadle', type: 'sub', display: 'Beadle', desc: 'Student attendance monitor', level: 2, parent: 'student', yearly: true },
+  { name: 'alumni', type: 'primary', display: 'Alumni', desc: 'Graduated student', level: 1 },
 
   { name: 'staff', type: 'primary', display: 'Staff', desc: 'School staff member', level: 3 },
-  { name: 'teacher', type: 'sub', display: 'Teacher', desc: 'Teaching staff', level: 3 },
-  { name: 'ancillary', type: 'sub', display: 'Ancillary Staff', desc: 'Support staff', level: 3 },
+  { name: 'teacher', type: 'sub', display: 'Teacher', desc: 'Teaching staff', level: 3, parent: 'staff' },
+  { name: 'ancillary', type: 'sub', display: 'Ancillary Staff', desc: 'Support staff', level: 3, parent: 'staff' },
   
   { name: 'supervisor', type: 'primary', display: 'Supervisor', desc: 'Form supervisor', level: 4 },
-  { name: 'supervisor_1', type: 'sub', display: 'Form 1 Supervisor', desc: 'Supervises Form 1', level: 4 },
-  { name: 'supervisor_2', type: 'sub', display: 'Form 2 Supervisor', desc: 'Supervises Form 2', level: 4 },
-  { name: 'supervisor_3', type: 'sub', display: 'Form 3 Supervisor', desc: 'Supervises Form 3', level: 4 },
-  { name: 'supervisor_4', type: 'sub', display: 'Form 4 Supervisor', desc: 'Supervises Form 4', level: 4 },
-  { name: 'supervisor_5', type: 'sub', display: 'Form 5 Supervisor', desc: 'Supervises Form 5', level: 4 },
-  { name: 'supervisor_6', type: 'sub', display: 'Form 6 Supervisor', desc: 'Supervises Form 6B', level: 4 },
-  { name: 'supervisor_6a', type: 'sub', display: 'Form 6A Supervisor', desc: 'Supervises Form 6A', level: 4 },
+  { name: 'supervisor_1', type: 'sub', display: 'Form 1 Supervisor', desc: 'Supervises Form 1', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_2', type: 'sub', display: 'Form 2 Supervisor', desc: 'Supervises Form 2', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_3', type: 'sub', display: 'Form 3 Supervisor', desc: 'Supervises Form 3', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_4', type: 'sub', display: 'Form 4 Supervisor', desc: 'Supervises Form 4', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_5', type: 'sub', display: 'Form 5 Supervisor', desc: 'Supervises Form 5', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_6', type: 'sub', display: 'Form 6 Supervisor', desc: 'Supervises Form 6B', level: 4, parent: 'supervisor' },
+  { name: 'supervisor_6a', type: 'sub', display: 'Form 6A Supervisor', desc: 'Supervises Form 6A', level: 4, parent: 'supervisor' },
 
   { name: 'tech_team', type: 'primary', display: 'Tech Team', desc: 'Technology team member', level: 5 },
-  { name: 'tech_team_member', type: 'sub', display: 'Tech Team Member', desc: 'Regular tech team member', level: 5 },
-  { name: 'tech_team_junior_vice_president', type: 'sub', display: 'Tech Team Junior VP', desc: 'Junior Vice President', level: 6 },
-  { name: 'tech_team_vice_president', type: 'sub', display: 'Tech Team VP', desc: 'Vice President', level: 7 },
-  { name: 'tech_team_president', type: 'sub', display: 'Tech Team President', desc: 'President', level: 8 },
+  { name: 'tech_team_member', type: 'sub', display: 'Tech Team Member', desc: 'Regular tech team member', level: 5, parent: 'tech_team' },
+  { name: 'tech_team_junior_vice_president', type: 'sub', display: 'Tech Team Junior VP', desc: 'Junior Vice President', level: 6, parent: 'tech_team' },
+  { name: 'tech_team_vice_president', type: 'sub', display: 'Tech Team VP', desc: 'Vice President', level: 7, parent: 'tech_team' },
+  { name: 'tech_team_president', type: 'sub', display: 'Tech Team President', desc: 'President', level: 8, parent: 'tech_team' },
 
   { name: 'admin', type: 'primary', display: 'Admin', desc: 'Administrator', level: 9 },
-  { name: 'dean_of_discipline', type: 'sub', display: 'Dean of Discipline', desc: 'Dean of Discipline', level: 9 },
-  { name: 'vice_principal', type: 'sub', display: 'Vice Principal', desc: 'Vice Principal', level: 10 },
-  { name: 'principal', type: 'sub', display: 'Principal', desc: 'School Principal', level: 11 }
+  { name: 'dean_of_discipline', type: 'sub', display: 'Dean of Discipline', desc: 'Dean of Discipline', level: 9, parent: 'admin' },
+  { name: 'vice_principal', type: 'sub', display: 'Vice Principal', desc: 'Vice Principal', level: 10, parent: 'admin' },
+  { name: 'principal', type: 'sub', display: 'Principal', desc: 'School Principal', level: 11, parent: 'admin' }
 ];
 
 const insertRole = db.prepare(`
-  INSERT OR IGNORE INTO roles (role_name, role_type, display_name, description, permission_level)
-  VALUES (?, ?, ?, ?, ?)
+  INSERT OR IGNORE INTO roles (role_name, role_type, display_name, description, permission_level, resets_yearly)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+const markSystemRole = db.prepare(`
+  UPDATE roles
+  SET is_system = 1,
+      parent_role_id = COALESCE(parent_role_id, (SELECT id FROM roles WHERE role_name = ?))
+  WHERE role_name = ?
 `);
 
+// Parents are listed before their sub-roles, so one pass is enough.
 for (const role of seedRoles) {
-  insertRole.run(role.name, role.type, role.display, role.desc, role.level);
+  insertRole.run(role.name, role.type, role.display, role.desc, role.level, role.yearly ? 1 : 0);
+  markSystemRole.run(role.parent ?? null, role.name);
+}
+
+// Form levels in promotion order. Each form is looked after by one supervisor
+// sub-role and lists the form its students move up to (NULL for 6A, who
+// graduate). Classes belong to exactly one form; a member's form_class and a
+// slip's class_name are kept as the class name for display.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS forms (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    code TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    display_name TEXT NOT NULL,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    next_form_id INTEGER,
+    supervisor_role_id INTEGER,
+    FOREIGN KEY (next_form_id) REFERENCES forms(id) ON DELETE SET NULL,
+    FOREIGN KEY (supervisor_role_id) REFERENCES roles(id) ON DELETE SET NULL
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS classes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    form_id INTEGER NOT NULL,
+    name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (form_id) REFERENCES forms(id) ON DELETE CASCADE
+  )
+`).run();
+
+const seedForms = [
+  { code: '1', display: 'Form 1', supervisor: 'supervisor_1', next: '2' },
+  { code: '2', display: 'Form 2', supervisor: 'supervisor_2', next: '3' },
+  { code: '3', display: 'Form 3', supervisor: 'supervisor_3', next: '4' },
+  { code: '4', display: 'Form 4', supervisor: 'supervisor_4', next: '5' },
+  { code: '5', display: 'Form 5', supervisor: 'supervisor_5', next: '6B' },
+  { code: '6B', display: 'Form 6B (Lower 6th)', supervisor: 'supervisor_6', next: '6A' },
+  { code: '6A', display: 'Form 6A (Upper 6th)', supervisor: 'supervisor_6a', next: null }
+];
+
+const insertForm = db.prepare(`
+  INSERT OR IGNORE INTO forms (code, display_name, sort_order, supervisor_role_id)
+  VALUES (?, ?, ?, (SELECT id FROM roles WHERE role_name = ?))
+`);
+const linkNextForm = db.prepare(`
+  UPDATE forms SET next_form_id = (SELECT id FROM forms WHERE code = ?) WHERE code = ?
+`);
+
+// Like permissions, a form's links are only seeded when it is first created.
+const newForms = seedForms.filter((form, index) =>
+  insertForm.run(form.code, form.display, index + 1, form.supervisor).changes > 0
+);
+for (const form of newForms) {
+  linkNextForm.run(form.next, form.code);
+}
+
+const formIdByCode = new Map(
+  (db.prepare(`SELECT id, code FROM forms`).all() as { id: number; code: string }[])
+    .map(form => [form.code.toUpperCase(), form.id])
+);
+const insertClass = db.prepare(`INSERT OR IGNORE INTO classes (form_id, name) VALUES (?, ?)`);
+const findClass = db.prepare(`SELECT id, form_id, name FROM classes WHERE name = ?`);
+
+// Numbered classes ("5-2", "6a-1") found in old free-text values become rows in
+// classes. Anything else is left for the tech team to sort out by hand.
+function classFromLegacyName(value: string | null): { id: number; form_id: number; name: string } | undefined {
+  const match = (value || "").trim().toUpperCase().match(/^(\w+?)\s*-\s*(\d+)$/);
+  const formId = match ? formIdByCode.get(match[1]) : undefined;
+  if (!match || !formId) {
+    return undefined;
+  }
+
+  const name = `${match[1]}-${match[2]}`;
+  insertClass.run(formId, name);
+  return findClass.get(name) as { id: number; form_id: number; name: string };
+}
+
+// Old slips used '1st', '1st Form' and '6B' interchangeably for the form.
+function formIdFromLegacyLevel(value: string): number | undefined {
+  const level = value.trim().toUpperCase().replace(/^FORM\s+/, "").replace(/\s+FORM$/, "");
+  return formIdByCode.get(level.replace(/^(\d)(ST|ND|RD|TH)$/, "$1")) ?? formIdByCode.get(level.split(/\s/)[0]);
+}
+
+if (addColumnIfMissing("members", "class_id", "INTEGER REFERENCES classes(id) ON DELETE SET NULL")) {
+  const setMemberClass = db.prepare(`UPDATE members SET class_id = ?, form_class = ? WHERE id = ?`);
+  db.transaction(() => {
+    for (const member of db.prepare(`SELECT id, form_class FROM members WHERE form_class IS NOT NULL`).all() as any[]) {
+      const found = classFromLegacyName(member.form_class);
+      if (found) {
+        setMemberClass.run(found.id, found.name, member.id);
+      }
+    }
+  })();
+}
+
+const slipFormAdded = addColumnIfMissing("beadle_slips", "form_id", "INTEGER REFERENCES forms(id) ON DELETE SET NULL");
+const slipClassAdded = addColumnIfMissing("beadle_slips", "class_id", "INTEGER REFERENCES classes(id) ON DELETE SET NULL");
+if (slipFormAdded || slipClassAdded) {
+  const formNames = new Map(
+    (db.prepare(`SELECT id, display_name FROM forms`).all() as { id: number; display_name: string }[])
+      .map(form => [form.id, form.display_name])
+  );
+  const setSlipForm = db.prepare(`UPDATE beadle_slips SET form_id = ?, grade_level = ? WHERE id = ?`);
+  const setSlipClass = db.prepare(`UPDATE beadle_slips SET class_id = ?, class_name = ? WHERE id = ?`);
+  db.transaction(() => {
+    for (const slip of db.prepare(`SELECT id, grade_level, class_name FROM beadle_slips`).all() as any[]) {
+      const found = classFromLegacyName(slip.class_name);
+      const formId = found?.form_id ?? formIdFromLegacyLevel(slip.grade_level);
+      if (formId) {
+        setSlipForm.run(formId, formNames.get(formId), slip.id);
+      }
+      if (found) {
+        setSlipClass.run(found.id, found.name, slip.id);
+      }
+    }
+  })();
+}
+
+// The weekly timetable: one row per class, school day (1 = Monday to
+// 5 = Friday) and period. A double is two consecutive periods with the same
+// subject and teacher, so there is no separate flag to fall out of step.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS timetable_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    class_id INTEGER NOT NULL,
+    day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 1 AND 5),
+    period INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    teacher TEXT NOT NULL,
+    subject_id INTEGER,
+    teacher_id INTEGER,
+    room TEXT,
+    updated_by INTEGER,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (class_id, day_of_week, period),
+    FOREIGN KEY (class_id) REFERENCES classes(id) ON DELETE CASCADE,
+    FOREIGN KEY (subject_id) REFERENCES subjects(id) ON DELETE SET NULL,
+    FOREIGN KEY (teacher_id) REFERENCES teachers(id) ON DELETE SET NULL,
+    FOREIGN KEY (updated_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+// Named bell schedules. Each is a list of time slots: teaching periods carry
+// the period number the timetable uses, breaks (devotion, lunch...) have none.
+// The default schedule applies unless bell_schedule_days picks another for a
+// date.
+const bellSchedulesExist = !!db.prepare(`
+  SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'bell_schedules'
+`).get();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS bell_schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    is_default INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS bell_schedule_slots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    schedule_id INTEGER NOT NULL,
+    period INTEGER,
+    label TEXT NOT NULL,
+    start_time TEXT NOT NULL,
+    end_time TEXT NOT NULL,
+    UNIQUE (schedule_id, period),
+    FOREIGN KEY (schedule_id) REFERENCES bell_schedules(id) ON DELETE CASCADE
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS bell_schedule_days (
+    date TEXT PRIMARY KEY,
+    schedule_id INTEGER NOT NULL,
+    note TEXT,
+    set_by INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (schedule_id) REFERENCES bell_schedules(id) ON DELETE CASCADE,
+    FOREIGN KEY (set_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+if (!bellSchedulesExist) {
+  const seedSchedules = [
+    { name: 'Regular', isDefault: 1, slots: [
+      [null, 'Devotion', '08:00', '08:15'],
+      [1, 'Period 1', '08:15', '08:50'], [2, 'Period 2', '08:50', '09:25'],
+      [3, 'Period 3', '09:25', '10:00'], [4, 'Period 4', '10:00', '10:35'],
+      [null, 'Break', '10:35', '10:55'],
+      [5, 'Period 5', '10:55', '11:30'], [6, 'Period 6', '11:30', '12:05'],
+      [null, 'Lunch', '12:05', '12:45'],
+      [7, 'Period 7', '12:45', '13:20'], [8, 'Period 8', '13:20', '13:55'], [9, 'Period 9', '13:55', '14:30']
+    ] },
+    { name: 'Shortened', isDefault: 0, slots: [
+      [null, 'Devotion', '08:00', '08:10'],
+      [1, 'Period 1', '08:10', '08:40'], [2, 'Period 2', '08:40', '09:10'],
+      [3, 'Period 3', '09:10', '09:40'], [4, 'Period 4', '09:40', '10:10'],
+      [null, 'Break', '10:10', '10:25'],
+      [5, 'Period 5', '10:25', '10:55'], [6, 'Period 6', '10:55', '11:25'],
+      [null, 'Lunch', '11:25', '12:00'],
+      [7, 'Period 7', '12:00', '12:30'], [8, 'Period 8', '12:30', '13:00'], [9, 'Period 9', '13:00', '13:30']
+    ] },
+    { name: 'Exam', isDefault: 0, slots: [
+      [null, 'Exam sitting', '08:15', '10:15'],
+      [null, 'Break', '10:15', '10:35'],
+      [5, 'Period 5', '10:35', '11:10'], [6, 'Period 6', '11:10', '11:45'],
+      [null, 'Lunch', '11:45', '12:25'],
+      [7, 'Period 7', '12:25', '13:00'], [8, 'Period 8', '13:00', '13:35'], [9, 'Period 9', '13:35', '14:10']
+    ] }
+  ];
+
+  const insertSchedule = db.prepare(`INSERT INTO bell_schedules (name, is_default) VALUES (?, ?)`);
+  const insertSlot = db.prepare(`
+    INSERT INTO bell_schedule_slots (schedule_id, period, label, start_time, end_time) VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const schedule of seedSchedules) {
+      const scheduleId = insertSchedule.run(schedule.name, schedule.isDefault).lastInsertRowid;
+      for (const [period, label, start, end] of schedule.slots) {
+        insertSlot.run(scheduleId, period, label, start, end);
+      }
+    }
+  })();
+}
+
+// The teaching period a slip was for, when the beadle picked one.
+addColumnIfMissing("beadle_slips", "period", "INTEGER");
+
+// Whether the slip covered a double session. Older slips never stored it, but
+// the form used to time a double as 70 minutes against 35 for a single.
+if (addColumnIfMissing("beadle_slips", "is_double_session", "INTEGER NOT NULL DEFAULT 0")) {
+  db.prepare(`
+    UPDATE beadle_slips SET is_double_session = 1
+    WHERE strftime('%s', '2000-01-01 ' || class_end_time) - strftime('%s', '2000-01-01 ' || class_start_time) >= 70 * 60
+  `).run();
+}
+
+// Slips that were deleted, or set aside while resolving overlapping slips for
+// the same lesson. They are kept for the record but left out of every listing
+// and report; merged_into points at the slip their attendance was copied to.
+addColumnIfMissing("beadle_slips", "discarded_at", "TEXT");
+addColumnIfMissing("beadle_slips", "discarded_by", "INTEGER REFERENCES members(id) ON DELETE SET NULL");
+addColumnIfMissing("beadle_slips", "merged_into", "INTEGER REFERENCES beadle_slips(id) ON DELETE SET NULL");
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_beadle_slips_class_date ON beadle_slips(class_id, date)`).run();
+
+// One row per edit to a filed slip. changes is a JSON list of
+// { field, before, after } for the fields that differed, as they read on the slip.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS slip_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slip_id INTEGER NOT NULL,
+    edited_by INTEGER,
+    note TEXT,
+    changes TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (slip_id) REFERENCES beadle_slips(id) ON DELETE CASCADE,
+    FOREIGN KEY (edited_by) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+db.prepare(`CREATE INDEX IF NOT EXISTS idx_slip_revisions_slip ON slip_revisions(slip_id)`).run();
+
+// Slip submissions the server turned away, kept so repeated problems with the
+// form (or someone posting to it directly) can be looked into.
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS slip_rejections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    member_id INTEGER,
+    beadle_email TEXT,
+    payload TEXT NOT NULL,
+    errors TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+// The subject catalogue and teacher directory behind the beadle slip's pickers.
+// A teacher can be linked to the member account that holds the teacher role.
+// Slips and timetable entries keep the name as text beside the id, so a slip
+// still shows what the beadle saw after a teacher is renamed or retired.
+const subjectsExist = !!db.prepare(`
+  SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'subjects'
+`).get();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS subjects (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`).run();
+
+db.prepare(`
+  CREATE TABLE IF NOT EXISTS teachers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    display_name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    member_id INTEGER UNIQUE,
+    active INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE SET NULL
+  )
+`).run();
+
+// The list the beadle form used to hard-code. Only seeded into a new table so
+// renamed or retired subjects don't come back on restart.
+if (!subjectsExist) {
+  const insertSubject = db.prepare(`INSERT OR IGNORE INTO subjects (name) VALUES (?)`);
+  for (const name of [
+    "Accounts", "Additional Mathematics", "Art", "Biology", "Caribbean Studies",
+    "Chemistry", "Christian Living", "Communication Studies", "Computer Science", "Digital Media",
+    "Drama", "Economics", "Electrical & Electronic Technology", "English Language", "English Literature",
+    "French", "Geography", "History", "Information Technology", "Integrated Science",
+    "Law", "Management of Business", "Mathematics", "Music", "Personal Development",
+    "Physical Education", "Physics", "Principles of Accounts", "Principles of Business", "Sociology",
+    "Spanish", "Technical Drawing"
+  ]) {
+    insertSubject.run(name);
+  }
+}
+
+// Existing slips and timetable rows are linked by name. Teachers typed into
+// old slips become directory entries so their history can be joined; the
+// admins can rename, link or retire them afterwards.
+const slipTeacherAdded = addColumnIfMissing("beadle_slips", "teacher_id", "INTEGER REFERENCES teachers(id) ON DELETE SET NULL");
+const slipSubjectAdded = addColumnIfMissing("beadle_slips", "subject_id", "INTEGER REFERENCES subjects(id) ON DELETE SET NULL");
+const lessonTeacherAdded = addColumnIfMissing("timetable_entries", "teacher_id", "INTEGER REFERENCES teachers(id) ON DELETE SET NULL");
+const lessonSubjectAdded = addColumnIfMissing("timetable_entries", "subject_id", "INTEGER REFERENCES subjects(id) ON DELETE SET NULL");
+if (slipTeacherAdded || slipSubjectAdded || lessonTeacherAdded || lessonSubjectAdded) {
+  db.transaction(() => {
+    for (const table of ["beadle_slips", "timetable_entries"]) {
+      db.prepare(`
+        INSERT OR IGNORE INTO teachers (display_name)
+        SELECT DISTINCT TRIM(teacher) FROM ${table} WHERE TRIM(teacher) != ''
+      `).run();
+      db.prepare(`
+        INSERT OR IGNORE INTO subjects (name)
+        SELECT DISTINCT TRIM(subject) FROM ${table} WHERE TRIM(subject) != ''
+      `).run();
+      db.prepare(`
+        UPDATE ${table} SET
+          teacher_id = (SELECT id FROM teachers WHERE display_name = TRIM(${table}.teacher)),
+          subject_id = (SELECT id FROM subjects WHERE name = TRIM(${table}.subject))
+      `).run();
+    }
+  })();
+}
+
+// Default grants are only applied when a permission is first created, so any
+// later changes made to role_permissions survive a restart.
+const seedPermissions = [
+  { name: 'portal.admin', desc: 'Open the admin portal', roles: ['admin'] },
+  { name: 'portal.tech_team', desc: 'Open the tech team portal', roles: ['tech_team', 'admin'] },
+  { name: 'portal.supervisor', desc: 'Open the supervisor portal', roles: ['supervisor'] },
+  { name: 'portal.staff', desc: 'Open the staff portal', roles: ['staff', 'supervisor', 'admin'] },
+
+  { name: 'slips.submit', desc: 'Submit beadle attendance slips', roles: ['beadle'] },
+  { name: 'slips.view.own', desc: 'View slips you submitted', roles: ['beadle'] },
+  { name: 'slips.view.form', desc: 'View slips for the form you supervise', roles: ['staff', 'supervisor'] },
+  { name: 'slips.view.all', desc: 'View every beadle slip', roles: ['admin'] },
+  { name: 'slips.edit', desc: 'Edit slips for the forms you supervise (any form with slips.view.all), including after the edit window closes', roles: ['supervisor', 'admin'] },
+  { name: 'slips.delete', desc: 'Delete beadle slips', roles: ['admin'] },
+  { name: 'slips.resolve', desc: 'Merge or discard overlapping beadle slips', roles: ['admin'] },
+
+  { name: 'members.view', desc: 'List members and their roles', roles: ['staff', 'supervisor', 'tech_team', 'admin'] },
+  { name: 'members.promote', desc: 'Run and undo the end-of-year form rollover', roles: ['admin'] },
+  { name: 'roles.assign', desc: 'Grant and revoke any role', roles: ['tech_team', 'admin'] },
+  { name: 'roles.assign.beadle', desc: 'Grant and revoke the beadle role', roles: ['staff', 'supervisor'] },
+  { name: 'roles.history', desc: 'View the role change history', roles: ['tech_team', 'admin'] },
+  { name: 'roles.manage', desc: 'Create, edit and delete roles', roles: ['tech_team', 'admin'] },
+  { name: 'classes.manage', desc: 'Manage forms, classes and form supervisors', roles: ['tech_team', 'admin'] },
+  { name: 'timetable.manage', desc: 'Edit and import the class timetable', roles: ['admin'] },
+  { name: 'teachers.manage', desc: 'Maintain the teacher directory and subject catalogue', roles: ['admin'] },
+  { name: 'roles.approve', desc: 'Approve or reject pending grants of sensitive roles', roles: ['admin'] },
+
+  { name: 'reports.generate', desc: 'Generate and send attendance reports', roles: ['admin'] },
+  { name: 'security.manage', desc: 'Manage sessions, lockouts, signup and 2FA policy', roles: ['admin'] }
+];
+
+const insertPermission = db.prepare(`INSERT OR IGNORE INTO permissions (name, description) VALUES (?, ?)`);
+const grantPermission = db.prepare(`
+  INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+  SELECT r.id, p.id FROM roles r, permissions p
+  WHERE r.role_name = ? AND p.name = ?
+`);
+
+for (const permission of seedPermissions) {
+  if (insertPermission.run(permission.name, permission.desc).changes > 0) {
+    for (const roleName of permission.roles) {
+      grantPermission.run(roleName, permission.name);
+    }
+  }
+}
+
+// The senior admin roles start with everything admin has. Only roles with no
+// grants at all are filled in, so later edits to their permissions stick.
+const seniorAdminRoles = ['dean_of_discipline', 'vice_principal', 'principal'];
+const copyAdminPermissions = db.prepare(`
+  INSERT OR IGNORE INTO role_permissions (role_id, permission_id)
+  SELECT senior.id, rp.permission_id
+  FROM roles senior, roles admin
+  INNER JOIN role_permissions rp ON rp.role_id = admin.id
+  WHERE senior.role_name = ? AND admin.role_name = 'admin'
+    AND NOT EXISTS (SELECT 1 FROM role_permissions WHERE role_id = senior.id)
+`);
+for (const roleName of seniorAdminRoles) {
+  copyAdminPermissions.run(roleName);
 }
 
 console.log("✓ Database initialized successfully");
 console.log(`✓ ${seedRoles.length} roles seeded`);
+console.log(`✓ ${seedPermissions.length} permissions seeded`);
 
 export async function getDatabase() {
     return db;
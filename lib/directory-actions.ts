@@ -0,0 +1,89 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import {
+  getTeachers,
+  getSubjects,
+  getTeacherMembers,
+  saveTeacher,
+  saveSubject,
+  type TeacherRecord,
+  type SubjectRecord,
+  type TeacherMember
+} from "./directory";
+
+// Active teachers and subjects for pickers; teachers.manage also gets the
+// retired ones.
+export async function getTeachingDirectory(): Promise<{
+  success: boolean;
+  teachers?: TeacherRecord[];
+  subjects?: SubjectRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const includeInactive = can(user, "teachers.manage");
+    return {
+      success: true,
+      teachers: await getTeachers(includeInactive),
+      subjects: await getSubjects(includeInactive)
+    };
+  } catch (error: any) {
+    console.error("Error fetching teacher directory:", error);
+    return { success: false, error: "Failed to load teachers and subjects" };
+  }
+}
+
+export async function getLinkableTeachers(): Promise<{
+  success: boolean;
+  members?: TeacherMember[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "teachers.manage")) {
+      return { success: false, error: "You don't have permission to manage teachers" };
+    }
+
+    return { success: true, members: await getTeacherMembers() };
+  } catch (error: any) {
+    console.error("Error fetching teacher members:", error);
+    return { success: false, error: "Failed to load members with the teacher role" };
+  }
+}
+
+export async function updateTeacher(
+  id: number | null,
+  teacher: { display_name: string; member_id: number | null; active: boolean }
+) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "teachers.manage")) {
+      return { success: false, error: "You don't have permission to manage teachers" };
+    }
+
+    return await saveTeacher(id, teacher);
+  } catch (error: any) {
+    console.error("Error saving teacher:", error);
+    return { success: false, error: "Failed to save teacher" };
+  }
+}
+
+export async function updateSubject(id: number | null, subject: { name: string; active: boolean }) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "teachers.manage")) {
+      return { success: false, error: "You don't have permission to manage subjects" };
+    }
+
+    return await saveSubject(id, subject);
+  } catch (error: any) {
+    console.error("Error saving subject:", error);
+    return { success: false, error: "Failed to save subject" };
+  }
+}
@@ -0,0 +1,137 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { ACTIVE_ASSIGNMENT_SQL } from "./role-assignments";
+
+// Access to the teacher directory and subject catalogue. Retired
+// entries are deactivated rather than deleted so slips and timetable rows that
+// point at them keep resolving. Writes that take a teacher or subject by name
+// (slips, timetable imports) should look it up here and store both the id and
+// the name.
+
+export type TeacherRecord = {
+  id: number;
+  display_name: string;
+  member_id: number | null;
+  member_name: string | null;
+  member_email: string | null;
+  active: number;
+};
+
+export type SubjectRecord = {
+  id: number;
+  name: string;
+  active: number;
+};
+
+export type TeacherMember = {
+  id: number;
+  full_name: string;
+  email: string;
+};
+
+export async function getTeachers(includeInactive = false): Promise<TeacherRecord[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT t.id, t.display_name, t.member_id, m.full_name AS member_name, m.email AS member_email, t.active
+    FROM teachers t
+    LEFT JOIN members m ON m.id = t.member_id
+    ${includeInactive ? "" : "WHERE t.active = 1"}
+    ORDER BY t.display_name ASC
+  `).all() as TeacherRecord[];
+}
+
+export async function getSubjects(includeInactive = false): Promise<SubjectRecord[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT id, name, active FROM subjects
+    ${includeInactive ? "" : "WHERE active = 1"}
+    ORDER BY name ASC
+  `).all() as SubjectRecord[];
+}
+
+export async function findTeacherByName(name: string): Promise<TeacherRecord | undefined> {
+  return (await getTeachers()).find(teacher => teacher.display_name.toLowerCase() === name.trim().toLowerCase());
+}
+
+export async function findSubjectByName(name: string): Promise<SubjectRecord | undefined> {
+  return (await getSubjects()).find(subject => subject.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+// Members who currently hold the teacher role, for linking directory entries.
+export async function getTeacherMembers(): Promise<TeacherMember[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT DISTINCT m.id, m.full_name, m.email
+    FROM members m
+    INNER JOIN member_roles mr ON mr.member_id = m.id
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE r.role_name = 'teacher' AND ${ACTIVE_ASSIGNMENT_SQL}
+    ORDER BY m.full_name ASC
+  `).all() as TeacherMember[];
+}
+
+// Creates a teacher when id is null, otherwise updates one.
+export async function saveTeacher(
+  id: number | null,
+  teacher: { display_name: string; member_id: number | null; active: boolean }
+): Promise<{ success: boolean; id?: number; error?: string }> {
+  const db = await getDatabase();
+  const displayName = teacher.display_name.trim();
+  if (!displayName) {
+    return { success: false, error: "Teacher name is required" };
+  }
+
+  const clash = db.prepare(`SELECT id FROM teachers WHERE display_name = ? AND id != ?`).get(displayName, id ?? 0);
+  if (clash) {
+    return { success: false, error: `There is already a teacher called '${displayName}'` };
+  }
+
+  // An existing link is kept even if the member has since lost the teacher role.
+  const current = id === null ? undefined : db.prepare(`SELECT member_id FROM teachers WHERE id = ?`).get(id) as { member_id: number | null } | undefined;
+  if (teacher.member_id !== null && teacher.member_id !== current?.member_id) {
+    if (!(await getTeacherMembers()).some(member => member.id === teacher.member_id)) {
+      return { success: false, error: "Only members with the teacher role can be linked" };
+    }
+    const linked = db.prepare(`SELECT display_name FROM teachers WHERE member_id = ? AND id != ?`).get(teacher.member_id, id ?? 0) as { display_name: string } | undefined;
+    if (linked) {
+      return { success: false, error: `That member is already linked to ${linked.display_name}` };
+    }
+  }
+
+  if (id === null) {
+    const result = db.prepare(`
+      INSERT INTO teachers (display_name, member_id, active) VALUES (?, ?, ?)
+    `).run(displayName, teacher.member_id, teacher.active ? 1 : 0);
+    return { success: true, id: Number(result.lastInsertRowid) };
+  }
+
+  const result = db.prepare(`
+    UPDATE teachers SET display_name = ?, member_id = ?, active = ? WHERE id = ?
+  `).run(displayName, teacher.member_id, teacher.active ? 1 : 0, id);
+  return result.changes > 0 ? { success: true, id } : { success: false, error: "Teacher not found" };
+}
+
+// Creates a subject when id is null, otherwise updates one.
+export async function saveSubject(
+  id: number | null,
+  subject: { name: string; active: boolean }
+): Promise<{ success: boolean; id?: number; error?: string }> {
+  const db = await getDatabase();
+  const name = subject.name.trim();
+  if (!name) {
+    return { success: false, error: "Subject name is required" };
+  }
+
+  const clash = db.prepare(`SELECT id FROM subjects WHERE name = ? AND id != ?`).get(name, id ?? 0);
+  if (clash) {
+    return { success: false, error: `'${name}' is already in the catalogue` };
+  }
+
+  if (id === null) {
+    const result = db.prepare(`INSERT INTO subjects (name, active) VALUES (?, ?)`).run(name, subject.active ? 1 : 0);
+    return { success: true, id: Number(result.lastInsertRowid) };
+  }
+
+  const result = db.prepare(`UPDATE subjects SET name = ?, active = ? WHERE id = ?`).run(name, subject.active ? 1 : 0, id);
+  return result.changes > 0 ? { success: true, id } : { success: false, error: "Subject not found" };
+}
@@ -0,0 +1,174 @@
+"use server";
+
+import { getDatabase } from "./database";
+import { sendMail, buildAppUrl } from "./mailer";
+import { generateEmailVerificationEmail, generateEmailChangeEmail } from "./emailUtils";
+import { issueToken, findValidToken, consumeToken } from "./auth-tokens";
+import { fetchCurrentUser } from "./serverUtils";
+import { getSetting } from "./settings";
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_MINUTES,
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  DEFAULT_ALLOWED_EMAIL_DOMAINS
+} from "./auth-config";
+
+export async function requestVerificationEmail(email: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  // Same response whether or not the address is registered or already verified.
+  const genericResponse = {
+    success: true,
+    message: "If that account still needs verifying, a new link has been sent."
+  };
+
+  try {
+    if (!email || !email.trim()) {
+      return { success: false, error: "Email is required" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`
+      SELECT id, full_name, email FROM members
+      WHERE email = ? COLLATE NOCASE AND email_verified_at IS NULL
+    `).get(email.trim()) as any;
+
+    if (!member) {
+      return genericResponse;
+    }
+
+    const token = await issueToken("email_verification_tokens", member.id, EMAIL_VERIFICATION_TOKEN_TTL_MINUTES);
+    const verifyUrl = await buildAppUrl(`/auth/verify-email?token=${token}`);
+    const result = await sendMail({
+      to: member.email,
+      subject: "Verify your Campion Tech Hub email",
+      html: generateEmailVerificationEmail(member.full_name, verifyUrl, EMAIL_VERIFICATION_TOKEN_TTL_MINUTES),
+      text: `Verify your email: ${verifyUrl}`
+    });
+
+    if (!result.success) {
+      return { success: false, error: "Failed to send verification email. Please try again later." };
+    }
+
+    return genericResponse;
+  } catch (error: any) {
+    console.error("Error sending verification email:", error);
+    return { success: false, error: "Failed to send verification email" };
+  }
+}
+
+export async function verifyEmail(token: string) {
+  try {
+    const record = await findValidToken("email_verification_tokens", token);
+    if (!record) {
+      return { success: false, error: "This verification link is invalid or has expired" };
+    }
+
+    const db = await getDatabase();
+    db.transaction(() => {
+      if (!consumeToken(db, "email_verification_tokens", record.id)) {
+        throw new Error("Verification token already used");
+      }
+
+      db.prepare(`
+        UPDATE members
+        SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(record.member_id);
+    })();
+
+    return { success: true, message: "Email verified. You can now log in." };
+  } catch (error: any) {
+    console.error("Error verifying email:", error);
+    return { success: false, error: "This verification link is invalid or has expired" };
+  }
+}
+
+// A signed-in member's new address only replaces the old one once they follow
+// the link sent to it, and it has to pass the same domain allow-list as signup.
+export async function requestEmailChange(newEmail: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  try {
+    const member = await fetchCurrentUser(false);
+    if (!member) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    newEmail = (newEmail ?? "").trim();
+    if (!newEmail) {
+      return { success: false, error: "Email is required" };
+    }
+
+    const allowedDomains = await getSetting<string[]>(SIGNUP_ALLOWED_DOMAINS_SETTING, DEFAULT_ALLOWED_EMAIL_DOMAINS);
+    const domain = newEmail.split("@").pop()?.toLowerCase() ?? "";
+    if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+      return { success: false, error: `Only ${allowedDomains.map(d => "@" + d).join(", ")} email addresses are allowed` };
+    }
+
+    const db = await getDatabase();
+    const existing = db.prepare(`SELECT id FROM members WHERE email = ? COLLATE NOCASE AND id != ?`).get(newEmail, member.id);
+    if (existing) {
+      return { success: false, error: "Email address is already in use" };
+    }
+
+    db.prepare(`UPDATE members SET pending_email = ? WHERE id = ?`).run(newEmail, member.id);
+
+    const token = await issueToken("email_change_tokens", member.id, EMAIL_VERIFICATION_TOKEN_TTL_MINUTES);
+    const confirmUrl = await buildAppUrl(`/auth/verify-email?change=1&token=${token}`);
+    const result = await sendMail({
+      to: newEmail,
+      subject: "Confirm your new Campion Tech Hub email",
+      html: generateEmailChangeEmail(member.full_name, confirmUrl, EMAIL_VERIFICATION_TOKEN_TTL_MINUTES),
+      text: `Confirm your new email: ${confirmUrl}`
+    });
+
+    if (!result.success) {
+      return { success: false, error: "Failed to send the confirmation email. Please try again later." };
+    }
+
+    return { success: true, message: `We've sent a link to ${newEmail}. Your email changes once you follow it.` };
+  } catch (error: any) {
+    console.error("Error requesting email change:", error);
+    return { success: false, error: "Failed to request email change" };
+  }
+}
+
+export async function confirmEmailChange(token: string) {
+  try {
+    const record = await findValidToken("email_change_tokens", token);
+    if (!record) {
+      return { success: false, error: "This confirmation link is invalid or has expired" };
+    }
+
+    const db = await getDatabase();
+    const error = db.transaction(() => {
+      if (!consumeToken(db, "email_change_tokens", record.id)) {
+        return "This confirmation link is invalid or has expired";
+      }
+
+      const member = db.prepare(`SELECT pending_email FROM members WHERE id = ?`).get(record.member_id) as any;
+      if (!member?.pending_email) {
+        return "This confirmation link is invalid or has expired";
+      }
+
+      const taken = db.prepare(`SELECT id FROM members WHERE email = ? COLLATE NOCASE AND id != ?`)
+        .get(member.pending_email, record.member_id);
+      if (taken) {
+        return "That email address is now in use by another account";
+      }
+
+      db.prepare(`
+        UPDATE members
+        SET email = pending_email, pending_email = NULL,
+            email_verified_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(record.member_id);
+      return undefined;
+    })();
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true, message: "Your email address has been updated." };
+  } catch (error: any) {
+    console.error("Error confirming email change:", error);
+    return { success: false, error: "This confirmation link is invalid or has expired" };
+  }
+}
@@ -1,5 +1,10 @@
 import { getBeadleSlips } from './serverUtils';
 import { getDatabase } from './database';
+import { formatJamaicanDate } from './timeUtils';
+import { ACTIVE_ASSIGNMENT_SQL } from './role-assignments';
+import { getForms, type FormRecord } from './forms';
+import { getFormAttendanceForDate } from './slip-attendance';
+import { getConflictGroups } from './slip-conflicts';
 
 export interface ReportMetadata {
   htmlContent: string;
@@ -34,27 +39,18 @@ interface ClassReport {
   reportTime: string;
 }
 
-const FORM_LEVELS = ['1st Form', '2nd Form', '3rd Form', '4th Form', '5th Form', '6B', '6A'];
-
-const ROLE_MAP: { [key: string]: string } = {
-  '1st Form': 'supervisor_1',
-  '2nd Form': 'supervisor_2',
-  '3rd Form': 'supervisor_3',
-  '4th Form': 'supervisor_4',
-  '5th Form': 'supervisor_5',
-  '6B': 'supervisor_6',
-  '6A': 'supervisor_6a'
-};
+// Falls back to a placeholder address when nobody holds the form's supervisor role.
+function defaultSupervisor(form: FormRecord): SupervisorInfo {
+  return {
+    email: `form${form.code.toLowerCase()}supervisor@campioncollege.com`,
+    name: `${form.display_name} Supervisor`
+  };
+}
 
-async function getSupervisorInfo(formLevel: string): Promise<SupervisorInfo> {
-  const roleName = ROLE_MAP[formLevel];
-  
-  if (!roleName) {
-    console.warn(`[Email] No role mapping for form level: ${formLevel}`);
-    return {
-      email: `${formLevel.toLowerCase().replace(/\s+/g, '')}supervisor@campioncollege.com`,
-      name: `${formLevel} Supervisor`
-    };
+async function getSupervisorInfo(form: FormRecord): Promise<SupervisorInfo> {
+  if (!form.supervisor_role_id) {
+    console.warn(`[Email] No supervisor role linked to ${form.display_name}`);
+    return defaultSupervisor(form);
   }
 
   try {
@@ -64,68 +60,60 @@ async function getSupervisorInfo(formLevel: string): Promise<SupervisorInfo> {
       SELECT m.email, m.full_name
       FROM members m
       INNER JOIN member_roles mr ON m.id = mr.member_id
-      INNER JOIN roles r ON mr.role_id = r.id
-      WHERE r.role_name = ?
+      WHERE mr.role_id = ? AND ${ACTIVE_ASSIGNMENT_SQL}
       LIMIT 1
     `;
     
-    const result = db.prepare(query).get(roleName) as { email: string; full_name: string } | undefined;
+    const result = db.prepare(query).get(form.supervisor_role_id) as { email: string; full_name: string } | undefined;
     
     if (result && result.email && result.full_name) {
-      console.log(`[Email] Found supervisor for ${formLevel}: ${result.full_name} <${result.email}>`);
+      console.log(`[Email] Found supervisor for ${form.display_name}: ${result.full_name} <${result.email}>`);
       return {
         email: result.email,
         name: result.full_name
       };
     }
     
-    console.warn(`[Email] No supervisor found for ${formLevel}, using defaults`);
-    return {
-      email: `${formLevel.toLowerCase().replace(/\s+/g, '')}supervisor@campioncollege.com`,
-      name: `${formLevel} Supervisor`
-    };
+    console.warn(`[Email] No supervisor found for ${form.display_name}, using defaults`);
+    return defaultSupervisor(form);
     
   } catch (error) {
-    console.error(`[Email] Error fetching supervisor for ${formLevel}:`, error);
-    return {
-      email: `${formLevel.toLowerCase().replace(/\s+/g, '')}supervisor@campioncollege.com`,
-      name: `${formLevel} Supervisor`
-    };
+    console.error(`[Email] Error fetching supervisor for ${form.display_name}:`, error);
+    return defaultSupervisor(form);
   }
 }
 
-async function processFormData(formLevel: string, date: string) {
+async function processFormData(form: FormRecord, date: string) {
   const allSlips = await getBeadleSlips();
   
   console.log(`[Email] Total slips in database: ${allSlips.length}`);
-  console.log(`[Email] Looking for: formLevel="${formLevel}", date="${date}"`);
-  
-  const uniqueForms = [...new Set(allSlips.map(slip => slip.grade_level))];
-  const uniqueDates = [...new Set(allSlips.map(slip => slip.date))];
-  console.log(`[Email] Available form levels:`, uniqueForms);
-  console.log(`[Email] Available dates:`, uniqueDates);
+  console.log(`[Email] Looking for: form="${form.display_name}", date="${date}"`);
   
-  const formSlips = allSlips.filter(slip => {
-    const slipForm = slip.grade_level;
-    const matches = slipForm === formLevel || 
-                   slipForm === formLevel.replace(' Form', '') ||
-                   `${slipForm} Form` === formLevel;
-    const dateMatches = slip.date === date;
-    return matches && dateMatches;
-  });
+  const formSlips = allSlips.filter(slip => slip.form_id === form.id && slip.date === date);
 
-  console.log(`[Email] Found ${formSlips.length} slips for ${formLevel} on ${date}`);
+  console.log(`[Email] Found ${formSlips.length} slips for ${form.display_name} on ${date}`);
 
   if (formSlips.length === 0) {
     return null;
   }
 
-  const totalAbsent = formSlips.reduce((sum, slip) => 
-    sum + slip.absent_students.length, 0
-  );
-  const totalLate = formSlips.reduce((sum, slip) => 
-    sum + slip.late_students.length, 0
-  );
+  // Overlapping slips for the same lesson that nobody has resolved yet would
+  // count a student twice, so each student is counted once per lesson.
+  const lessonOf = new Map<number, number>();
+  for (const group of await getConflictGroups(date, date)) {
+    for (const slip of group.slips) {
+      lessonOf.set(slip.id, group.slips[0].id);
+    }
+  }
+  const seen = new Set<string>();
+  const attendance = (await getFormAttendanceForDate(form.id, date)).filter(row => {
+    const key = `${lessonOf.get(row.slip_id) ?? row.slip_id}|${row.status}|${row.member_id ?? row.name.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const totalAbsent = attendance.filter(row => row.status === 'absent').length;
+  const totalLate = attendance.filter(row => row.status === 'late').length;
 
   const classReports: ClassReport[] = formSlips.map(slip => ({
     className: slip.class_name,
@@ -133,58 +121,32 @@ async function processFormData(formLevel: string, date: string) {
     teacher: slip.teacher,
     teacherPresent: slip.teacher_present === 'yes',
     substituteProvided: slip.substitute_received === 'yes',
-    absentStudents: slip.absent_students.filter((s: string) => s.trim() !== ''),
-    lateStudents: slip.late_students.filter((s: string) => s.trim() !== ''),
+    absentStudents: slip.absent_students,
+    lateStudents: slip.late_students,
     reportTime: `${slip.class_start_time} - ${slip.class_end_time}`
   }));
 
+  // Rows arrive sorted by student, so both groups come out in name order.
   const studentAbsences: StudentAttendance = {};
   const studentLateArrivals: StudentAttendance = {};
 
-  formSlips.forEach(slip => {
-    slip.absent_students
-      .filter((s: string) => s.trim() !== '')
-      .forEach((student: string) => {
-        const name = student.trim();
-        if (!studentAbsences[name]) {
-          studentAbsences[name] = { classes: [], subjects: [], teachers: [] };
-        }
-        studentAbsences[name].classes.push(slip.class_name);
-        studentAbsences[name].subjects.push(slip.subject);
-        studentAbsences[name].teachers.push(slip.teacher);
-      });
-
-    slip.late_students
-      .filter((s: string) => s.trim() !== '')
-      .forEach((student: string) => {
-        const name = student.trim();
-        if (!studentLateArrivals[name]) {
-          studentLateArrivals[name] = { classes: [], subjects: [], teachers: [] };
-        }
-        studentLateArrivals[name].classes.push(slip.class_name);
-        studentLateArrivals[name].subjects.push(slip.subject);
-        studentLateArrivals[name].teachers.push(slip.teacher);
-      });
-  });
-
-  const sortedAbsences: StudentAttendance = {};
-  const sortedLateArrivals: StudentAttendance = {};
-  
-  Object.keys(studentAbsences).sort().forEach(name => {
-    sortedAbsences[name] = studentAbsences[name];
-  });
-  
-  Object.keys(studentLateArrivals).sort().forEach(name => {
-    sortedLateArrivals[name] = studentLateArrivals[name];
-  });
+  for (const row of attendance) {
+    const group = row.status === 'absent' ? studentAbsences : studentLateArrivals;
+    if (!group[row.name]) {
+      group[row.name] = { classes: [], subjects: [], teachers: [] };
+    }
+    group[row.name].classes.push(row.class_name);
+    group[row.name].subjects.push(row.subject);
+    group[row.name].teachers.push(row.teacher);
+  }
 
   return {
     totalReports: formSlips.length,
     totalAbsent,
     totalLate,
     classReports,
-    studentAbsences: sortedAbsences,
-    studentLateArrivals: sortedLateArrivals
+    studentAbsences,
+    studentLateArrivals
   };
 }
 
@@ -461,13 +423,14 @@ export async function generateAllSupervisorReports(date: string): Promise<{ [for
   console.log(`[Email] Generating reports for ${date}`);
   const reports: { [formLevel: string]: ReportMetadata } = {};
 
-  for (const formLevel of FORM_LEVELS) {
+  for (const form of await getForms()) {
+    const formLevel = form.display_name;
     console.log(`[Email] Processing ${formLevel}...`);
     
     try {
-      const supervisor = await getSupervisorInfo(formLevel);
+      const supervisor = await getSupervisorInfo(form);
 
-      const data = await processFormData(formLevel, date);
+      const data = await processFormData(form, date);
       
       if (data) {
         console.log(`[Email] ${formLevel} - Found ${data.totalReports} submissions`);
@@ -492,7 +455,7 @@ export async function generateAllSupervisorReports(date: string): Promise<{ [for
       }
     } catch (error) {
       console.error(`[Email] Error processing ${formLevel}:`, error);
-      const supervisor = await getSupervisorInfo(formLevel);
+      const supervisor = await getSupervisorInfo(form);
       reports[formLevel] = {
         htmlContent: generateNoSubmissionsEmail(supervisor.name, formLevel, date),
         supervisorEmail: supervisor.email,
@@ -525,154 +488,258 @@ export function getTodayDate(): string {
   return new Date().toISOString().split('T')[0];
 }
 
-export function generateBeadleConfirmationEmail(slipData: any): string {
-  const [year, month, day] = slipData.date.split('-').map(Number);
-  const dateObj = new Date(year, month - 1, day);
-  const formattedDate = dateObj.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
-
+export function generatePasswordResetEmail(fullName: string, resetUrl: string, expiresInMinutes: number): string {
   return `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Beadle Slip Confirmation</title>
+  <title>Reset Your Password</title>
   <style>
     body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
-    .header { text-align: center; margin-bottom: 30px; }
-    .logo { width: 120px; height: 120px; margin: 0 auto 20px; }
     .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
-    .subtitle { color: #666; margin-bottom: 20px; text-align: center; }
     .divider { height: 3px; background: #B91C47; margin: 20px 0; }
-    .section { margin: 20px 0; padding: 15px; border-left: 4px solid #B91C47; background: #fef7f7; }
-    .section-title { color: #B91C47; font-size: 16px; font-weight: bold; margin-bottom: 10px; }
-    .info-row { display: flex; justify-content: space-between; margin: 8px 0; padding: 5px 0; }
-    .info-label { font-weight: bold; color: #666; }
-    .info-value { color: #333; }
-    .status-badge { padding: 4px 8px; border-radius: 4px; font-size: 12px; font-weight: bold; }
-    .status-yes { background: #E8F5E8; color: #4CAF50; }
-    .status-no { background: #FFEBEE; color: #F44336; }
-    .confirmation-box { background: #fef7f7; border: 1px solid #B91C47; padding: 20px; text-align: center; margin: 20px 0; border-radius: 5px; }
+    .button { display: inline-block; background: #B91C47; color: #fff !important; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold; }
+    .link { word-break: break-all; color: #666; font-size: 13px; }
     .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
-    .description-box { background: #f9f9f9; border: 1px solid #ddd; padding: 10px; margin: 10px 0; border-radius: 4px; min-height: 40px; }
   </style>
 </head>
 <body>
-  <div class="header">
-    <img src="https://jamaker.s3.amazonaws.com/flfldr/HjXkRJfpTP3aLTQSJ.png" alt="Campion College Logo" class="logo" />
-    <div class="title">Beadle Slip Confirmation</div>
-    <div class="subtitle">Submission received successfully for <strong>${slipData.beadle_email}</strong></div>
-    <div class="divider"></div>
+  <div class="title">Reset Your Password</div>
+  <div class="divider"></div>
+
+  <p>Hello ${fullName || 'there'},</p>
+  <p>We received a request to reset the password for your Campion College Tech Hub account.</p>
+
+  <p style="text-align: center; margin: 30px 0;">
+    <a class="button" href="${resetUrl}">Choose a New Password</a>
+  </p>
+
+  <p>This link can only be used once and expires in ${expiresInMinutes} minutes.</p>
+  <p class="link">If the button doesn't work, copy this address into your browser:<br>${resetUrl}</p>
+  <p>If you didn't ask for a password reset, you can ignore this email. Your password will not change.</p>
+
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
 
-  <p>Dear ${slipData.beadle_email.split('@')[0]},</p>
-  <p>This confirms your beadle slip submission. Below are the details:</p>
+export function generateEmailVerificationEmail(fullName: string, verifyUrl: string, expiresInMinutes: number): string {
+  const expiresInHours = Math.round(expiresInMinutes / 60);
 
-  <div class="section">
-    <div class="section-title">Student Information</div>
-    <div class="info-row">
-      <span class="info-label">Name:</span>
-      <span class="info-value">${slipData.beadle_email.split('@')[0]}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Email:</span>
-      <span class="info-value">${slipData.beadle_email}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Grade Level:</span>
-      <span class="info-value">${slipData.grade_level || 'N/A'}</span>
-    </div>
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Verify Your Email</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .button { display: inline-block; background: #B91C47; color: #fff !important; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold; }
+    .link { word-break: break-all; color: #666; font-size: 13px; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Verify Your Email</div>
+  <div class="divider"></div>
+
+  <p>Hello ${fullName || 'there'},</p>
+  <p>Thanks for creating a Campion College Tech Hub account. Confirm your email address to finish signing up.</p>
+
+  <p style="text-align: center; margin: 30px 0;">
+    <a class="button" href="${verifyUrl}">Verify Email Address</a>
+  </p>
+
+  <p>This link expires in ${expiresInHours} hours.</p>
+  <p class="link">If the button doesn't work, copy this address into your browser:<br>${verifyUrl}</p>
+  <p>If you didn't create an account, you can ignore this email.</p>
+
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
 
-  <div class="section">
-    <div class="section-title">Class Details</div>
-    <div class="info-row">
-      <span class="info-label">Subject:</span>
-      <span class="info-value">${slipData.subject}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Class:</span>
-      <span class="info-value">${slipData.class_name}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Teacher:</span>
-      <span class="info-value">${slipData.teacher}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Date:</span>
-      <span class="info-value">${formattedDate}</span>
-    </div>
-    <div class="info-row">
-      <span class="info-label">Time:</span>
-      <span class="info-value">${slipData.class_start_time} - ${slipData.class_end_time}</span>
-    </div>
+export function generateEmailChangeEmail(fullName: string, confirmUrl: string, expiresInMinutes: number): string {
+  const expiresInHours = Math.round(expiresInMinutes / 60);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Confirm Your New Email</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .button { display: inline-block; background: #B91C47; color: #fff !important; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold; }
+    .link { word-break: break-all; color: #666; font-size: 13px; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Confirm Your New Email</div>
+  <div class="divider"></div>
+
+  <p>Hello ${fullName || 'there'},</p>
+  <p>Someone asked to move a Campion College Tech Hub account to this address. Confirm it to finish the change.</p>
+
+  <p style="text-align: center; margin: 30px 0;">
+    <a class="button" href="${confirmUrl}">Confirm Email Address</a>
+  </p>
+
+  <p>This link expires in ${expiresInHours} hours.</p>
+  <p class="link">If the button doesn't work, copy this address into your browser:<br>${confirmUrl}</p>
+  <p>If you didn't ask for this, you can ignore this email and the account will keep its current address.</p>
+
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
 
-  <div class="section">
-    <div class="section-title">Teacher Attendance</div>
-    <div class="info-row">
-      <span class="info-label">Teacher Present:</span>
-      <span class="info-value">
-        <span class="status-badge ${slipData.teacher_present === 'yes' ? 'status-yes' : 'status-no'}">
-          ${slipData.teacher_present === 'yes' ? 'YES' : 'NO'}
-        </span>
-      </span>
-    </div>
-    ${slipData.teacher_present === 'yes' && slipData.teacher_arrival_time ? `
-    <div class="info-row">
-      <span class="info-label">Arrival Time:</span>
-      <span class="info-value">${slipData.teacher_arrival_time}</span>
-    </div>
-    ` : ''}
-    ${slipData.teacher_present === 'no' ? `
-    <div class="info-row">
-      <span class="info-label">Substitute Provided:</span>
-      <span class="info-value">
-        <span class="status-badge ${slipData.substitute_received === 'yes' ? 'status-yes' : 'status-no'}">
-          ${slipData.substitute_received === 'yes' ? 'YES' : 'NO'}
-        </span>
-      </span>
-    </div>
-    ` : ''}
+export function generateRoleExpiredEmail(assignerName: string, memberName: string, roleName: string, expiresAt: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Role Assignment Expired</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Role Assignment Expired</div>
+  <div class="divider"></div>
+
+  <p>Hello ${assignerName || 'there'},</p>
+  <p>The <strong>${roleName}</strong> role you gave <strong>${memberName}</strong> reached the end of its term on ${formatJamaicanDate(expiresAt)} and has been removed.</p>
+  <p>If they should keep the role, assign it again with a new end date.</p>
+
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
 
-  <div class="section">
-    <div class="section-title">Student Attendance</div>
-    <div class="info-row">
-      <span class="info-label">Students Present:</span>
-      <span class="info-value">${slipData.students_present || 'Not specified'}</span>
-    </div>
-    ${slipData.absent_students && slipData.absent_students.length > 0 ? `
-    <div style="margin-top: 10px;">
-      <span class="info-label">Absent Students (${slipData.absent_students.length}):</span>
-      <div class="description-box">
-        ${slipData.absent_students.map((student: string) => `<div>• ${student}</div>`).join('')}
-      </div>
-    </div>
-    ` : ''}
-    ${slipData.late_students && slipData.late_students.length > 0 ? `
-    <div style="margin-top: 10px;">
-      <span class="info-label">Late Students (${slipData.late_students.length}):</span>
-      <div class="description-box">
-        ${slipData.late_students.map((student: string) => `<div>• ${student}</div>`).join('')}
-      </div>
-    </div>
-    ` : ''}
+export function generateRoleRequestEmail(approverName: string, requesterName: string, memberName: string, roleName: string, reason: string | null, queueUrl: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Role Request Awaiting Approval</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .button { display: inline-block; background: #B91C47; color: #fff !important; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Role Request Awaiting Approval</div>
+  <div class="divider"></div>
+
+  <p>Hello ${approverName || 'there'},</p>
+  <p><strong>${requesterName}</strong> has asked to give <strong>${memberName}</strong> the <strong>${roleName}</strong> role. It won't take effect until someone approves it.</p>
+  ${reason ? `<p>Reason given: ${reason}</p>` : ''}
+
+  <p style="text-align: center; margin: 30px 0;">
+    <a class="button" href="${queueUrl}">Review Request</a>
+  </p>
+
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
+
+export function generateRoleRequestDecisionEmail(requesterName: string, memberName: string, roleName: string, approved: boolean, deciderName: string, note: string | null): string {
+  const outcome = approved ? 'Approved' : 'Rejected';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Role Request ${outcome}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Role Request ${outcome}</div>
+  <div class="divider"></div>
+
+  <p>Hello ${requesterName || 'there'},</p>
+  <p>${deciderName} has ${outcome.toLowerCase()} your request to give <strong>${memberName}</strong> the <strong>${roleName}</strong> role.</p>
+  ${approved ? `<p>The role is now assigned.</p>` : ''}
+  ${note ? `<p>Note: ${note}</p>` : ''}
 
-  <div class="confirmation-box">
-    <strong>Your submission has been recorded successfully.</strong>
+  <div class="footer">
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
+</body>
+</html>`;
+}
+
+export function generateMemberInviteEmail(fullName: string, setupUrl: string, expiresInMinutes: number): string {
+  const expiresInDays = Math.round(expiresInMinutes / (60 * 24));
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Tech Hub Account</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .button { display: inline-block; background: #B91C47; color: #fff !important; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold; }
+    .link { word-break: break-all; color: #666; font-size: 13px; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <div class="title">Your Tech Hub Account</div>
+  <div class="divider"></div>
+
+  <p>Hello ${fullName || 'there'},</p>
+  <p>An account has been created for you on the Campion College Tech Hub. Choose a password to start using it.</p>
 
-  <p>If you have any questions, contact your teacher or supervisor.</p>
+  <p style="text-align: center; margin: 30px 0;">
+    <a class="button" href="${setupUrl}">Set Your Password</a>
+  </p>
+
+  <p>This link expires in ${expiresInDays} days. After that, use "Forgot password" on the login page to get a new one.</p>
+  <p class="link">If the button doesn't work, copy this address into your browser:<br>${setupUrl}</p>
 
   <div class="footer">
-    <strong>Electronic Beadle Slip</strong><br>
-    Submitted on ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}<br>
     <em>This is an automated email. Do not reply.</em><br><br>
     <em>Best Regards, Software Dev Team, Campion College</em>
   </div>
@@ -0,0 +1,128 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can, canAny } from "./permissions";
+import {
+  getFormsWithClasses,
+  getFormsForRoles,
+  createClass,
+  deleteClass,
+  updateForm,
+  getSupervisorRoleChangeLevels,
+  type FormRecord,
+  type FormWithClasses
+} from "./forms";
+import { getClassRoster, type RosterStudent } from "./roster";
+import { getMemberPermissionLevel } from "./role-db-helpers";
+
+export async function getSchoolForms(): Promise<{
+  success: boolean;
+  forms?: FormWithClasses[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    return { success: true, forms: await getFormsWithClasses() };
+  } catch (error: any) {
+    console.error("Error fetching forms:", error);
+    return { success: false, error: "Failed to load forms" };
+  }
+}
+
+// Forms the signed-in member supervises through their supervisor sub-roles.
+export async function getMySupervisedForms(): Promise<{
+  success: boolean;
+  forms?: FormRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    return { success: true, forms: await getFormsForRoles(user.roles || []) };
+  } catch (error: any) {
+    console.error("Error fetching supervised forms:", error);
+    return { success: false, error: "Failed to load your forms" };
+  }
+}
+
+export async function getRosterForClass(classId: number): Promise<{
+  success: boolean;
+  students?: RosterStudent[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!canAny(user, ["slips.submit", "members.view"])) {
+      return { success: false, error: "You don't have permission to view class rosters" };
+    }
+
+    return { success: true, students: await getClassRoster(classId) };
+  } catch (error: any) {
+    console.error("Error fetching class roster:", error);
+    return { success: false, error: "Failed to load the class roster" };
+  }
+}
+
+export async function addClass(formId: number, name: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "classes.manage")) {
+      return { success: false, error: "You don't have permission to manage classes" };
+    }
+
+    return await createClass(formId, name);
+  } catch (error: any) {
+    console.error("Error adding class:", error);
+    return { success: false, error: "Failed to add class" };
+  }
+}
+
+export async function removeClass(classId: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "classes.manage")) {
+      return { success: false, error: "You don't have permission to manage classes" };
+    }
+
+    return await deleteClass(classId);
+  } catch (error: any) {
+    console.error("Error removing class:", error);
+    return { success: false, error: "Failed to remove class" };
+  }
+}
+
+export async function saveForm(formId: number, displayName: string, supervisorRoleId: number | null) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "classes.manage")) {
+      return { success: false, error: "You don't have permission to manage forms" };
+    }
+
+    // A form's supervisor role decides who may appoint its beadles, so moving
+    // it is a role grant in all but name: admins, or members who could assign
+    // both the old and the new role themselves.
+    const changedLevels = await getSupervisorRoleChangeLevels(formId, supervisorRoleId);
+    if (changedLevels && !can(user, "portal.admin")) {
+      if (!can(user, "roles.assign")) {
+        return { success: false, error: "You don't have permission to change a form's supervisor role" };
+      }
+
+      const actorLevel = await getMemberPermissionLevel(user.id);
+      if (changedLevels.some(level => level >= actorLevel)) {
+        return { success: false, error: "You can only link forms to roles below your own permission level" };
+      }
+    }
+
+    return await updateForm(formId, displayName, supervisorRoleId);
+  } catch (error: any) {
+    console.error("Error saving form:", error);
+    return { success: false, error: "Failed to save form" };
+  }
+}
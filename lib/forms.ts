@@ -0,0 +1,210 @@
+import "server-only";
+import { getDatabase } from "./database";
+
+// Lookups for the forms and classes tables, which are the single
+// source of truth for form levels, class names and which supervisor role looks
+// after each form. Member and slip writes should go through resolveClass so
+// form_class/class_name and class_id never disagree.
+
+export type FormRecord = {
+  id: number;
+  code: string;
+  display_name: string;
+  sort_order: number;
+  next_form_id: number | null;
+  supervisor_role_id: number | null;
+  supervisor_role_name: string | null;
+  supervisor_display_name: string | null;
+};
+
+export type ClassRecord = {
+  id: number;
+  form_id: number;
+  form_code: string;
+  name: string;
+  member_count: number;
+};
+
+export type FormWithClasses = FormRecord & { classes: ClassRecord[] };
+
+const FORM_COLUMNS = `
+  f.id, f.code, f.display_name, f.sort_order, f.next_form_id, f.supervisor_role_id,
+  r.role_name AS supervisor_role_name, r.display_name AS supervisor_display_name
+`;
+
+const CLASS_COLUMNS = `
+  c.id, c.form_id, f.code AS form_code, c.name,
+  (SELECT COUNT(*) FROM members m WHERE m.class_id = c.id) AS member_count
+`;
+
+// Numbered classes are "<form code>-<number>", e.g. "5-2" or "6A-1".
+const NUMBERED_CLASS_PATTERN = /^(\w+?)\s*-\s*(\d+)$/;
+
+export async function getForms(): Promise<FormRecord[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT ${FORM_COLUMNS}
+    FROM forms f
+    LEFT JOIN roles r ON r.id = f.supervisor_role_id
+    ORDER BY f.sort_order ASC
+  `).all() as FormRecord[];
+}
+
+export async function getFormsWithClasses(): Promise<FormWithClasses[]> {
+  const db = await getDatabase();
+  const classes = db.prepare(`
+    SELECT ${CLASS_COLUMNS}
+    FROM classes c
+    INNER JOIN forms f ON f.id = c.form_id
+    ORDER BY c.name ASC
+  `).all() as ClassRecord[];
+
+  return (await getForms()).map(form => ({
+    ...form,
+    classes: classes.filter(schoolClass => schoolClass.form_id === form.id)
+  }));
+}
+
+// Forms whose supervisor role is among the given role names.
+export async function getFormsForRoles(roleNames: string[]): Promise<FormRecord[]> {
+  const forms = await getForms();
+  return forms.filter(form => form.supervisor_role_name && roleNames.includes(form.supervisor_role_name));
+}
+
+export async function getClassByName(name: string): Promise<ClassRecord | undefined> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT ${CLASS_COLUMNS}
+    FROM classes c
+    INNER JOIN forms f ON f.id = c.form_id
+    WHERE c.name = ?
+  `).get(name.trim()) as ClassRecord | undefined;
+}
+
+export async function getClassById(id: number): Promise<ClassRecord | undefined> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT ${CLASS_COLUMNS}
+    FROM classes c
+    INNER JOIN forms f ON f.id = c.form_id
+    WHERE c.id = ?
+  `).get(id) as ClassRecord | undefined;
+}
+
+// Reads a numbered class name against the forms table without touching the
+// database, so previews can check names that don't have a row yet.
+export function parseClassName(name: string, forms: FormRecord[]): { form: FormRecord; name: string } | undefined {
+  const match = name.trim().toUpperCase().match(NUMBERED_CLASS_PATTERN);
+  const form = match ? forms.find(f => f.code.toUpperCase() === match[1]) : undefined;
+  return match && form ? { form, name: `${form.code}-${match[2]}` } : undefined;
+}
+
+// Looks up a class by name. With `create`, numbered classes of a known form
+// are created on first use; only imports and admin tools pass it, so
+// self-service profile edits can't add classes. Anything else has to be added
+// on the Forms & Classes page first. An empty name resolves to null, meaning
+// "no class".
+export async function resolveClass(
+  name: string | null | undefined,
+  { create = false }: { create?: boolean } = {}
+): Promise<{ classRecord?: ClassRecord | null; error?: string }> {
+  const trimmed = (name || "").trim();
+  if (!trimmed) {
+    return { classRecord: null };
+  }
+
+  const existing = await getClassByName(trimmed);
+  if (existing) {
+    return { classRecord: existing };
+  }
+
+  const parsed = parseClassName(trimmed, await getForms());
+  if (!parsed) {
+    return { error: `Form class '${trimmed}' isn't a known class (use e.g. 5-2 or 6A-1)` };
+  }
+
+  if (!create) {
+    const known = await getClassByName(parsed.name);
+    return known ? { classRecord: known } : { error: `Class '${parsed.name}' doesn't exist yet; ask an administrator to add it` };
+  }
+
+  const db = await getDatabase();
+  db.prepare(`INSERT OR IGNORE INTO classes (form_id, name) VALUES (?, ?)`).run(parsed.form.id, parsed.name);
+  return { classRecord: await getClassByName(parsed.name) };
+}
+
+export async function createClass(formId: number, name: string): Promise<{ success: boolean; id?: number; error?: string }> {
+  const db = await getDatabase();
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { success: false, error: "Class name is required" };
+  }
+
+  const form = db.prepare(`SELECT id, code FROM forms WHERE id = ?`).get(formId) as { id: number; code: string } | undefined;
+  if (!form) {
+    return { success: false, error: "Form not found" };
+  }
+
+  const parsed = parseClassName(trimmed, await getForms());
+  if (parsed && parsed.form.id !== form.id) {
+    return { success: false, error: `'${trimmed}' belongs to ${parsed.form.display_name}` };
+  }
+
+  if (await getClassByName(parsed?.name ?? trimmed)) {
+    return { success: false, error: `Class '${trimmed}' already exists` };
+  }
+
+  const result = db.prepare(`INSERT INTO classes (form_id, name) VALUES (?, ?)`).run(form.id, parsed?.name ?? trimmed);
+  return { success: true, id: Number(result.lastInsertRowid) };
+}
+
+// Members and slips keep their class name as text, so deleting a class only
+// unlinks them. Classes with members are refused to avoid orphaning a roster.
+// The class's timetable goes with it.
+export async function deleteClass(id: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  const inUse = db.prepare(`SELECT COUNT(*) AS count FROM members WHERE class_id = ?`).get(id) as { count: number };
+  if (inUse.count > 0) {
+    return { success: false, error: `${inUse.count} member(s) are still in this class` };
+  }
+
+  const result = db.transaction(() => {
+    db.prepare(`DELETE FROM timetable_entries WHERE class_id = ?`).run(id);
+    return db.prepare(`DELETE FROM classes WHERE id = ?`).run(id);
+  })();
+  return result.changes > 0 ? { success: true } : { success: false, error: "Class not found" };
+}
+
+// The permission levels of the roles a form's supervisor link would move from
+// and to, or undefined when the link stays the same.
+export async function getSupervisorRoleChangeLevels(formId: number, supervisorRoleId: number | null): Promise<number[] | undefined> {
+  const db = await getDatabase();
+  const form = db.prepare(`SELECT supervisor_role_id FROM forms WHERE id = ?`).get(formId) as { supervisor_role_id: number | null } | undefined;
+  if (!form || form.supervisor_role_id === supervisorRoleId) {
+    return undefined;
+  }
+
+  const rows = db.prepare(`
+    SELECT permission_level FROM roles WHERE id IN (?, ?)
+  `).all(form.supervisor_role_id, supervisorRoleId) as { permission_level: number }[];
+  return rows.map(row => row.permission_level);
+}
+
+export async function updateForm(id: number, displayName: string, supervisorRoleId: number | null): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  if (!displayName.trim()) {
+    return { success: false, error: "Display name is required" };
+  }
+
+  if (supervisorRoleId !== null) {
+    const role = db.prepare(`SELECT id FROM roles WHERE id = ?`).get(supervisorRoleId);
+    if (!role) {
+      return { success: false, error: "Supervisor role not found" };
+    }
+  }
+
+  const result = db.prepare(`
+    UPDATE forms SET display_name = ?, supervisor_role_id = ? WHERE id = ?
+  `).run(displayName.trim(), supervisorRoleId, id);
+  return result.changes > 0 ? { success: true } : { success: false, error: "Form not found" };
+}
@@ -0,0 +1,61 @@
+"use server";
+
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+
+export type LoginLock = {
+  scope: "account" | "ip";
+  identifier: string;
+  failures: number;
+  last_failure_at: string;
+  locked_until: string;
+  member_id: number | null;
+  full_name: string | null;
+};
+
+export async function getLockedLogins(): Promise<{ success: boolean; locks?: LoginLock[]; error?: string }> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can view locked accounts" };
+    }
+
+    const db = await getDatabase();
+    const locks = db.prepare(`
+      SELECT la.scope, la.identifier, la.failures, la.last_failure_at, la.locked_until,
+             m.id as member_id, m.full_name
+      FROM login_attempts la
+      LEFT JOIN members m ON la.scope = 'account' AND m.email = la.identifier COLLATE NOCASE
+      WHERE la.locked_until > datetime('now')
+      ORDER BY la.locked_until DESC
+    `).all() as LoginLock[];
+
+    return { success: true, locks };
+  } catch (error: any) {
+    console.error("Error fetching locked logins:", error);
+    return { success: false, error: "Failed to fetch locked accounts" };
+  }
+}
+
+export async function clearLoginLock(scope: "account" | "ip", identifier: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can clear locked accounts" };
+    }
+
+    const db = await getDatabase();
+    const result = db.prepare(`DELETE FROM login_attempts WHERE scope = ? AND identifier = ?`).run(scope, identifier);
+
+    if (result.changes === 0) {
+      return { success: false, error: "Lock not found" };
+    }
+
+    console.log(`Admin ${user.email} cleared the ${scope} lock on ${identifier}`);
+    return { success: true, message: "Lock cleared" };
+  } catch (error: any) {
+    console.error("Error clearing login lock:", error);
+    return { success: false, error: "Failed to clear lock" };
+  }
+}
@@ -0,0 +1,106 @@
+import "server-only";
+import { getDatabase } from "./database";
+import {
+    LOGIN_FREE_ATTEMPTS_PER_ACCOUNT,
+    LOGIN_FREE_ATTEMPTS_PER_IP,
+    LOGIN_BACKOFF_BASE_SECONDS,
+    LOGIN_BACKOFF_MAX_SECONDS,
+    LOGIN_FAILURE_RESET_SECONDS
+} from "./auth-config";
+import { readClientInfo } from "./session-cookie";
+
+// Failed-login counters backing signInWithPassword. Accounts are
+// keyed by the submitted email whether or not it is registered, so a lockout
+// never reveals which addresses exist.
+
+type Db = Awaited<ReturnType<typeof getDatabase>>;
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+function lockSecondsFor(failures: number, freeAttempts: number): number {
+    const extra = failures - freeAttempts;
+    if (extra <= 0) {
+        return 0;
+    }
+    return Math.min(LOGIN_BACKOFF_BASE_SECONDS * 2 ** (extra - 1), LOGIN_BACKOFF_MAX_SECONDS);
+}
+
+function bumpCounter(db: Db, scope: "account" | "ip", identifier: string, freeAttempts: number) {
+    const row = db.prepare(`
+        SELECT failures, last_failure_at > datetime('now', '-' || ? || ' seconds') as recent
+        FROM login_attempts WHERE scope = ? AND identifier = ?
+    `).get(LOGIN_FAILURE_RESET_SECONDS, scope, identifier) as { failures: number; recent: number } | undefined;
+
+    const failures = row && row.recent ? row.failures + 1 : 1;
+    const lockSeconds = lockSecondsFor(failures, freeAttempts);
+
+    db.prepare(`
+        INSERT INTO login_attempts (scope, identifier, failures, last_failure_at, locked_until)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP, CASE WHEN ? > 0 THEN datetime('now', '+' || ? || ' seconds') END)
+        ON CONFLICT(scope, identifier) DO UPDATE SET
+            failures = excluded.failures,
+            last_failure_at = excluded.last_failure_at,
+            locked_until = excluded.locked_until
+    `).run(scope, identifier, failures, lockSeconds, lockSeconds);
+}
+
+// Seconds until the account or IP may try again, or 0 if neither is locked.
+export async function getLoginRetryAfter(email: string, ipAddress: string | null): Promise<number> {
+    const db = await getDatabase();
+    const row = db.prepare(`
+        SELECT MAX(CAST(strftime('%s', locked_until) - strftime('%s', 'now') AS INTEGER)) as retry_after
+        FROM login_attempts
+        WHERE locked_until > datetime('now')
+          AND ((scope = 'account' AND identifier = ?) OR (scope = 'ip' AND identifier = ?))
+    `).get(normalizeEmail(email), ipAddress ?? "") as { retry_after: number | null };
+
+    return Math.max(row.retry_after ?? 0, 0);
+}
+
+export async function recordLoginFailure(email: string, ipAddress: string | null) {
+    const db = await getDatabase();
+    db.transaction(() => {
+        bumpCounter(db, "account", normalizeEmail(email), LOGIN_FREE_ATTEMPTS_PER_ACCOUNT);
+        if (ipAddress) {
+            bumpCounter(db, "ip", ipAddress, LOGIN_FREE_ATTEMPTS_PER_IP);
+        }
+    })();
+}
+
+// Only the account counter is cleared on success; signing in to one account
+// shouldn't wipe the failures an IP has racked up against others.
+export async function clearAccountFailures(email: string) {
+    const db = await getDatabase();
+    db.prepare(`DELETE FROM login_attempts WHERE scope = 'account' AND identifier = ?`).run(normalizeEmail(email));
+}
+
+export function lockoutMessage(retryAfterSeconds: number): string {
+    const minutes = Math.ceil(retryAfterSeconds / 60);
+    return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
+
+// Re-checks a credential for a signed-in member (current password, 2FA code)
+// against the same counters as sign-in, so a stolen session can't be used to
+// brute-force it. Returns the error to show, or null if the check passed.
+export async function checkThrottledCredential(
+    email: string,
+    check: () => Promise<boolean>,
+    failureMessage: string
+): Promise<string | null> {
+    const { ipAddress } = await readClientInfo();
+
+    const retryAfter = await getLoginRetryAfter(email, ipAddress);
+    if (retryAfter > 0) {
+        return lockoutMessage(retryAfter);
+    }
+
+    if (!(await check())) {
+        await recordLoginFailure(email, ipAddress);
+        return failureMessage;
+    }
+
+    await clearAccountFailures(email);
+    return null;
+}
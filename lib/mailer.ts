@@ -0,0 +1,98 @@
+import "server-only";
+import nodemailer from "nodemailer";
+
+// Not a "use server" module on purpose: exporting sendMail as a
+// server action would let any browser send mail through the school's relay.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "Campion Tech Hub <no-reply@campioncollege.com>";
+
+// Only records that a message would have gone out. Bodies carry reset and
+// verification links, so they are never written to the logs; use the SMTP
+// transport with a local catcher to read them.
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log(`[Mail] Not sent (console transport) - To: ${message.to}, Subject: ${message.subject}`);
+    }
+  };
+}
+
+// Point SMTP_HOST/SMTP_PORT at a local catcher such as Mailpit or MailHog
+// (localhost:1025) in development.
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: MAIL_FROM, ...message });
+    }
+  };
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function setMailTransport(transport: MailTransport) {
+  activeTransport = transport;
+}
+
+// Production has to opt in to SMTP explicitly; anything else fails every send
+// rather than quietly dropping mail.
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    if (process.env.MAIL_TRANSPORT === "smtp") {
+      activeTransport = createSmtpTransport();
+    } else if (process.env.NODE_ENV === "production") {
+      throw new Error("MAIL_TRANSPORT must be set to smtp to send mail in production");
+    } else {
+      activeTransport = createConsoleTransport();
+    }
+  }
+
+  return activeTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<{ success: boolean; error?: string }> {
+  let transport: MailTransport | undefined;
+
+  try {
+    transport = getMailTransport();
+    await transport.send(message);
+    return { success: true };
+  } catch (err: any) {
+    console.error(`[Mail] ${transport?.name ?? "No"} transport failed to send to ${message.to}:`, err.message);
+    return { success: false, error: err.message };
+  }
+}
+
+// Links in emails carry reset and verification tokens, so the host comes from
+// APP_URL and never from request headers, which the client controls. Outside
+// production it falls back to the local dev server.
+export async function buildAppUrl(path: string): Promise<string> {
+  const appUrl = process.env.APP_URL || (process.env.NODE_ENV === "production" ? "" : "http://localhost:3000");
+  if (!appUrl) {
+    throw new Error("APP_URL must be set to build links in production");
+  }
+
+  return new URL(path, appUrl).toString();
+}
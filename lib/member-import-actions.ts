@@ -0,0 +1,49 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import {
+  planMemberImport,
+  applyMemberImport,
+  type ImportRowPlan,
+  type ImportSummary
+} from "./member-import";
+
+export async function previewMemberImport(csv: string): Promise<{
+  success: boolean;
+  rows?: ImportRowPlan[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "roles.assign")) {
+      return { success: false, error: "You don't have permission to import members" };
+    }
+
+    const { rows, error } = await planMemberImport(csv, user.id);
+    return rows ? { success: true, rows } : { success: false, error };
+  } catch (error: any) {
+    console.error("Error previewing member import:", error);
+    return { success: false, error: "Failed to read the import file" };
+  }
+}
+
+export async function runMemberImport(csv: string): Promise<{
+  success: boolean;
+  rows?: ImportRowPlan[];
+  summary?: ImportSummary;
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "roles.assign")) {
+      return { success: false, error: "You don't have permission to import members" };
+    }
+
+    const { rows, summary, error } = await applyMemberImport(csv, user.id);
+    return summary ? { success: true, rows, summary } : { success: false, error };
+  } catch (error: any) {
+    console.error("Error running member import:", error);
+    return { success: false, error: "Failed to import members" };
+  }
+}
@@ -0,0 +1,319 @@
+import "server-only";
+import bcrypt from "bcrypt";
+import { randomBytes } from "crypto";
+import { getDatabase } from "./database";
+import { parseCsv } from "./csv";
+import { sendMail, buildAppUrl } from "./mailer";
+import { generateMemberInviteEmail } from "./emailUtils";
+import { issueToken } from "./auth-tokens";
+import { recordRoleChange } from "./role-audit";
+import { normalizeRoleTerm, ACTIVE_ASSIGNMENT_SQL, CURRENT_OR_UPCOMING_ASSIGNMENT_SQL } from "./role-assignments";
+import { getRoleApprovalLevel, createRoleRequest } from "./role-requests";
+import { getMemberPermissionLevel } from "./role-db-helpers";
+import { getSetting } from "./settings";
+import {
+  MEMBER_INVITE_TOKEN_TTL_MINUTES,
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  DEFAULT_ALLOWED_EMAIL_DOMAINS
+} from "./auth-config";
+import { getForms, parseClassName, resolveClass } from "./forms";
+
+// CSV import of members and their roles. Every run is planned from
+// scratch, so the preview the tech team sees is exactly what gets applied.
+// Columns: email, full_name, form_class, roles (separated by ; or |), expires_at.
+
+export type ImportAction = "create" | "update" | "unchanged" | "error";
+
+export type ImportRowPlan = {
+  line: number;
+  email: string;
+  full_name: string;
+  form_class: string | null;
+  expires_at: string | null;
+  action: ImportAction;
+  memberId?: number;
+  changes: string[];
+  grants: string[];
+  requests: string[];
+  errors: string[];
+};
+
+export type ImportSummary = {
+  created: number;
+  updated: number;
+  rolesGranted: number;
+  rolesRequested: number;
+  invitesSent: number;
+  skipped: number;
+  inviteFailures: string[];
+};
+
+const MAX_IMPORT_ROWS = 2000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const IMPORT_REASON = "Bulk member import";
+
+export async function planMemberImport(csv: string, actorId: number): Promise<{ rows?: ImportRowPlan[]; error?: string }> {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    return { error: "The file is empty" };
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase().replace(/\s+/g, "_"));
+  if (!columns.includes("email")) {
+    return { error: "The first row must be a header with at least an email column" };
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  const db = await getDatabase();
+  const roles = new Map(
+    (db.prepare(`SELECT role_name, display_name, permission_level FROM roles`).all() as any[])
+      .map(role => [role.role_name, role])
+  );
+  const forms = await getForms();
+  const classNames = new Map(
+    (db.prepare(`SELECT name FROM classes`).all() as { name: string }[])
+      .map(schoolClass => [schoolClass.name.toUpperCase(), schoolClass.name])
+  );
+  const actorLevel = await getMemberPermissionLevel(actorId);
+  const approvalLevel = await getRoleApprovalLevel();
+  const allowedDomains = await getSetting<string[]>(SIGNUP_ALLOWED_DOMAINS_SETTING, DEFAULT_ALLOWED_EMAIL_DOMAINS);
+
+  const findMember = db.prepare(`SELECT id, full_name, form_class FROM members WHERE email = ? COLLATE NOCASE`);
+  const memberLevel = db.prepare(`
+    SELECT MAX(r.permission_level) as max_level
+    FROM member_roles mr
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE mr.member_id = ? AND ${ACTIVE_ASSIGNMENT_SQL}
+  `);
+  const heldRoles = db.prepare(`
+    SELECT r.role_name FROM member_roles mr
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE mr.member_id = ? AND ${CURRENT_OR_UPCOMING_ASSIGNMENT_SQL}
+  `);
+  const pendingRoles = db.prepare(`
+    SELECT r.role_name FROM role_requests rr
+    INNER JOIN roles r ON r.id = rr.role_id
+    WHERE rr.member_id = ? AND rr.status = 'pending'
+  `);
+  const seenEmails = new Set<string>();
+
+  const rows = records.map((cells, index): ImportRowPlan => {
+    const value = (column: string) => (cells[columns.indexOf(column)] ?? "").trim();
+    const row: ImportRowPlan = {
+      line: index + 2,
+      email: value("email").toLowerCase(),
+      full_name: value("full_name"),
+      form_class: value("form_class").toUpperCase() || null,
+      expires_at: value("expires_at") || null,
+      action: "error",
+      changes: [],
+      grants: [],
+      requests: [],
+      errors: []
+    };
+
+    if (!EMAIL_PATTERN.test(row.email)) {
+      row.errors.push(`'${row.email}' is not a valid email address`);
+    } else if (seenEmails.has(row.email)) {
+      row.errors.push("This email appears more than once in the file");
+    }
+    seenEmails.add(row.email);
+
+    if (row.form_class) {
+      const className = classNames.get(row.form_class) ?? parseClassName(row.form_class, forms)?.name;
+      if (className) {
+        row.form_class = className;
+      } else {
+        row.errors.push(`Form class '${row.form_class}' isn't a known class (use e.g. 5-2 or 6A-1)`);
+      }
+    }
+
+    const { error: termError } = normalizeRoleTerm({ expires_at: row.expires_at });
+    if (termError) {
+      row.errors.push(termError);
+    }
+
+    const member = EMAIL_PATTERN.test(row.email) ? findMember.get(row.email) as any : undefined;
+    if (!member && !row.full_name) {
+      row.errors.push("New members need a full_name");
+    }
+
+    // New members face the same domain allow-list as signup, and nobody's
+    // details can be changed by an importer who isn't above them.
+    const domain = row.email.split("@").pop() ?? "";
+    if (!member && EMAIL_PATTERN.test(row.email) && allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+      row.errors.push(`Only ${allowedDomains.map(d => "@" + d).join(", ")} email addresses are allowed`);
+    }
+
+    const changesDetails = !!member && (
+      (!!row.full_name && row.full_name !== member.full_name) || (!!row.form_class && row.form_class !== member.form_class)
+    );
+    if (changesDetails && ((memberLevel.get(member.id) as any)?.max_level || 0) >= actorLevel) {
+      row.errors.push("You can only change the name or form class of members below your own permission level");
+    }
+
+    let roleNames = value("roles").split(/[;|]/).map(name => name.trim().toLowerCase()).filter(Boolean);
+    if (!member && roleNames.length === 0) {
+      roleNames = ["student"];
+    }
+
+    for (const roleName of roleNames) {
+      const role = roles.get(roleName);
+      if (!role) {
+        row.errors.push(`Unknown role '${roleName}'`);
+      } else if (role.permission_level >= actorLevel) {
+        row.errors.push(`You can only assign roles below your own permission level ('${role.display_name}' is level ${role.permission_level})`);
+      }
+    }
+
+    if (row.errors.length > 0) {
+      return row;
+    }
+
+    const held = member ? (heldRoles.all(member.id) as any[]).map(r => r.role_name) : [];
+    const pending = member ? (pendingRoles.all(member.id) as any[]).map(r => r.role_name) : [];
+
+    if (member) {
+      row.memberId = member.id;
+      if (row.full_name && row.full_name !== member.full_name) {
+        row.changes.push(`Name: ${member.full_name || "(blank)"} → ${row.full_name}`);
+      }
+      if (row.form_class && row.form_class !== member.form_class) {
+        row.changes.push(`Form class: ${member.form_class || "(none)"} → ${row.form_class}`);
+      }
+    } else {
+      row.changes.push(`New member${row.form_class ? ` in ${row.form_class}` : ""}, invite emailed`);
+    }
+
+    for (const roleName of roleNames) {
+      if (held.includes(roleName) || pending.includes(roleName)) continue;
+
+      const role = roles.get(roleName);
+      const until = row.expires_at ? ` until ${row.expires_at}` : "";
+      if (role.permission_level >= approvalLevel) {
+        row.requests.push(roleName);
+        row.changes.push(`Request ${role.display_name}${until} (needs approval)`);
+      } else {
+        row.grants.push(roleName);
+        row.changes.push(`Grant ${role.display_name}${until}`);
+      }
+    }
+
+    row.action = !member ? "create" : row.changes.length > 0 ? "update" : "unchanged";
+    return row;
+  });
+
+  return { rows };
+}
+
+// Member and role rows are written in a single transaction; the audit entries,
+// approval requests and invite emails follow once it has committed.
+export async function applyMemberImport(csv: string, actorId: number): Promise<{ rows?: ImportRowPlan[]; summary?: ImportSummary; error?: string }> {
+  const plan = await planMemberImport(csv, actorId);
+  if (!plan.rows) {
+    return { error: plan.error };
+  }
+
+  const rows = plan.rows.filter(row => row.action === "create" || row.action === "update");
+  const db = await getDatabase();
+
+  // Nobody knows the secret behind this hash, so imported members can only get
+  // in through their invite link.
+  const unusablePassword = await bcrypt.hash(randomBytes(32).toString("hex"), 10);
+
+  // Numbered classes new to the school are created here, before the
+  // transaction, so every row can be linked by class_id.
+  const classIds = new Map<string, number>();
+  for (const row of rows) {
+    if (row.form_class && !classIds.has(row.form_class)) {
+      const { classRecord } = await resolveClass(row.form_class, { create: true });
+      if (classRecord) {
+        classIds.set(row.form_class, classRecord.id);
+      }
+    }
+  }
+
+  const insertMember = db.prepare(`
+    INSERT INTO members (email, password, full_name, form_class, class_id, email_verified_at, first_login_at)
+    VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+  `);
+  const updateMember = db.prepare(`
+    UPDATE members
+    SET full_name = COALESCE(?, full_name), form_class = COALESCE(?, form_class), class_id = COALESCE(?, class_id),
+        updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  const grantRole = db.prepare(`
+    INSERT INTO member_roles (member_id, role_id, assigned_by, expires_at)
+    SELECT ?, id, ?, ? FROM roles WHERE role_name = ?
+    ON CONFLICT(member_id, role_id) DO UPDATE SET
+      assigned_by = excluded.assigned_by,
+      assigned_at = CURRENT_TIMESTAMP,
+      starts_at = NULL,
+      expires_at = excluded.expires_at,
+      deactivated_at = NULL
+  `);
+
+  db.transaction(() => {
+    for (const row of rows) {
+      const classId = row.form_class ? classIds.get(row.form_class) ?? null : null;
+      if (row.action === "create") {
+        row.memberId = Number(insertMember.run(row.email, unusablePassword, row.full_name, row.form_class, classId).lastInsertRowid);
+      } else {
+        updateMember.run(row.full_name || null, row.form_class, classId, row.memberId);
+      }
+
+      for (const roleName of row.grants) {
+        grantRole.run(row.memberId, actorId, row.expires_at, roleName);
+      }
+    }
+  })();
+
+  const summary: ImportSummary = {
+    created: 0,
+    updated: 0,
+    rolesGranted: 0,
+    rolesRequested: 0,
+    invitesSent: 0,
+    skipped: plan.rows.filter(row => row.action === "error").length,
+    inviteFailures: []
+  };
+
+  for (const row of rows) {
+    const memberId = row.memberId as number;
+    summary[row.action === "create" ? "created" : "updated"]++;
+
+    for (const roleName of row.grants) {
+      await recordRoleChange({ memberId, roleName, action: "grant", actorId, reason: IMPORT_REASON, expiresAt: row.expires_at });
+      summary.rolesGranted++;
+    }
+
+    for (const roleName of row.requests) {
+      await createRoleRequest(memberId, roleName, actorId, { starts_at: null, expires_at: row.expires_at }, IMPORT_REASON);
+      summary.rolesRequested++;
+    }
+
+    if (row.action === "create") {
+      const token = await issueToken("password_reset_tokens", memberId, MEMBER_INVITE_TOKEN_TTL_MINUTES);
+      const setupUrl = await buildAppUrl(`/auth/reset-password?token=${token}`);
+      const result = await sendMail({
+        to: row.email,
+        subject: "Your Campion Tech Hub account",
+        html: generateMemberInviteEmail(row.full_name, setupUrl, MEMBER_INVITE_TOKEN_TTL_MINUTES),
+        text: `An account has been created for you on the Campion Tech Hub. Set your password: ${setupUrl}`
+      });
+
+      if (result.success) {
+        summary.invitesSent++;
+      } else {
+        summary.inviteFailures.push(row.email);
+      }
+    }
+  }
+
+  console.log(`[Import] Member ${actorId} imported ${summary.created} new and ${summary.updated} updated member(s)`);
+  return { rows: plan.rows, summary };
+}
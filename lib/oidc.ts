@@ -0,0 +1,273 @@
+import "server-only";
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { getDatabase } from "./database";
+import { getSetting } from "./settings";
+import {
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  SIGNUP_REQUIRE_INVITE_SETTING,
+  DEFAULT_ALLOWED_EMAIL_DOMAINS
+} from "./auth-config";
+
+// OpenID Connect client (authorization code flow with PKCE) for
+// single sign-on. Works against any compliant issuer: Google Workspace in
+// production, or a local mock issuer in development. Configured from env:
+//
+//   OIDC_ISSUER          e.g. https://accounts.google.com
+//   OIDC_CLIENT_ID       required
+//   OIDC_CLIENT_SECRET   optional for public clients
+//   OIDC_PROVIDER_NAME   label for the login button (default "Google")
+//   OIDC_SCOPES          default "openid email profile"
+//   OIDC_HOSTED_DOMAIN   optional Google Workspace domain to restrict sign-in to
+
+export const OIDC_FLOW_COOKIE_NAME = "oidc_flow";
+export const OIDC_FLOW_TTL_SECONDS = 10 * 60;
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  providerName: string;
+  scopes: string;
+  hostedDomain?: string;
+};
+
+export type OidcFlow = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next?: string;
+};
+
+export type OidcClaims = {
+  sub: string;
+  email: string;
+  name?: string;
+};
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+};
+
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    providerName: process.env.OIDC_PROVIDER_NAME || "Google",
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    hostedDomain: process.env.OIDC_HOSTED_DOMAIN || undefined
+  };
+}
+
+const discoveryCache = new Map<string, DiscoveryDocument>();
+
+async function discover(issuer: string): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+
+  const document = await response.json() as DiscoveryDocument;
+  discoveryCache.set(issuer, document);
+  return document;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+export async function buildAuthorizationRequest(config: OidcConfig, redirectUri: string, next?: string): Promise<{
+  url: string;
+  flow: OidcFlow;
+}> {
+  const discovery = await discover(config.issuer);
+  const flow: OidcFlow = {
+    state: base64Url(randomBytes(16)),
+    nonce: base64Url(randomBytes(16)),
+    codeVerifier: base64Url(randomBytes(32)),
+    next
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", config.scopes);
+  url.searchParams.set("state", flow.state);
+  url.searchParams.set("nonce", flow.nonce);
+  url.searchParams.set("code_challenge", base64Url(createHash("sha256").update(flow.codeVerifier).digest()));
+  url.searchParams.set("code_challenge_method", "S256");
+  if (config.hostedDomain) {
+    url.searchParams.set("hd", config.hostedDomain);
+  }
+
+  return { url: url.toString(), flow };
+}
+
+function decodeJwtPayload(jwt: string): any {
+  const [, payload] = jwt.split(".");
+  if (!payload) {
+    throw new Error("Malformed ID token");
+  }
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+}
+
+// The ID token comes straight from the token endpoint over a connection we
+// opened, so per OIDC Core 3.1.3.7 its signature check can be skipped; the
+// claims below still have to be validated.
+export async function exchangeCode(config: OidcConfig, code: string, flow: OidcFlow, redirectUri: string): Promise<OidcClaims> {
+  const discovery = await discover(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: config.clientId,
+    code_verifier: flow.codeVerifier
+  });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const response = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body
+  });
+  if (!response.ok) {
+    throw new Error(`OIDC token exchange failed with status ${response.status}`);
+  }
+
+  const tokens = await response.json() as { id_token?: string; access_token?: string };
+  if (!tokens.id_token) {
+    throw new Error("OIDC token response had no ID token");
+  }
+
+  const claims = decodeJwtPayload(tokens.id_token);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== discovery.issuer) {
+    throw new Error("ID token issuer mismatch");
+  }
+  if (!audiences.includes(config.clientId) || (audiences.length > 1 && claims.azp !== config.clientId)) {
+    throw new Error("ID token audience mismatch");
+  }
+  if (typeof claims.exp !== "number" || claims.exp * 1000 < Date.now()) {
+    throw new Error("ID token has expired");
+  }
+  if (claims.nonce !== flow.nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  if (config.hostedDomain && claims.hd !== config.hostedDomain) {
+    throw new Error("Account is not part of the allowed workspace domain");
+  }
+
+  // Some issuers only put email in the userinfo response.
+  let { email, email_verified, name } = claims;
+  if (!email && discovery.userinfo_endpoint && tokens.access_token) {
+    const userinfoResponse = await fetch(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` }
+    });
+    if (userinfoResponse.ok) {
+      const userinfo = await userinfoResponse.json();
+      if (userinfo.sub === claims.sub) {
+        ({ email, email_verified, name } = { ...userinfo, name: userinfo.name ?? name });
+      }
+    }
+  }
+
+  if (!email || (email_verified !== true && email_verified !== "true")) {
+    throw new Error("The identity provider did not return a verified email address");
+  }
+
+  return { sub: String(claims.sub), email: String(email), name: name ? String(name) : undefined };
+}
+
+// Links the identity to a member, first by a previous link and then by email.
+// New members are created without a usable password and get the student role
+// on first login, the same as a regular signup. Linking by email to an account
+// whose address was never verified wipes its password, 2FA and sessions: anyone
+// could have registered that address, and the provider has just shown it
+// belongs to the person signing in.
+export async function findOrCreateSsoMember(issuer: string, claims: OidcClaims): Promise<{
+  member?: any;
+  error?: string;
+}> {
+  const db = await getDatabase();
+
+  const linked = db.prepare(`
+    SELECT m.* FROM member_identities mi
+    INNER JOIN members m ON m.id = mi.member_id
+    WHERE mi.provider = ? AND mi.subject = ?
+  `).get(issuer, claims.sub) as any;
+
+  let member = linked ?? db.prepare(`SELECT * FROM members WHERE email = ? COLLATE NOCASE`).get(claims.email) as any;
+
+  if (!member) {
+    const allowedDomains = await getSetting<string[]>(SIGNUP_ALLOWED_DOMAINS_SETTING, DEFAULT_ALLOWED_EMAIL_DOMAINS);
+    const domain = claims.email.split("@").pop()?.toLowerCase() ?? "";
+    if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+      return { error: `Only ${allowedDomains.map(d => "@" + d).join(", ")} accounts can sign in` };
+    }
+
+    if (await getSetting<boolean>(SIGNUP_REQUIRE_INVITE_SETTING, false)) {
+      return { error: "Sign up with an invite code before using single sign-on" };
+    }
+
+    const unusablePassword = await bcrypt.hash(randomBytes(32).toString("hex"), 10);
+    const result = db.prepare(`
+      INSERT INTO members (email, password, full_name, email_verified_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    `).run(claims.email, unusablePassword, claims.name || claims.email.split("@")[0]);
+
+    member = db.prepare(`SELECT * FROM members WHERE id = ?`).get(result.lastInsertRowid) as any;
+  }
+
+  const claimsUnverifiedAccount = !linked && !member.email_verified_at;
+  const unusablePassword = claimsUnverifiedAccount ? await bcrypt.hash(randomBytes(32).toString("hex"), 10) : null;
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO member_identities (member_id, provider, subject, email, last_login_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(provider, subject) DO UPDATE SET
+        email = excluded.email,
+        last_login_at = excluded.last_login_at
+    `).run(member.id, issuer, claims.sub, claims.email);
+
+    if (claimsUnverifiedAccount) {
+      db.prepare(`
+        UPDATE members
+        SET password = ?, totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+        WHERE id = ?
+      `).run(unusablePassword, member.id);
+      db.prepare(`DELETE FROM totp_recovery_codes WHERE member_id = ?`).run(member.id);
+      db.prepare(`DELETE FROM sessions WHERE userId = ?`).run(member.id);
+      console.warn(`[SSO] Cleared the password and sessions of unverified account ${member.email} on first SSO sign-in`);
+    }
+
+    // The provider has vouched for the address, so a pending verification is moot.
+    if (!member.email_verified_at) {
+      db.prepare(`UPDATE members SET email_verified_at = CURRENT_TIMESTAMP WHERE id = ?`).run(member.id);
+    }
+  })();
+
+  return { member: db.prepare(`SELECT * FROM members WHERE id = ?`).get(member.id) };
+}
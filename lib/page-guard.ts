@@ -0,0 +1,31 @@
+import "server-only";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { LOGIN_PATH, PATHNAME_HEADER, TWO_FACTOR_SETUP_PATH, findRouteRule } from "./auth-config";
+import { readSessionCookie } from "./session-cookie";
+import { getSession } from "./serverUtils";
+import { getMemberPermissions } from "./role-db-helpers";
+import { canAny } from "./permissions";
+
+// Check for the layouts of signed-in sections. Middleware has
+// already turned away requests without a session cookie; this looks the
+// session up, sends members who still have to enrol in 2FA to the setup page,
+// and applies ROUTE_RULES to the requested path.
+export async function requirePageAccess(): Promise<void> {
+    const pathname = (await headers()).get(PATHNAME_HEADER) ?? "/";
+
+    const token = await readSessionCookie();
+    const { user } = token ? await getSession(token) : { user: undefined };
+    if (!user) {
+        redirect(`${LOGIN_PATH}?next=${encodeURIComponent(pathname)}`);
+    }
+
+    if (pathname !== TWO_FACTOR_SETUP_PATH && user.twoFactorSetupRequired) {
+        redirect(TWO_FACTOR_SETUP_PATH);
+    }
+
+    const rule = findRouteRule(pathname);
+    if (rule && !canAny({ permissions: await getMemberPermissions(user.userId) }, rule.permissions)) {
+        redirect("/dashboard");
+    }
+}
@@ -0,0 +1,97 @@
+"use server";
+
+import bcrypt from "bcrypt";
+import { getDatabase } from "./database";
+import { sendMail, buildAppUrl } from "./mailer";
+import { generatePasswordResetEmail } from "./emailUtils";
+import { issueToken, findValidToken, consumeToken } from "./auth-tokens";
+import { PASSWORD_RESET_TOKEN_TTL_MINUTES, MIN_PASSWORD_LENGTH } from "./auth-config";
+
+const SALT_ROUNDS = 10;
+
+export async function requestPasswordReset(email: string): Promise<{ success: boolean; message?: string; error?: string }> {
+  // Same response whether or not the address is registered, so this can't be used to probe accounts.
+  const genericResponse = {
+    success: true,
+    message: "If that email is registered, a reset link has been sent."
+  };
+
+  try {
+    if (!email || !email.trim()) {
+      return { success: false, error: "Email is required" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`
+      SELECT id, full_name, email FROM members WHERE email = ? COLLATE NOCASE
+    `).get(email.trim()) as any;
+
+    if (!member) {
+      return genericResponse;
+    }
+
+    const token = await issueToken("password_reset_tokens", member.id, PASSWORD_RESET_TOKEN_TTL_MINUTES);
+    const resetUrl = await buildAppUrl(`/auth/reset-password?token=${token}`);
+    const result = await sendMail({
+      to: member.email,
+      subject: "Reset your Campion Tech Hub password",
+      html: generatePasswordResetEmail(member.full_name, resetUrl, PASSWORD_RESET_TOKEN_TTL_MINUTES),
+      text: `Reset your password: ${resetUrl}\nThis link expires in ${PASSWORD_RESET_TOKEN_TTL_MINUTES} minutes.`
+    });
+
+    // A send failure only happens for registered addresses, so reporting it
+    // would give the game away; log it for the admins instead.
+    if (!result.success) {
+      console.error(`Failed to send password reset email to member ${member.id}:`, result.error);
+    }
+
+    return genericResponse;
+  } catch (error: any) {
+    console.error("Error requesting password reset:", error);
+    return genericResponse;
+  }
+}
+
+export async function validateResetToken(token: string) {
+  try {
+    const record = await findValidToken("password_reset_tokens", token);
+    return record ? { valid: true, email: record.email } : { valid: false };
+  } catch (error: any) {
+    console.error("Error validating reset token:", error);
+    return { valid: false };
+  }
+}
+
+export async function resetPassword(token: string, newPassword: string) {
+  try {
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return { success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+
+    const record = await findValidToken("password_reset_tokens", token);
+    if (!record) {
+      return { success: false, error: "This reset link is invalid or has expired" };
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
+    const db = await getDatabase();
+
+    db.transaction(() => {
+      if (!consumeToken(db, "password_reset_tokens", record.id)) {
+        throw new Error("Reset token already used");
+      }
+
+      db.prepare(`
+        UPDATE members SET password = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(passwordHash, record.member_id);
+
+      // Anyone signed in with the old password is signed out.
+      db.prepare(`DELETE FROM sessions WHERE userId = ?`).run(record.member_id);
+    })();
+
+    return { success: true, message: "Password reset successfully. You can now log in." };
+  } catch (error: any) {
+    console.error("Error resetting password:", error);
+    return { success: false, error: "This reset link is invalid or has expired" };
+  }
+}
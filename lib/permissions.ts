@@ -0,0 +1,40 @@
+// Capability names. The catalogue and default grants live in the permissions
+// and role_permissions tables (seeded in lib/database.ts); fetchCurrentUser and
+// guardApiRoute attach the resolved list to the user as `permissions`.
+//
+// Safe to import from client components - it never touches the database.
+
+export type Permission =
+  | "portal.admin"
+  | "portal.tech_team"
+  | "portal.supervisor"
+  | "portal.staff"
+  | "slips.submit"
+  | "slips.view.own"
+  | "slips.view.form"
+  | "slips.view.all"
+  | "slips.edit"
+  | "slips.delete"
+  | "slips.resolve"
+  | "members.view"
+  | "members.promote"
+  | "roles.assign"
+  | "roles.assign.beadle"
+  | "roles.history"
+  | "roles.manage"
+  | "roles.approve"
+  | "classes.manage"
+  | "timetable.manage"
+  | "teachers.manage"
+  | "reports.generate"
+  | "security.manage";
+
+type PermissionHolder = { permissions?: string[] } | null | undefined;
+
+export function can(user: PermissionHolder, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+export function canAny(user: PermissionHolder, permissions: Permission[]): boolean {
+  return permissions.some(permission => can(user, permission));
+}
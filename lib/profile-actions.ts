@@ -1,23 +1,37 @@
 "use server";
 
 import { getDatabase } from "./database";
+import { resolveClass } from "./forms";
+import { fetchCurrentUser } from "./serverUtils";
+import { checkThrottledCredential } from "./login-throttle";
+import { MIN_PASSWORD_LENGTH } from "./auth-config";
 import bcrypt from "bcrypt";
 
 const SALT_ROUNDS = 10;
 
-export async function updateProfile(userId: number, fullName: string, formClass: string | null) {
+export async function updateProfile(fullName: string, formClass: string | null) {
   try {
+    const caller = await fetchCurrentUser(false);
+    if (!caller) {
+      return { success: false, error: "Not authenticated" };
+    }
+
     if (!fullName || fullName.trim() === "") {
       return { success: false, error: "Full name is required" };
     }
 
+    const { classRecord, error } = await resolveClass(formClass);
+    if (error) {
+      return { success: false, error };
+    }
+
     const db = await getDatabase();
     
     db.prepare(`
       UPDATE members 
-      SET full_name = ?, form_class = ?, updated_at = CURRENT_TIMESTAMP
+      SET full_name = ?, form_class = ?, class_id = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
-    `).run(fullName.trim(), formClass || null, userId);
+    `).run(fullName.trim(), classRecord?.name ?? null, classRecord?.id ?? null, caller.id);
 
     return { success: true, message: "Profile updated successfully" };
   } catch (error: any) {
@@ -26,32 +40,40 @@ export async function updateProfile(userId: number, fullName: string, formClass:
   }
 }
 
-export async function changePassword(userId: number, currentPassword: string, newPassword: string) {
+export async function changePassword(currentPassword: string, newPassword: string) {
   try {
+    const caller = await fetchCurrentUser(false);
+    if (!caller) {
+      return { success: false, error: "Not authenticated" };
+    }
+
     if (!currentPassword || !newPassword) {
       return { success: false, error: "Current and new passwords are required" };
     }
 
-    if (newPassword.length < 6) {
-      return { success: false, error: "New password must be at least 6 characters" };
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return { success: false, error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` };
     }
 
     const db = await getDatabase();
     
     const user = db.prepare(`
-      SELECT id, password
+      SELECT id, email, password
       FROM members
       WHERE id = ?
-    `).get(userId) as any;
+    `).get(caller.id) as any;
 
     if (!user) {
       return { success: false, error: "User not found" };
     }
 
-
-    const isValidPassword = await bcrypt.compare(currentPassword, user.password);
-    if (!isValidPassword) {
-      return { success: false, error: "Current password is incorrect" };
+    const passwordError = await checkThrottledCredential(
+      user.email,
+      () => bcrypt.compare(currentPassword, user.password),
+      "Current password is incorrect"
+    );
+    if (passwordError) {
+      return { success: false, error: passwordError };
     }
 
     const newPasswordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
@@ -0,0 +1,124 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { sendMail } from "./mailer";
+import { generateRoleExpiredEmail } from "./emailUtils";
+import { recordRoleChange } from "./role-audit";
+
+// Helpers for time-bounded role assignments. Terms are YYYY-MM-DD
+// dates compared against SQLite's UTC date: an assignment is in force from
+// starts_at until the day before expires_at, and either end may be open.
+
+export type RoleTerm = {
+  starts_at?: string | null;
+  expires_at?: string | null;
+};
+
+// Filters member_roles (aliased mr) down to assignments in force today.
+export const ACTIVE_ASSIGNMENT_SQL = `mr.deactivated_at IS NULL
+      AND (mr.starts_at IS NULL OR mr.starts_at <= date('now'))
+      AND (mr.expires_at IS NULL OR mr.expires_at > date('now'))`;
+
+// Assignments that are in force today or will be once their term starts.
+export const CURRENT_OR_UPCOMING_ASSIGNMENT_SQL = `mr.deactivated_at IS NULL
+      AND (mr.expires_at IS NULL OR mr.expires_at > date('now'))`;
+
+const ROLE_EXPIRY_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeRoleTerm(term: RoleTerm | undefined): { term?: Required<RoleTerm>; error?: string } {
+  const starts_at = term?.starts_at || null;
+  const expires_at = term?.expires_at || null;
+
+  for (const value of [starts_at, expires_at]) {
+    if (value && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+      return { error: `'${value}' is not a valid date` };
+    }
+  }
+
+  if (starts_at && expires_at && expires_at <= starts_at) {
+    return { error: "A role's end date must be after its start date" };
+  }
+
+  if (expires_at && expires_at <= new Date().toISOString().slice(0, 10)) {
+    return { error: "A role's end date must be in the future" };
+  }
+
+  return { term: { starts_at, expires_at } };
+}
+
+// Deactivates every assignment whose term has ended and emails whoever granted
+// it. Each row is claimed by its UPDATE, so overlapping sweeps never send the
+// same notice twice. Returns how many assignments were deactivated.
+export async function expireRoleAssignments(): Promise<number> {
+  const db = await getDatabase();
+
+  const expired = db.prepare(`
+    SELECT mr.id, mr.member_id, mr.expires_at, r.role_name,
+           m.full_name AS member_name,
+           r.display_name AS role_display_name,
+           a.email AS assigner_email, a.full_name AS assigner_name
+    FROM member_roles mr
+    INNER JOIN members m ON m.id = mr.member_id
+    INNER JOIN roles r ON r.id = mr.role_id
+    LEFT JOIN members a ON a.id = mr.assigned_by
+    WHERE mr.deactivated_at IS NULL
+      AND mr.expires_at IS NOT NULL
+      AND mr.expires_at <= date('now')
+  `).all() as any[];
+
+  const deactivate = db.prepare(`
+    UPDATE member_roles SET deactivated_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND deactivated_at IS NULL
+  `);
+
+  let count = 0;
+  for (const assignment of expired) {
+    if (deactivate.run(assignment.id).changes === 0) {
+      continue;
+    }
+    count++;
+
+    await recordRoleChange({
+      memberId: assignment.member_id,
+      roleName: assignment.role_name,
+      action: "expire",
+      reason: `Term ended on ${assignment.expires_at}`,
+      expiresAt: assignment.expires_at
+    });
+
+    if (assignment.assigner_email) {
+      await sendMail({
+        to: assignment.assigner_email,
+        subject: `${assignment.role_display_name} role expired for ${assignment.member_name}`,
+        html: generateRoleExpiredEmail(assignment.assigner_name, assignment.member_name, assignment.role_display_name, assignment.expires_at),
+        text: `The ${assignment.role_display_name} role you gave ${assignment.member_name} expired on ${assignment.expires_at}.`
+      });
+    }
+  }
+
+  if (count > 0) {
+    console.log(`[Roles] Deactivated ${count} expired role assignment(s)`);
+  }
+
+  return count;
+}
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// Started once per server process from instrumentation.ts.
+export function startRoleExpirySweep() {
+  if (sweepTimer) {
+    return;
+  }
+
+  const sweep = () => {
+    expireRoleAssignments().catch(err => {
+      console.error("Error expiring role assignments:", err);
+    });
+  };
+
+  sweep();
+  sweepTimer = setInterval(sweep, ROLE_EXPIRY_SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
@@ -0,0 +1,132 @@
+"use server";
+
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import { getMemberRoles } from "./role-db-helpers";
+import type { RoleAuditAction } from "./role-audit";
+
+export type RoleAuditRecord = {
+  id: number;
+  member_id: number;
+  member_name: string | null;
+  member_email: string | null;
+  role_name: string;
+  role_display_name: string | null;
+  action: RoleAuditAction;
+  actor_id: number | null;
+  actor_name: string | null;
+  reason: string | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+};
+
+export type RoleAuditFilters = {
+  search?: string;
+  roleName?: string;
+  action?: RoleAuditAction | "";
+  from?: string;
+  to?: string;
+};
+
+const AUDIT_PAGE_SIZE = 200;
+
+function selectAudit(where: string) {
+  return `
+    SELECT ra.*,
+           m.full_name AS member_name, m.email AS member_email,
+           r.display_name AS role_display_name,
+           a.full_name AS actor_name
+    FROM role_audit ra
+    LEFT JOIN members m ON m.id = ra.member_id
+    LEFT JOIN members a ON a.id = ra.actor_id
+    LEFT JOIN roles r ON r.role_name = ra.role_name
+    ${where}
+    ORDER BY ra.created_at DESC, ra.id DESC
+    LIMIT ${AUDIT_PAGE_SIZE}
+  `;
+}
+
+export async function getRoleAuditLog(filters: RoleAuditFilters = {}): Promise<{
+  success: boolean;
+  entries?: RoleAuditRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "roles.history")) {
+      return { success: false, error: "You don't have permission to view role history" };
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.search?.trim()) {
+      const pattern = `%${filters.search.trim()}%`;
+      conditions.push("(m.full_name LIKE ? OR m.email LIKE ? OR a.full_name LIKE ? OR ra.reason LIKE ?)");
+      params.push(pattern, pattern, pattern, pattern);
+    }
+    if (filters.roleName) {
+      conditions.push("ra.role_name = ?");
+      params.push(filters.roleName);
+    }
+    if (filters.action) {
+      conditions.push("ra.action = ?");
+      params.push(filters.action);
+    }
+    if (filters.from) {
+      conditions.push("date(ra.created_at) >= date(?)");
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push("date(ra.created_at) <= date(?)");
+      params.push(filters.to);
+    }
+
+    const db = await getDatabase();
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const entries = db.prepare(selectAudit(where)).all(...params) as RoleAuditRecord[];
+
+    return { success: true, entries };
+  } catch (error: any) {
+    console.error("Error fetching role history:", error);
+    return { success: false, error: "Failed to fetch role history" };
+  }
+}
+
+export async function getMemberRoleTimeline(memberId: number): Promise<{
+  success: boolean;
+  member?: { id: number; full_name: string; email: string; form_class: string | null };
+  roles?: any[];
+  entries?: RoleAuditRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "roles.history")) {
+      return { success: false, error: "You don't have permission to view role history" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`
+      SELECT id, full_name, email, form_class FROM members WHERE id = ?
+    `).get(memberId) as any;
+
+    const entries = db.prepare(selectAudit("WHERE ra.member_id = ?")).all(memberId) as RoleAuditRecord[];
+
+    if (!member && entries.length === 0) {
+      return { success: false, error: "Member not found" };
+    }
+
+    return {
+      success: true,
+      member,
+      roles: member ? await getMemberRoles(member.id) : [],
+      entries
+    };
+  } catch (error: any) {
+    console.error("Error fetching member role timeline:", error);
+    return { success: false, error: "Failed to fetch role history" };
+  }
+}
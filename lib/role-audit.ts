@@ -0,0 +1,38 @@
+import "server-only";
+import { getDatabase } from "./database";
+
+// Writer for the append-only role_audit table. Call it next to
+// every insert, update or delete on member_roles. actorId is the signed-in
+// member (or null for system changes) and is never taken from client input.
+
+export type RoleAuditAction = "grant" | "revoke" | "update" | "expire";
+
+export type RoleAuditEntry = {
+  memberId: number;
+  roleName: string;
+  action: RoleAuditAction;
+  actorId?: number | null;
+  reason?: string | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+};
+
+const MAX_REASON_LENGTH = 500;
+
+export async function recordRoleChange(entry: RoleAuditEntry) {
+  const db = await getDatabase();
+  const reason = entry.reason?.trim().slice(0, MAX_REASON_LENGTH) || null;
+
+  db.prepare(`
+    INSERT INTO role_audit (member_id, role_name, action, actor_id, reason, starts_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.memberId,
+    entry.roleName,
+    entry.action,
+    entry.actorId ?? null,
+    reason,
+    entry.startsAt ?? null,
+    entry.expiresAt ?? null
+  );
+}
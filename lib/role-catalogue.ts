@@ -0,0 +1,211 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { getMemberPermissionLevel } from "./role-db-helpers";
+import { CURRENT_OR_UPCOMING_ASSIGNMENT_SQL } from "./role-assignments";
+
+// CRUD over the roles table, used by the /api/roles handlers.
+// Callers must already hold roles.manage; on top of that nobody may create,
+// edit or delete a role at or above their own permission_level, the same rule
+// that limits who they can assign roles to.
+
+export type RoleType = "primary" | "sub";
+
+export type RoleInput = {
+  role_name?: string;
+  display_name: string;
+  description?: string | null;
+  role_type: RoleType;
+  parent_role_id?: number | null;
+  permission_level: number;
+  resets_yearly?: boolean;
+};
+
+export type RoleRecord = {
+  id: number;
+  role_name: string;
+  role_type: RoleType;
+  display_name: string;
+  description: string | null;
+  permission_level: number;
+  parent_role_id: number | null;
+  parent_role_name: string | null;
+  is_system: number;
+  resets_yearly: number;
+  member_count: number;
+  created_at: string;
+  updated_at: string | null;
+};
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,49}$/;
+
+function slugify(displayName: string): string {
+  return displayName.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export async function listRoles(): Promise<RoleRecord[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT r.*, p.role_name AS parent_role_name,
+           (SELECT COUNT(*) FROM member_roles mr WHERE mr.role_id = r.id AND ${CURRENT_OR_UPCOMING_ASSIGNMENT_SQL}) AS member_count
+    FROM roles r
+    LEFT JOIN roles p ON p.id = r.parent_role_id
+    ORDER BY r.permission_level ASC, r.role_name ASC
+  `).all() as RoleRecord[];
+}
+
+async function getRole(id: number): Promise<RoleRecord | undefined> {
+  return (await listRoles()).find(role => role.id === id);
+}
+
+async function validateRoleInput(input: RoleInput, actorLevel: number, existing?: RoleRecord): Promise<string | undefined> {
+  if (!input.display_name?.trim()) {
+    return "Display name is required";
+  }
+
+  if (input.role_type !== "primary" && input.role_type !== "sub") {
+    return "Role type must be primary or sub";
+  }
+
+  if (!Number.isInteger(input.permission_level) || input.permission_level < 1) {
+    return "Permission level must be a whole number of at least 1";
+  }
+
+  if (input.permission_level >= actorLevel) {
+    return `Permission level must be below your own (${actorLevel})`;
+  }
+
+  if (existing?.is_system && input.role_type !== existing.role_type) {
+    return "Built-in roles can't change type";
+  }
+
+  if (input.role_type === "sub") {
+    if (!input.parent_role_id) {
+      return "Sub-roles need a parent primary role";
+    }
+
+    const db = await getDatabase();
+    const parent = db.prepare(`SELECT role_type FROM roles WHERE id = ?`).get(input.parent_role_id) as any;
+    if (!parent || parent.role_type !== "primary") {
+      return "The parent must be a primary role";
+    }
+  }
+
+  if (existing && input.role_type === "sub" && existing.role_type === "primary") {
+    const db = await getDatabase();
+    const children = db.prepare(`SELECT COUNT(*) AS count FROM roles WHERE parent_role_id = ?`).get(existing.id) as any;
+    if (children.count > 0) {
+      return "Move this role's sub-roles to another parent before making it a sub-role";
+    }
+  }
+
+  return undefined;
+}
+
+export async function createRole(input: RoleInput, actorId: number): Promise<{ success: boolean; role?: RoleRecord; error?: string }> {
+  const actorLevel = await getMemberPermissionLevel(actorId);
+  const error = await validateRoleInput(input, actorLevel);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const roleName = input.role_name?.trim() || slugify(input.display_name);
+  if (!ROLE_NAME_PATTERN.test(roleName)) {
+    return { success: false, error: "Role key must start with a letter and use only lowercase letters, numbers and underscores" };
+  }
+
+  const db = await getDatabase();
+  if (db.prepare(`SELECT id FROM roles WHERE role_name = ?`).get(roleName)) {
+    return { success: false, error: `A role with the key '${roleName}' already exists` };
+  }
+
+  const result = db.prepare(`
+    INSERT INTO roles (role_name, role_type, display_name, description, permission_level, parent_role_id, resets_yearly, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `).run(
+    roleName,
+    input.role_type,
+    input.display_name.trim(),
+    input.description?.trim() || null,
+    input.permission_level,
+    input.role_type === "sub" ? input.parent_role_id : null,
+    input.resets_yearly ? 1 : 0
+  );
+
+  console.log(`[Roles] Member ${actorId} created role ${roleName}`);
+  return { success: true, role: await getRole(Number(result.lastInsertRowid)) };
+}
+
+export async function updateRole(id: number, input: RoleInput, actorId: number): Promise<{ success: boolean; role?: RoleRecord; error?: string }> {
+  const existing = await getRole(id);
+  if (!existing) {
+    return { success: false, error: "Role not found" };
+  }
+
+  const actorLevel = await getMemberPermissionLevel(actorId);
+  if (existing.permission_level >= actorLevel) {
+    return { success: false, error: `You can only edit roles below your own permission level (${actorLevel})` };
+  }
+
+  const error = await validateRoleInput(input, actorLevel, existing);
+  if (error) {
+    return { success: false, error };
+  }
+
+  if (input.parent_role_id === id) {
+    return { success: false, error: "A role can't be its own parent" };
+  }
+
+  // role_name is referenced from code and audit history, so it never changes.
+  const db = await getDatabase();
+  db.prepare(`
+    UPDATE roles
+    SET role_type = ?, display_name = ?, description = ?, permission_level = ?, parent_role_id = ?, resets_yearly = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `).run(
+    input.role_type,
+    input.display_name.trim(),
+    input.description?.trim() || null,
+    input.permission_level,
+    input.role_type === "sub" ? input.parent_role_id : null,
+    input.resets_yearly ? 1 : 0,
+    id
+  );
+
+  console.log(`[Roles] Member ${actorId} updated role ${existing.role_name}`);
+  return { success: true, role: await getRole(id) };
+}
+
+export async function deleteRole(id: number, actorId: number): Promise<{ success: boolean; error?: string }> {
+  const existing = await getRole(id);
+  if (!existing) {
+    return { success: false, error: "Role not found" };
+  }
+
+  if (existing.is_system) {
+    return { success: false, error: "Built-in roles can't be deleted" };
+  }
+
+  const actorLevel = await getMemberPermissionLevel(actorId);
+  if (existing.permission_level >= actorLevel) {
+    return { success: false, error: `You can only delete roles below your own permission level (${actorLevel})` };
+  }
+
+  if (existing.member_count > 0) {
+    return { success: false, error: `Remove this role from its ${existing.member_count} member(s) first` };
+  }
+
+  const db = await getDatabase();
+  const children = db.prepare(`SELECT COUNT(*) AS count FROM roles WHERE parent_role_id = ?`).get(id) as any;
+  if (children.count > 0) {
+    return { success: false, error: "Delete or move this role's sub-roles first" };
+  }
+
+  db.transaction(() => {
+    // Expired assignments don't count as members but still reference the role.
+    db.prepare(`DELETE FROM member_roles WHERE role_id = ?`).run(id);
+    db.prepare(`DELETE FROM roles WHERE id = ?`).run(id);
+  })();
+
+  console.log(`[Roles] Member ${actorId} deleted role ${existing.role_name}`);
+  return { success: true };
+}
@@ -1,6 +1,23 @@
 "use server";
 
 import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import {
+  ACTIVE_ASSIGNMENT_SQL,
+  CURRENT_OR_UPCOMING_ASSIGNMENT_SQL,
+  normalizeRoleTerm,
+  type RoleTerm
+} from "./role-assignments";
+import { recordRoleChange } from "./role-audit";
+import { getFormsForRoles } from "./forms";
+import {
+  roleNeedsApproval,
+  createRoleRequest,
+  getRoleRequest,
+  closeRoleRequest,
+  notifyRoleRequestDecision
+} from "./role-requests";
 
 export async function getAllRoles() {
   const db = await getDatabase();
@@ -29,26 +46,52 @@ export async function getRoleByName(roleName: string) {
 export async function getMemberRoles(memberId: number) {
   const db = await getDatabase();
   return db.prepare(`
-    SELECT r.* 
+    SELECT r.*, mr.assigned_at, mr.assigned_by, mr.starts_at, mr.expires_at
     FROM roles r
     INNER JOIN member_roles mr ON r.id = mr.role_id
-    WHERE mr.member_id = ?
+    WHERE mr.member_id = ? AND ${ACTIVE_ASSIGNMENT_SQL}
     ORDER BY r.permission_level ASC
   `).all(memberId);
 }
 
+// Roles granted with a start date that hasn't arrived yet.
+export async function getMemberUpcomingRoles(memberId: number) {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT r.*, mr.assigned_at, mr.assigned_by, mr.starts_at, mr.expires_at
+    FROM roles r
+    INNER JOIN member_roles mr ON r.id = mr.role_id
+    WHERE mr.member_id = ? AND ${CURRENT_OR_UPCOMING_ASSIGNMENT_SQL}
+      AND mr.starts_at > date('now')
+    ORDER BY mr.starts_at ASC
+  `).all(memberId);
+}
+
 export async function getMemberRoleNames(memberId: number): Promise<string[]> {
   const roles = await getMemberRoles(memberId);
   return roles.map((role: any) => role.role_name);
 }
 
+export async function getMemberPermissions(memberId: number): Promise<string[]> {
+  const db = await getDatabase();
+  const rows = db.prepare(`
+    SELECT DISTINCT p.name
+    FROM member_roles mr
+    INNER JOIN role_permissions rp ON rp.role_id = mr.role_id
+    INNER JOIN permissions p ON p.id = rp.permission_id
+    WHERE mr.member_id = ? AND ${ACTIVE_ASSIGNMENT_SQL}
+  `).all(memberId) as { name: string }[];
+
+  return rows.map(row => row.name);
+}
+
 export async function memberHasRole(memberId: number, roleName: string): Promise<boolean> {
   const db = await getDatabase();
   const result = db.prepare(`
     SELECT COUNT(*) as count
     FROM member_roles mr
     INNER JOIN roles r ON mr.role_id = r.id
-    WHERE mr.member_id = ? AND r.role_name = ?
+    WHERE mr.member_id = ? AND r.role_name = ? AND ${ACTIVE_ASSIGNMENT_SQL}
   `).get(memberId, roleName) as any;
   
   return result.count > 0;
@@ -61,7 +104,7 @@ export async function memberHasAnyRole(memberId: number, roleNames: string[]): P
     SELECT COUNT(*) as count
     FROM member_roles mr
     INNER JOIN roles r ON mr.role_id = r.id
-    WHERE mr.member_id = ? AND r.role_name IN (${placeholders})
+    WHERE mr.member_id = ? AND r.role_name IN (${placeholders}) AND ${ACTIVE_ASSIGNMENT_SQL}
   `).get(memberId, ...roleNames) as any;
   
   return result.count > 0;
@@ -73,13 +116,131 @@ export async function getMemberPermissionLevel(memberId: number): Promise<number
     SELECT MAX(r.permission_level) as max_level
     FROM member_roles mr
     INNER JOIN roles r ON mr.role_id = r.id
-    WHERE mr.member_id = ?
+    WHERE mr.member_id = ? AND ${ACTIVE_ASSIGNMENT_SQL}
   `).get(memberId) as any;
   
   return result.max_level || 0;
 }
 
-export async function addRoleToMember(memberId: number, roleName: string, assignedBy?: number) {
+async function getCurrentActor(): Promise<{ actor?: any; error?: string }> {
+  const actor = await fetchCurrentUser(false);
+  return actor ? { actor } : { error: "Not authenticated" };
+}
+
+// Delegation rules, applied to both granting and revoking: nobody may touch a
+// role at or above their own permission_level, and members who may only assign
+// beadle can only do so for students in a form they supervise. The one
+// exception is the admin tier, which has nobody above it: members at admin
+// level may grant admin-level roles, but only as a request (`viaApproval`) that
+// another member signs off.
+async function checkDelegation(actor: any, memberId: number, roleName: string, viaApproval = false): Promise<string | undefined> {
+  const role = await getRoleByName(roleName) as any;
+  if (!role) {
+    return `Role '${roleName}' not found`;
+  }
+
+  if (!can(actor, "roles.assign") && !(roleName === "beadle" && can(actor, "roles.assign.beadle"))) {
+    return `You don't have permission to change the '${role.display_name}' role`;
+  }
+
+  const levelViolation = await checkRoleLevel(actor, role, viaApproval);
+  if (levelViolation) {
+    return levelViolation;
+  }
+
+  if (can(actor, "roles.assign")) {
+    return undefined;
+  }
+
+  const db = await getDatabase();
+  const member = db.prepare(`
+    SELECT c.form_id
+    FROM members m
+    LEFT JOIN classes c ON c.id = m.class_id
+    WHERE m.id = ?
+  `).get(memberId) as { form_id: number | null } | undefined;
+  if (!member) {
+    return "Member not found";
+  }
+
+  if (!(await memberHasRole(memberId, "student"))) {
+    return "Only students can be made beadles";
+  }
+
+  const forms = await getFormsForRoles(actor.roles || []);
+  if (forms.length === 0) {
+    return "You are not assigned to supervise any form";
+  }
+
+  if (!forms.some(form => form.id === member.form_id)) {
+    return `You can only assign beadles to students in ${forms.map(form => form.display_name).join(", ")}`;
+  }
+
+  return undefined;
+}
+
+// The grant is always recorded against the signed-in member.
+async function checkRoleLevel(actor: any, role: any, viaApproval: boolean): Promise<string | undefined> {
+  const actorLevel = await getMemberPermissionLevel(actor.id);
+  const adminLevel = ((await getRoleByName("admin")) as any)?.permission_level ?? Infinity;
+  const adminTierRequest = viaApproval && actorLevel >= adminLevel && role.permission_level >= adminLevel;
+  if (role.permission_level >= actorLevel && !adminTierRequest) {
+    return `You can only assign roles below your own permission level ('${role.display_name}' is level ${role.permission_level}, yours is ${actorLevel})`;
+  }
+
+  return undefined;
+}
+
+// Invite codes are checked against the same rules when they're created, since
+// there's no member yet to run checkDelegation against. Only full role
+// assigners may attach a role, and a role that needs approval is requested
+// (not granted) when the code is redeemed.
+export async function checkInviteRoleDelegation(roleName: string): Promise<string | undefined> {
+  const { actor, error } = await getCurrentActor();
+  if (!actor) {
+    return error;
+  }
+
+  const role = await getRoleByName(roleName) as any;
+  if (!role) {
+    return `Role '${roleName}' not found`;
+  }
+
+  if (!can(actor, "roles.assign")) {
+    return `You don't have permission to hand out the '${role.display_name}' role`;
+  }
+
+  return checkRoleLevel(actor, role, await roleNeedsApproval(roleName));
+}
+
+export async function addRoleToMember(memberId: number, roleName: string, term?: RoleTerm, reason?: string) {
+  try {
+    const { actor, error } = await getCurrentActor();
+    if (!actor) {
+      return { success: false, error };
+    }
+
+    const needsApproval = await roleNeedsApproval(roleName) && !(await memberHasRole(memberId, roleName));
+    const violation = await checkDelegation(actor, memberId, roleName, needsApproval);
+    if (violation) {
+      return { success: false, error: violation };
+    }
+
+    if (needsApproval) {
+      return await requestRole(memberId, roleName, actor.id, term, reason);
+    }
+
+    return await grantRole(memberId, roleName, actor.id, term, reason);
+  } catch (error: any) {
+    console.error("Error adding role:", error);
+    return { success: false, error: error.message };
+  }
+}
+
+// Re-granting a role that has expired or is already held replaces its term.
+// `actorId` is written to member_roles and the audit trail, so it must come
+// from getCurrentActor, never from an action's arguments.
+async function grantRole(memberId: number, roleName: string, actorId: number, term?: RoleTerm, reason?: string) {
   try {
     const db = await getDatabase();
  
@@ -88,44 +249,94 @@ export async function addRoleToMember(memberId: number, roleName: string, assign
       return { success: false, error: `Role '${roleName}' not found` };
     }
 
-    const exists = await memberHasRole(memberId, roleName);
-    if (exists) {
+    const normalized = normalizeRoleTerm(term);
+    if (!normalized.term) {
+      return { success: false, error: normalized.error };
+    }
+
+    const existing = db.prepare(`
+      SELECT mr.id FROM member_roles mr
+      WHERE mr.member_id = ? AND mr.role_id = ? AND ${CURRENT_OR_UPCOMING_ASSIGNMENT_SQL}
+    `).get(memberId, (role as any).id);
+    if (existing && !term) {
       return { success: true, message: "Role already assigned" };
     }
 
     db.prepare(`
-      INSERT INTO member_roles (member_id, role_id, assigned_by)
-      VALUES (?, ?, ?)
-    `).run(memberId, (role as any).id, assignedBy || null);
+      INSERT INTO member_roles (member_id, role_id, assigned_by, starts_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(member_id, role_id) DO UPDATE SET
+        assigned_by = excluded.assigned_by,
+        assigned_at = CURRENT_TIMESTAMP,
+        starts_at = excluded.starts_at,
+        expires_at = excluded.expires_at,
+        deactivated_at = NULL
+    `).run(memberId, (role as any).id, actorId, normalized.term.starts_at, normalized.term.expires_at);
+
+    await recordRoleChange({
+      memberId,
+      roleName,
+      action: existing ? "update" : "grant",
+      actorId,
+      reason,
+      startsAt: normalized.term.starts_at,
+      expiresAt: normalized.term.expires_at
+    });
 
     db.prepare(`
       UPDATE members SET updated_at = CURRENT_TIMESTAMP WHERE id = ?
     `).run(memberId);
     
-    return { success: true, message: "Role added successfully" };
+    return { success: true, message: existing ? "Role term updated" : "Role added successfully" };
   } catch (error: any) {
     console.error("Error adding role:", error);
     return { success: false, error: error.message };
   }
 }
 
-export async function removeRoleFromMember(memberId: number, roleName: string) {
+// Queues a grant that needs a second member's sign-off instead of applying it.
+async function requestRole(memberId: number, roleName: string, requestedBy: number, term?: RoleTerm, reason?: string) {
+  const normalized = normalizeRoleTerm(term);
+  if (!normalized.term) {
+    return { success: false, error: normalized.error };
+  }
+
+  await createRoleRequest(memberId, roleName, requestedBy, normalized.term, reason);
+  console.log(`[Roles] Member ${requestedBy} requested ${roleName} for member ${memberId}`);
+  return { success: true, pending: true, message: "Role requested; it takes effect once approved" };
+}
+
+async function revokeRole(memberId: number, roleName: string, actorId: number, reason?: string) {
+  const db = await getDatabase();
+  const result = db.prepare(`
+    DELETE FROM member_roles
+    WHERE member_id = ? AND role_id = (SELECT id FROM roles WHERE role_name = ?)
+  `).run(memberId, roleName);
+
+  if (result.changes > 0) {
+    await recordRoleChange({ memberId, roleName, action: "revoke", actorId, reason });
+  }
+}
+
+export async function removeRoleFromMember(memberId: number, roleName: string, reason?: string) {
   try {
-    const db = await getDatabase();
+    const { actor, error } = await getCurrentActor();
+    if (!actor) {
+      return { success: false, error };
+    }
 
-    const role = await getRoleByName(roleName);
-    if (!role) {
-      return { success: false, error: `Role '${roleName}' not found` };
+    const violation = await checkDelegation(actor, memberId, roleName);
+    if (violation) {
+      return { success: false, error: violation };
     }
 
-    db.prepare(`
-      DELETE FROM member_roles 
-      WHERE member_id = ? AND role_id = ?
-    `).run(memberId, (role as any).id);
+    const db = await getDatabase();
+
+    await revokeRole(memberId, roleName, actor.id, reason);
 
     const remainingRoles = await getMemberRoles(memberId);
     if (remainingRoles.length === 0) {
-      await addRoleToMember(memberId, 'student');
+      await grantRole(memberId, 'student', actor.id, undefined, "Default role after the last one was removed");
     }
 
     db.prepare(`
@@ -139,50 +350,199 @@ export async function removeRoleFromMember(memberId: number, roleName: string) {
   }
 }
 
-export async function setMemberRoles(memberId: number, roleNames: string[], assignedBy?: number) {
+// `terms` sets or changes the term of any role in `roleNames`; roles left out
+// of it keep whatever term they already have. Changes are recorded against the
+// signed-in member.
+export async function setMemberRoles(memberId: number, roleNames: string[], terms: Record<string, RoleTerm> = {}, reason?: string) {
   try {
+    const { actor, error } = await getCurrentActor();
+    if (!actor) {
+      return { success: false, error };
+    }
+
     const db = await getDatabase();
 
-    for (const roleName of roleNames) {
-      const role = await getRoleByName(roleName);
-      if (!role) {
-        return { success: false, error: `Role '${roleName}' not found` };
+    const currentAssignments = db.prepare(`
+      SELECT r.role_name, mr.starts_at, mr.expires_at
+      FROM member_roles mr
+      INNER JOIN roles r ON r.id = mr.role_id
+      WHERE mr.member_id = ? AND ${CURRENT_OR_UPCOMING_ASSIGNMENT_SQL}
+    `).all(memberId) as { role_name: string; starts_at: string | null; expires_at: string | null }[];
+    const currentRoles = currentAssignments.map(assignment => assignment.role_name);
+
+    const addedRoles = roleNames.filter(name => !currentRoles.includes(name));
+    const removedRoles = currentRoles.filter(name => !roleNames.includes(name));
+    const retimedRoles = currentAssignments
+      .filter(assignment => roleNames.includes(assignment.role_name) && terms[assignment.role_name])
+      .filter(assignment => {
+        const { term } = normalizeRoleTerm(terms[assignment.role_name]);
+        return !term || term.starts_at !== assignment.starts_at || term.expires_at !== assignment.expires_at;
+      })
+      .map(assignment => assignment.role_name);
+
+    const pendingRoles: string[] = [];
+    for (const roleName of addedRoles) {
+      if (await roleNeedsApproval(roleName)) {
+        pendingRoles.push(roleName);
+      }
+    }
+
+    for (const roleName of [...addedRoles, ...removedRoles, ...retimedRoles]) {
+      const violation = await checkDelegation(actor, memberId, roleName, pendingRoles.includes(roleName));
+      if (violation) {
+        return { success: false, error: violation };
       }
     }
 
-    db.prepare(`DELETE FROM member_roles WHERE member_id = ?`).run(memberId);
+    for (const roleName of [...addedRoles, ...retimedRoles]) {
+      const { error } = normalizeRoleTerm(terms[roleName]);
+      if (error) {
+        return { success: false, error };
+      }
+    }
 
-    for (const roleName of roleNames) {
-      await addRoleToMember(memberId, roleName, assignedBy);
+    // Only touch the rows that change so untouched roles keep who granted them and when.
+    for (const roleName of removedRoles) {
+      await revokeRole(memberId, roleName, actor.id, reason);
     }
 
-    if (roleNames.length === 0) {
-      await addRoleToMember(memberId, 'student', assignedBy);
+    for (const roleName of [...addedRoles, ...retimedRoles]) {
+      if (pendingRoles.includes(roleName)) {
+        await requestRole(memberId, roleName, actor.id, terms[roleName], reason);
+      } else {
+        await grantRole(memberId, roleName, actor.id, terms[roleName], reason);
+      }
     }
-    
-    return { success: true, message: "Roles updated successfully" };
+
+    if (roleNames.length === pendingRoles.length && (await getMemberRoles(memberId)).length === 0) {
+      await grantRole(memberId, 'student', actor.id, undefined, "Default role after the last one was removed");
+    }
+
+    return {
+      success: true,
+      pending: pendingRoles,
+      message: pendingRoles.length > 0
+        ? `Roles updated; ${pendingRoles.length} grant(s) are waiting for approval`
+        : "Roles updated successfully"
+    };
   } catch (error: any) {
     console.error("Error setting roles:", error);
     return { success: false, error: error.message };
   }
 }
 
+// The approver must be someone other than the requester who holds
+// roles.approve and could have granted the role themselves.
+async function checkApprover(requestId: number) {
+  const { actor, error } = await getCurrentActor();
+  if (!actor) {
+    return { error };
+  }
+
+  if (!can(actor, "roles.approve")) {
+    return { error: "You don't have permission to approve role requests" };
+  }
+
+  const request = await getRoleRequest(requestId);
+  if (!request || request.status !== "pending") {
+    return { error: "This request has already been decided" };
+  }
+
+  if (request.requested_by === actor.id) {
+    return { error: "Someone else has to approve a role request you made" };
+  }
+
+  const violation = await checkDelegation(actor, request.member_id, request.role_name, true);
+  if (violation) {
+    return { error: violation };
+  }
+
+  return { actor, request };
+}
+
+export async function approveRoleRequest(requestId: number, note?: string) {
+  try {
+    const { actor, request, error } = await checkApprover(requestId);
+    if (!actor || !request) {
+      return { success: false, error };
+    }
+
+    const normalized = normalizeRoleTerm({ starts_at: request.starts_at, expires_at: request.expires_at });
+    if (!normalized.term) {
+      return { success: false, error: `${normalized.error}; reject this request and ask for a new one` };
+    }
+
+    if (!(await closeRoleRequest(requestId, "approved", actor.id, note))) {
+      return { success: false, error: "This request has already been decided" };
+    }
+
+    const reason = [request.reason, `Approved request from ${request.requester_name || "a former member"}`]
+      .filter(Boolean)
+      .join(" - ");
+    const result = await grantRole(request.member_id, request.role_name, actor.id, normalized.term, reason);
+    if (!result.success) {
+      return result;
+    }
+
+    await notifyRoleRequestDecision(requestId);
+    console.log(`[Roles] ${actor.email} approved ${request.role_name} for member ${request.member_id}`);
+    return { success: true, message: `${request.role_display_name} granted to ${request.member_name}` };
+  } catch (error: any) {
+    console.error("Error approving role request:", error);
+    return { success: false, error: error.message };
+  }
+}
+
+export async function rejectRoleRequest(requestId: number, note?: string) {
+  try {
+    const { actor, request, error } = await checkApprover(requestId);
+    if (!actor || !request) {
+      return { success: false, error };
+    }
+
+    if (!(await closeRoleRequest(requestId, "rejected", actor.id, note))) {
+      return { success: false, error: "This request has already been decided" };
+    }
+
+    await notifyRoleRequestDecision(requestId);
+    console.log(`[Roles] ${actor.email} rejected ${request.role_name} for member ${request.member_id}`);
+    return { success: true, message: "Request rejected" };
+  } catch (error: any) {
+    console.error("Error rejecting role request:", error);
+    return { success: false, error: error.message };
+  }
+}
+
 export async function getMembersByRole(roleName: string) {
+  const user = await fetchCurrentUser(false);
+  if (!can(user, "members.view")) {
+    return [];
+  }
+
   const db = await getDatabase();
   return db.prepare(`
-    SELECT DISTINCT m.*
+    SELECT DISTINCT m.id, m.full_name, m.email, m.form_class, m.created_at
     FROM members m
     INNER JOIN member_roles mr ON m.id = mr.member_id
     INNER JOIN roles r ON mr.role_id = r.id
-    WHERE r.role_name = ?
+    WHERE r.role_name = ? AND ${ACTIVE_ASSIGNMENT_SQL}
     ORDER BY m.full_name ASC
   `).all(roleName);
 }
 
 export async function getAllMembersWithRoles() {
+  const user = await fetchCurrentUser(false);
+  if (!can(user, "members.view")) {
+    return [];
+  }
+
   const db = await getDatabase();
   const members = db.prepare(`
-    SELECT * FROM members ORDER BY full_name ASC
+    SELECT m.id, m.full_name, m.email, m.form_class, m.class_id, c.form_id,
+           m.email_verified_at, m.created_at, m.updated_at
+    FROM members m
+    LEFT JOIN classes c ON c.id = m.class_id
+    ORDER BY m.full_name ASC
   `).all();
   
   const membersWithRoles = [];
@@ -191,7 +551,8 @@ export async function getAllMembersWithRoles() {
     membersWithRoles.push({
       ...member,
       roles: roles.map((r: any) => r.role_name),
-      roleDetails: roles
+      roleDetails: roles,
+      upcomingRoles: await getMemberUpcomingRoles(member.id)
     });
   }
   
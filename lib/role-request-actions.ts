@@ -0,0 +1,76 @@
+"use server";
+
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import { setSetting } from "./settings";
+import { ROLE_APPROVAL_LEVEL_SETTING } from "./auth-config";
+import {
+  listRoleRequests,
+  getRoleApprovalLevel,
+  type RoleRequestRecord,
+  type RoleRequestStatus
+} from "./role-requests";
+
+// Approving and rejecting live in role-db-helpers next to the grant they apply.
+
+export async function getRoleRequests(status: RoleRequestStatus = "pending"): Promise<{
+  success: boolean;
+  requests?: RoleRequestRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "roles.approve")) {
+      return { success: false, error: "You don't have permission to review role requests" };
+    }
+
+    return { success: true, requests: await listRoleRequests(status) };
+  } catch (error: any) {
+    console.error("Error fetching role requests:", error);
+    return { success: false, error: "Failed to fetch role requests" };
+  }
+}
+
+export async function getRoleApprovalPolicy() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can view the role approval policy" };
+    }
+
+    const db = await getDatabase();
+    const levels = db.prepare(`
+      SELECT permission_level as level, GROUP_CONCAT(display_name, ', ') as roles
+      FROM roles
+      GROUP BY permission_level
+      ORDER BY permission_level
+    `).all() as { level: number; roles: string }[];
+
+    return { success: true, approvalLevel: await getRoleApprovalLevel(), levels };
+  } catch (error: any) {
+    console.error("Error fetching role approval policy:", error);
+    return { success: false, error: "Failed to fetch role approval policy" };
+  }
+}
+
+export async function updateRoleApprovalPolicy(approvalLevel: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can change the role approval policy" };
+    }
+
+    if (!Number.isInteger(approvalLevel) || approvalLevel < 2) {
+      return { success: false, error: "Invalid permission level" };
+    }
+
+    await setSetting(ROLE_APPROVAL_LEVEL_SETTING, approvalLevel, user.id);
+
+    console.log(`Admin ${user.email} set the role approval level to ${approvalLevel}`);
+    return { success: true, message: "Role approval policy updated" };
+  } catch (error: any) {
+    console.error("Error updating role approval policy:", error);
+    return { success: false, error: "Failed to update role approval policy" };
+  }
+}
@@ -0,0 +1,175 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { getSetting } from "./settings";
+import { sendMail, buildAppUrl } from "./mailer";
+import { generateRoleRequestEmail, generateRoleRequestDecisionEmail } from "./emailUtils";
+import { ACTIVE_ASSIGNMENT_SQL, type RoleTerm } from "./role-assignments";
+import { ROLE_APPROVAL_LEVEL_SETTING, DEFAULT_ROLE_APPROVAL_LEVEL } from "./auth-config";
+
+// Storage and notifications for role_requests. Who may request,
+// approve or reject is decided by the callers in role-db-helpers.
+
+export type RoleRequestStatus = "pending" | "approved" | "rejected";
+
+export type RoleRequestRecord = {
+  id: number;
+  member_id: number;
+  member_name: string | null;
+  member_email: string | null;
+  form_class: string | null;
+  role_id: number;
+  role_name: string;
+  role_display_name: string;
+  permission_level: number;
+  requested_by: number | null;
+  requester_name: string | null;
+  reason: string | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  status: RoleRequestStatus;
+  decided_by: number | null;
+  decider_name: string | null;
+  decision_note: string | null;
+  decided_at: string | null;
+  created_at: string;
+};
+
+const ROLE_REQUEST_PAGE_SIZE = 200;
+
+export async function getRoleApprovalLevel(): Promise<number> {
+  return getSetting<number>(ROLE_APPROVAL_LEVEL_SETTING, DEFAULT_ROLE_APPROVAL_LEVEL);
+}
+
+export async function roleNeedsApproval(roleName: string): Promise<boolean> {
+  const db = await getDatabase();
+  const role = db.prepare(`SELECT permission_level FROM roles WHERE role_name = ?`).get(roleName) as any;
+  return !!role && role.permission_level >= (await getRoleApprovalLevel());
+}
+
+function selectRequests(where: string) {
+  return `
+    SELECT rr.*,
+           m.full_name AS member_name, m.email AS member_email, m.form_class,
+           r.role_name, r.display_name AS role_display_name, r.permission_level,
+           q.full_name AS requester_name,
+           d.full_name AS decider_name
+    FROM role_requests rr
+    INNER JOIN roles r ON r.id = rr.role_id
+    LEFT JOIN members m ON m.id = rr.member_id
+    LEFT JOIN members q ON q.id = rr.requested_by
+    LEFT JOIN members d ON d.id = rr.decided_by
+    ${where}
+  `;
+}
+
+export async function getRoleRequest(id: number): Promise<RoleRequestRecord | undefined> {
+  const db = await getDatabase();
+  return db.prepare(selectRequests("WHERE rr.id = ?")).get(id) as RoleRequestRecord | undefined;
+}
+
+// Pending requests oldest first so the queue is worked in order; decided ones newest first.
+export async function listRoleRequests(status: RoleRequestStatus): Promise<RoleRequestRecord[]> {
+  const db = await getDatabase();
+  const order = status === "pending" ? "rr.created_at ASC, rr.id ASC" : "rr.decided_at DESC, rr.id DESC";
+  return db.prepare(`
+    ${selectRequests("WHERE rr.status = ?")}
+    ORDER BY ${order}
+    LIMIT ${ROLE_REQUEST_PAGE_SIZE}
+  `).all(status) as RoleRequestRecord[];
+}
+
+// Asking again for a role that's already waiting replaces the earlier request's
+// term and reason rather than queueing a duplicate.
+export async function createRoleRequest(memberId: number, roleName: string, requestedBy: number | null, term: Required<RoleTerm>, reason?: string): Promise<number> {
+  const db = await getDatabase();
+  const role = db.prepare(`SELECT id FROM roles WHERE role_name = ?`).get(roleName) as any;
+
+  const existing = db.prepare(`
+    SELECT id FROM role_requests WHERE member_id = ? AND role_id = ? AND status = 'pending'
+  `).get(memberId, role.id) as any;
+
+  if (existing) {
+    db.prepare(`
+      UPDATE role_requests
+      SET requested_by = ?, reason = ?, starts_at = ?, expires_at = ?, created_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(requestedBy, reason || null, term.starts_at, term.expires_at, existing.id);
+    return existing.id;
+  }
+
+  const result = db.prepare(`
+    INSERT INTO role_requests (member_id, role_id, requested_by, reason, starts_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(memberId, role.id, requestedBy, reason || null, term.starts_at, term.expires_at);
+
+  const requestId = Number(result.lastInsertRowid);
+  await notifyApprovers(requestId);
+  return requestId;
+}
+
+// Marks a pending request as decided. Returns false if someone else got to it first.
+export async function closeRoleRequest(id: number, status: Exclude<RoleRequestStatus, "pending">, decidedBy: number, note?: string): Promise<boolean> {
+  const db = await getDatabase();
+  const result = db.prepare(`
+    UPDATE role_requests
+    SET status = ?, decided_by = ?, decision_note = ?, decided_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND status = 'pending'
+  `).run(status, decidedBy, note?.trim() || null, id);
+  return result.changes > 0;
+}
+
+// Emails every member who could approve the request: they hold roles.approve,
+// outrank the requested role and aren't the one asking.
+async function notifyApprovers(requestId: number) {
+  const request = await getRoleRequest(requestId);
+  if (!request) return;
+
+  const db = await getDatabase();
+  const approvers = db.prepare(`
+    SELECT m.id, m.full_name, m.email, MAX(r.permission_level) AS level
+    FROM members m
+    INNER JOIN member_roles mr ON mr.member_id = m.id
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE m.id != ? AND ${ACTIVE_ASSIGNMENT_SQL}
+      AND m.id IN (
+        SELECT mr.member_id FROM member_roles mr
+        INNER JOIN role_permissions rp ON rp.role_id = mr.role_id
+        INNER JOIN permissions p ON p.id = rp.permission_id
+        WHERE p.name = 'roles.approve' AND ${ACTIVE_ASSIGNMENT_SQL}
+      )
+    GROUP BY m.id
+    HAVING level > ?
+  `).all(request.requested_by ?? 0, request.permission_level) as any[];
+
+  if (approvers.length === 0) {
+    console.warn(`[Roles] No one can approve role request ${requestId} for ${request.role_name}`);
+    return;
+  }
+
+  const queueUrl = await buildAppUrl("/admin/role-requests");
+  for (const approver of approvers) {
+    await sendMail({
+      to: approver.email,
+      subject: `Approval needed: ${request.role_display_name} for ${request.member_name}`,
+      html: generateRoleRequestEmail(approver.full_name, request.requester_name || "A member", request.member_name || "a member", request.role_display_name, request.reason, queueUrl),
+      text: `${request.requester_name} has asked to give ${request.member_name} the ${request.role_display_name} role. Review it at ${queueUrl}`
+    });
+  }
+}
+
+export async function notifyRoleRequestDecision(requestId: number) {
+  const request = await getRoleRequest(requestId);
+  if (!request || !request.requested_by) return;
+
+  const db = await getDatabase();
+  const requester = db.prepare(`SELECT full_name, email FROM members WHERE id = ?`).get(request.requested_by) as any;
+  if (!requester) return;
+
+  const approved = request.status === "approved";
+  await sendMail({
+    to: requester.email,
+    subject: `${request.role_display_name} for ${request.member_name} ${approved ? "approved" : "rejected"}`,
+    html: generateRoleRequestDecisionEmail(requester.full_name, request.member_name || "the member", request.role_display_name, approved, request.decider_name || "An approver", request.decision_note),
+    text: `${request.decider_name} has ${approved ? "approved" : "rejected"} your request to give ${request.member_name} the ${request.role_display_name} role.${request.decision_note ? ` Note: ${request.decision_note}` : ""}`
+  });
+}
@@ -0,0 +1,72 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { ACTIVE_ASSIGNMENT_SQL } from "./role-assignments";
+import type { AttendanceEntry } from "./slip-attendance";
+
+// Class rosters for the beadle slip. A class's roster is every
+// member with an active student role whose class_id points at it, so it is
+// kept up to date by profile edits, the CSV member import and the year
+// rollover. Absent and late students are saved to slip_attendance by member
+// id, with free-text names for anyone who isn't on the roster.
+
+export type RosterStudent = {
+  id: number;
+  full_name: string;
+  email: string;
+};
+
+export type RosterStatus = "absent" | "late";
+
+export async function getClassRoster(classId: number): Promise<RosterStudent[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT DISTINCT m.id, m.full_name, m.email
+    FROM members m
+    INNER JOIN member_roles mr ON mr.member_id = m.id
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE m.class_id = ? AND r.role_name = 'student' AND ${ACTIVE_ASSIGNMENT_SQL}
+    ORDER BY m.full_name ASC
+  `).all(classId) as RosterStudent[];
+}
+
+// Turns the roster picks and the "not on roster" names from the form into
+// slip_attendance entries. Names are copied from members so the slip still
+// reads correctly if a student later leaves.
+export async function buildAttendanceEntries(
+  classId: number,
+  rosterStatus: Record<number, RosterStatus>,
+  minutesLate: Record<number, string>,
+  extraAbsent: string[],
+  extraLate: string[]
+): Promise<{ absent?: AttendanceEntry[]; late?: AttendanceEntry[]; error?: string }> {
+  const roster = new Map((await getClassRoster(classId)).map(student => [student.id, student]));
+  const absent: AttendanceEntry[] = [];
+  const late: AttendanceEntry[] = [];
+
+  for (const [id, status] of Object.entries(rosterStatus)) {
+    const student = roster.get(Number(id));
+    if (!student) {
+      return { error: "One of the picked students isn't on this class's roster" };
+    }
+    if (status !== "absent" && status !== "late") {
+      return { error: `Unknown attendance status '${status}'` };
+    }
+
+    if (status === "absent") {
+      absent.push({ member_id: student.id, name: student.full_name });
+      continue;
+    }
+
+    const minutes = minutesLate[student.id] ? Number(minutesLate[student.id]) : null;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 0)) {
+      return { error: `Minutes late for ${student.full_name} should be a whole number` };
+    }
+    late.push({ member_id: student.id, name: student.full_name, minutes_late: minutes });
+  }
+
+  const byName = (name: string) => ({ name: name.trim() });
+  absent.push(...extraAbsent.filter(name => name.trim() !== "").map(byName));
+  late.push(...extraLate.filter(name => name.trim() !== "").map(byName));
+
+  return { absent, late };
+}
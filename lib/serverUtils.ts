@@ -1,36 +1,133 @@
 "use server";
 
 import bcrypt from "bcrypt";
-import { v4 as uuidv4 } from "uuid";
 import { getDatabase } from "./database";
 import { redirect } from "next/navigation";
+import {
+    SESSION_ABSOLUTE_TIMEOUT_SECONDS,
+    SESSION_IDLE_TIMEOUT_SECONDS,
+    SESSION_RENEW_INTERVAL_SECONDS,
+    SIGNUP_ALLOWED_DOMAINS_SETTING,
+    SIGNUP_REQUIRE_INVITE_SETTING,
+    DEFAULT_ALLOWED_EMAIL_DOMAINS
+} from "./auth-config";
+import {
+    readSessionCookie,
+    clearSessionCookie,
+    readClientInfo,
+    readTwoFactorChallengeCookie,
+    clearTwoFactorChallengeCookie
+} from "./session-cookie";
+import { getSetting } from "./settings";
+import { requestVerificationEmail, requestEmailChange } from "./email-verification";
+import {
+    getLoginRetryAfter,
+    recordLoginFailure,
+    clearAccountFailures,
+    lockoutMessage,
+    checkThrottledCredential
+} from "./login-throttle";
+import { findValidToken, consumeToken } from "./auth-tokens";
+import { verifySecondFactor, needsTwoFactorEnrolment } from "./two-factor";
+import { finishSignIn, startSession } from "./sign-in";
+import { can, canAny, type Permission } from "./permissions";
+import { getClassById, getClassByName, resolveClass } from "./forms";
+import { buildAttendanceEntries } from "./roster";
+import { getAttendanceBySlip } from "./slip-attendance";
+import { findSubjectByName, findTeacherByName } from "./directory";
+import { resolvePeriodTimes } from "./bell-schedules";
+import { validateBeadleSlip, type BeadleSlipInput, type SlipFieldErrors } from "./slip-schema";
+import { getCurrentJamaicanDate } from "./timeUtils";
+import { findConflictingSlips, type ConflictingSlip } from "./slip-conflicts";
+import {
+    getSlipEditAccess,
+    canEditFormSlips,
+    getViewableFormIds,
+    canViewSlip,
+    snapshotSlip,
+    recordSlipRevision
+} from "./slip-edits";
 
 const SALT_ROUNDS = 10;
 
 export async function signOut() {
+    try {
+        const token = await readSessionCookie();
+        if (token) {
+            const db = await getDatabase();
+            db.prepare("DELETE FROM sessions WHERE token = ?").run(token);
+        }
+    } catch (err: any) {
+        console.error("Error deleting session:", err.message);
+    }
+
+    await clearSessionCookie();
     return { success: true };
 }
 
-export async function signUp({ email, password, fullName, formClass }: { email: string; password: string; fullName: string; formClass?: string }) {
+async function findUsableInviteCode(code: string) {
+    const db = await getDatabase();
+    return db.prepare(`
+        SELECT * FROM invite_codes
+        WHERE code = ? COLLATE NOCASE
+          AND revoked_at IS NULL
+          AND (expires_at IS NULL OR expires_at > datetime('now'))
+          AND (max_uses IS NULL OR uses < max_uses)
+    `).get(code.trim()) as any;
+}
+
+export async function signUp({ email, password, fullName, formClass, inviteCode }: {
+    email: string;
+    password: string;
+    fullName: string;
+    formClass?: string;
+    inviteCode?: string;
+}) {
     try {
         const db = await getDatabase();
-        
-        const existing = db.prepare("SELECT id FROM members WHERE email = ?").get(email);
+        email = email.trim();
+
+        const allowedDomains = await getSetting<string[]>(SIGNUP_ALLOWED_DOMAINS_SETTING, DEFAULT_ALLOWED_EMAIL_DOMAINS);
+        const domain = email.split("@").pop()?.toLowerCase() ?? "";
+        if (allowedDomains.length > 0 && !allowedDomains.includes(domain)) {
+            return { error: { message: `Only ${allowedDomains.map(d => "@" + d).join(", ")} email addresses are allowed` } };
+        }
+
+        let invite: any = undefined;
+        if (inviteCode && inviteCode.trim()) {
+            invite = await findUsableInviteCode(inviteCode);
+            if (!invite) {
+                return { error: { message: "Invalid or expired invite code" } };
+            }
+        } else if (await getSetting<boolean>(SIGNUP_REQUIRE_INVITE_SETTING, false)) {
+            return { error: { message: "An invite code is required to sign up" } };
+        }
+
+        const existing = db.prepare("SELECT id FROM members WHERE email = ? COLLATE NOCASE").get(email);
         if (existing) {
             return { error: { message: "Email already registered" } };
         }
 
+        const { classRecord, error: classError } = await resolveClass(formClass);
+        if (classError) {
+            return { error: { message: classError } };
+        }
+
         const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
-        const result = db.prepare("INSERT INTO members (email, password, full_name, form_class) VALUES (?, ?, ?, ?)")
-            .run(email, passwordHash, fullName, formClass || null);
+        // Roles are granted on the first verified login, not here.
+        db.transaction(() => {
+            db.prepare("INSERT INTO members (email, password, full_name, form_class, class_id, invite_code_id) VALUES (?, ?, ?, ?, ?, ?)")
+                .run(email, passwordHash, fullName, classRecord?.name ?? null, classRecord?.id ?? null, invite?.id ?? null);
 
-        const memberId = result.lastInsertRowid as number;
-        const studentRole = db.prepare("SELECT id FROM roles WHERE role_name = 'student'").get() as any;
-        
-        if (studentRole) {
-            db.prepare("INSERT INTO member_roles (member_id, role_id) VALUES (?, ?)")
-                .run(memberId, studentRole.id);
+            if (invite) {
+                db.prepare("UPDATE invite_codes SET uses = uses + 1 WHERE id = ?").run(invite.id);
+            }
+        })();
+
+        const { success } = await requestVerificationEmail(email);
+        if (!success) {
+            console.error(`Failed to send verification email to ${email}`);
         }
 
         return { error: undefined };
@@ -40,46 +137,89 @@ export async function signUp({ email, password, fullName, formClass }: { email:
     }
 }
 
+let dummyHash: Promise<string> | undefined;
+
+function getDummyHash(): Promise<string> {
+    dummyHash ??= bcrypt.hash("not-a-real-password", SALT_ROUNDS);
+    return dummyHash;
+}
+
 export async function signInWithPassword({ email, password }: { email: string; password: string }): Promise<{
-    error?: { message: string }
-    token?: string
+    error?: { message: string; unverified?: boolean };
+    twoFactorRequired?: boolean;
 }> {
     try {
         const db = await getDatabase();
+        const { ipAddress } = await readClientInfo();
 
-        const user: any = db.prepare("SELECT * FROM members WHERE email = ?").get(email);
-        if (!user) {
-            return { error: { message: "Email not registered" } };
+        const retryAfter = await getLoginRetryAfter(email, ipAddress);
+        if (retryAfter > 0) {
+            return { error: { message: lockoutMessage(retryAfter) } };
         }
 
-        const isValid = await bcrypt.compare(password, user.password);
-        if (!isValid) {
-            return { error: { message: "Invalid password" } };
+        const user: any = db.prepare("SELECT * FROM members WHERE email = ? COLLATE NOCASE").get(email.trim());
+
+        // Compare against a throwaway hash for unknown emails so response time
+        // doesn't give away which addresses are registered.
+        const isValid = await bcrypt.compare(password, user ? user.password : await getDummyHash());
+        if (!user || !isValid) {
+            await recordLoginFailure(email, ipAddress);
+            return { error: { message: "Invalid email or password" } };
         }
 
-        const { error, token } = await createSession(user.id);
+        await clearAccountFailures(email);
 
-        if (!error && token) {
-            return { token, error: undefined };
+        if (!user.email_verified_at) {
+            return { error: { message: "Please verify your email before logging in.", unverified: true } };
         }
 
-        console.error("Error creating session:", error?.message);
-        return { error: { message: "Failed to sign in" } };
+        const { twoFactorRequired, error } = await finishSignIn(user);
+        return { error, twoFactorRequired };
     } catch (err: any) {
         console.error("Error in signInWithPassword:", err.message);
         return { error: { message: "Failed to sign in" } };
     }
 }
 
-export async function createSession(userId: number): Promise<{ token?: string, error?: { message: string } }> {
+// Second step of signInWithPassword for members with 2FA enabled. Accepts a
+// TOTP code or a recovery code.
+export async function verifyTwoFactorLogin(code: string): Promise<{
+    error?: { message: string; expired?: boolean }
+}> {
     try {
+        const challenge = await findValidToken("two_factor_challenges", await readTwoFactorChallengeCookie());
+        if (!challenge) {
+            return { error: { message: "Your login has expired. Please sign in again.", expired: true } };
+        }
+
+        const { ipAddress } = await readClientInfo();
+
+        const retryAfter = await getLoginRetryAfter(challenge.email, ipAddress);
+        if (retryAfter > 0) {
+            return { error: { message: lockoutMessage(retryAfter) } };
+        }
+
+        if (!(await verifySecondFactor(challenge.member_id, code))) {
+            await recordLoginFailure(challenge.email, ipAddress);
+            return { error: { message: "Invalid verification code" } };
+        }
+
         const db = await getDatabase();
+        if (!consumeToken(db, "two_factor_challenges", challenge.id)) {
+            return { error: { message: "Your login has expired. Please sign in again.", expired: true } };
+        }
+
+        await clearTwoFactorChallengeCookie();
+        await clearAccountFailures(challenge.email);
 
-        const token = uuidv4();
-        db.prepare("INSERT INTO sessions (userId, token) VALUES (?, ?)").run(userId, token);
-        return { token };
+        if (!(await startSession(challenge.member_id))) {
+            return { error: { message: "Failed to sign in" } };
+        }
+
+        return { error: undefined };
     } catch (err: any) {
-        return { error: { message: "Failed to create session" } };
+        console.error("Error in verifyTwoFactorLogin:", err.message);
+        return { error: { message: "Failed to sign in" } };
     }
 }
 
@@ -88,17 +228,32 @@ export async function getSession(token: string): Promise<{ user?: any; error?: {
         const db = await getDatabase();
 
         const session = db.prepare(`
-            SELECT s.token, s.createdAt, m.id as userId, m.email, m.full_name
+            SELECT s.id as sessionId, s.token, s.createdAt, m.id as userId, m.email, m.full_name,
+                   datetime(s.createdAt, '+' || ? || ' seconds') <= datetime('now')
+                     OR datetime(COALESCE(s.lastSeenAt, s.createdAt), '+' || ? || ' seconds') <= datetime('now') as expired,
+                   datetime(COALESCE(s.lastSeenAt, s.createdAt), '+' || ? || ' seconds') <= datetime('now') as needsRenewal
              FROM sessions s
              JOIN members m ON s.userId = m.id
              WHERE s.token = ?
-        `).get(token);
+        `).get(SESSION_ABSOLUTE_TIMEOUT_SECONDS, SESSION_IDLE_TIMEOUT_SECONDS, SESSION_RENEW_INTERVAL_SECONDS, token) as any;
 
         if (!session) {
             return { error: { message: "Invalid or expired session" } };
         }
 
-        return { user: session };
+        if (session.expired) {
+            db.prepare("DELETE FROM sessions WHERE id = ?").run(session.sessionId);
+            return { error: { message: "Invalid or expired session" } };
+        }
+
+        if (session.needsRenewal) {
+            db.prepare("UPDATE sessions SET lastSeenAt = CURRENT_TIMESTAMP WHERE id = ?").run(session.sessionId);
+        }
+
+        // Members whose role requires 2FA but who haven't enrolled yet hold a
+        // password-only session. Callers let them set up 2FA and nothing else.
+        const { expired, needsRenewal, ...user } = session;
+        return { user: { ...user, twoFactorSetupRequired: await needsTwoFactorEnrolment(user.userId) } };
     } catch (err: any) {
         console.error("Error fetching session:", err.message);
         return { error: { message: "Failed to fetch session" } };
@@ -109,11 +264,11 @@ export async function deleteUser(id: any) {
 
 }
 
-export async function fetchCurrentUser(
-    token: string,
-    redirectToLogin = true
-): Promise<any | undefined> {
-    const { user, error } = await getSession(token);
+export async function fetchCurrentUser(redirectToLogin = true): Promise<any | undefined> {
+    const token = await readSessionCookie();
+    const { user, error } = token
+        ? await getSession(token)
+        : { user: undefined, error: { message: "Not signed in" } };
 
     if (error || !user) {
         if (redirectToLogin) {
@@ -125,19 +280,29 @@ export async function fetchCurrentUser(
 
     try {
         const db = await getDatabase();
-        const { getMemberRoles } = await import("./role-db-helpers");
+        const { getMemberRoles, getMemberPermissions } = await import("./role-db-helpers");
 
         const member = db.prepare("SELECT * FROM members WHERE id = ?").get(user.userId) as any;
 
         if (member) {
             const roles = await getMemberRoles(member.id);
             const roleNames = roles.map((r: any) => r.role_name);
+
+            // This is returned to the browser, so leave the credentials behind.
+            const { password, totp_secret, totp_last_step, ...profile } = member;
+
+            // Until they enrol, members who must use 2FA get no roles or
+            // permissions, so every guarded action turns them away.
+            if (user.twoFactorSetupRequired) {
+                return { ...profile, roles: [], roleDetails: [], permissions: [], twoFactorSetupRequired: true };
+            }
             
             console.log(`Current user ${member.full_name} (${member.email}) has roles:`, roleNames);
             return {
-                ...member,
+                ...profile,
                 roles: roleNames,
                 roleDetails: roles,
+                permissions: await getMemberPermissions(member.id),
                 created_at: member.created_at || member.createdAt || new Date().toISOString()
             };
         }
@@ -173,6 +338,10 @@ export async function fetchAnnouncements() {
 
 export async function createAnnouncement(title: string, priority: string, content: string) {
     try {
+        if (!(await hasPermission("portal.admin"))) {
+            return;
+        }
+
         const db = await getDatabase();
         db.prepare("INSERT INTO announcements (title, priority, content) VALUES (?, ?, ?)")
             .run(title, priority, content);
@@ -183,6 +352,10 @@ export async function createAnnouncement(title: string, priority: string, conten
 
 export async function deleteAnnouncement(id: number) {
     try {
+        if (!(await hasPermission("portal.admin"))) {
+            return;
+        }
+
         const db = await getDatabase();
         db.prepare("DELETE FROM announcements WHERE id = ?").run(id);
     } catch (err: any) {
@@ -190,53 +363,207 @@ export async function deleteAnnouncement(id: number) {
     }
 }
 
-export async function saveBeadleSlip(formData: {
-    beadleEmail: string;
-    form: string;
-    formClass: string;
-    classStartTime: string;
-    classEndTime: string;
-    date: string;
-    teacher: string;
-    subject: string;
-    teacherPresent: string;
-    teacherArrivalTime: string;
-    substituteReceived: string;
-    homeworkGiven: string;
-    studentsPresent: string;
-    absentStudents: string[];
-    lateStudents: string[];
-}) {
+// Rejected slips are logged with what was sent so problems with the form can
+// be traced; logging must never stop the beadle from getting the error back.
+async function logSlipRejection(user: any, formData: unknown, errors: SlipFieldErrors) {
+    console.warn("Beadle slip rejected:", user?.email ?? "unknown user", errors);
     try {
         const db = await getDatabase();
-        
-        const stmt = db.prepare(`
-            INSERT INTO beadle_slips (
-                beadle_email, grade_level, class_name, class_start_time, class_end_time,
-                date, teacher, subject, teacher_present, teacher_arrival_time,
-                substitute_received, homework_given, students_present, absent_students, late_students
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        db.prepare(`
+            INSERT INTO slip_rejections (member_id, beadle_email, payload, errors) VALUES (?, ?, ?, ?)
+        `).run(user?.id ?? null, user?.email ?? null, JSON.stringify(formData ?? null), JSON.stringify(errors));
+    } catch (err: any) {
+        console.error("Error logging rejected beadle slip:", err.message);
+    }
+}
+
+// Before saving a slip that would overlap another one filed for the same class
+// and date, this returns the overlapping slips instead of saving. The beadle
+// can then amend one of them (amendSlipId) or save theirs anyway (allowConflict).
+// Who filed an overlapping slip and which students it lists are only returned
+// to those allowed to view it.
+// amendSlipId also saves edits to a filed slip, within the rules in
+// lib/slip-edits.ts; the change is kept as a revision with the optional note.
+export async function saveBeadleSlip(formData: BeadleSlipInput, options: {
+    amendSlipId?: number;
+    allowConflict?: boolean;
+    note?: string;
+} = {}): Promise<{
+    success: boolean;
+    id?: number;
+    amended?: boolean;
+    error?: string;
+    fieldErrors?: SlipFieldErrors;
+    conflicts?: ConflictingSlip[];
+}> {
+    try {
+        const user = await fetchCurrentUser(false);
+        if (options.amendSlipId !== undefined) {
+            const access = await getSlipEditAccess(user, options.amendSlipId);
+            if (!access.canEdit) {
+                return { success: false, error: access.reason };
+            }
+        } else if (!can(user, "slips.submit")) {
+            return { success: false, error: "You don't have permission to submit beadle slips" };
+        }
+
+        const reject = async (fieldErrors: SlipFieldErrors) => {
+            await logSlipRejection(user, formData, fieldErrors);
+            const messages = Object.values(fieldErrors);
+            return {
+                success: false,
+                error: messages.length === 1 ? messages[0] : "Some answers on the slip need fixing",
+                fieldErrors
+            };
+        };
+
+        const { data: slip, errors } = validateBeadleSlip(formData, getCurrentJamaicanDate());
+        if (!slip) {
+            return await reject(errors);
+        }
+
+        const db = await getDatabase();
+
+        // A new slip is always for the beadle's own class, whatever the form
+        // says. An amendment can only move a slip to a class in a form the
+        // editor could edit slips for anyway.
+        let schoolClass;
+        let amended: { class_id: number | null; subject: string; subject_id: number | null } | undefined;
+        if (options.amendSlipId === undefined) {
+            schoolClass = user.class_id ? await getClassById(user.class_id) : undefined;
+            if (!schoolClass) {
+                return await reject({ formClass: "Your account isn't in a class yet. Ask your form supervisor to set it." });
+            }
+        } else {
+            amended = db.prepare("SELECT class_id, subject, subject_id FROM beadle_slips WHERE id = ?")
+                .get(options.amendSlipId) as typeof amended;
+            schoolClass = await getClassByName(slip.formClass);
+            if (!schoolClass || schoolClass.form_code !== slip.form) {
+                return await reject({ formClass: "Pick one of the classes in your form" });
+            }
+            if (schoolClass.id !== amended?.class_id && !(await canEditFormSlips(user, schoolClass.form_id))) {
+                return await reject({ formClass: "You can only move a slip to a class in a form you supervise" });
+            }
+        }
+
+        const { absent, late, error: attendanceError } = await buildAttendanceEntries(
+            schoolClass.id,
+            slip.rosterStatus,
+            slip.lateMinutes,
+            slip.absentStudents,
+            slip.lateStudents
+        );
+        if (attendanceError) {
+            return await reject({ rosterStatus: attendanceError });
+        }
+
+        // Subjects must come from the catalogue, though an amended slip may
+        // keep a subject that has since been retired. Teachers are linked when
+        // the name matches the directory; anyone else (e.g. a cover teacher)
+        // is kept as typed.
+        const keptSubject = amended?.subject_id != null && amended.subject.toLowerCase() === slip.subject.toLowerCase()
+            ? { id: amended.subject_id, name: amended.subject }
+            : undefined;
+        const subject = await findSubjectByName(slip.subject) ?? keptSubject;
+        if (!subject) {
+            return await reject({ subject: "Pick a subject from the list" });
+        }
+        const teacher = await findTeacherByName(slip.teacher);
+
+        // A picked period is timed by the bell schedule in force on the slip's
+        // date rather than by whatever times the browser sent.
+        let startTime = slip.classStartTime;
+        let endTime = slip.classEndTime;
+        if (slip.period !== null) {
+            const times = await resolvePeriodTimes(slip.date, slip.period, slip.isDoubleSession);
+            if (!times) {
+                return await reject({ period: `Period ${slip.period}${slip.isDoubleSession ? " (double)" : ""} isn't on the bell schedule for that day` });
+            }
+            startTime = times.start_time;
+            endTime = times.end_time;
+        }
+
+        if (!options.allowConflict) {
+            const conflicts = await findConflictingSlips(schoolClass.id, slip.date, startTime, endTime, options.amendSlipId ?? null);
+            if (conflicts.length > 0) {
+                return {
+                    success: false,
+                    error: "A slip has already been filed for this lesson",
+                    conflicts: await Promise.all(conflicts.map(async (existing): Promise<ConflictingSlip> => {
+                        const can_amend = (await getSlipEditAccess(user, existing.id)).canEdit;
+                        if (await canViewSlip(user, existing.id)) {
+                            return { ...existing, can_view: true, can_amend };
+                        }
+                        const { beadle_email, absent_students, late_students, ...summary } = existing;
+                        return { ...summary, can_view: false, can_amend };
+                    }))
+                };
+            }
+        }
+
+        const form = db.prepare("SELECT display_name FROM forms WHERE id = ?").get(schoolClass.form_id) as { display_name: string };
+        const values = {
+            grade_level: form.display_name,
+            class_name: schoolClass.name,
+            form_id: schoolClass.form_id,
+            class_id: schoolClass.id,
+            period: slip.period,
+            is_double_session: slip.isDoubleSession ? 1 : 0,
+            class_start_time: startTime,
+            class_end_time: endTime,
+            date: slip.date,
+            teacher: teacher?.display_name ?? slip.teacher,
+            subject: subject.name,
+            teacher_id: teacher?.id ?? null,
+            subject_id: subject.id,
+            teacher_present: slip.teacherPresent,
+            teacher_arrival_time: slip.teacherArrivalTime,
+            substitute_received: slip.substituteReceived,
+            homework_given: slip.homeworkGiven,
+            students_present: slip.studentsPresent
+        };
+        const columns = Object.keys(values);
+
+        // An amended slip keeps its id and original beadle; its attendance
+        // rows are replaced with the ones on the new submission, and what
+        // changed is kept as a revision.
+        const insertSlip = db.prepare(`
+            INSERT INTO beadle_slips (beadle_email, ${columns.join(", ")})
+            VALUES (@beadle_email, ${columns.map(column => `@${column}`).join(", ")})
+        `);
+        const updateSlip = db.prepare(`
+            UPDATE beadle_slips SET ${columns.map(column => `${column} = @${column}`).join(", ")} WHERE id = @id
+        `);
+        const insertAttendance = db.prepare(`
+            INSERT INTO slip_attendance (slip_id, member_id, student_name, status, minutes_late, reason)
+            VALUES (?, ?, ?, ?, ?, ?)
         `);
         
-        const result = stmt.run(
-            formData.beadleEmail,
-            formData.form,
-            formData.formClass,
-            formData.classStartTime,
-            formData.classEndTime,
-            formData.date,
-            formData.teacher,
-            formData.subject,
-            formData.teacherPresent,
-            formData.teacherArrivalTime || null,
-            formData.substituteReceived || null,
-            formData.homeworkGiven,
-            parseInt(formData.studentsPresent),
-            JSON.stringify(formData.absentStudents.filter(s => s.trim() !== '')),
-            JSON.stringify(formData.lateStudents.filter(s => s.trim() !== ''))
-        );
+        const slipId = db.transaction(() => {
+            const amendId = options.amendSlipId;
+            const before = amendId !== undefined ? snapshotSlip(db, amendId) : null;
+            let id: number;
+            if (amendId !== undefined) {
+                id = amendId;
+                updateSlip.run({ ...values, id });
+                db.prepare("DELETE FROM slip_attendance WHERE slip_id = ?").run(id);
+            } else {
+                id = Number(insertSlip.run({ ...values, beadle_email: user.email }).lastInsertRowid);
+            }
+
+            for (const [status, entries] of [["absent", absent], ["late", late]] as const) {
+                for (const entry of entries || []) {
+                    insertAttendance.run(id, entry.member_id ?? null, entry.name, status, entry.minutes_late ?? null, entry.reason ?? null);
+                }
+            }
+
+            if (before) {
+                recordSlipRevision(db, id, before, user.id, options.note ?? null);
+            }
+            return id;
+        })();
         
-        return { success: true, id: result.lastInsertRowid };
+        return { success: true, id: slipId, amended: options.amendSlipId !== undefined };
     } catch (err: any) {
         console.error("Error saving beadle slip:", err.message);
         return { success: false, error: err.message };
@@ -245,18 +572,45 @@ export async function saveBeadleSlip(formData: {
 
 export async function getBeadleSlips() {
     try {
+        const user = await fetchCurrentUser(false);
+        if (!canAny(user, ["slips.view.own", "slips.view.form", "slips.view.all", "reports.generate"])) {
+            return [];
+        }
+
         const db = await getDatabase();
+
+        // Everyone else gets the slips of the forms they supervise, plus their
+        // own if they file slips.
+        const slips = canAny(user, ["slips.view.all", "reports.generate"])
+            ? db.prepare(`
+                SELECT * FROM beadle_slips
+                WHERE discarded_at IS NULL
+                ORDER BY created_at DESC
+            `).all()
+            : db.prepare(`
+                SELECT * FROM beadle_slips
+                WHERE discarded_at IS NULL
+                  AND (form_id IN (SELECT value FROM json_each(?))
+                       OR (? AND beadle_email = ? COLLATE NOCASE))
+                ORDER BY created_at DESC
+            `).all(JSON.stringify(await getViewableFormIds(user)), can(user, "slips.view.own") ? 1 : 0, user.email);
         
-        const slips = db.prepare(`
-            SELECT * FROM beadle_slips 
-            ORDER BY created_at DESC
-        `).all();
-        
-        return slips.map((slip: any) => ({
-            ...slip,
-            absent_students: JSON.parse(slip.absent_students || '[]'),
-            late_students: JSON.parse(slip.late_students || '[]')
-        }));
+        // absent_students/late_students stay name lists for display; the
+        // *_entries carry the slip_attendance rows themselves.
+        const attendance = await getAttendanceBySlip(slips.map((slip: any) => slip.id));
+        return slips.map((slip: any) => {
+            const rows = attendance.get(slip.id) || [];
+            const absentEntries = rows.filter(row => row.status === "absent");
+            const lateEntries = rows.filter(row => row.status === "late");
+            return {
+                ...slip,
+                is_double_session: !!slip.is_double_session,
+                absent_students: absentEntries.map(entry => entry.name),
+                late_students: lateEntries.map(entry => entry.name),
+                absent_entries: absentEntries,
+                late_entries: lateEntries
+            };
+        });
     } catch (err: any) {
         console.error("Error fetching beadle slips:", err.message);
         return [];
@@ -265,14 +619,23 @@ export async function getBeadleSlips() {
 
 export async function deleteBeadleSlip(slipId: number) {
     try {
+        const user = await fetchCurrentUser(false);
+        if (!can(user, "slips.delete")) {
+            return { success: false, error: "You don't have permission to delete beadle slips" };
+        }
+
         const db = await getDatabase();
         
-        const existingSlip = db.prepare("SELECT id FROM beadle_slips WHERE id = ?").get(slipId);
+        const existingSlip = db.prepare("SELECT id FROM beadle_slips WHERE id = ? AND discarded_at IS NULL").get(slipId);
         if (!existingSlip) {
             return { success: false, error: "Beadle slip not found" };
         }
         
-        const result = db.prepare("DELETE FROM beadle_slips WHERE id = ?").run(slipId);
+        // Deleted slips are kept, with their revisions, but leave every
+        // listing and report.
+        const result = db.prepare(`
+            UPDATE beadle_slips SET discarded_at = CURRENT_TIMESTAMP, discarded_by = ? WHERE id = ?
+        `).run(user.id, slipId);
         
         if (result.changes === 0) {
             return { success: false, error: "Failed to delete beadle slip" };
@@ -285,8 +648,16 @@ export async function deleteBeadleSlip(slipId: number) {
     }
 }
 
+async function hasPermission(permission: Permission): Promise<boolean> {
+    return can(await fetchCurrentUser(false), permission);
+}
+
 export async function migrateUsersToRoleSystem() {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         
         const users = db.prepare(`
@@ -355,6 +726,10 @@ export async function migrateUsersToRoleSystem() {
 
 export async function debugUserRoles(userEmail: string) {
     try {
+        if (!(await hasPermission("members.view"))) {
+            return null;
+        }
+
         const db = await getDatabase();
         const user = db.prepare("SELECT * FROM members WHERE email = ?").get(userEmail) as any;
         
@@ -382,6 +757,10 @@ export async function debugUserRoles(userEmail: string) {
 
 export async function getAllUsers() {
     try {
+        if (!(await hasPermission("members.view"))) {
+            return [];
+        }
+
         const db = await getDatabase();
         
         await migrateUsersToRoleSystem();
@@ -420,6 +799,10 @@ export async function getAllUsers() {
 
 export async function addUserRole(userId: string, roleToAdd: string) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         
         const validRoles = ['student', 'beadle', 'supervisor', 'admin', 'tech_team'];
@@ -457,6 +840,10 @@ export async function addUserRole(userId: string, roleToAdd: string) {
 
 export async function removeUserRole(userId: string, roleToRemove: string) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         
         const user = db.prepare(`SELECT roles FROM members WHERE id = ?`).get(userId) as any;
@@ -490,6 +877,10 @@ export async function removeUserRole(userId: string, roleToRemove: string) {
 
 export async function setUserRoles(userId: string, newRoles: string[]) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         
         const validRoles = ['student', 'beadle', 'supervisor', 'admin', 'tech_team'];
@@ -530,13 +921,22 @@ export async function updateUserRole(userId: string, newRole: string) {
 
 export async function updateUserFormClass(userId: string, formClass: string) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
+        const { classRecord, error } = await resolveClass(formClass, { create: true });
+        if (error) {
+            return { success: false, error };
+        }
+
         const db = await getDatabase();
         
         const result = db.prepare(`
             UPDATE members 
-            SET form_class = ?, updated_at = CURRENT_TIMESTAMP 
+            SET form_class = ?, class_id = ?, updated_at = CURRENT_TIMESTAMP 
             WHERE id = ?
-        `).run(formClass, userId);
+        `).run(classRecord?.name ?? null, classRecord?.id ?? null, userId);
 
         if (result.changes === 0) {
             return { success: false, error: "User not found" };
@@ -557,6 +957,10 @@ export async function createUser(userData: {
     password?: string;
 }) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         
         const existing = db.prepare("SELECT id FROM members WHERE email = ?").get(userData.email);
@@ -564,17 +968,23 @@ export async function createUser(userData: {
             return { success: false, error: "Email already exists" };
         }
 
+        const { classRecord, error } = await resolveClass(userData.form_class, { create: true });
+        if (error) {
+            return { success: false, error };
+        }
+
         const defaultPassword = userData.password || 'CampionStudent2024';
         const passwordHash = await bcrypt.hash(defaultPassword, SALT_ROUNDS);
 
         const result = db.prepare(`
-            INSERT INTO members (email, password, full_name, form_class, role, created_at)
-            VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+            INSERT INTO members (email, password, full_name, form_class, class_id, role, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
         `).run(
             userData.email,
             passwordHash,
             userData.full_name,
-            userData.form_class || null,
+            classRecord?.name ?? null,
+            classRecord?.id ?? null,
             userData.role
         );
 
@@ -591,6 +1001,10 @@ export async function createUser(userData: {
 
 export async function bulkUpdateUserRoles(updates: Array<{userId: string, newRole: string}>) {
     try {
+        if (!(await hasPermission("roles.assign"))) {
+            return { success: false, error: "Not authorized" };
+        }
+
         const db = await getDatabase();
         const validRoles = ['student', 'beadle', 'supervisor', 'admin'];
         
@@ -646,25 +1060,37 @@ export async function updateUserProfile(userId: number, updateData: {
         if (!updateData || typeof updateData !== 'object') {
             return { success: false, error: "Invalid update data" };
         }
+
+        // Members edit their own profile. Admins may correct another member's
+        // name or form, but never their email or password.
+        const caller = await fetchCurrentUser(false);
+        const ownProfile = !!caller && caller.id === userId;
+        if (!caller || (!ownProfile && !can(caller, "portal.admin"))) {
+            return { success: false, error: "Not authorized" };
+        }
+        if (!ownProfile && (updateData.email || updateData.newPassword)) {
+            return { success: false, error: "Only the member can change their own email or password" };
+        }
+        if (updateData.newPassword && !updateData.currentPassword) {
+            return { success: false, error: "Enter your current password to set a new one" };
+        }
         
         const db = await getDatabase();
         
         if (updateData.newPassword && updateData.currentPassword) {
-            const user = db.prepare("SELECT password FROM members WHERE id = ?").get(userId) as any;
+            const user = db.prepare("SELECT email, password FROM members WHERE id = ?").get(userId) as any;
             if (!user) {
                 return { success: false, error: "User not found" };
             }
             
-            const isValidPassword = await bcrypt.compare(updateData.currentPassword, user.password);
-            if (!isValidPassword) {
-                return { success: false, error: "Current password is incorrect" };
-            }
-        }
-        
-        if (updateData.email) {
-            const existingUser = db.prepare("SELECT id FROM members WHERE email = ? AND id != ?").get(updateData.email, userId);
-            if (existingUser) {
-                return { success: false, error: "Email address is already in use" };
+            const currentPassword = updateData.currentPassword;
+            const passwordError = await checkThrottledCredential(
+                user.email,
+                () => bcrypt.compare(currentPassword, user.password),
+                "Current password is incorrect"
+            );
+            if (passwordError) {
+                return { success: false, error: passwordError };
             }
         }
         
@@ -676,14 +1102,14 @@ export async function updateUserProfile(userId: number, updateData: {
             updateValues.push(updateData.full_name);
         }
         
-        if (updateData.email) {
-            updateFields.push("email = ?");
-            updateValues.push(updateData.email);
-        }
-        
         if (updateData.form_class !== undefined) {
-            updateFields.push("form_class = ?");
-            updateValues.push(updateData.form_class || null);
+            const { classRecord, error } = await resolveClass(updateData.form_class);
+            if (error) {
+                return { success: false, error };
+            }
+
+            updateFields.push("form_class = ?", "class_id = ?");
+            updateValues.push(classRecord?.name ?? null, classRecord?.id ?? null);
         }
         
         if (updateData.newPassword) {
@@ -704,19 +1130,30 @@ export async function updateUserProfile(userId: number, updateData: {
             console.log("Could not check for updated_at column:", e);
         }
         
-        if (updateFields.length === 0) {
-            return { success: false, error: "No fields to update" };
+        // The new address is only applied once confirmed from its inbox.
+        let emailChange: { success: boolean; message?: string; error?: string } | undefined;
+        if (updateData.email && updateData.email.trim().toLowerCase() !== caller.email.toLowerCase()) {
+            emailChange = await requestEmailChange(updateData.email);
+            if (!emailChange.success) {
+                return { success: false, error: emailChange.error };
+            }
         }
         
-        const query = `UPDATE members SET ${updateFields.join(", ")} WHERE id = ?`;
-        
-        const result = db.prepare(query).run(...updateValues, userId);
+        if (updateFields.length === 0 && !emailChange) {
+            return { success: false, error: "No fields to update" };
+        }
         
-        if (result.changes === 0) {
-            return { success: false, error: "User not found or no changes made" };
+        if (updateFields.length > 0) {
+            const query = `UPDATE members SET ${updateFields.join(", ")} WHERE id = ?`;
+            
+            const result = db.prepare(query).run(...updateValues, userId);
+            
+            if (result.changes === 0) {
+                return { success: false, error: "User not found or no changes made" };
+            }
         }
         
-        return { success: true };
+        return { success: true, message: emailChange?.message };
         
     } catch (err: any) {
         console.error("Error updating user profile:", err.message);
@@ -0,0 +1,137 @@
+"use server";
+
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import { readSessionCookie } from "./session-cookie";
+import { SESSION_ABSOLUTE_TIMEOUT_SECONDS, SESSION_IDLE_TIMEOUT_SECONDS } from "./auth-config";
+
+export type ActiveSession = {
+  id: number;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  isCurrent: boolean;
+};
+
+const ACTIVE_SESSION_FILTER = `
+  datetime(s.createdAt, '+' || ? || ' seconds') > datetime('now')
+  AND datetime(COALESCE(s.lastSeenAt, s.createdAt), '+' || ? || ' seconds') > datetime('now')
+`;
+
+export async function getMySessions(): Promise<{ success: boolean; sessions?: ActiveSession[]; error?: string }> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const currentToken = await readSessionCookie();
+
+    const rows = db.prepare(`
+      SELECT s.id, s.token, s.createdAt, COALESCE(s.lastSeenAt, s.createdAt) as lastSeenAt, s.userAgent, s.ipAddress
+      FROM sessions s
+      WHERE s.userId = ? AND ${ACTIVE_SESSION_FILTER}
+      ORDER BY lastSeenAt DESC
+    `).all(user.id, SESSION_ABSOLUTE_TIMEOUT_SECONDS, SESSION_IDLE_TIMEOUT_SECONDS) as any[];
+
+    const sessions = rows.map(({ token, ...session }) => ({
+      ...session,
+      isCurrent: token === currentToken
+    }));
+
+    return { success: true, sessions };
+  } catch (error: any) {
+    console.error("Error fetching sessions:", error);
+    return { success: false, error: "Failed to fetch sessions" };
+  }
+}
+
+export async function revokeMySession(sessionId: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const result = db.prepare(`
+      DELETE FROM sessions WHERE id = ? AND userId = ?
+    `).run(sessionId, user.id);
+
+    if (result.changes === 0) {
+      return { success: false, error: "Session not found" };
+    }
+
+    return { success: true, message: "Session revoked" };
+  } catch (error: any) {
+    console.error("Error revoking session:", error);
+    return { success: false, error: "Failed to revoke session" };
+  }
+}
+
+export async function revokeMyOtherSessions() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const currentToken = await readSessionCookie();
+    const result = db.prepare(`
+      DELETE FROM sessions WHERE userId = ? AND token != ?
+    `).run(user.id, currentToken);
+
+    return { success: true, message: `Signed out of ${result.changes} other session(s)` };
+  } catch (error: any) {
+    console.error("Error revoking sessions:", error);
+    return { success: false, error: "Failed to revoke sessions" };
+  }
+}
+
+export async function getMembersWithActiveSessions() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can view member sessions" };
+    }
+
+    const db = await getDatabase();
+    const members = db.prepare(`
+      SELECT m.id, m.full_name, m.email, m.form_class,
+             COUNT(s.id) as session_count,
+             MAX(COALESCE(s.lastSeenAt, s.createdAt)) as last_seen_at
+      FROM members m
+      INNER JOIN sessions s ON s.userId = m.id
+      WHERE ${ACTIVE_SESSION_FILTER}
+      GROUP BY m.id
+      ORDER BY last_seen_at DESC
+    `).all(SESSION_ABSOLUTE_TIMEOUT_SECONDS, SESSION_IDLE_TIMEOUT_SECONDS);
+
+    return { success: true, members };
+  } catch (error: any) {
+    console.error("Error fetching member sessions:", error);
+    return { success: false, error: "Failed to fetch member sessions" };
+  }
+}
+
+export async function forceLogoutMember(memberId: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can force a logout" };
+    }
+
+    const db = await getDatabase();
+    const result = db.prepare(`DELETE FROM sessions WHERE userId = ?`).run(memberId);
+
+    console.log(`Admin ${user.email} ended ${result.changes} session(s) for member ${memberId}`);
+    return { success: true, message: `Ended ${result.changes} session(s)` };
+  } catch (error: any) {
+    console.error("Error forcing logout:", error);
+    return { success: false, error: "Failed to force logout" };
+  }
+}
@@ -0,0 +1,76 @@
+import "server-only";
+import { cookies, headers } from "next/headers";
+import {
+    SESSION_COOKIE_NAME,
+    SESSION_ABSOLUTE_TIMEOUT_SECONDS,
+    TWO_FACTOR_CHALLENGE_COOKIE_NAME,
+    TWO_FACTOR_CHALLENGE_TTL_MINUTES,
+    TRUSTED_PROXY_COUNT
+} from "./auth-config";
+
+// Deliberately not a "use server" module: exporting these as server actions
+// would hand the HttpOnly token back to client-side JavaScript.
+
+export async function setSessionCookie(token: string) {
+    const cookieStore = await cookies();
+    cookieStore.set(SESSION_COOKIE_NAME, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: SESSION_ABSOLUTE_TIMEOUT_SECONDS
+    });
+}
+
+export async function readSessionCookie(): Promise<string> {
+    const cookieStore = await cookies();
+    return cookieStore.get(SESSION_COOKIE_NAME)?.value ?? "";
+}
+
+export async function clearSessionCookie() {
+    const cookieStore = await cookies();
+    cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+// The client IP as seen by the outermost trusted proxy (see TRUSTED_PROXY_COUNT).
+export async function readClientInfo(): Promise<{ userAgent: string | null; ipAddress: string | null }> {
+    const headerStore = await headers();
+    const hops = (headerStore.get("x-forwarded-for") ?? "")
+        .split(",")
+        .map(hop => hop.trim())
+        .filter(Boolean);
+
+    let ipAddress: string | null = null;
+    // Fewer hops than trusted proxies means the request didn't come through
+    // all of them, so even the leftmost entry could be forged.
+    if (TRUSTED_PROXY_COUNT > 0 && hops.length >= TRUSTED_PROXY_COUNT) {
+        ipAddress = hops[hops.length - TRUSTED_PROXY_COUNT];
+    }
+
+    return {
+        userAgent: headerStore.get("user-agent"),
+        ipAddress
+    };
+}
+
+// Holds the password-verified login while we wait for the TOTP code.
+export async function setTwoFactorChallengeCookie(token: string) {
+    const cookieStore = await cookies();
+    cookieStore.set(TWO_FACTOR_CHALLENGE_COOKIE_NAME, token, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/",
+        maxAge: TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60
+    });
+}
+
+export async function readTwoFactorChallengeCookie(): Promise<string> {
+    const cookieStore = await cookies();
+    return cookieStore.get(TWO_FACTOR_CHALLENGE_COOKIE_NAME)?.value ?? "";
+}
+
+export async function clearTwoFactorChallengeCookie() {
+    const cookieStore = await cookies();
+    cookieStore.delete(TWO_FACTOR_CHALLENGE_COOKIE_NAME);
+}
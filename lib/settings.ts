@@ -0,0 +1,33 @@
+import "server-only";
+import { getDatabase } from "./database";
+
+// Key/value store over app_settings. Values are JSON-encoded.
+// Admin-facing actions wrap these with their own permission checks.
+
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const db = await getDatabase();
+  const row = db.prepare(`SELECT value FROM app_settings WHERE key = ?`).get(key) as { value: string } | undefined;
+
+  if (!row) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(row.value) as T;
+  } catch {
+    console.warn(`[Settings] Ignoring unparseable value for ${key}`);
+    return fallback;
+  }
+}
+
+export async function setSetting(key: string, value: unknown, updatedBy?: number) {
+  const db = await getDatabase();
+  db.prepare(`
+    INSERT INTO app_settings (key, value, updated_by, updated_at)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      updated_by = excluded.updated_by,
+      updated_at = excluded.updated_at
+  `).run(key, JSON.stringify(value), updatedBy ?? null);
+}
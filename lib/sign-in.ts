@@ -0,0 +1,122 @@
+import "server-only";
+import { v4 as uuidv4 } from "uuid";
+import { getDatabase } from "./database";
+import {
+    SESSION_ABSOLUTE_TIMEOUT_SECONDS,
+    SESSION_IDLE_TIMEOUT_SECONDS,
+    TWO_FACTOR_CHALLENGE_TTL_MINUTES
+} from "./auth-config";
+import { setSessionCookie, setTwoFactorChallengeCookie, readClientInfo } from "./session-cookie";
+import { issueToken } from "./auth-tokens";
+import { recordRoleChange } from "./role-audit";
+import { roleNeedsApproval, createRoleRequest } from "./role-requests";
+
+// Steps shared by every way of signing in (password, SSO). Kept out
+// of serverUtils so none of them can be invoked as a server action.
+
+// Grants the invite's role, or the default student role, the first time a
+// verified member signs in. An invite role at or above the approval level is
+// only requested on the member's behalf, the same as any other grant of it.
+async function completeFirstLogin(member: any) {
+    const db = await getDatabase();
+
+    const invite = member.invite_code_id
+        ? db.prepare("SELECT role_id, created_by FROM invite_codes WHERE id = ?").get(member.invite_code_id) as any
+        : undefined;
+    const role = invite?.role_id
+        ? db.prepare("SELECT id, role_name FROM roles WHERE id = ?").get(invite.role_id) as any
+        : db.prepare("SELECT id, role_name FROM roles WHERE role_name = 'student'").get() as any;
+
+    if (invite?.role_id && role && await roleNeedsApproval(role.role_name)) {
+        await createRoleRequest(
+            member.id,
+            role.role_name,
+            invite.created_by ?? null,
+            { starts_at: null, expires_at: null },
+            "Invite code used at signup"
+        );
+        db.prepare("UPDATE members SET first_login_at = CURRENT_TIMESTAMP WHERE id = ?").run(member.id);
+        return;
+    }
+
+    const granted = db.transaction(() => {
+        const result = role
+            ? db.prepare("INSERT OR IGNORE INTO member_roles (member_id, role_id, assigned_by) VALUES (?, ?, ?)")
+                .run(member.id, role.id, invite?.created_by ?? null)
+            : undefined;
+
+        db.prepare("UPDATE members SET first_login_at = CURRENT_TIMESTAMP WHERE id = ?").run(member.id);
+        return (result?.changes ?? 0) > 0;
+    })();
+
+    if (granted) {
+        await recordRoleChange({
+            memberId: member.id,
+            roleName: role.role_name,
+            action: "grant",
+            actorId: invite?.created_by,
+            reason: invite ? "Invite code used at signup" : "Default role on first login"
+        });
+    }
+}
+
+async function createSession(
+    userId: number,
+    userAgent?: string | null,
+    ipAddress?: string | null
+): Promise<{ token?: string, error?: { message: string } }> {
+    try {
+        const db = await getDatabase();
+
+        db.prepare(`
+            DELETE FROM sessions
+             WHERE datetime(createdAt, '+' || ? || ' seconds') <= datetime('now')
+                OR datetime(COALESCE(lastSeenAt, createdAt), '+' || ? || ' seconds') <= datetime('now')
+        `).run(SESSION_ABSOLUTE_TIMEOUT_SECONDS, SESSION_IDLE_TIMEOUT_SECONDS);
+
+        const token = uuidv4();
+        db.prepare(`
+            INSERT INTO sessions (userId, token, lastSeenAt, userAgent, ipAddress)
+            VALUES (?, ?, CURRENT_TIMESTAMP, ?, ?)
+        `).run(userId, token, userAgent || null, ipAddress || null);
+        return { token };
+    } catch (err: any) {
+        return { error: { message: "Failed to create session" } };
+    }
+}
+
+// Creates the session row and sets the cookie. Only call once every factor
+// has been checked.
+export async function startSession(memberId: number): Promise<boolean> {
+    const { userAgent, ipAddress } = await readClientInfo();
+    const { error, token } = await createSession(memberId, userAgent, ipAddress);
+
+    if (error || !token) {
+        console.error("Error creating session:", error?.message);
+        return false;
+    }
+
+    await setSessionCookie(token);
+    return true;
+}
+
+// Call once the member's primary credential has been accepted and their email
+// is known to be verified. Either signs them in or, if they have 2FA, sets up
+// the challenge that verifyTwoFactorLogin completes.
+export async function finishSignIn(member: any): Promise<{ twoFactorRequired?: boolean; error?: { message: string } }> {
+    if (!member.first_login_at) {
+        await completeFirstLogin(member);
+    }
+
+    if (member.totp_enabled_at) {
+        const challenge = await issueToken("two_factor_challenges", member.id, TWO_FACTOR_CHALLENGE_TTL_MINUTES);
+        await setTwoFactorChallengeCookie(challenge);
+        return { twoFactorRequired: true };
+    }
+
+    if (!(await startSession(member.id))) {
+        return { error: { message: "Failed to sign in" } };
+    }
+
+    return {};
+}
@@ -0,0 +1,166 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import { checkInviteRoleDelegation } from "./role-db-helpers";
+import { getSetting, setSetting } from "./settings";
+import {
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  SIGNUP_REQUIRE_INVITE_SETTING,
+  DEFAULT_ALLOWED_EMAIL_DOMAINS
+} from "./auth-config";
+
+async function requireAdmin() {
+  const user = await fetchCurrentUser(false);
+  return can(user, "security.manage") ? user : undefined;
+}
+
+export async function getSignupPolicy() {
+  try {
+    if (!(await requireAdmin())) {
+      return { success: false, error: "Only admins can view the signup policy" };
+    }
+
+    return {
+      success: true,
+      allowedDomains: await getSetting<string[]>(SIGNUP_ALLOWED_DOMAINS_SETTING, DEFAULT_ALLOWED_EMAIL_DOMAINS),
+      requireInviteCode: await getSetting<boolean>(SIGNUP_REQUIRE_INVITE_SETTING, false)
+    };
+  } catch (error: any) {
+    console.error("Error fetching signup policy:", error);
+    return { success: false, error: "Failed to fetch signup policy" };
+  }
+}
+
+export async function updateSignupPolicy(allowedDomains: string[], requireInviteCode: boolean) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin) {
+      return { success: false, error: "Only admins can change the signup policy" };
+    }
+
+    const domains = [...new Set(
+      allowedDomains
+        .map(domain => domain.trim().toLowerCase().replace(/^@/, ""))
+        .filter(domain => domain !== "")
+    )];
+
+    const invalid = domains.find(domain => !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain));
+    if (invalid) {
+      return { success: false, error: `'${invalid}' is not a valid domain` };
+    }
+
+    await setSetting(SIGNUP_ALLOWED_DOMAINS_SETTING, domains, admin.id);
+    await setSetting(SIGNUP_REQUIRE_INVITE_SETTING, !!requireInviteCode, admin.id);
+
+    return { success: true, message: "Signup policy updated" };
+  } catch (error: any) {
+    console.error("Error updating signup policy:", error);
+    return { success: false, error: "Failed to update signup policy" };
+  }
+}
+
+export async function getInviteCodes() {
+  try {
+    if (!(await requireAdmin())) {
+      return { success: false, error: "Only admins can view invite codes" };
+    }
+
+    const db = await getDatabase();
+    const inviteCodes = db.prepare(`
+      SELECT ic.*, r.role_name, r.display_name as role_display_name, m.full_name as created_by_name
+      FROM invite_codes ic
+      LEFT JOIN roles r ON r.id = ic.role_id
+      LEFT JOIN members m ON m.id = ic.created_by
+      ORDER BY ic.created_at DESC
+    `).all();
+
+    return { success: true, inviteCodes };
+  } catch (error: any) {
+    console.error("Error fetching invite codes:", error);
+    return { success: false, error: "Failed to fetch invite codes" };
+  }
+}
+
+export async function createInviteCode(options: {
+  roleName?: string;
+  description?: string;
+  maxUses?: number | null;
+  expiresAt?: string | null;
+}) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin) {
+      return { success: false, error: "Only admins can create invite codes" };
+    }
+
+    const db = await getDatabase();
+
+    let roleId: number | null = null;
+    if (options.roleName) {
+      const violation = await checkInviteRoleDelegation(options.roleName);
+      if (violation) {
+        return { success: false, error: violation };
+      }
+
+      const role = db.prepare(`SELECT id FROM roles WHERE role_name = ?`).get(options.roleName) as any;
+      if (!role) {
+        return { success: false, error: `Role '${options.roleName}' not found` };
+      }
+      roleId = role.id;
+    }
+
+    if (options.maxUses !== undefined && options.maxUses !== null && options.maxUses < 1) {
+      return { success: false, error: "Max uses must be at least 1" };
+    }
+
+    // A bare date from the picker means the code is good through the end of that day.
+    const expiresAt = options.expiresAt && /^\d{4}-\d{2}-\d{2}$/.test(options.expiresAt)
+      ? `${options.expiresAt} 23:59:59`
+      : options.expiresAt || null;
+
+    const code = randomBytes(5).toString("hex").toUpperCase();
+
+    db.prepare(`
+      INSERT INTO invite_codes (code, role_id, description, max_uses, expires_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      code,
+      roleId,
+      options.description?.trim() || null,
+      options.maxUses ?? null,
+      expiresAt,
+      admin.id
+    );
+
+    return { success: true, code, message: "Invite code created" };
+  } catch (error: any) {
+    console.error("Error creating invite code:", error);
+    return { success: false, error: "Failed to create invite code" };
+  }
+}
+
+export async function revokeInviteCode(inviteCodeId: number) {
+  try {
+    if (!(await requireAdmin())) {
+      return { success: false, error: "Only admins can revoke invite codes" };
+    }
+
+    const db = await getDatabase();
+    const result = db.prepare(`
+      UPDATE invite_codes SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND revoked_at IS NULL
+    `).run(inviteCodeId);
+
+    if (result.changes === 0) {
+      return { success: false, error: "Invite code not found" };
+    }
+
+    return { success: true, message: "Invite code revoked" };
+  } catch (error: any) {
+    console.error("Error revoking invite code:", error);
+    return { success: false, error: "Failed to revoke invite code" };
+  }
+}
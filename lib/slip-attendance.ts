@@ -0,0 +1,67 @@
+import "server-only";
+import { getDatabase } from "./database";
+
+// Access to slip_attendance, one row per absent or late student on
+// a beadle slip. Students picked from the roster carry their member_id;
+// student_name is always filled in (copied from members for roster picks) so
+// rows still read correctly for free-text names and for students who leave.
+
+export type AttendanceStatus = "absent" | "late";
+
+export type AttendanceEntry = {
+  member_id?: number | null;
+  name: string;
+  minutes_late?: number | null;
+  reason?: string | null;
+};
+
+export type AttendanceRecord = AttendanceEntry & {
+  id: number;
+  slip_id: number;
+  status: AttendanceStatus;
+};
+
+export type StudentAttendanceRow = {
+  slip_id: number;
+  status: AttendanceStatus;
+  member_id: number | null;
+  name: string;
+  minutes_late: number | null;
+  class_name: string;
+  subject: string;
+  teacher: string;
+};
+
+export async function getAttendanceBySlip(slipIds: number[]): Promise<Map<number, AttendanceRecord[]>> {
+  const db = await getDatabase();
+  const rows = db.prepare(`
+    SELECT id, slip_id, member_id, student_name AS name, status, minutes_late, reason
+    FROM slip_attendance
+    WHERE slip_id IN (SELECT value FROM json_each(?))
+    ORDER BY slip_id ASC, student_name ASC
+  `).all(JSON.stringify(slipIds)) as AttendanceRecord[];
+
+  const bySlip = new Map<number, AttendanceRecord[]>();
+  for (const row of rows) {
+    if (!bySlip.has(row.slip_id)) {
+      bySlip.set(row.slip_id, []);
+    }
+    bySlip.get(row.slip_id)!.push(row);
+  }
+  return bySlip;
+}
+
+// Every absence and late arrival in a form on one day, with the class it was
+// recorded in, sorted by student. Discarded slips are left out.
+export async function getFormAttendanceForDate(formId: number, date: string): Promise<StudentAttendanceRow[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT a.slip_id, a.status, a.member_id, COALESCE(m.full_name, a.student_name) AS name, a.minutes_late,
+           s.class_name, s.subject, s.teacher
+    FROM slip_attendance a
+    INNER JOIN beadle_slips s ON s.id = a.slip_id
+    LEFT JOIN members m ON m.id = a.member_id
+    WHERE s.form_id = ? AND s.date = ? AND s.discarded_at IS NULL
+    ORDER BY name ASC, s.class_start_time ASC
+  `).all(formId, date) as StudentAttendanceRow[];
+}
@@ -0,0 +1,158 @@
+// The confirmation a beadle sees (and can print) after submitting a slip.
+// Kept apart from emailUtils, which reaches the database and the mailer, so the
+// beadle page can import it.
+
+export function generateBeadleConfirmationEmail(slipData: any): string {
+  const [year, month, day] = slipData.date.split('-').map(Number);
+  const dateObj = new Date(year, month - 1, day);
+  const formattedDate = dateObj.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Beadle Slip Confirmation</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { text-align: center; margin-bottom: 30px; }
+    .logo { width: 120px; height: 120px; margin: 0 auto 20px; }
+    .title { color: #B91C47; font-size: 24px; font-weight: bold; margin-bottom: 20px; text-align: center; }
+    .subtitle { color: #666; margin-bottom: 20px; text-align: center; }
+    .divider { height: 3px; background: #B91C47; margin: 20px 0; }
+    .section { margin: 20px 0; padding: 15px; border-left: 4px solid #B91C47; background: #fef7f7; }
+    .section-title { color: #B91C47; font-size: 16px; font-weight: bold; margin-bottom: 10px; }
+    .info-row { display: flex; justify-content: space-between; margin: 8px 0; padding: 5px 0; }
+    .info-label { font-weight: bold; color: #666; }
+    .info-value { color: #333; }
+    .status-badge { padding: 4px 8px; border-radius: 4px; font-size: 12px; font-weight: bold; }
+    .status-yes { background: #E8F5E8; color: #4CAF50; }
+    .status-no { background: #FFEBEE; color: #F44336; }
+    .confirmation-box { background: #fef7f7; border: 1px solid #B91C47; padding: 20px; text-align: center; margin: 20px 0; border-radius: 5px; }
+    .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #ddd; color: #666; font-size: 14px; }
+    .description-box { background: #f9f9f9; border: 1px solid #ddd; padding: 10px; margin: 10px 0; border-radius: 4px; min-height: 40px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="https://jamaker.s3.amazonaws.com/flfldr/HjXkRJfpTP3aLTQSJ.png" alt="Campion College Logo" class="logo" />
+    <div class="title">Beadle Slip Confirmation</div>
+    <div class="subtitle">Submission received successfully for <strong>${slipData.beadle_email}</strong></div>
+    <div class="divider"></div>
+  </div>
+
+  <p>Dear ${slipData.beadle_email.split('@')[0]},</p>
+  <p>This confirms your beadle slip submission. Below are the details:</p>
+
+  <div class="section">
+    <div class="section-title">Student Information</div>
+    <div class="info-row">
+      <span class="info-label">Name:</span>
+      <span class="info-value">${slipData.beadle_email.split('@')[0]}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Email:</span>
+      <span class="info-value">${slipData.beadle_email}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Grade Level:</span>
+      <span class="info-value">${slipData.grade_level || 'N/A'}</span>
+    </div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Class Details</div>
+    <div class="info-row">
+      <span class="info-label">Subject:</span>
+      <span class="info-value">${slipData.subject}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Class:</span>
+      <span class="info-value">${slipData.class_name}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Teacher:</span>
+      <span class="info-value">${slipData.teacher}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Date:</span>
+      <span class="info-value">${formattedDate}</span>
+    </div>
+    <div class="info-row">
+      <span class="info-label">Time:</span>
+      <span class="info-value">${slipData.class_start_time} - ${slipData.class_end_time}</span>
+    </div>
+  </div>
+
+  <div class="section">
+    <div class="section-title">Teacher Attendance</div>
+    <div class="info-row">
+      <span class="info-label">Teacher Present:</span>
+      <span class="info-value">
+        <span class="status-badge ${slipData.teacher_present === 'yes' ? 'status-yes' : 'status-no'}">
+          ${slipData.teacher_present === 'yes' ? 'YES' : 'NO'}
+        </span>
+      </span>
+    </div>
+    ${slipData.teacher_present === 'yes' && slipData.teacher_arrival_time ? `
+    <div class="info-row">
+      <span class="info-label">Arrival Time:</span>
+      <span class="info-value">${slipData.teacher_arrival_time}</span>
+    </div>
+    ` : ''}
+    ${slipData.teacher_present === 'no' ? `
+    <div class="info-row">
+      <span class="info-label">Substitute Provided:</span>
+      <span class="info-value">
+        <span class="status-badge ${slipData.substitute_received === 'yes' ? 'status-yes' : 'status-no'}">
+          ${slipData.substitute_received === 'yes' ? 'YES' : 'NO'}
+        </span>
+      </span>
+    </div>
+    ` : ''}
+  </div>
+
+  <div class="section">
+    <div class="section-title">Student Attendance</div>
+    <div class="info-row">
+      <span class="info-label">Students Present:</span>
+      <span class="info-value">${slipData.students_present || 'Not specified'}</span>
+    </div>
+    ${slipData.absent_students && slipData.absent_students.length > 0 ? `
+    <div style="margin-top: 10px;">
+      <span class="info-label">Absent Students (${slipData.absent_students.length}):</span>
+      <div class="description-box">
+        ${slipData.absent_students.map((student: string) => `<div>• ${student}</div>`).join('')}
+      </div>
+    </div>
+    ` : ''}
+    ${slipData.late_students && slipData.late_students.length > 0 ? `
+    <div style="margin-top: 10px;">
+      <span class="info-label">Late Students (${slipData.late_students.length}):</span>
+      <div class="description-box">
+        ${slipData.late_students.map((student: string) => `<div>• ${student}</div>`).join('')}
+      </div>
+    </div>
+    ` : ''}
+  </div>
+
+  <div class="confirmation-box">
+    <strong>Your submission has been recorded successfully.</strong>
+  </div>
+
+  <p>If you have any questions, contact your teacher or supervisor.</p>
+
+  <div class="footer">
+    <strong>Electronic Beadle Slip</strong><br>
+    Submitted on ${new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}<br>
+    <em>This is an automated email. Do not reply.</em><br><br>
+    <em>Best Regards, Software Dev Team, Campion College</em>
+  </div>
+</body>
+</html>`;
+}
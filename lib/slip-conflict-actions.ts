@@ -0,0 +1,56 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import {
+  getConflictGroups,
+  mergeSlips,
+  discardConflictingSlip,
+  type SlipConflictGroup
+} from "./slip-conflicts";
+
+export async function getSlipConflicts(from: string, to: string): Promise<{
+  success: boolean;
+  groups?: SlipConflictGroup[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "slips.resolve")) {
+      return { success: false, error: "You don't have permission to resolve slip conflicts" };
+    }
+
+    return { success: true, groups: await getConflictGroups(from, to) };
+  } catch (error: any) {
+    console.error("Error fetching slip conflicts:", error);
+    return { success: false, error: "Failed to load slip conflicts" };
+  }
+}
+
+export async function mergeConflictingSlips(keepId: number, mergeIds: number[]) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "slips.resolve")) {
+      return { success: false, error: "You don't have permission to resolve slip conflicts" };
+    }
+
+    return await mergeSlips(keepId, mergeIds, user.id);
+  } catch (error: any) {
+    console.error("Error merging slips:", error);
+    return { success: false, error: "Failed to merge the slips" };
+  }
+}
+
+export async function discardSlip(slipId: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "slips.resolve")) {
+      return { success: false, error: "You don't have permission to resolve slip conflicts" };
+    }
+
+    return await discardConflictingSlip(slipId, user.id);
+  } catch (error: any) {
+    console.error("Error discarding slip:", error);
+    return { success: false, error: "Failed to discard the slip" };
+  }
+}
@@ -0,0 +1,201 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { getAttendanceBySlip } from "./slip-attendance";
+import { snapshotSlip, recordSlipRevision } from "./slip-edits";
+
+// Detection and clean-up of overlapping beadle slips. Two slips
+// conflict when they are for the same class on the same date and their times
+// overlap - usually two beadles, or one beadle twice, filing the same lesson.
+// Resolving a conflict never deletes anything: the slips set aside get
+// discarded_at (and merged_into when their attendance was copied to the slip
+// that was kept) and drop out of listings and reports.
+
+export type SlipSummary = {
+  id: number;
+  class_id: number;
+  class_name: string;
+  date: string;
+  period: number | null;
+  class_start_time: string;
+  class_end_time: string;
+  subject: string;
+  teacher: string;
+  beadle_email: string;
+  students_present: number;
+  created_at: string;
+  absent_students: string[];
+  late_students: string[];
+};
+
+// What a beadle is shown about an existing slip when theirs would overlap it.
+// The filer and student names are left out unless can_view is set.
+type PrivateSlipDetails = "beadle_email" | "absent_students" | "late_students";
+export type ConflictingSlip = Omit<SlipSummary, PrivateSlipDetails> & Partial<Pick<SlipSummary, PrivateSlipDetails>> & {
+  can_view: boolean;
+  can_amend: boolean;
+};
+
+export type SlipConflictGroup = {
+  class_name: string;
+  date: string;
+  slips: SlipSummary[];
+};
+
+const SUMMARY_COLUMNS = `
+  id, class_id, class_name, date, period, class_start_time, class_end_time,
+  subject, teacher, beadle_email, students_present, created_at
+`;
+
+async function withAttendanceNames(slips: Omit<SlipSummary, "absent_students" | "late_students">[]): Promise<SlipSummary[]> {
+  const attendance = await getAttendanceBySlip(slips.map(slip => slip.id));
+  return slips.map(slip => {
+    const rows = attendance.get(slip.id) || [];
+    return {
+      ...slip,
+      absent_students: rows.filter(row => row.status === "absent").map(row => row.name),
+      late_students: rows.filter(row => row.status === "late").map(row => row.name)
+    };
+  });
+}
+
+// Slips still in use that cover any part of start-end for a class on a date.
+export async function findConflictingSlips(
+  classId: number,
+  date: string,
+  startTime: string,
+  endTime: string,
+  excludeId: number | null = null
+): Promise<SlipSummary[]> {
+  const db = await getDatabase();
+  const slips = db.prepare(`
+    SELECT ${SUMMARY_COLUMNS}
+    FROM beadle_slips
+    WHERE class_id = ? AND date = ? AND discarded_at IS NULL
+      AND class_start_time < ? AND class_end_time > ? AND id != ?
+    ORDER BY created_at ASC
+  `).all(classId, date, endTime, startTime, excludeId ?? 0) as Omit<SlipSummary, "absent_students" | "late_students">[];
+  return withAttendanceNames(slips);
+}
+
+// Every set of overlapping slips with a date in from-to, newest date first.
+// Overlap chains are one group: if A overlaps B and B overlaps C, all three
+// are shown together.
+export async function getConflictGroups(from: string, to: string): Promise<SlipConflictGroup[]> {
+  const db = await getDatabase();
+  const pairs = db.prepare(`
+    SELECT a.id AS first_id, b.id AS second_id
+    FROM beadle_slips a
+    INNER JOIN beadle_slips b
+      ON b.class_id = a.class_id AND b.date = a.date AND b.id > a.id
+      AND a.class_start_time < b.class_end_time AND b.class_start_time < a.class_end_time
+    WHERE a.date BETWEEN ? AND ? AND a.discarded_at IS NULL AND b.discarded_at IS NULL
+  `).all(from, to) as { first_id: number; second_id: number }[];
+
+  const parent = new Map<number, number>();
+  const root = (id: number): number => {
+    const up = parent.get(id) ?? id;
+    return up === id ? id : root(up);
+  };
+  for (const { first_id, second_id } of pairs) {
+    parent.set(root(second_id), root(first_id));
+  }
+
+  const ids = [...new Set(pairs.flatMap(pair => [pair.first_id, pair.second_id]))];
+  const slips = await withAttendanceNames(db.prepare(`
+    SELECT ${SUMMARY_COLUMNS}
+    FROM beadle_slips
+    WHERE id IN (SELECT value FROM json_each(?))
+    ORDER BY class_start_time ASC, created_at ASC
+  `).all(JSON.stringify(ids)) as Omit<SlipSummary, "absent_students" | "late_students">[]);
+
+  const groups = new Map<number, SlipConflictGroup>();
+  for (const slip of slips) {
+    const key = root(slip.id);
+    if (!groups.has(key)) {
+      groups.set(key, { class_name: slip.class_name, date: slip.date, slips: [] });
+    }
+    groups.get(key)!.slips.push(slip);
+  }
+  return [...groups.values()].sort((a, b) => b.date.localeCompare(a.date) || a.class_name.localeCompare(b.class_name));
+}
+
+// Keeps one slip and sets the others aside, copying across any absent or late
+// students the kept slip doesn't already have. Where the slips disagree on a
+// student, the kept slip wins.
+export async function mergeSlips(
+  keepId: number,
+  mergeIds: number[],
+  actorId: number
+): Promise<{ success: boolean; copied?: number; error?: string }> {
+  const db = await getDatabase();
+  const others = mergeIds.filter(id => id !== keepId);
+  if (others.length === 0) {
+    return { success: false, error: "Pick at least one slip to merge" };
+  }
+
+  const kept = db.prepare(`
+    SELECT ${SUMMARY_COLUMNS} FROM beadle_slips WHERE id = ? AND discarded_at IS NULL
+  `).get(keepId) as SlipSummary | undefined;
+  if (!kept) {
+    return { success: false, error: "The slip to keep was not found" };
+  }
+
+  const overlapping = new Set((await findConflictingSlips(kept.class_id, kept.date, kept.class_start_time, kept.class_end_time, kept.id)).map(slip => slip.id));
+  if (others.some(id => !overlapping.has(id))) {
+    return { success: false, error: "Only slips that overlap the kept slip can be merged into it" };
+  }
+
+  const attendance = await getAttendanceBySlip([keepId, ...others]);
+  const studentKey = (row: { member_id?: number | null; name: string }) =>
+    row.member_id ? `member:${row.member_id}` : `name:${row.name.trim().toLowerCase()}`;
+  const recorded = new Set((attendance.get(keepId) || []).map(studentKey));
+
+  const insertAttendance = db.prepare(`
+    INSERT INTO slip_attendance (slip_id, member_id, student_name, status, minutes_late, reason)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const setAside = db.prepare(`
+    UPDATE beadle_slips SET discarded_at = CURRENT_TIMESTAMP, discarded_by = ?, merged_into = ? WHERE id = ?
+  `);
+
+  const copied = db.transaction(() => {
+    const before = snapshotSlip(db, keepId);
+    let count = 0;
+    for (const id of others) {
+      for (const row of attendance.get(id) || []) {
+        const key = studentKey(row);
+        if (recorded.has(key)) continue;
+        recorded.add(key);
+        insertAttendance.run(keepId, row.member_id ?? null, row.name, row.status, row.minutes_late ?? null, row.reason ?? null);
+        count++;
+      }
+      setAside.run(actorId, keepId, id);
+    }
+    recordSlipRevision(db, keepId, before, actorId, `Merged in overlapping slip${others.length === 1 ? "" : "s"} #${others.join(", #")}`);
+    return count;
+  })();
+
+  return { success: true, copied };
+}
+
+// Sets a slip aside without copying anything from it. Only slips that still
+// overlap another slip can be discarded here.
+export async function discardConflictingSlip(slipId: number, actorId: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  const slip = db.prepare(`
+    SELECT ${SUMMARY_COLUMNS} FROM beadle_slips WHERE id = ? AND discarded_at IS NULL
+  `).get(slipId) as SlipSummary | undefined;
+  if (!slip) {
+    return { success: false, error: "Beadle slip not found" };
+  }
+
+  const overlapping = await findConflictingSlips(slip.class_id, slip.date, slip.class_start_time, slip.class_end_time, slip.id);
+  if (overlapping.length === 0) {
+    return { success: false, error: "That slip no longer overlaps another slip" };
+  }
+
+  db.prepare(`
+    UPDATE beadle_slips SET discarded_at = CURRENT_TIMESTAMP, discarded_by = ? WHERE id = ?
+  `).run(actorId, slipId);
+  return { success: true };
+}
@@ -0,0 +1,99 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import type { BeadleSlipInput } from "./slip-schema";
+import {
+  getSlipEditAccess,
+  getSlipEditCutoff,
+  setSlipEditCutoff,
+  canViewSlip,
+  getSlipFormData,
+  getSlipRevisions,
+  type SlipRevision
+} from "./slip-edits";
+
+// Edits themselves are saved through saveBeadleSlip with amendSlipId.
+
+export async function getSlipForEditing(slipId: number): Promise<{
+  success: boolean;
+  slip?: BeadleSlipInput;
+  editableUntil?: string | null;
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Please log in to edit beadle slips." };
+    }
+
+    const access = await getSlipEditAccess(user, slipId);
+    if (!access.canEdit) {
+      return { success: false, error: access.reason };
+    }
+
+    const slip = await getSlipFormData(slipId);
+    if (!slip) {
+      return { success: false, error: "Beadle slip not found" };
+    }
+    return { success: true, slip, editableUntil: access.editableUntil };
+  } catch (error: any) {
+    console.error("Error loading slip for editing:", error);
+    return { success: false, error: "Failed to load the slip" };
+  }
+}
+
+// Revisions for a slip's details view, and whether the viewer may edit it.
+export async function getSlipHistory(slipId: number): Promise<{
+  success: boolean;
+  revisions?: SlipRevision[];
+  canEdit?: boolean;
+  editableUntil?: string | null;
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!(await canViewSlip(user, slipId))) {
+      return { success: false, error: "You don't have permission to view this slip" };
+    }
+
+    const access = await getSlipEditAccess(user, slipId);
+    return {
+      success: true,
+      revisions: await getSlipRevisions(slipId),
+      canEdit: access.canEdit,
+      editableUntil: access.canEdit ? access.editableUntil : null
+    };
+  } catch (error: any) {
+    console.error("Error fetching slip history:", error);
+    return { success: false, error: "Failed to load the slip's history" };
+  }
+}
+
+export async function getSlipEditWindow(): Promise<{ success: boolean; cutoff?: string; error?: string }> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "reports.generate")) {
+      return { success: false, error: "You don't have permission to change the slip edit window" };
+    }
+
+    return { success: true, cutoff: await getSlipEditCutoff() };
+  } catch (error: any) {
+    console.error("Error fetching slip edit window:", error);
+    return { success: false, error: "Failed to load the slip edit window" };
+  }
+}
+
+export async function updateSlipEditWindow(cutoff: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "reports.generate")) {
+      return { success: false, error: "You don't have permission to change the slip edit window" };
+    }
+
+    return await setSlipEditCutoff(cutoff, user.id);
+  } catch (error: any) {
+    console.error("Error updating slip edit window:", error);
+    return { success: false, error: "Failed to save the slip edit window" };
+  }
+}
@@ -0,0 +1,257 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { getSetting, setSetting } from "./settings";
+import { can, canAny } from "./permissions";
+import { getClassRoster } from "./roster";
+import { getFormsForRoles } from "./forms";
+import type { BeadleSlipInput } from "./slip-schema";
+import { getCurrentJamaicanDate, getCurrentJamaicanTime, dbTimestampToJamaicanDate, formatTime } from "./timeUtils";
+
+// Rules for changing a beadle slip after it is filed, and the
+// revision history those changes leave behind. The beadle who filed a slip can
+// edit it until the cutoff time (the daily report, 4 PM by default) on the day
+// the slip is for, or the day it was filed if that was later. After that only
+// holders of slips.edit can: supervisors for the forms they supervise, admins
+// (who can view every slip) for any form. Every change stores the fields that
+// differ, as they read before and after.
+
+type Db = Awaited<ReturnType<typeof getDatabase>>;
+
+export const SLIP_EDIT_CUTOFF_SETTING = "slips.edit_cutoff";
+export const DEFAULT_SLIP_EDIT_CUTOFF = "16:00";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type SlipEditAccess = {
+  canEdit: boolean;
+  // Jamaican date and time ("YYYY-MM-DD HH:MM") the beadle's window closes;
+  // null when the member can edit the slip without a time limit.
+  editableUntil: string | null;
+  reason?: string;
+};
+
+export type SlipChange = {
+  field: string;
+  before: string;
+  after: string;
+};
+
+export type SlipRevision = {
+  id: number;
+  slip_id: number;
+  edited_by_name: string | null;
+  edited_by_email: string | null;
+  note: string | null;
+  changes: SlipChange[];
+  created_at: string;
+};
+
+export type SlipSnapshot = Record<string, string>;
+
+export async function getSlipEditCutoff(): Promise<string> {
+  const cutoff = await getSetting<string>(SLIP_EDIT_CUTOFF_SETTING, DEFAULT_SLIP_EDIT_CUTOFF);
+  return TIME_PATTERN.test(cutoff) ? cutoff : DEFAULT_SLIP_EDIT_CUTOFF;
+}
+
+export async function setSlipEditCutoff(cutoff: string, actorId: number): Promise<{ success: boolean; error?: string }> {
+  if (!TIME_PATTERN.test(cutoff)) {
+    return { success: false, error: "Enter the cutoff as a time of day" };
+  }
+  await setSetting(SLIP_EDIT_CUTOFF_SETTING, cutoff, actorId);
+  return { success: true };
+}
+
+// Whether slips.edit lets this member edit any slip for the form, regardless
+// of who filed it or when.
+export async function canEditFormSlips(user: any, formId: number | null): Promise<boolean> {
+  if (!can(user, "slips.edit")) {
+    return false;
+  }
+  if (can(user, "slips.view.all")) {
+    return true;
+  }
+  return formId !== null && (await getFormsForRoles(user?.roles || [])).some(form => form.id === formId);
+}
+
+export async function getSlipEditAccess(user: any, slipId: number): Promise<SlipEditAccess> {
+  const db = await getDatabase();
+  const slip = db.prepare(`
+    SELECT beadle_email, date, created_at, form_id FROM beadle_slips WHERE id = ? AND discarded_at IS NULL
+  `).get(slipId) as { beadle_email: string; date: string; created_at: string; form_id: number | null } | undefined;
+  if (!slip) {
+    return { canEdit: false, editableUntil: null, reason: "Beadle slip not found" };
+  }
+
+  if (await canEditFormSlips(user, slip.form_id)) {
+    return { canEdit: true, editableUntil: null };
+  }
+
+  const filedOn = slip.created_at ? dbTimestampToJamaicanDate(slip.created_at) : slip.date;
+  const windowDate = filedOn > slip.date ? filedOn : slip.date;
+  const cutoff = await getSlipEditCutoff();
+  const editableUntil = `${windowDate} ${cutoff}`;
+
+  const now = getCurrentJamaicanTime();
+  const nowText = `${getCurrentJamaicanDate()} ${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+  const ownSlip = can(user, "slips.submit") && slip.beadle_email.toLowerCase() === String(user?.email ?? "").toLowerCase();
+
+  if (ownSlip && nowText < editableUntil) {
+    return { canEdit: true, editableUntil };
+  }
+  return {
+    canEdit: false,
+    editableUntil,
+    reason: ownSlip
+      ? `Slips can only be changed until ${formatTime(cutoff)} on ${windowDate}. Ask your form supervisor to make the change.`
+      : can(user, "slips.edit")
+        ? "You can only edit slips for the forms you supervise"
+        : "You can only edit slips you submitted"
+  };
+}
+
+// Forms whose slips slips.view.form lets this member see: the ones their
+// supervisor roles are linked to.
+export async function getViewableFormIds(user: any): Promise<number[]> {
+  if (!can(user, "slips.view.form")) {
+    return [];
+  }
+  return (await getFormsForRoles(user?.roles || [])).map(form => form.id);
+}
+
+export async function canViewSlip(user: any, slipId: number): Promise<boolean> {
+  if (canAny(user, ["slips.view.all", "reports.generate"])) {
+    return true;
+  }
+  const db = await getDatabase();
+  const slip = db.prepare(`SELECT beadle_email, form_id FROM beadle_slips WHERE id = ?`).get(slipId) as { beadle_email: string; form_id: number | null } | undefined;
+  if (!slip) {
+    return false;
+  }
+  if (slip.form_id !== null && (await getViewableFormIds(user)).includes(slip.form_id)) {
+    return true;
+  }
+  return can(user, "slips.view.own") && slip.beadle_email.toLowerCase() === String(user?.email ?? "").toLowerCase();
+}
+
+// A filed slip in the shape the beadle form edits. Students still on the
+// class roster come back as roster picks; everyone else as typed names.
+export async function getSlipFormData(slipId: number): Promise<BeadleSlipInput | undefined> {
+  const db = await getDatabase();
+  const slip = db.prepare(`
+    SELECT s.*, f.code AS form_code
+    FROM beadle_slips s
+    LEFT JOIN forms f ON f.id = s.form_id
+    WHERE s.id = ? AND s.discarded_at IS NULL
+  `).get(slipId) as any;
+  if (!slip) {
+    return undefined;
+  }
+
+  const attendance = db.prepare(`
+    SELECT member_id, student_name, status, minutes_late FROM slip_attendance WHERE slip_id = ? ORDER BY student_name ASC
+  `).all(slipId) as { member_id: number | null; student_name: string; status: "absent" | "late"; minutes_late: number | null }[];
+  const roster = new Set((slip.class_id ? await getClassRoster(slip.class_id) : []).map(student => student.id));
+
+  const data: BeadleSlipInput = {
+    beadleEmail: slip.beadle_email,
+    form: slip.form_code ?? "",
+    formClass: slip.class_name,
+    period: slip.period ? String(slip.period) : "",
+    classStartTime: slip.class_start_time,
+    classEndTime: slip.class_end_time,
+    date: slip.date,
+    teacher: slip.teacher,
+    subject: slip.subject,
+    teacherPresent: slip.teacher_present,
+    teacherArrivalTime: slip.teacher_arrival_time ?? "",
+    substituteReceived: slip.substitute_received ?? "",
+    homeworkGiven: slip.homework_given,
+    studentsPresent: String(slip.students_present),
+    absentStudents: [],
+    lateStudents: [],
+    rosterStatus: {},
+    lateMinutes: {},
+    isDoubleSession: !!slip.is_double_session
+  };
+  for (const row of attendance) {
+    if (row.member_id && roster.has(row.member_id)) {
+      data.rosterStatus[row.member_id] = row.status;
+      if (row.status === "late" && row.minutes_late !== null) {
+        data.lateMinutes[row.member_id] = String(row.minutes_late);
+      }
+    } else {
+      (row.status === "absent" ? data.absentStudents : data.lateStudents).push(row.student_name);
+    }
+  }
+  // The form always shows at least one blank name box per list.
+  for (const names of [data.absentStudents, data.lateStudents]) {
+    if (names.length === 0) names.push("");
+  }
+  return data;
+}
+
+// The slip as people read it, one entry per field, for diffing revisions.
+export function snapshotSlip(db: Db, slipId: number): SlipSnapshot {
+  const slip = db.prepare(`SELECT * FROM beadle_slips WHERE id = ?`).get(slipId) as any;
+  const attendance = db.prepare(`
+    SELECT a.status, COALESCE(m.full_name, a.student_name) AS name, a.minutes_late
+    FROM slip_attendance a
+    LEFT JOIN members m ON m.id = a.member_id
+    WHERE a.slip_id = ?
+    ORDER BY name ASC
+  `).all(slipId) as { status: string; name: string; minutes_late: number | null }[];
+  const yesNo = (value: string | null) => (value === "yes" ? "Yes" : value === "no" ? "No" : "");
+
+  return {
+    "Date": slip.date,
+    "Class": slip.class_name,
+    "Period": slip.period ? String(slip.period) : "",
+    "Double session": slip.is_double_session ? "Yes" : "No",
+    "Start time": slip.class_start_time,
+    "End time": slip.class_end_time,
+    "Subject": slip.subject,
+    "Teacher": slip.teacher,
+    "Teacher present": yesNo(slip.teacher_present),
+    "Teacher arrival": slip.teacher_arrival_time || "",
+    "Substitute": yesNo(slip.substitute_received),
+    "Homework given": yesNo(slip.homework_given),
+    "Students present": String(slip.students_present),
+    "Absent students": attendance.filter(row => row.status === "absent").map(row => row.name).join(", "),
+    "Late students": attendance
+      .filter(row => row.status === "late")
+      .map(row => (row.minutes_late !== null ? `${row.name} (${row.minutes_late} min)` : row.name))
+      .join(", ")
+  };
+}
+
+// Stores what changed on a slip since `before` was taken. Call inside the
+// transaction that changes the slip, after the change. Nothing is stored when
+// nothing changed.
+export function recordSlipRevision(db: Db, slipId: number, before: SlipSnapshot, actorId: number, note: string | null): number {
+  const after = snapshotSlip(db, slipId);
+  const changes: SlipChange[] = Object.keys(after)
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field] ?? "", after: after[field] }));
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  db.prepare(`
+    INSERT INTO slip_revisions (slip_id, edited_by, note, changes) VALUES (?, ?, ?, ?)
+  `).run(slipId, actorId, note?.trim() || null, JSON.stringify(changes));
+  return changes.length;
+}
+
+// Newest first.
+export async function getSlipRevisions(slipId: number): Promise<SlipRevision[]> {
+  const db = await getDatabase();
+  const rows = db.prepare(`
+    SELECT r.id, r.slip_id, m.full_name AS edited_by_name, m.email AS edited_by_email, r.note, r.changes, r.created_at
+    FROM slip_revisions r
+    LEFT JOIN members m ON m.id = r.edited_by
+    WHERE r.slip_id = ?
+    ORDER BY r.created_at DESC, r.id DESC
+  `).all(slipId) as (Omit<SlipRevision, "changes"> & { changes: string })[];
+
+  return rows.map(row => ({ ...row, changes: JSON.parse(row.changes) as SlipChange[] }));
+}
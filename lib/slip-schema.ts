@@ -0,0 +1,226 @@
+// The beadle slip as the form sends it, and the rules it has to pass. Shared by
+// the beadle page, which checks before submitting, and saveBeadleSlip, which
+// checks again and is the one that counts. Checks that need the database
+// (class, subject, bell schedule) stay in the server action.
+//
+// Safe to import from client components - it never touches the database.
+
+export type SlipRosterStatus = "absent" | "late";
+
+export type BeadleSlipInput = {
+  beadleEmail: string;
+  form: string;
+  formClass: string;
+  period: string;
+  classStartTime: string;
+  classEndTime: string;
+  date: string;
+  teacher: string;
+  subject: string;
+  teacherPresent: string;
+  teacherArrivalTime: string;
+  substituteReceived: string;
+  homeworkGiven: string;
+  studentsPresent: string;
+  absentStudents: string[];
+  lateStudents: string[];
+  rosterStatus: Record<number, SlipRosterStatus>;
+  lateMinutes: Record<number, string>;
+  isDoubleSession: boolean;
+};
+
+export type ValidBeadleSlip = {
+  form: string;
+  formClass: string;
+  period: number | null;
+  classStartTime: string;
+  classEndTime: string;
+  date: string;
+  teacher: string;
+  subject: string;
+  teacherPresent: "yes" | "no";
+  teacherArrivalTime: string | null;
+  substituteReceived: "yes" | "no" | null;
+  homeworkGiven: "yes" | "no";
+  studentsPresent: number;
+  absentStudents: string[];
+  lateStudents: string[];
+  rosterStatus: Record<number, SlipRosterStatus>;
+  lateMinutes: Record<number, string>;
+  isDoubleSession: boolean;
+};
+
+export type SlipFieldErrors = Partial<Record<keyof BeadleSlipInput, string>>;
+
+export const MAX_STUDENTS_PRESENT = 50;
+export const MAX_MINUTES_LATE = 180;
+const MAX_NAME_LENGTH = 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const isYesNo = (value: unknown): value is "yes" | "no" => value === "yes" || value === "no";
+const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+function isRealDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T12:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function nameList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(name => typeof name !== "string")) {
+    return null;
+  }
+  return value.map(name => name.trim()).filter(name => name !== "");
+}
+
+// `today` is the school's current date (YYYY-MM-DD); slips can't be dated after it.
+export function validateBeadleSlip(
+  input: Partial<BeadleSlipInput>,
+  today: string
+): { data?: ValidBeadleSlip; errors: SlipFieldErrors } {
+  const errors: SlipFieldErrors = {};
+
+  const date = text(input.date);
+  if (!isRealDate(date)) {
+    errors.date = "Pick the date of the class";
+  } else if (date > today) {
+    errors.date = "Slips can't be filled in for a date that hasn't happened yet";
+  }
+
+  const form = text(input.form);
+  const formClass = text(input.formClass);
+  if (!form) {
+    errors.form = "Your profile doesn't have a form yet";
+  }
+  if (!formClass) {
+    errors.formClass = "Pick the class this slip is for";
+  }
+
+  const periodText = text(input.period);
+  const period = periodText ? Number(periodText) : null;
+  if (period !== null && (!Number.isInteger(period) || period < 1)) {
+    errors.period = "Pick one of the periods on the list";
+  }
+
+  const classStartTime = text(input.classStartTime);
+  const classEndTime = text(input.classEndTime);
+  if (!TIME_PATTERN.test(classStartTime)) {
+    errors.classStartTime = "Enter the time the class started";
+  }
+  if (!TIME_PATTERN.test(classEndTime)) {
+    errors.classEndTime = "Enter the time the class ended";
+  } else if (!errors.classStartTime && classEndTime <= classStartTime) {
+    errors.classEndTime = "End time must be later than start time";
+  }
+
+  const teacher = text(input.teacher);
+  if (!teacher) {
+    errors.teacher = "Enter the teacher who was timetabled for this class";
+  } else if (teacher.length > MAX_NAME_LENGTH) {
+    errors.teacher = `Teacher names can be at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  const subject = text(input.subject);
+  if (!subject) {
+    errors.subject = "Pick the subject";
+  }
+
+  // A present teacher has an arrival time and no substitute; an absent one
+  // has no arrival time and an answer about the substitute.
+  const teacherPresent = input.teacherPresent;
+  const teacherArrivalTime = text(input.teacherArrivalTime);
+  const substituteReceived = text(input.substituteReceived);
+  if (!isYesNo(teacherPresent)) {
+    errors.teacherPresent = "Say whether the teacher was present";
+  } else if (teacherPresent === "yes") {
+    if (!TIME_PATTERN.test(teacherArrivalTime)) {
+      errors.teacherArrivalTime = "Enter the time the teacher arrived";
+    } else if (TIME_PATTERN.test(classEndTime) && teacherArrivalTime >= classEndTime) {
+      errors.teacherArrivalTime = "The teacher has to arrive before the class ends";
+    }
+  } else if (!isYesNo(substituteReceived)) {
+    errors.substituteReceived = "Say whether a substitute teacher came";
+  }
+
+  const homeworkGiven = input.homeworkGiven;
+  if (!isYesNo(homeworkGiven)) {
+    errors.homeworkGiven = "Say whether homework was given";
+  }
+
+  const studentsText = text(input.studentsPresent);
+  const studentsPresent = /^\d+$/.test(studentsText) ? Number(studentsText) : NaN;
+  if (!Number.isInteger(studentsPresent)) {
+    errors.studentsPresent = "Enter the number of students present as a whole number";
+  } else if (studentsPresent > MAX_STUDENTS_PRESENT) {
+    errors.studentsPresent = `No more than ${MAX_STUDENTS_PRESENT} students can be present`;
+  }
+
+  const absentStudents = nameList(input.absentStudents);
+  const lateStudents = nameList(input.lateStudents);
+  if (!absentStudents) {
+    errors.absentStudents = "Absent students should be a list of names";
+  } else if (absentStudents.some(name => name.length > MAX_NAME_LENGTH)) {
+    errors.absentStudents = `Student names can be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!lateStudents) {
+    errors.lateStudents = "Late students should be a list of names";
+  } else if (lateStudents.some(name => name.length > MAX_NAME_LENGTH)) {
+    errors.lateStudents = `Student names can be at most ${MAX_NAME_LENGTH} characters`;
+  } else if (absentStudents) {
+    const absentNames = new Set(absentStudents.map(name => name.toLowerCase()));
+    const both = lateStudents.find(name => absentNames.has(name.toLowerCase()));
+    if (both) {
+      errors.lateStudents = `${both} is listed as both absent and late`;
+    }
+  }
+
+  const rosterStatus = input.rosterStatus ?? {};
+  if (typeof rosterStatus !== "object" || Object.values(rosterStatus).some(status => status !== "absent" && status !== "late")) {
+    errors.rosterStatus = "Mark each student on the roster as present, absent or late";
+  }
+
+  const lateMinutes = input.lateMinutes ?? {};
+  for (const [id, minutes] of Object.entries(lateMinutes)) {
+    if (minutes === "" || minutes === null || minutes === undefined) continue;
+    const value = Number(minutes);
+    if (!Number.isInteger(value) || value < 0 || value > MAX_MINUTES_LATE) {
+      errors.lateMinutes = `Minutes late should be a whole number from 0 to ${MAX_MINUTES_LATE}`;
+    } else if (rosterStatus[Number(id)] !== "late") {
+      errors.lateMinutes = "Minutes late can only be given for students marked late";
+    }
+  }
+
+  if (input.isDoubleSession !== undefined && typeof input.isDoubleSession !== "boolean") {
+    errors.isDoubleSession = "Say whether this was a double session";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    data: {
+      form,
+      formClass,
+      period,
+      classStartTime,
+      classEndTime,
+      date,
+      teacher,
+      subject,
+      teacherPresent: teacherPresent as "yes" | "no",
+      teacherArrivalTime: teacherPresent === "yes" ? teacherArrivalTime : null,
+      substituteReceived: teacherPresent === "no" ? substituteReceived as "yes" | "no" : null,
+      homeworkGiven: homeworkGiven as "yes" | "no",
+      studentsPresent,
+      absentStudents: absentStudents as string[],
+      lateStudents: lateStudents as string[],
+      rosterStatus,
+      lateMinutes,
+      isDoubleSession: !!input.isDoubleSession
+    }
+  };
+}
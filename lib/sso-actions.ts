@@ -0,0 +1,10 @@
+"use server";
+
+import { getOidcConfig } from "./oidc";
+
+// Tells the login page whether to offer single sign-on, without exposing any
+// of the provider's configuration.
+export async function getSsoProvider(): Promise<{ enabled: boolean; name?: string }> {
+  const config = getOidcConfig();
+  return config ? { enabled: true, name: config.providerName } : { enabled: false };
+}
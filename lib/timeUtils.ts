@@ -47,3 +47,22 @@ export function getCurrentJamaicanTime(): Date {
   const jamaicaTime = new Date(now.toLocaleString('en-US', { timeZone: JAMAICA_TIMEZONE }));
   return jamaicaTime;
 }
+
+// Today's date in Jamaica as YYYY-MM-DD.
+export function getCurrentJamaicanDate(): string {
+  const now = getCurrentJamaicanTime();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('-');
+}
+
+// SQLite's CURRENT_TIMESTAMP is UTC in "YYYY-MM-DD HH:MM:SS" form with no zone marker.
+export function formatDbTimestamp(timestamp: string): string {
+  if (!timestamp) return 'N/A';
+  return formatJamaicanDateTime(timestamp.replace(' ', 'T') + 'Z');
+}
+
+// The Jamaican calendar date (YYYY-MM-DD) a CURRENT_TIMESTAMP value falls on.
+export function dbTimestampToJamaicanDate(timestamp: string): string {
+  return new Date(timestamp.replace(' ', 'T') + 'Z').toLocaleDateString('en-CA', { timeZone: JAMAICA_TIMEZONE });
+}
@@ -0,0 +1,112 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can, canAny } from "./permissions";
+import { getPeriodsForDate, type SchoolPeriod } from "./bell-schedules";
+import {
+  getClassTimetable,
+  getClassLessons,
+  saveTimetableEntry,
+  planTimetableImport,
+  applyTimetableImport,
+  type TimetableEntry,
+  type TimetableLesson,
+  type TimetableImportRow,
+  type TimetableImportSummary
+} from "./timetable";
+
+export async function getTimetableForClass(classId: number): Promise<{
+  success: boolean;
+  periods?: SchoolPeriod[];
+  entries?: TimetableEntry[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage the timetable" };
+    }
+
+    return { success: true, periods: await getPeriodsForDate(), entries: await getClassTimetable(classId) };
+  } catch (error: any) {
+    console.error("Error fetching timetable:", error);
+    return { success: false, error: "Failed to load the timetable" };
+  }
+}
+
+// The lessons a class has on one date, used to pre-fill the beadle slip.
+export async function getLessonsForClass(classId: number, date: string): Promise<{
+  success: boolean;
+  lessons?: TimetableLesson[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!canAny(user, ["slips.submit", "slips.edit", "timetable.manage"])) {
+      return { success: false, error: "You don't have permission to view the timetable" };
+    }
+
+    return { success: true, lessons: await getClassLessons(classId, date) };
+  } catch (error: any) {
+    console.error("Error fetching lessons:", error);
+    return { success: false, error: "Failed to load the timetable" };
+  }
+}
+
+export async function saveTimetableSlot(
+  classId: number,
+  dayOfWeek: number,
+  period: number,
+  lesson: { subject_id: number | null; teacher_id: number | null; room: string }
+) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to manage the timetable" };
+    }
+
+    return await saveTimetableEntry(classId, dayOfWeek, period, lesson, user.id);
+  } catch (error: any) {
+    console.error("Error saving timetable slot:", error);
+    return { success: false, error: "Failed to save the lesson" };
+  }
+}
+
+export async function previewTimetableImport(csv: string): Promise<{
+  success: boolean;
+  rows?: TimetableImportRow[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to import the timetable" };
+    }
+
+    const { rows, error } = await planTimetableImport(csv);
+    return rows ? { success: true, rows } : { success: false, error };
+  } catch (error: any) {
+    console.error("Error previewing timetable import:", error);
+    return { success: false, error: "Failed to read the import file" };
+  }
+}
+
+export async function runTimetableImport(csv: string): Promise<{
+  success: boolean;
+  rows?: TimetableImportRow[];
+  summary?: TimetableImportSummary;
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "timetable.manage")) {
+      return { success: false, error: "You don't have permission to import the timetable" };
+    }
+
+    const { rows, summary, error } = await applyTimetableImport(csv, user.id);
+    return summary ? { success: true, rows, summary } : { success: false, rows, error };
+  } catch (error: any) {
+    console.error("Error running timetable import:", error);
+    return { success: false, error: "Failed to import the timetable" };
+  }
+}
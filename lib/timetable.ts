@@ -0,0 +1,335 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { parseCsv } from "./csv";
+import { getForms, parseClassName, resolveClass } from "./forms";
+import { getTeachers, getSubjects } from "./directory";
+import { getPeriodsForDate, type SchoolPeriod } from "./bell-schedules";
+
+// Access to the weekly class timetable. Entries are stored one per
+// period; getClassLessons folds consecutive periods with the same subject,
+// teacher and room into a single lesson, which is how doubles are recognised.
+// Subjects and teachers come from the directory; entries store their ids and
+// are read back with the current names. Import columns: class, day, period (a
+// number or a range such as 3-4), subject, teacher, room.
+
+export type TimetableEntry = {
+  id: number;
+  class_id: number;
+  day_of_week: number;
+  period: number;
+  subject_id: number | null;
+  teacher_id: number | null;
+  subject: string;
+  teacher: string;
+  room: string | null;
+};
+
+export type TimetableLesson = {
+  day_of_week: number;
+  first_period: number;
+  last_period: number;
+  start_time: string;
+  end_time: string;
+  subject: string;
+  teacher: string;
+  room: string | null;
+  is_double: boolean;
+};
+
+export type TimetableImportRow = {
+  line: number;
+  class_name: string;
+  day_of_week: number | null;
+  periods: number[];
+  subject: string;
+  teacher: string;
+  subject_id: number | null;
+  teacher_id: number | null;
+  room: string | null;
+  errors: string[];
+};
+
+export type TimetableImportSummary = {
+  classes: number;
+  entries: number;
+};
+
+const DAY_NAMES = ["monday", "tuesday", "wednesday", "thursday", "friday"];
+const MAX_IMPORT_ROWS = 5000;
+
+// 1 = Monday to 5 = Friday; null for weekends. Dates are YYYY-MM-DD.
+export function dayOfWeekForDate(date: string): number | null {
+  const day = new Date(`${date}T12:00:00`).getDay();
+  return Number.isNaN(day) || day === 0 || day === 6 ? null : day;
+}
+
+// Accepts 1-5 or a day name, abbreviated or not ("Mon", "monday").
+function parseDay(value: string): number | null {
+  const text = value.trim().toLowerCase();
+  if (/^[1-5]$/.test(text)) {
+    return Number(text);
+  }
+  const index = text.length >= 3 ? DAY_NAMES.findIndex(day => day.startsWith(text)) : -1;
+  return index === -1 ? null : index + 1;
+}
+
+function parsePeriods(value: string, periods: SchoolPeriod[]): number[] | null {
+  const match = value.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const first = Number(match[1]);
+  const last = match[2] ? Number(match[2]) : first;
+  const known = new Set(periods.map(p => p.period));
+  if (last < first || !known.has(first) || !known.has(last)) {
+    return null;
+  }
+  return periods.map(p => p.period).filter(period => period >= first && period <= last);
+}
+
+export async function getClassTimetable(classId: number): Promise<TimetableEntry[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT e.id, e.class_id, e.day_of_week, e.period, e.subject_id, e.teacher_id,
+           COALESCE(s.name, e.subject) AS subject, COALESCE(t.display_name, e.teacher) AS teacher, e.room
+    FROM timetable_entries e
+    LEFT JOIN subjects s ON s.id = e.subject_id
+    LEFT JOIN teachers t ON t.id = e.teacher_id
+    WHERE e.class_id = ?
+    ORDER BY e.day_of_week ASC, e.period ASC
+  `).all(classId) as TimetableEntry[];
+}
+
+// The lessons a class has on the given date, timed by that day's bell schedule.
+// Periods the schedule doesn't have (e.g. the morning of an exam day) drop out.
+export async function getClassLessons(classId: number, date: string): Promise<TimetableLesson[]> {
+  const day = dayOfWeekForDate(date);
+  if (!day) {
+    return [];
+  }
+
+  const periods = await getPeriodsForDate(date);
+  const times = new Map(periods.map(p => [p.period, p]));
+  const entries = (await getClassTimetable(classId)).filter(entry => entry.day_of_week === day && times.has(entry.period));
+
+  const lessons: TimetableLesson[] = [];
+  for (const entry of entries) {
+    const previous = lessons[lessons.length - 1];
+    const continues = previous &&
+      previous.last_period + 1 === entry.period &&
+      previous.subject === entry.subject &&
+      previous.teacher === entry.teacher &&
+      previous.room === entry.room;
+
+    if (continues) {
+      previous.last_period = entry.period;
+      previous.end_time = times.get(entry.period)!.end_time;
+      previous.is_double = true;
+      continue;
+    }
+
+    lessons.push({
+      day_of_week: day,
+      first_period: entry.period,
+      last_period: entry.period,
+      start_time: times.get(entry.period)!.start_time,
+      end_time: times.get(entry.period)!.end_time,
+      subject: entry.subject,
+      teacher: entry.teacher,
+      room: entry.room,
+      is_double: false
+    });
+  }
+  return lessons;
+}
+
+// Sets one period of a class's week. No subject and no teacher frees the slot.
+export async function saveTimetableEntry(
+  classId: number,
+  dayOfWeek: number,
+  period: number,
+  lesson: { subject_id: number | null; teacher_id: number | null; room: string },
+  actorId: number
+): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  const room = lesson.room.trim() || null;
+
+  if (!db.prepare(`SELECT id FROM classes WHERE id = ?`).get(classId)) {
+    return { success: false, error: "Class not found" };
+  }
+  if (!Number.isInteger(dayOfWeek) || dayOfWeek < 1 || dayOfWeek > 5) {
+    return { success: false, error: "Pick a school day" };
+  }
+  if (!(await getPeriodsForDate()).some(p => p.period === period)) {
+    return { success: false, error: `Period ${period} isn't part of the school day` };
+  }
+
+  if (lesson.subject_id === null && lesson.teacher_id === null) {
+    db.prepare(`DELETE FROM timetable_entries WHERE class_id = ? AND day_of_week = ? AND period = ?`)
+      .run(classId, dayOfWeek, period);
+    return { success: true };
+  }
+
+  const subject = (await getSubjects()).find(s => s.id === lesson.subject_id);
+  const teacher = (await getTeachers()).find(t => t.id === lesson.teacher_id);
+  if (!subject || !teacher) {
+    return { success: false, error: "A timetabled lesson needs both a subject and a teacher" };
+  }
+
+  db.prepare(`
+    INSERT INTO timetable_entries (class_id, day_of_week, period, subject, teacher, subject_id, teacher_id, room, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(class_id, day_of_week, period) DO UPDATE SET
+      subject = excluded.subject,
+      teacher = excluded.teacher,
+      subject_id = excluded.subject_id,
+      teacher_id = excluded.teacher_id,
+      room = excluded.room,
+      updated_by = excluded.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(classId, dayOfWeek, period, subject.name, teacher.display_name, subject.id, teacher.id, room, actorId);
+  return { success: true };
+}
+
+export async function planTimetableImport(csv: string): Promise<{ rows?: TimetableImportRow[]; error?: string }> {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    return { error: "The file is empty" };
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase().replace(/\s+/g, "_"));
+  const missing = ["class", "day", "period", "subject", "teacher"].filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    return { error: `The header row is missing: ${missing.join(", ")}` };
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` };
+  }
+
+  const db = await getDatabase();
+  const forms = await getForms();
+  const periods = await getPeriodsForDate();
+  const classNames = new Map(
+    (db.prepare(`SELECT name FROM classes`).all() as { name: string }[])
+      .map(schoolClass => [schoolClass.name.toUpperCase(), schoolClass.name])
+  );
+  const subjects = new Map((await getSubjects()).map(subject => [subject.name.toLowerCase(), subject]));
+  const teachers = new Map((await getTeachers()).map(teacher => [teacher.display_name.toLowerCase(), teacher]));
+  const taken = new Map<string, number>();
+
+  const rows = records.map((cells, index): TimetableImportRow => {
+    const value = (column: string) => (cells[columns.indexOf(column)] ?? "").trim();
+    const row: TimetableImportRow = {
+      line: index + 2,
+      class_name: value("class").toUpperCase(),
+      day_of_week: parseDay(value("day")),
+      periods: parsePeriods(value("period"), periods) ?? [],
+      subject: value("subject"),
+      teacher: value("teacher"),
+      subject_id: null,
+      teacher_id: null,
+      room: value("room") || null,
+      errors: []
+    };
+
+    const className = classNames.get(row.class_name) ?? parseClassName(row.class_name, forms)?.name;
+    if (className) {
+      row.class_name = className;
+    } else {
+      row.errors.push(`Class '${row.class_name}' isn't a known class (use e.g. 5-2 or 6A-1)`);
+    }
+
+    if (!row.day_of_week) {
+      row.errors.push(`'${value("day")}' isn't a school day (use Monday to Friday or 1-5)`);
+    }
+    if (row.periods.length === 0) {
+      row.errors.push(`'${value("period")}' isn't a period of the school day (use e.g. 3 or 3-4)`);
+    }
+    if (!row.subject || !row.teacher) {
+      row.errors.push("Each lesson needs a subject and a teacher");
+    } else {
+      const subject = subjects.get(row.subject.toLowerCase());
+      const teacher = teachers.get(row.teacher.toLowerCase());
+      if (subject) {
+        row.subject = subject.name;
+        row.subject_id = subject.id;
+      } else {
+        row.errors.push(`'${row.subject}' isn't in the subject catalogue`);
+      }
+      if (teacher) {
+        row.teacher = teacher.display_name;
+        row.teacher_id = teacher.id;
+      } else {
+        row.errors.push(`'${row.teacher}' isn't in the teacher directory`);
+      }
+    }
+
+    if (row.errors.length === 0) {
+      for (const period of row.periods) {
+        const slot = `${row.class_name}|${row.day_of_week}|${period}`;
+        if (taken.has(slot)) {
+          row.errors.push(`Period ${period} is already used by line ${taken.get(slot)}`);
+        }
+        taken.set(slot, row.line);
+      }
+    }
+
+    return row;
+  });
+
+  return { rows };
+}
+
+// Each class named in the file has its whole week replaced, so a file can be
+// re-imported after corrections. Nothing is written while any row has errors.
+export async function applyTimetableImport(csv: string, actorId: number): Promise<{ rows?: TimetableImportRow[]; summary?: TimetableImportSummary; error?: string }> {
+  const plan = await planTimetableImport(csv);
+  if (!plan.rows) {
+    return { error: plan.error };
+  }
+  if (plan.rows.length === 0) {
+    return { error: "The file has no lessons" };
+  }
+  if (plan.rows.some(row => row.errors.length > 0)) {
+    return { rows: plan.rows, error: "Fix the rows with errors and import the file again" };
+  }
+
+  const classIds = new Map<string, number>();
+  for (const row of plan.rows) {
+    if (!classIds.has(row.class_name)) {
+      const { classRecord, error } = await resolveClass(row.class_name, { create: true });
+      if (!classRecord) {
+        return { error: error || `Class '${row.class_name}' couldn't be created` };
+      }
+      classIds.set(row.class_name, classRecord.id);
+    }
+  }
+
+  const db = await getDatabase();
+  const clearClass = db.prepare(`DELETE FROM timetable_entries WHERE class_id = ?`);
+  const insertEntry = db.prepare(`
+    INSERT INTO timetable_entries (class_id, day_of_week, period, subject, teacher, subject_id, teacher_id, room, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const summary: TimetableImportSummary = { classes: classIds.size, entries: 0 };
+  db.transaction(() => {
+    for (const classId of classIds.values()) {
+      clearClass.run(classId);
+    }
+    for (const row of plan.rows!) {
+      for (const period of row.periods) {
+        insertEntry.run(
+          classIds.get(row.class_name), row.day_of_week, period,
+          row.subject, row.teacher, row.subject_id, row.teacher_id, row.room, actorId
+        );
+        summary.entries++;
+      }
+    }
+  })();
+
+  console.log(`[Timetable] Member ${actorId} imported ${summary.entries} period(s) for ${summary.classes} class(es)`);
+  return { rows: plan.rows, summary };
+}
@@ -0,0 +1,210 @@
+"use server";
+
+import QRCode from "qrcode";
+import { getDatabase } from "./database";
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import { setSetting } from "./settings";
+import { generateTotpSecret, buildOtpauthUrl, verifyTotpCode } from "./totp";
+import {
+  getRequiredTwoFactorLevel,
+  isTwoFactorRequiredFor,
+  generateRecoveryCodes,
+  verifySecondFactor
+} from "./two-factor";
+import { checkThrottledCredential } from "./login-throttle";
+import { TWO_FACTOR_REQUIRED_LEVEL_SETTING, TOTP_ISSUER } from "./auth-config";
+
+export async function getMyTwoFactorStatus() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`SELECT totp_enabled_at FROM members WHERE id = ?`).get(user.id) as any;
+    const remaining = db.prepare(`
+      SELECT COUNT(*) as count FROM totp_recovery_codes WHERE member_id = ? AND used_at IS NULL
+    `).get(user.id) as any;
+
+    return {
+      success: true,
+      enabled: !!member?.totp_enabled_at,
+      enabledAt: member?.totp_enabled_at as string | null,
+      required: await isTwoFactorRequiredFor(user.id),
+      recoveryCodesRemaining: remaining.count as number
+    };
+  } catch (error: any) {
+    console.error("Error fetching 2FA status:", error);
+    return { success: false, error: "Failed to fetch two-factor status" };
+  }
+}
+
+// Stores a pending secret; 2FA only switches on once a code from it is confirmed.
+export async function startTwoFactorEnrolment() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`SELECT totp_enabled_at FROM members WHERE id = ?`).get(user.id) as any;
+    if (member?.totp_enabled_at) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+
+    const secret = generateTotpSecret();
+    db.prepare(`UPDATE members SET totp_secret = ?, totp_last_step = NULL WHERE id = ?`).run(secret, user.id);
+
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return { success: true, secret, otpauthUrl, qrCodeDataUrl };
+  } catch (error: any) {
+    console.error("Error starting 2FA enrolment:", error);
+    return { success: false, error: "Failed to start two-factor setup" };
+  }
+}
+
+export async function confirmTwoFactorEnrolment(code: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const db = await getDatabase();
+    const member = db.prepare(`SELECT totp_secret, totp_enabled_at FROM members WHERE id = ?`).get(user.id) as any;
+    if (member?.totp_enabled_at) {
+      return { success: false, error: "Two-factor authentication is already enabled" };
+    }
+    if (!member?.totp_secret) {
+      return { success: false, error: "Start two-factor setup first" };
+    }
+
+    const step = verifyTotpCode(member.totp_secret, code);
+    if (step === null) {
+      return { success: false, error: "That code didn't match. Check your device's clock and try again." };
+    }
+
+    db.prepare(`
+      UPDATE members SET totp_enabled_at = CURRENT_TIMESTAMP, totp_last_step = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(step, user.id);
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    console.log(`Member ${user.email} enabled two-factor authentication`);
+    return { success: true, recoveryCodes, message: "Two-factor authentication enabled" };
+  } catch (error: any) {
+    console.error("Error confirming 2FA enrolment:", error);
+    return { success: false, error: "Failed to enable two-factor authentication" };
+  }
+}
+
+export async function regenerateMyRecoveryCodes(code: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const codeError = await checkThrottledCredential(
+      user.email,
+      () => verifySecondFactor(user.id, code),
+      "Invalid verification code"
+    );
+    if (codeError) {
+      return { success: false, error: codeError };
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+    return { success: true, recoveryCodes, message: "New recovery codes generated" };
+  } catch (error: any) {
+    console.error("Error regenerating recovery codes:", error);
+    return { success: false, error: "Failed to generate recovery codes" };
+  }
+}
+
+export async function disableTwoFactor(code: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!user) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (await isTwoFactorRequiredFor(user.id)) {
+      return { success: false, error: "Two-factor authentication is required for your role and can't be turned off" };
+    }
+
+    const codeError = await checkThrottledCredential(
+      user.email,
+      () => verifySecondFactor(user.id, code),
+      "Invalid verification code"
+    );
+    if (codeError) {
+      return { success: false, error: codeError };
+    }
+
+    const db = await getDatabase();
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE members
+        SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(user.id);
+      db.prepare(`DELETE FROM totp_recovery_codes WHERE member_id = ?`).run(user.id);
+    })();
+
+    console.log(`Member ${user.email} disabled two-factor authentication`);
+    return { success: true, message: "Two-factor authentication disabled" };
+  } catch (error: any) {
+    console.error("Error disabling 2FA:", error);
+    return { success: false, error: "Failed to disable two-factor authentication" };
+  }
+}
+
+export async function getTwoFactorPolicy() {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can view the two-factor policy" };
+    }
+
+    const db = await getDatabase();
+    const levels = db.prepare(`
+      SELECT permission_level as level, GROUP_CONCAT(display_name, ', ') as roles
+      FROM roles
+      GROUP BY permission_level
+      ORDER BY permission_level
+    `).all() as { level: number; roles: string }[];
+
+    return { success: true, requiredLevel: await getRequiredTwoFactorLevel(), levels };
+  } catch (error: any) {
+    console.error("Error fetching two-factor policy:", error);
+    return { success: false, error: "Failed to fetch two-factor policy" };
+  }
+}
+
+export async function updateTwoFactorPolicy(requiredLevel: number | null) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "security.manage")) {
+      return { success: false, error: "Only admins can change the two-factor policy" };
+    }
+
+    if (requiredLevel !== null && (!Number.isInteger(requiredLevel) || requiredLevel < 1)) {
+      return { success: false, error: "Invalid permission level" };
+    }
+
+    await setSetting(TWO_FACTOR_REQUIRED_LEVEL_SETTING, requiredLevel, user.id);
+
+    console.log(`Admin ${user.email} set mandatory 2FA level to ${requiredLevel ?? "off"}`);
+    return { success: true, message: "Two-factor policy updated" };
+  } catch (error: any) {
+    console.error("Error updating two-factor policy:", error);
+    return { success: false, error: "Failed to update two-factor policy" };
+  }
+}
@@ -0,0 +1,86 @@
+import "server-only";
+import { createHash, randomBytes } from "crypto";
+import { getDatabase } from "./database";
+import { getSetting } from "./settings";
+import { getMemberPermissionLevel } from "./role-db-helpers";
+import { verifyTotpCode } from "./totp";
+import { TWO_FACTOR_REQUIRED_LEVEL_SETTING, RECOVERY_CODE_COUNT } from "./auth-config";
+
+// 2FA helpers shared by the login flow, the session check and the
+// enrolment actions. Nothing here checks who is calling.
+
+function hashRecoveryCode(code: string): string {
+    return createHash("sha256").update(code.replace(/[\s-]/g, "").toUpperCase()).digest("hex");
+}
+
+export async function getRequiredTwoFactorLevel(): Promise<number | null> {
+    return getSetting<number | null>(TWO_FACTOR_REQUIRED_LEVEL_SETTING, null);
+}
+
+export async function isTwoFactorRequiredFor(memberId: number): Promise<boolean> {
+    const requiredLevel = await getRequiredTwoFactorLevel();
+    if (requiredLevel === null) {
+        return false;
+    }
+    return (await getMemberPermissionLevel(memberId)) >= requiredLevel;
+}
+
+export async function isTwoFactorEnabled(memberId: number): Promise<boolean> {
+    const db = await getDatabase();
+    const row = db.prepare(`SELECT totp_enabled_at FROM members WHERE id = ?`).get(memberId) as any;
+    return !!row?.totp_enabled_at;
+}
+
+// True when policy requires 2FA for this member but they haven't enrolled yet.
+export async function needsTwoFactorEnrolment(memberId: number): Promise<boolean> {
+    return (await isTwoFactorRequiredFor(memberId)) && !(await isTwoFactorEnabled(memberId));
+}
+
+// Replaces any existing recovery codes. Returned in plain text exactly once.
+export async function generateRecoveryCodes(memberId: number): Promise<string[]> {
+    const db = await getDatabase();
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = randomBytes(5).toString("hex").toUpperCase();
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    db.transaction(() => {
+        db.prepare(`DELETE FROM totp_recovery_codes WHERE member_id = ?`).run(memberId);
+        const insert = db.prepare(`INSERT INTO totp_recovery_codes (member_id, code_hash) VALUES (?, ?)`);
+        for (const code of codes) {
+            insert.run(memberId, hashRecoveryCode(code));
+        }
+    })();
+
+    return codes;
+}
+
+// Accepts a current TOTP code or an unused recovery code, and marks whichever
+// matched as spent.
+export async function verifySecondFactor(memberId: number, code: string): Promise<boolean> {
+    const db = await getDatabase();
+    const member = db.prepare(`
+        SELECT totp_secret, totp_last_step FROM members
+        WHERE id = ? AND totp_enabled_at IS NOT NULL
+    `).get(memberId) as any;
+
+    if (!member || !code) {
+        return false;
+    }
+
+    const step = verifyTotpCode(member.totp_secret, code, member.totp_last_step);
+    if (step !== null) {
+        const result = db.prepare(`
+            UPDATE members SET totp_last_step = ?
+            WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)
+        `).run(step, memberId, step);
+        return result.changes > 0;
+    }
+
+    const result = db.prepare(`
+        UPDATE totp_recovery_codes SET used_at = CURRENT_TIMESTAMP
+        WHERE member_id = ? AND code_hash = ? AND used_at IS NULL
+    `).run(memberId, hashRecoveryCode(code));
+
+    return result.changes > 0;
+}
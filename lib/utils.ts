@@ -56,19 +56,6 @@ export function formatDate(date: any) {
     return `${day}/${month}/${year}`;
 }
 
-export function saveSessionToken(token: string) {
-    localStorage.setItem("session", token);
-}
-
-export function deleteSessionToken() {
-    localStorage.removeItem("session");
-    document.cookie = "session_token=; path=/; max-age=0";
-}
-
-export function retrieveSessionToken(): string {
-    return localStorage.getItem("session") ?? "";
-}
-
 export function getPrimaryRole(user: any): string {
     try {
         if (!user || !user.roles || !Array.isArray(user.roles) || user.roles.length === 0) {
@@ -115,4 +102,27 @@ export function hasRole(user: any, role: string): boolean {
         console.error('Error in hasRole:', error);
         return role === 'student';
     }
-}
\ No newline at end of file
+}
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+    if (!userAgent) return 'Unknown device';
+
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge' :
+        /OPR\//.test(userAgent) ? 'Opera' :
+        /Chrome\//.test(userAgent) ? 'Chrome' :
+        /Firefox\//.test(userAgent) ? 'Firefox' :
+        /Safari\//.test(userAgent) ? 'Safari' :
+        'Unknown browser';
+
+    const os =
+        /Windows/.test(userAgent) ? 'Windows' :
+        /iPhone|iPad/.test(userAgent) ? 'iOS' :
+        /Mac OS X/.test(userAgent) ? 'macOS' :
+        /Android/.test(userAgent) ? 'Android' :
+        /CrOS/.test(userAgent) ? 'ChromeOS' :
+        /Linux/.test(userAgent) ? 'Linux' :
+        'Unknown OS';
+
+    return `${browser} on ${os}`;
+}
@@ -0,0 +1,74 @@
+"use server";
+
+import { fetchCurrentUser } from "./serverUtils";
+import { can } from "./permissions";
+import {
+  planYearRollover,
+  applyYearRollover,
+  listYearRollovers,
+  undoYearRollover,
+  type RolloverPlan,
+  type RolloverRecord
+} from "./year-rollover";
+
+const ACADEMIC_YEAR_PATTERN = /^\d{4}-\d{4}$/;
+
+export async function getYearRolloverPreview(): Promise<{
+  success: boolean;
+  plan?: RolloverPlan;
+  history?: RolloverRecord[];
+  error?: string;
+}> {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "members.promote")) {
+      return { success: false, error: "You don't have permission to run the year rollover" };
+    }
+
+    return { success: true, plan: await planYearRollover(), history: await listYearRollovers() };
+  } catch (error: any) {
+    console.error("Error previewing year rollover:", error);
+    return { success: false, error: "Failed to preview the year rollover" };
+  }
+}
+
+export async function runYearRollover(academicYear: string) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "members.promote")) {
+      return { success: false, error: "You don't have permission to run the year rollover" };
+    }
+
+    if (!ACADEMIC_YEAR_PATTERN.test(academicYear?.trim() || "")) {
+      return { success: false, error: "Academic year should look like 2025-2026" };
+    }
+
+    const { plan } = await applyYearRollover(academicYear.trim(), user.id);
+    return {
+      success: true,
+      message: `Promoted ${plan.promoted.length} student(s) and graduated ${plan.graduating.length}`
+    };
+  } catch (error: any) {
+    console.error("Error running year rollover:", error);
+    return { success: false, error: "Failed to run the year rollover" };
+  }
+}
+
+export async function undoLastYearRollover(rolloverId: number) {
+  try {
+    const user = await fetchCurrentUser(false);
+    if (!can(user, "members.promote")) {
+      return { success: false, error: "You don't have permission to undo the year rollover" };
+    }
+
+    const result = await undoYearRollover(rolloverId, user.id);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, message: "Rollover undone" };
+  } catch (error: any) {
+    console.error("Error undoing year rollover:", error);
+    return { success: false, error: "Failed to undo the year rollover" };
+  }
+}
@@ -0,0 +1,301 @@
+import "server-only";
+import { getDatabase } from "./database";
+import { recordRoleChange } from "./role-audit";
+import { ACTIVE_ASSIGNMENT_SQL } from "./role-assignments";
+import { getForms, resolveClass, type FormRecord } from "./forms";
+
+// End-of-year rollover. Every student moves up to their form's
+// next_form keeping their class number ("5-2" becomes "6B-2"), students in a
+// form with no next form graduate to alumni, and roles flagged resets_yearly
+// are taken away from everyone. The rows it changes are saved to
+// year_rollovers so the most recent run can be undone.
+
+const ROLLOVER_REASON = "End-of-year rollover";
+
+export type RolloverMember = {
+  id: number;
+  full_name: string;
+  email: string;
+  form_class: string | null;
+  form_id: number | null;
+  next_form_class: string | null;
+};
+
+export type RolloverRoleRemoval = {
+  member_id: number;
+  full_name: string;
+  role_name: string;
+  display_name: string;
+};
+
+export type RolloverPlan = {
+  transitions: { from: string; to: string; count: number }[];
+  promoted: RolloverMember[];
+  graduating: RolloverMember[];
+  skipped: RolloverMember[];
+  removedRoles: RolloverRoleRemoval[];
+};
+
+export type RolloverRecord = {
+  id: number;
+  academic_year: string;
+  promoted_count: number;
+  graduated_count: number;
+  roles_removed_count: number;
+  created_by_name: string | null;
+  created_at: string;
+  undone_by_name: string | null;
+  undone_at: string | null;
+};
+
+type MemberRoleRow = {
+  member_id: number;
+  role_id: number;
+  role_name: string;
+  assigned_at: string | null;
+  assigned_by: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+};
+
+type RolloverSnapshot = {
+  forms: { id: number; form_class: string | null }[];
+  removedRoles: MemberRoleRow[];
+  alumniGrants: number[];
+};
+
+// The class number a student keeps when moving up, or undefined for classes
+// that aren't numbered ("6A-2" gives "2").
+function classNumber(className: string | null, form: FormRecord): string | undefined {
+  const prefix = `${form.code}-`.toUpperCase();
+  const upper = (className || "").toUpperCase();
+  const rest = upper.startsWith(prefix) ? upper.slice(prefix.length) : "";
+  return /^\d+$/.test(rest) ? rest : undefined;
+}
+
+export async function planYearRollover(): Promise<RolloverPlan> {
+  const db = await getDatabase();
+  const forms = await getForms();
+  const formById = new Map(forms.map(form => [form.id, form]));
+
+  const students = db.prepare(`
+    SELECT DISTINCT m.id, m.full_name, m.email, m.form_class, c.form_id
+    FROM members m
+    INNER JOIN member_roles mr ON mr.member_id = m.id
+    INNER JOIN roles r ON r.id = mr.role_id
+    LEFT JOIN classes c ON c.id = m.class_id
+    WHERE r.role_name = 'student' AND ${ACTIVE_ASSIGNMENT_SQL}
+    ORDER BY m.form_class ASC, m.full_name ASC
+  `).all() as RolloverMember[];
+
+  const plan: RolloverPlan = { transitions: [], promoted: [], graduating: [], skipped: [], removedRoles: [] };
+  const transitionCounts = new Map<number, number>();
+
+  for (const student of students) {
+    const form = student.form_id ? formById.get(student.form_id) : undefined;
+    const nextForm = form?.next_form_id ? formById.get(form.next_form_id) : undefined;
+    const number = form ? classNumber(student.form_class, form) : undefined;
+
+    if (form && !nextForm) {
+      plan.graduating.push({ ...student, next_form_class: null });
+    } else if (form && nextForm && number) {
+      plan.promoted.push({ ...student, next_form_class: `${nextForm.code}-${number}` });
+    } else {
+      plan.skipped.push({ ...student, next_form_class: null });
+      continue;
+    }
+
+    transitionCounts.set(form.id, (transitionCounts.get(form.id) || 0) + 1);
+  }
+
+  plan.transitions = forms.map(form => ({
+    from: form.code,
+    to: (form.next_form_id && formById.get(form.next_form_id)?.code) || "Alumni",
+    count: transitionCounts.get(form.id) || 0
+  }));
+
+  plan.removedRoles = db.prepare(`
+    SELECT mr.member_id, m.full_name, r.role_name, r.display_name
+    FROM member_roles mr
+    INNER JOIN members m ON m.id = mr.member_id
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE r.resets_yearly = 1 AND mr.deactivated_at IS NULL
+    ORDER BY r.role_name ASC, m.full_name ASC
+  `).all() as RolloverRoleRemoval[];
+
+  return plan;
+}
+
+export async function applyYearRollover(academicYear: string, actorId: number): Promise<{ id: number; plan: RolloverPlan }> {
+  const plan = await planYearRollover();
+  const db = await getDatabase();
+
+  // Target classes such as "6B-4" may not have a row yet.
+  for (const className of new Set(plan.promoted.map(student => student.next_form_class))) {
+    await resolveClass(className, { create: true });
+  }
+
+  const alumniRole = db.prepare(`SELECT id FROM roles WHERE role_name = 'alumni'`).get() as { id: number };
+  const roleRowColumns = `mr.member_id, mr.role_id, r.role_name, mr.assigned_at, mr.assigned_by, mr.starts_at, mr.expires_at`;
+  const selectYearlyRoles = db.prepare(`
+    SELECT ${roleRowColumns}
+    FROM member_roles mr
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE r.resets_yearly = 1 AND mr.deactivated_at IS NULL
+  `);
+  const selectStudentRole = db.prepare(`
+    SELECT ${roleRowColumns}
+    FROM member_roles mr
+    INNER JOIN roles r ON r.id = mr.role_id
+    WHERE r.role_name = 'student' AND mr.member_id = ?
+  `);
+  const deleteRoleRow = db.prepare(`DELETE FROM member_roles WHERE member_id = ? AND role_id = ?`);
+  const setFormClass = db.prepare(`
+    UPDATE members
+    SET form_class = ?, class_id = (SELECT id FROM classes WHERE name = ?), updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  const grantAlumni = db.prepare(`
+    INSERT OR IGNORE INTO member_roles (member_id, role_id, assigned_by) VALUES (?, ?, ?)
+  `);
+
+  const snapshot: RolloverSnapshot = { forms: [], removedRoles: [], alumniGrants: [] };
+
+  const id = db.transaction(() => {
+    // Per-year roles for everyone, plus the student role of each graduate.
+    const removed = selectYearlyRoles.all() as MemberRoleRow[];
+    for (const student of plan.graduating) {
+      const studentRole = selectStudentRole.get(student.id) as MemberRoleRow | undefined;
+      if (studentRole) removed.push(studentRole);
+    }
+
+    for (const row of removed) {
+      deleteRoleRow.run(row.member_id, row.role_id);
+      snapshot.removedRoles.push(row);
+    }
+
+    for (const student of plan.promoted) {
+      setFormClass.run(student.next_form_class, student.next_form_class, student.id);
+      snapshot.forms.push({ id: student.id, form_class: student.form_class });
+    }
+
+    for (const student of plan.graduating) {
+      setFormClass.run(null, null, student.id);
+      snapshot.forms.push({ id: student.id, form_class: student.form_class });
+      if (grantAlumni.run(student.id, alumniRole.id, actorId).changes > 0) {
+        snapshot.alumniGrants.push(student.id);
+      }
+    }
+
+    return Number(db.prepare(`
+      INSERT INTO year_rollovers (academic_year, snapshot, promoted_count, graduated_count, roles_removed_count, created_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      academicYear,
+      JSON.stringify(snapshot),
+      plan.promoted.length,
+      plan.graduating.length,
+      snapshot.removedRoles.length,
+      actorId
+    ).lastInsertRowid);
+  })();
+
+  const reason = `${ROLLOVER_REASON} ${academicYear}`;
+  for (const row of snapshot.removedRoles) {
+    await recordRoleChange({ memberId: row.member_id, roleName: row.role_name, action: "revoke", actorId, reason });
+  }
+  for (const memberId of snapshot.alumniGrants) {
+    await recordRoleChange({ memberId, roleName: "alumni", action: "grant", actorId, reason });
+  }
+
+  console.log(`[Rollover] Member ${actorId} rolled over ${academicYear}: ${plan.promoted.length} promoted, ${plan.graduating.length} graduated`);
+  return { id, plan };
+}
+
+export async function listYearRollovers(): Promise<RolloverRecord[]> {
+  const db = await getDatabase();
+  return db.prepare(`
+    SELECT y.id, y.academic_year, y.promoted_count, y.graduated_count, y.roles_removed_count,
+           y.created_at, y.undone_at,
+           c.full_name AS created_by_name, u.full_name AS undone_by_name
+    FROM year_rollovers y
+    LEFT JOIN members c ON c.id = y.created_by
+    LEFT JOIN members u ON u.id = y.undone_by
+    ORDER BY y.id DESC
+  `).all() as RolloverRecord[];
+}
+
+// Only the latest rollover that hasn't been undone can be reversed, so
+// snapshots are always unwound in order. Form classes edited by hand since the
+// rollover are put back to their pre-rollover value too.
+export async function undoYearRollover(id: number, actorId: number): Promise<{ success: boolean; error?: string }> {
+  const db = await getDatabase();
+  const latest = db.prepare(`
+    SELECT id, academic_year, snapshot FROM year_rollovers
+    WHERE undone_at IS NULL
+    ORDER BY id DESC LIMIT 1
+  `).get() as { id: number; academic_year: string; snapshot: string } | undefined;
+
+  if (!latest || latest.id !== id) {
+    return { success: false, error: "Only the most recent rollover can be undone" };
+  }
+
+  const snapshot = JSON.parse(latest.snapshot) as RolloverSnapshot;
+  const alumniRole = db.prepare(`SELECT id FROM roles WHERE role_name = 'alumni'`).get() as { id: number };
+  const restoredRoles: MemberRoleRow[] = [];
+
+  const undone = db.transaction(() => {
+    const claimed = db.prepare(`
+      UPDATE year_rollovers SET undone_at = CURRENT_TIMESTAMP, undone_by = ?
+      WHERE id = ? AND undone_at IS NULL
+    `).run(actorId, id);
+    if (claimed.changes === 0) {
+      return false;
+    }
+
+    const setFormClass = db.prepare(`
+      UPDATE members
+      SET form_class = ?, class_id = (SELECT id FROM classes WHERE name = ?), updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+    for (const member of snapshot.forms) {
+      setFormClass.run(member.form_class, member.form_class, member.id);
+    }
+
+    const revokeAlumni = db.prepare(`DELETE FROM member_roles WHERE member_id = ? AND role_id = ?`);
+    for (const memberId of snapshot.alumniGrants) {
+      revokeAlumni.run(memberId, alumniRole.id);
+    }
+
+    // Members or roles deleted since the rollover are skipped, as are roles
+    // that have been granted again in the meantime.
+    const restore = db.prepare(`
+      INSERT OR IGNORE INTO member_roles (member_id, role_id, assigned_at, assigned_by, starts_at, expires_at)
+      SELECT ?, ?, ?, ?, ?, ?
+      WHERE EXISTS (SELECT 1 FROM members WHERE id = ?) AND EXISTS (SELECT 1 FROM roles WHERE id = ?)
+    `);
+    for (const row of snapshot.removedRoles) {
+      const result = restore.run(row.member_id, row.role_id, row.assigned_at, row.assigned_by, row.starts_at, row.expires_at, row.member_id, row.role_id);
+      if (result.changes > 0) {
+        restoredRoles.push(row);
+      }
+    }
+
+    return true;
+  })();
+
+  if (!undone) {
+    return { success: false, error: "This rollover has already been undone" };
+  }
+
+  const reason = `Undo of ${ROLLOVER_REASON.toLowerCase()} ${latest.academic_year}`;
+  for (const memberId of snapshot.alumniGrants) {
+    await recordRoleChange({ memberId, roleName: "alumni", action: "revoke", actorId, reason });
+  }
+  for (const row of restoredRoles) {
+    await recordRoleChange({ memberId: row.member_id, roleName: row.role_name, action: "grant", actorId, reason, startsAt: row.starts_at, expiresAt: row.expires_at });
+  }
+
+  console.log(`[Rollover] Member ${actorId} undid the ${latest.academic_year} rollover`);
+  return { success: true };
+}
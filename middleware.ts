@@ -1,9 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE_NAME, LOGIN_PATH, PATHNAME_HEADER, isPublicPath, isWellFormedSessionToken } from './lib/auth-config';
 
-export async function middleware(req: NextRequest) {
-    return NextResponse.next()
+// Runs on the Edge runtime, so it can't reach the database. It turns away
+// requests without a plausible session cookie; the session, 2FA and route
+// permissions are checked against the database by requirePageAccess in the
+// section layouts, and by fetchCurrentUser / guardApiRoute in actions and
+// API handlers.
+
+function unauthenticated(req: NextRequest) {
+    const { pathname, search } = req.nextUrl;
+
+    if (pathname.startsWith("/api/")) {
+        return NextResponse.json(
+            { success: false, error: "Not authenticated" },
+            { status: 401 }
+        );
+    }
+
+    const loginUrl = new URL(LOGIN_PATH, req.url);
+    loginUrl.searchParams.set("next", pathname + search);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+}
+
+export function middleware(req: NextRequest) {
+    const { pathname } = req.nextUrl;
+
+    const requestHeaders = new Headers(req.headers);
+    requestHeaders.set(PATHNAME_HEADER, pathname);
+    const next = () => NextResponse.next({ request: { headers: requestHeaders } });
+
+    if (isPublicPath(pathname)) {
+        return next();
+    }
+
+    if (!isWellFormedSessionToken(req.cookies.get(SESSION_COOKIE_NAME)?.value)) {
+        return unauthenticated(req);
+    }
+
+    return next();
 }
 
 export const config = {
-    matcher: ["/:path*"],
-};
\ No newline at end of file
+    matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|svg|ico)$).*)"],
+};